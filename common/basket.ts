@@ -0,0 +1,169 @@
+import { RoundingMode, StatusName } from './constants'
+import { fix, Fix } from './fixed'
+
+// A model of BasketHandlerP1._switchBasket(): the reference basket that refreshBasket() selects
+// from the basket configuration and the state of the collateral, as `hardhat basket:simulate` shows.
+//
+// Each good prime collateral keeps its target amount. The target amount of the prime collateral
+// that is not good is redistributed evenly over the first `max` good collateral in the backup
+// config of its target name, where `max` is the backup config's diversityFactor. When a target
+// name needs backup collateral and has none, the basket is disabled and stays as it was.
+
+const { CEIL } = RoundingMode
+
+// Amounts are decimal strings of their raw D18 values
+export interface IBasketCollateral {
+  erc20: string
+  symbol: string
+  targetName: string // e.g. 'USD'
+  status: StatusName
+  refPerTok: string // {ref/tok}
+  targetPerRef: string // {target/ref}
+}
+
+export interface IReferenceBasket {
+  erc20s: string[]
+  refAmts: string[] // {ref/BU}
+}
+
+export interface IBasketSnapshot {
+  block: number
+  rsr: string
+  rToken: string
+  stRSR: string
+  nonce: number
+  basket: IReferenceBasket // the current basket
+  // As last set, with targetAmts {target/BU} and the target names of the collateral at the time
+  primeBasket: { erc20s: string[]; targetAmts: string[]; targetNames: string[] }
+  backups: { [targetName: string]: { max: number; erc20s: string[] } }
+  collateral: IBasketCollateral[] // the registered collateral
+}
+
+// The weight of a target name in the new basket
+export interface ITargetWeights {
+  targetName: string
+  configured: string // {target/BU} in the prime basket
+  good: string // {target/BU} of the good prime collateral
+  backup: string // {target/BU} redistributed over `backupERC20s`
+  backupERC20s: string[]
+}
+
+export interface ISimulatedBasket extends IReferenceBasket {
+  nonce: number
+  disabled: boolean
+  targets: ITargetWeights[]
+}
+
+// @return The basket that refreshBasket() selects, as in its BasketSet event
+export const simulateBasket = (snapshot: IBasketSnapshot): ISimulatedBasket => {
+  const collateral = new Map(snapshot.collateral.map((c) => [c.erc20, c]))
+  const systemTokens = [snapshot.rsr, snapshot.rToken, snapshot.stRSR]
+
+  // Good collateral is registered, not DISABLED, has the expected targetName, and has nonzero
+  // targetPerRef() and refPerTok()
+  const goodCollateral = (targetName: string, erc20: string): boolean => {
+    const coll = collateral.get(erc20)
+    if (!coll || systemTokens.includes(erc20)) return false
+    return (
+      coll.targetName == targetName &&
+      coll.status != 'DISABLED' &&
+      fix(coll.refPerTok).gt(Fix.ZERO) &&
+      fix(coll.targetPerRef).gt(Fix.ZERO)
+    )
+  }
+
+  const erc20s: string[] = []
+  const refAmts = new Map<string, Fix>()
+  const add = (erc20: string, weight: Fix) => {
+    if (weight.eq(Fix.ZERO)) return
+    const refAmt = refAmts.get(erc20)
+    if (!refAmt) erc20s.push(erc20)
+    refAmts.set(erc20, refAmt ? refAmt.plus(weight) : weight)
+  }
+
+  // Target names, in the order of their first prime collateral
+  const { primeBasket } = snapshot
+  const targetNames = [...new Set(primeBasket.targetNames)]
+  const goodWeights = targetNames.map(() => Fix.ZERO)
+  const totalWeights = targetNames.map(() => Fix.ZERO)
+
+  primeBasket.erc20s.forEach((erc20, i) => {
+    const targetIndex = targetNames.indexOf(primeBasket.targetNames[i])
+    const targetWeight = fix(primeBasket.targetAmts[i])
+    totalWeights[targetIndex] = totalWeights[targetIndex].plus(targetWeight)
+
+    if (goodCollateral(primeBasket.targetNames[i], erc20) && targetWeight.gt(Fix.ZERO)) {
+      goodWeights[targetIndex] = goodWeights[targetIndex].plus(targetWeight)
+      add(
+        erc20,
+        targetWeight.div(fix((<IBasketCollateral>collateral.get(erc20)).targetPerRef), CEIL)
+      )
+    }
+  })
+
+  let disabled = false
+  const targets: ITargetWeights[] = targetNames.map((targetName, i) => {
+    const weights: ITargetWeights = {
+      targetName,
+      configured: totalWeights[i].toBigNumber().toString(),
+      good: goodWeights[i].toBigNumber().toString(),
+      backup: '0',
+      backupERC20s: [],
+    }
+    if (totalWeights[i].lte(goodWeights[i])) return weights
+
+    // The first `max` good backup collateral
+    const backup = snapshot.backups[targetName] || { max: 0, erc20s: [] }
+    const backups = backup.erc20s.filter((e) => goodCollateral(targetName, e)).slice(0, backup.max)
+    if (backups.length == 0) disabled = true
+
+    const needed = totalWeights[i].minus(goodWeights[i])
+    for (const erc20 of backups) {
+      const targetPerRef = fix((<IBasketCollateral>collateral.get(erc20)).targetPerRef)
+      add(erc20, needed.div(targetPerRef.mulu(backups.length), CEIL))
+    }
+    return { ...weights, backup: needed.toBigNumber().toString(), backupERC20s: backups }
+  })
+  if (erc20s.length == 0) disabled = true
+
+  // A disabled basket is left as it was
+  if (disabled) return { ...snapshot.basket, nonce: snapshot.nonce, disabled, targets }
+  return {
+    nonce: snapshot.nonce + 1,
+    erc20s,
+    refAmts: erc20s.map((e) => (<Fix>refAmts.get(e)).toBigNumber().toString()),
+    disabled,
+    targets,
+  }
+}
+
+export const formatSimulatedBasket = (
+  snapshot: IBasketSnapshot,
+  simulated: ISimulatedBasket
+): string => {
+  const symbols = new Map(snapshot.collateral.map((c) => [c.erc20, c.symbol]))
+  const symbol = (erc20: string) => symbols.get(erc20) || erc20
+  const entries = (basket: IReferenceBasket) =>
+    basket.erc20s.map((e, i) => `  ${symbol(e)}: ${fix(basket.refAmts[i]).toString()} ref/BU`)
+
+  const lines = [`Basket at block ${snapshot.block}, nonce ${snapshot.nonce}:`]
+  lines.push(...entries(snapshot.basket), '')
+  if (simulated.disabled) {
+    lines.push(`refreshBasket() disables the basket, and leaves it as it is`)
+  } else {
+    lines.push(`refreshBasket() sets basket ${simulated.nonce}:`, ...entries(simulated))
+  }
+
+  lines.push('', 'Target weights:')
+  for (const t of simulated.targets) {
+    let line = `  ${t.targetName}: ${fix(t.configured).toString()} per BU`
+    if (t.backup != '0') {
+      const backups = t.backupERC20s.length
+        ? `over ${t.backupERC20s.map(symbol).join(', ')}`
+        : 'with no good backup collateral'
+      line += `, of which ${fix(t.backup).toString()} redistributed ${backups}`
+    }
+    lines.push(line)
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,237 @@
+import { BigNumber, BigNumberish, ethers } from 'ethers'
+import {
+  IConfig,
+  IGovParams,
+  IRevenueShare,
+  IRTokenConfig,
+  IRTokenSetup,
+  MAX_AUCTION_LENGTH,
+  MAX_BACKING_BUFFER,
+  MAX_ISSUANCE_RATE,
+  MAX_LONG_FREEZE,
+  MAX_MIN_TRADE_VOLUME,
+  MAX_PERIOD,
+  MAX_PROPOSAL_THRESHOLD,
+  MAX_QUORUM_PERCENT,
+  MAX_RATIO,
+  MAX_REVENUE_SHARE,
+  MAX_SCALING_REDEMPTION_RATE,
+  MAX_SHORT_FREEZE,
+  MAX_TARGET_AMT,
+  MAX_TRADE_SLIPPAGE,
+  MAX_TRADE_VOLUME,
+  MAX_TRADING_DELAY,
+  MAX_UNSTAKING_DELAY,
+} from './configuration'
+
+// Validates deployment configuration against the bounds the contracts enforce, so that a bad
+// config is caught before any transaction reverts. Each validator returns every violation it
+// finds, as human-readable strings; an empty list means the config is valid.
+
+type Formatter = (x: BigNumber) => string
+
+// ==== Units ====
+
+const fmtNumber = (x: number) => x.toLocaleString('en-US', { maximumFractionDigits: 4 })
+
+// D18{1}, 1e18 == 100%
+const percent: Formatter = (x) => `${ethers.utils.formatEther(x.mul(100))}%`
+
+// D18{UoA}
+const uoa: Formatter = (x) => `$${ethers.utils.formatEther(x)}`
+
+// D18{RTok}
+const rTokens: Formatter = (x) => `${ethers.utils.formatEther(x)} RToken`
+
+// D18{target/BU}
+const targetAmt: Formatter = (x) => `${ethers.utils.formatEther(x)} target units`
+
+const seconds: Formatter = (x) => {
+  const s = Number(x.toString())
+  if (Math.abs(s) >= 86400) return `${s}s (${fmtNumber(s / 86400)} days)`
+  if (Math.abs(s) >= 3600) return `${s}s (${fmtNumber(s / 3600)} hours)`
+  return `${s}s`
+}
+
+const blocks: Formatter = (x) => `${x} blocks`
+
+const shares: Formatter = (x) => `${x} shares`
+
+// {micro %}, 1e6 == 1%
+const microPercent: Formatter = (x) => `${fmtNumber(Number(x.toString()) / 1e6)}%`
+
+const plainPercent: Formatter = (x) => `${x}%`
+
+const plain: Formatter = (x) => x.toString()
+
+// ==== Checks ====
+
+interface IRange {
+  min?: BigNumberish // inclusive; defaults to 0, since all params are unsigned
+  max?: BigNumberish // inclusive
+  above?: BigNumberish // exclusive lower bound
+  below?: BigNumberish // exclusive upper bound
+}
+
+const checkRange = (
+  violations: string[],
+  field: string,
+  value: BigNumber,
+  fmt: Formatter,
+  range: IRange
+) => {
+  const fail = (bound: string) => violations.push(`${field} is ${fmt(value)}, must be ${bound}`)
+
+  const min = BigNumber.from(range.min ?? 0)
+  if (range.above !== undefined && value.lte(range.above)) {
+    fail(`more than ${fmt(BigNumber.from(range.above))}`)
+  } else if (value.lt(min)) fail(`at least ${fmt(min)}`)
+
+  if (range.below !== undefined && value.gte(range.below)) {
+    fail(`less than ${fmt(BigNumber.from(range.below))}`)
+  } else if (range.max !== undefined && value.gt(range.max)) {
+    fail(`at most ${fmt(BigNumber.from(range.max))}`)
+  }
+}
+
+const checkAddress = (violations: string[], field: string, addr: string) => {
+  if (!ethers.utils.isAddress(addr)) violations.push(`${field} is not an address: '${addr}'`)
+  else if (addr == ethers.constants.AddressZero) violations.push(`${field} is the zero address`)
+}
+
+// ==== Validators ====
+
+export const validateRevenueShare = (share: IRevenueShare, field = 'dist'): string[] => {
+  const violations: string[] = []
+  checkRange(violations, `${field}.rTokenDist`, share.rTokenDist, shares, {
+    max: MAX_REVENUE_SHARE,
+  })
+  checkRange(violations, `${field}.rsrDist`, share.rsrDist, shares, { max: MAX_REVENUE_SHARE })
+  if (share.rTokenDist.eq(0) && share.rsrDist.eq(0)) {
+    violations.push(`${field} distributes nothing, rTokenDist or rsrDist must be nonzero`)
+  }
+  return violations
+}
+
+export const validateConfig = (config: IConfig, field = 'params'): string[] => {
+  const violations = validateRevenueShare(config.dist, `${field}.dist`)
+  const check = (name: keyof IConfig, fmt: Formatter, range: IRange) =>
+    checkRange(violations, `${field}.${name}`, <BigNumber>config[name], fmt, range)
+
+  check('minTradeVolume', uoa, { max: MAX_MIN_TRADE_VOLUME })
+  check('rTokenMaxTradeVolume', uoa, { above: 0, max: MAX_TRADE_VOLUME })
+  check('shortFreeze', seconds, { above: 0, max: MAX_SHORT_FREEZE })
+  check('longFreeze', seconds, { above: 0, max: MAX_LONG_FREEZE })
+  check('rewardPeriod', seconds, { above: 0, max: MAX_PERIOD })
+  check('rewardRatio', percent, { max: MAX_RATIO })
+  check('unstakingDelay', seconds, { above: 0, max: MAX_UNSTAKING_DELAY })
+  check('tradingDelay', seconds, { max: MAX_TRADING_DELAY })
+  check('auctionLength', seconds, { above: 0, max: MAX_AUCTION_LENGTH })
+  check('backingBuffer', percent, { max: MAX_BACKING_BUFFER })
+  check('maxTradeSlippage', percent, { below: MAX_TRADE_SLIPPAGE })
+  check('issuanceRate', percent, { above: 0, max: MAX_ISSUANCE_RATE })
+  check('scalingRedemptionRate', percent, { max: MAX_SCALING_REDEMPTION_RATE })
+  check('redemptionRateFloor', rTokens, {})
+
+  // StRSR needs at least 2 reward periods per unstaking delay
+  if (config.rewardPeriod.mul(2).gt(config.unstakingDelay)) {
+    violations.push(
+      `${field}.unstakingDelay is ${seconds(config.unstakingDelay)}, must be at least twice ` +
+        `${field}.rewardPeriod (${seconds(config.rewardPeriod)})`
+    )
+  }
+  return violations
+}
+
+export const validateRTokenConfig = (rTokenConfig: IRTokenConfig): string[] => {
+  const violations: string[] = []
+  for (const name of <const>['name', 'symbol', 'mandate']) {
+    if (rTokenConfig[name].length == 0) violations.push(`${name} is empty`)
+  }
+  return violations.concat(validateConfig(rTokenConfig.params))
+}
+
+export const validateRTokenSetup = (setup: IRTokenSetup): string[] => {
+  const violations: string[] = []
+
+  setup.assets.forEach((addr, i) => checkAddress(violations, `assets[${i}]`, addr))
+
+  // Primary basket
+  if (setup.primaryBasket.length == 0) violations.push('primaryBasket is empty')
+  if (setup.primaryBasket.length != setup.weights.length) {
+    violations.push(
+      `primaryBasket has ${setup.primaryBasket.length} collateral but weights has ` +
+        `${setup.weights.length} entries`
+    )
+  }
+  setup.primaryBasket.forEach((addr, i) => checkAddress(violations, `primaryBasket[${i}]`, addr))
+  const basket = setup.primaryBasket.map((addr) => addr.toLowerCase())
+  if (new Set(basket).size != basket.length) violations.push('primaryBasket contains duplicates')
+
+  setup.weights.forEach((weight, i) =>
+    checkRange(violations, `weights[${i}]`, weight, targetAmt, { above: 0, max: MAX_TARGET_AMT })
+  )
+  const totalWeight = setup.weights.reduce((sum, w) => sum.add(w), BigNumber.from(0))
+  checkRange(violations, 'weights sum', totalWeight, targetAmt, { max: MAX_TARGET_AMT })
+
+  // Backups
+  setup.backups.forEach((backup, i) => {
+    if (backup.backupCollateral.length == 0)
+      violations.push(`backups[${i}].backupCollateral is empty`)
+    backup.backupCollateral.forEach((addr, j) =>
+      checkAddress(violations, `backups[${i}].backupCollateral[${j}]`, addr)
+    )
+    if (!ethers.utils.isHexString(backup.backupUnit, 32)) {
+      violations.push(`backups[${i}].backupUnit is not a bytes32 target name`)
+    } else if (BigNumber.from(backup.backupUnit).eq(0)) {
+      violations.push(`backups[${i}].backupUnit is empty`)
+    }
+    checkRange(violations, `backups[${i}].diversityFactor`, backup.diversityFactor, plain, {})
+  })
+
+  // Beneficiaries
+  setup.beneficiaries.forEach((b, i) => {
+    checkAddress(violations, `beneficiaries[${i}].beneficiary`, b.beneficiary)
+    violations.push(...validateRevenueShare(b.revShare, `beneficiaries[${i}].revShare`))
+  })
+
+  return violations
+}
+
+export const validateGovParams = (gov: IGovParams): string[] => {
+  const violations: string[] = []
+  checkRange(violations, 'votingDelay', gov.votingDelay, blocks, {})
+  checkRange(violations, 'votingPeriod', gov.votingPeriod, blocks, { above: 0 })
+  checkRange(
+    violations,
+    'proposalThresholdAsMicroPercent',
+    gov.proposalThresholdAsMicroPercent,
+    microPercent,
+    {
+      max: MAX_PROPOSAL_THRESHOLD,
+    }
+  )
+  checkRange(violations, 'quorumPercent', gov.quorumPercent, plainPercent, {
+    above: 0,
+    max: MAX_QUORUM_PERCENT,
+  })
+  checkRange(violations, 'timelockDelay', gov.timelockDelay, seconds, {})
+  return violations
+}
+
+// Throws with every violation found, if any
+export const assertValidRToken = (
+  rTokenConfig: IRTokenConfig,
+  setup?: IRTokenSetup,
+  gov?: IGovParams
+) => {
+  const violations = validateRTokenConfig(rTokenConfig)
+    .concat(setup ? validateRTokenSetup(setup) : [])
+    .concat(gov ? validateGovParams(gov) : [])
+
+  if (violations.length > 0) {
+    throw new Error(
+      `Invalid configuration for RToken ${rTokenConfig.symbol}:\n  ${violations.join('\n  ')}`
+    )
+  }
+}
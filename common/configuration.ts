@@ -1,6 +1,6 @@
 import { BigNumber } from 'ethers'
 
-interface ICurrencies {
+export interface ICurrencies {
   ETH?: string
   BTC?: string
   EUR?: string
@@ -308,6 +308,8 @@ export const MAX_RATIO = BigNumber.from(10).pow(18)
 export const MAX_ISSUANCE_RATE = BigNumber.from(10).pow(18)
 export const MAX_TRADE_VOLUME = BigNumber.from(10).pow(48)
 export const MAX_MIN_TRADE_VOLUME = BigNumber.from(10).pow(29)
+export const MAX_SCALING_REDEMPTION_RATE = BigNumber.from(10).pow(18)
+export const MAX_REVENUE_SHARE = 10000
 
 // Timestamps
 export const MAX_ORACLE_TIMEOUT = BigNumber.from(2).pow(48).sub(1)
@@ -315,3 +317,9 @@ export const MAX_TRADING_DELAY = 31536000 // 1 year
 export const MAX_AUCTION_LENGTH = 604800 // 1 week
 export const MAX_PERIOD = 31536000 // 1 year
 export const MAX_UNSTAKING_DELAY = 31536000 // 1 year
+export const MAX_SHORT_FREEZE = 2592000 // 1 month
+export const MAX_LONG_FREEZE = 31536000 // 1 year
+
+// Governance
+export const MAX_PROPOSAL_THRESHOLD = 1e8 // 100%, in micro %
+export const MAX_QUORUM_PERCENT = 100
@@ -1,5 +1,4 @@
-import { ethers } from 'hardhat'
-import { BigNumber } from 'ethers'
+import { BigNumber, ethers } from 'ethers'
 
 export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
 export const ONE_ADDRESS = '0x0000000000000000000000000000000000000001'
@@ -23,6 +22,9 @@ export enum CollateralStatus {
   DISABLED,
 }
 
+// The name of a CollateralStatus, e.g. 'SOUND'
+export type StatusName = keyof typeof CollateralStatus
+
 // @dev Must match `Governance.ProposalState`.
 export enum ProposalState {
   Pending,
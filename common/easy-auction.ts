@@ -0,0 +1,279 @@
+import { BigNumber, utils } from 'ethers'
+
+// A model of the Gnosis EasyAuction that GnosisTrade sells through: the clearing of an auction's
+// orderbook by settleAuction(), and what claimFromParticipantOrder() pays out for each order, as
+// `hardhat auction:simulate` and `hardhat auction:bid` use.
+//
+// In EasyAuction terms the auctioneer sells the auctioning token, and bidders "sell" the bidding
+// token: each order offers `sellAmount` bidding tokens for at least `buyAmount` auctioning tokens.
+// Orders are filled from the best price down, and all at the single clearing price.
+
+// @dev Must match `IterableOrderedOrderSet.QUEUE_START` in EasyAuction.sol.
+export const QUEUE_START = '0x0000000000000000000000000000000000000000000000000000000000000001'
+export const FEE_DENOMINATOR = 1000
+
+const D18 = BigNumber.from(10).pow(18)
+const UINT96_MASK = BigNumber.from(1).shl(96).sub(1)
+
+export interface IOrder {
+  userId: number
+  buyAmount: BigNumber // {qAuctTok}, or the auctioneer's min buy amount {qBidTok}
+  sellAmount: BigNumber // {qBidTok}, or the auctioneer's sell amount {qAuctTok}
+}
+
+export interface IAuction {
+  auctionId: number
+  auctioningToken: string
+  biddingToken: string
+  orderCancellationEndDate: number // {s}
+  auctionEndDate: number // {s}
+  auctioneer: IOrder // the initial auction order
+  minimumBiddingAmountPerOrder: BigNumber // {qBidTok}
+  minFundingThreshold: BigNumber // {qBidTok}
+  feeNumerator: BigNumber // of FEE_DENOMINATOR, as when the auction was initiated
+}
+
+export const encodeOrder = ({ userId, buyAmount, sellAmount }: IOrder): string =>
+  utils.hexZeroPad(
+    BigNumber.from(userId).shl(192).add(buyAmount.shl(96)).add(sellAmount).toHexString(),
+    32
+  )
+
+export const decodeOrder = (order: string): IOrder => {
+  const data = BigNumber.from(order)
+  return {
+    userId: data.shr(192).toNumber(),
+    buyAmount: data.shr(96).and(UINT96_MASK),
+    sellAmount: data.and(UINT96_MASK),
+  }
+}
+
+// As IterableOrderedOrderSet.smallerThan(): by price buyAmount/sellAmount, then by buyAmount,
+// then by userId. Smaller orders are better bids, and are filled first
+export const smallerThan = (left: IOrder, right: IOrder): boolean => {
+  const leftPrice = left.buyAmount.mul(right.sellAmount)
+  const rightPrice = right.buyAmount.mul(left.sellAmount)
+  if (!leftPrice.eq(rightPrice)) return leftPrice.lt(rightPrice)
+  if (!left.buyAmount.eq(right.buyAmount)) return left.buyAmount.lt(right.buyAmount)
+  if (left.userId == right.userId) throw new Error('user is not allowed to place same order twice')
+  return left.userId < right.userId
+}
+
+// The orders in the order of the auction's orderbook
+export const sortOrders = <T extends IOrder>(orders: T[]): T[] =>
+  [...orders].sort((a, b) => (smallerThan(a, b) ? -1 : smallerThan(b, a) ? 1 : 0))
+
+// The largest order of `orders` that is smaller than `order`, to insert it after
+export const prevOrder = (orders: IOrder[], order: IOrder): string => {
+  const before = sortOrders(orders).filter((o) => smallerThan(o, order))
+  return before.length ? encodeOrder(before[before.length - 1]) : QUEUE_START
+}
+
+// ==== Clearing ====
+
+export interface IOrderFill<T extends IOrder = IOrder> {
+  order: T
+  auctioningTokens: BigNumber // {qAuctTok} bought
+  biddingTokens: BigNumber // {qBidTok} refunded
+}
+
+export interface IClearing<T extends IOrder = IOrder> {
+  clearingPriceOrder: IOrder // price as buyAmount {qAuctTok} / sellAmount {qBidTok}
+  volumeClearingPriceOrder: BigNumber // {qBidTok} filled of the clearing order, if it is one
+  soldAuctioningTokens: BigNumber // {qAuctTok}
+  soldBiddingTokens: BigNumber // {qBidTok}
+  minFundingThresholdNotReached: boolean
+  auctioneer: { auctioningTokens: BigNumber; biddingTokens: BigNumber } // paid to the auctioneer
+  fills: IOrderFill<T>[] // in the order of the orderbook
+}
+
+// As EasyAuction.settleAuction(), then claimFromParticipantOrder() for each of `orders`
+export const clearAuction = <T extends IOrder>(auction: IAuction, orders: T[]): IClearing<T> => {
+  const { buyAmount: minAuctionedBuyAmount, sellAmount: fullAuctionedAmount } = auction.auctioneer
+  const book = sortOrders(orders)
+
+  let currentBidSum = BigNumber.from(0)
+  let currentOrder: IOrder | undefined
+  let buyAmountOfIter = BigNumber.from(0)
+  let sellAmountOfIter = BigNumber.from(0)
+  let fillVolumeOfAuctioneerOrder = fullAuctionedAmount
+  let volumeClearingPriceOrder = BigNumber.from(0)
+  let clearingPriceOrder: IOrder
+
+  // Sum orders up, until fullAuctionedAmount is fully bought or the book ends
+  for (const order of book) {
+    currentOrder = order
+    buyAmountOfIter = order.buyAmount
+    sellAmountOfIter = order.sellAmount
+    currentBidSum = currentBidSum.add(sellAmountOfIter)
+    if (currentBidSum.mul(buyAmountOfIter).gte(fullAuctionedAmount.mul(sellAmountOfIter))) break
+  }
+
+  if (
+    currentOrder &&
+    currentBidSum.gt(0) &&
+    currentBidSum.mul(buyAmountOfIter).gte(fullAuctionedAmount.mul(sellAmountOfIter))
+  ) {
+    // The orders fill the auction, at a price between the current order and the one before
+    const uncoveredBids = currentBidSum.sub(
+      fullAuctionedAmount.mul(sellAmountOfIter).div(buyAmountOfIter)
+    )
+    if (sellAmountOfIter.gte(uncoveredBids)) {
+      // Filled by a partial match of the current order
+      volumeClearingPriceOrder = sellAmountOfIter.sub(uncoveredBids)
+      currentBidSum = currentBidSum.sub(uncoveredBids)
+      clearingPriceOrder = currentOrder
+    } else {
+      // Filled at a price strictly between the current order and the one before
+      currentBidSum = currentBidSum.sub(sellAmountOfIter)
+      clearingPriceOrder = { userId: 0, buyAmount: fullAuctionedAmount, sellAmount: currentBidSum }
+    }
+  } else if (currentBidSum.gt(minAuctionedBuyAmount)) {
+    // A price above the last order fills the auction
+    clearingPriceOrder = { userId: 0, buyAmount: fullAuctionedAmount, sellAmount: currentBidSum }
+  } else {
+    // Even at the auctioneer's price, the auction is only partially filled
+    clearingPriceOrder = {
+      userId: 0,
+      buyAmount: fullAuctionedAmount,
+      sellAmount: minAuctionedBuyAmount,
+    }
+    fillVolumeOfAuctioneerOrder = currentBidSum.mul(fullAuctionedAmount).div(minAuctionedBuyAmount)
+  }
+  const minFundingThresholdNotReached = auction.minFundingThreshold.gt(currentBidSum)
+
+  // {qAuctTok/qBidTok} = priceNumerator / priceDenominator
+  const { buyAmount: priceNumerator, sellAmount: priceDenominator } = clearingPriceOrder
+  const clearing = encodeOrder(clearingPriceOrder)
+
+  // As processFeesAndAuctioneerFunds(), leaving out the fee receiver's share
+  const feeAmount = fullAuctionedAmount.mul(auction.feeNumerator).div(FEE_DENOMINATOR)
+  const unsettled = fullAuctionedAmount.sub(fillVolumeOfAuctioneerOrder)
+  const auctioneer = minFundingThresholdNotReached
+    ? { auctioningTokens: fullAuctionedAmount.add(feeAmount), biddingTokens: BigNumber.from(0) }
+    : {
+        auctioningTokens: unsettled.add(feeAmount.mul(unsettled).div(fullAuctionedAmount)),
+        biddingTokens: fillVolumeOfAuctioneerOrder.mul(priceDenominator).div(priceNumerator),
+      }
+
+  const fills = book.map((order): IOrderFill<T> => {
+    const zero = BigNumber.from(0)
+    if (minFundingThresholdNotReached) {
+      return { order, auctioningTokens: zero, biddingTokens: order.sellAmount }
+    } else if (encodeOrder(order) == clearing) {
+      return {
+        order,
+        auctioningTokens: volumeClearingPriceOrder.mul(priceNumerator).div(priceDenominator),
+        biddingTokens: order.sellAmount.sub(volumeClearingPriceOrder),
+      }
+    } else if (smallerThan(order, clearingPriceOrder)) {
+      return {
+        order,
+        auctioningTokens: order.sellAmount.mul(priceNumerator).div(priceDenominator),
+        biddingTokens: zero,
+      }
+    }
+    return { order, auctioningTokens: zero, biddingTokens: order.sellAmount }
+  })
+
+  return {
+    clearingPriceOrder,
+    volumeClearingPriceOrder,
+    soldAuctioningTokens: fillVolumeOfAuctioneerOrder,
+    soldBiddingTokens: currentBidSum,
+    minFundingThresholdNotReached,
+    auctioneer,
+    fills,
+  }
+}
+
+// ==== Bids ====
+
+// D18{qBidTok/qAuctTok} The price of an order, or of the clearing price order
+export const orderPrice = (order: IOrder): BigNumber =>
+  order.sellAmount.mul(D18).div(order.buyAmount)
+
+// D18{qBidTok/qAuctTok} The price of the auctioneer's order, that bids have to beat
+export const minimumPrice = (auction: IAuction): BigNumber =>
+  auction.auctioneer.buyAmount.mul(D18).div(auction.auctioneer.sellAmount)
+
+// An order of `userId` for `amount` {qAuctTok} at `price` D18{qBidTok/qAuctTok}, rounding the
+// bidding tokens up. Throws when EasyAuction would reject it
+export const bidOrder = (
+  auction: IAuction,
+  userId: number,
+  amount: BigNumber,
+  price: BigNumber
+): IOrder => {
+  const order = {
+    userId,
+    buyAmount: amount,
+    sellAmount: amount.mul(price).add(D18).sub(1).div(D18),
+  }
+
+  // As EasyAuction._placeSellOrders()
+  const { buyAmount: minBuyAmount, sellAmount: auctionedSellAmount } = auction.auctioneer
+  if (!order.buyAmount.mul(minBuyAmount).lt(auctionedSellAmount.mul(order.sellAmount))) {
+    throw new Error('The bid is not above the minimum price of the auction')
+  }
+  if (!order.sellAmount.gt(auction.minimumBiddingAmountPerOrder)) {
+    throw new Error('The bid is too small for the auction')
+  }
+  return order
+}
+
+// ==== Formatting ====
+
+export interface ITokenInfo {
+  address: string
+  symbol: string
+  decimals: number
+}
+
+// {bidTok/auctTok} The price of `order` in whole tokens
+export const formatPrice = (order: IOrder, auctioning: ITokenInfo, bidding: ITokenInfo): string =>
+  utils.formatUnits(
+    order.sellAmount.mul(BigNumber.from(10).pow(auctioning.decimals)).mul(D18).div(order.buyAmount),
+    bidding.decimals + 18
+  )
+
+export const formatAuctionSimulation = <T extends IOrder & { user?: string }>(
+  auction: IAuction,
+  clearing: IClearing<T>,
+  auctioning: ITokenInfo,
+  bidding: ITokenInfo
+): string => {
+  const auct = (amt: BigNumber) =>
+    `${utils.formatUnits(amt, auctioning.decimals)} ${auctioning.symbol}`
+  const bid = (amt: BigNumber) => `${utils.formatUnits(amt, bidding.decimals)} ${bidding.symbol}`
+  const { auctioneer } = auction
+
+  const lines = [
+    `Auction ${auction.auctionId}: ${auct(auctioneer.sellAmount)} for at least ` +
+      `${bid(auctioneer.buyAmount)}, ending at ${new Date(
+        auction.auctionEndDate * 1000
+      ).toISOString()}`,
+    '',
+    `Orders, best first (price in ${bidding.symbol} per ${auctioning.symbol}):`,
+  ]
+  for (const { order, auctioningTokens, biddingTokens } of clearing.fills) {
+    lines.push(
+      `  user ${order.userId}${order.user ? ` (${order.user})` : ''}: ${bid(order.sellAmount)} ` +
+        `for ${auct(order.buyAmount)} at ${formatPrice(order, auctioning, bidding)}, ` +
+        `gets ${auct(auctioningTokens)} and ${bid(biddingTokens)} back`
+    )
+  }
+  if (!clearing.fills.length) lines.push('  none')
+
+  lines.push('')
+  if (clearing.minFundingThresholdNotReached) {
+    lines.push(`The minimum funding of ${bid(auction.minFundingThreshold)} is not reached`)
+  }
+  lines.push(
+    `Clears at ${formatPrice(clearing.clearingPriceOrder, auctioning, bidding)}, selling ` +
+      `${auct(clearing.soldAuctioningTokens)} for ${bid(clearing.soldBiddingTokens)}`,
+    `The auctioneer gets ${bid(clearing.auctioneer.biddingTokens)} and ` +
+      `${auct(clearing.auctioneer.auctioningTokens)} back`
+  )
+  return lines.join('\n')
+}
@@ -0,0 +1,172 @@
+import fs from 'fs'
+import path from 'path'
+
+// The event history of an RToken, as indexed by `hardhat indexer:sync`, stored as JSON lines.
+//
+// The store only ever holds events of confirmed blocks, up to `lastBlock`. Events are appended
+// before `lastBlock` is advanced, so an interrupted sync can leave events past `lastBlock`; these
+// are dropped when the store is next opened, and indexed again.
+
+export type EventArg = string | boolean | EventArg[]
+
+export interface IIndexedEvent {
+  block: number
+  logIndex: number
+  txHash: string
+  timestamp: number // {s}
+  component: string // e.g. 'RToken', or 'RSRTrader'
+  contract: string
+  event: string
+  args: { [name: string]: EventArg } // amounts as decimal strings of their raw values
+}
+
+export interface IStoreState {
+  startBlock: number
+  lastBlock: number // the last block indexed, startBlock - 1 until the first sync
+}
+
+export interface IEventQuery {
+  events?: string[]
+  component?: string
+  fromBlock?: number
+  toBlock?: number
+}
+
+// A trade, from its TradeStarted event and its TradeSettled event once settled
+export interface ITradeRecord {
+  trader: string
+  trade: string
+  sell: string
+  buy: string
+  sellAmount: string // {qSellTok}
+  minBuyAmount: string // {qBuyTok}
+  startBlock: number
+  startTxHash: string
+  settleBlock?: number
+  buyAmount?: string // {qBuyTok} once settled
+}
+
+export class EventStore {
+  readonly dir: string
+  private state: IStoreState
+
+  private constructor(dir: string, state: IStoreState) {
+    this.dir = dir
+    this.state = state
+  }
+
+  // Opens the store in `dir`, creating it to index from `startBlock` if there is none
+  static open(dir: string, startBlock?: number): EventStore {
+    const statePath = path.join(dir, 'state.json')
+    if (!fs.existsSync(statePath)) {
+      if (startBlock === undefined) throw new Error(`No events indexed in ${dir} yet`)
+      fs.mkdirSync(dir, { recursive: true })
+      const store = new EventStore(dir, { startBlock, lastBlock: startBlock - 1 })
+      store.append([], startBlock - 1)
+      return store
+    }
+
+    const state = <IStoreState>JSON.parse(fs.readFileSync(statePath, 'utf8'))
+    if (startBlock !== undefined && startBlock < state.startBlock) {
+      throw new Error(`${dir} is indexed from block ${state.startBlock}, after ${startBlock}`)
+    }
+    const store = new EventStore(dir, state)
+    store.dropUnconfirmed()
+    return store
+  }
+
+  get startBlock(): number {
+    return this.state.startBlock
+  }
+
+  get lastBlock(): number {
+    return this.state.lastBlock
+  }
+
+  get eventsPath(): string {
+    return path.join(this.dir, 'events.jsonl')
+  }
+
+  // Appends the events of the blocks after `lastBlock` up to `toBlock`, then advances `lastBlock`
+  append(events: IIndexedEvent[], toBlock: number) {
+    if (toBlock < this.lastBlock) throw new Error(`Block ${toBlock} is already indexed`)
+    for (const e of events) {
+      if (e.block <= this.lastBlock || e.block > toBlock) {
+        throw new Error(`Event at block ${e.block} is outside of ${this.lastBlock + 1}-${toBlock}`)
+      }
+    }
+    if (events.length) {
+      fs.appendFileSync(this.eventsPath, events.map((e) => JSON.stringify(e) + '\n').join(''))
+    }
+
+    // Written aside then renamed, so that the state is never half-written
+    this.state = { ...this.state, lastBlock: toBlock }
+    const statePath = path.join(this.dir, 'state.json')
+    fs.writeFileSync(statePath + '.tmp', JSON.stringify(this.state, null, 2) + '\n')
+    fs.renameSync(statePath + '.tmp', statePath)
+  }
+
+  // All events matching `query`, in chain order
+  query(query: IEventQuery = {}): IIndexedEvent[] {
+    return this.read().filter(
+      (e) =>
+        (!query.events || query.events.includes(e.event)) &&
+        (!query.component || query.component == e.component) &&
+        (query.fromBlock === undefined || e.block >= query.fromBlock) &&
+        (query.toBlock === undefined || e.block <= query.toBlock)
+    )
+  }
+
+  // All trades, in the order they started
+  trades(query: Omit<IEventQuery, 'events'> = {}): ITradeRecord[] {
+    const trades = new Map<string, ITradeRecord>() // by trader and trade
+    for (const e of this.query({ ...query, events: ['TradeStarted', 'TradeSettled'] })) {
+      const key = `${e.contract}-${e.args.trade}`
+      if (e.event == 'TradeStarted') {
+        trades.set(key, {
+          trader: e.component,
+          trade: <string>e.args.trade,
+          sell: <string>e.args.sell,
+          buy: <string>e.args.buy,
+          sellAmount: <string>e.args.sellAmount,
+          minBuyAmount: <string>e.args.minBuyAmount,
+          startBlock: e.block,
+          startTxHash: e.txHash,
+        })
+      } else {
+        const trade = trades.get(key)
+        // Left out: settlements of trades started before `fromBlock`
+        if (!trade) continue
+        trade.settleBlock = e.block
+        trade.buyAmount = <string>e.args.buyAmount
+      }
+    }
+    return [...trades.values()]
+  }
+
+  private lines(): string[] {
+    if (!fs.existsSync(this.eventsPath)) return []
+    return fs
+      .readFileSync(this.eventsPath, 'utf8')
+      .split('\n')
+      .filter((line) => line.length)
+  }
+
+  private read(): IIndexedEvent[] {
+    return this.lines().map((line) => <IIndexedEvent>JSON.parse(line))
+  }
+
+  // Drops the events past `lastBlock`, and any line torn by an interrupted append
+  private dropUnconfirmed() {
+    const lines = this.lines()
+    const confirmed = lines.filter((line) => {
+      try {
+        return (<IIndexedEvent>JSON.parse(line)).block <= this.lastBlock
+      } catch {
+        return false
+      }
+    })
+    if (confirmed.length == lines.length) return
+    fs.writeFileSync(this.eventsPath, confirmed.map((line) => line + '\n').join(''))
+  }
+}
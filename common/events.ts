@@ -1,78 +1,135 @@
 import { expect } from 'chai'
-import { BigNumber, Contract, ContractReceipt, ContractTransaction, Event } from 'ethers'
-import { Interface, LogDescription } from 'ethers/lib/utils'
+import {
+  BaseContract,
+  BigNumber,
+  BigNumberish,
+  ContractReceipt,
+  ContractTransaction,
+  Event,
+} from 'ethers'
+import { Interface, LogDescription, Result } from 'ethers/lib/utils'
+import type { TypedEventFilter } from '../typechain/common'
 
-// TODO: Proper typing
-const contains = (args: { [key: string]: any | undefined }, key: string, value: any): any => {
-  expect(key in args).to.equal(true, `Event argument '${key}' not found`)
+// ==== Typing ====
 
-  if (value === null) {
-    expect(args[key]).to.equal(
-      null,
-      `expected event argument '${key}' to be null but got ${args[key]}`
-    )
-  } else if (BigNumber.isBigNumber(args[key]) || BigNumber.isBigNumber(value)) {
-    const actual = BigNumber.isBigNumber(args[key]) ? args[key].toString() : args[key]
-    const expected = BigNumber.isBigNumber(value) ? value.toString() : value
+// Names of the events of a typechain contract, e.g. 'Issuance' for RTokenP1
+export type EventName<C extends BaseContract> = keyof C['filters'] & string
 
-    expect(args[key]).to.equal(
-      value,
-      `expected event argument '${key}' to have value ${expected} but got ${actual}`
-    )
-  } else {
-    expect(args[key]).to.be.deep.equal(
-      value,
-      `expected event argument '${key}' to have value ${value} but got ${args[key]}`
+// Named arguments of an event, e.g. { issuer: string; index: BigNumber; amount: BigNumber; ... }
+export type EventArgs<C extends BaseContract, N extends EventName<C>> = C['filters'][N] extends (
+  ...args: never[]
+) => TypedEventFilter<unknown[], infer A>
+  ? A
+  : { [key: string]: unknown }
+
+// A predicate on an event argument, e.g. `near(fp('1'), 10)`
+export type ArgPredicate = (actual: unknown) => boolean
+
+export type ExpectedArg<T> = (T extends BigNumber ? BigNumberish : T) | ArgPredicate | null
+
+export type ExpectedArgs<C extends BaseContract, N extends EventName<C>> = {
+  [K in keyof EventArgs<C, N>]?: ExpectedArg<EventArgs<C, N>[K]>
+}
+
+// Expected args, either positional or keyed by argument name
+type UntypedArgs = unknown[] | { [key: string]: unknown }
+
+export interface TypedLogDescription<C extends BaseContract, N extends EventName<C>>
+  extends LogDescription {
+  args: Result & EventArgs<C, N>
+}
+
+// An event of a receipt, found by name, with its decoded arguments
+export interface IReceiptEvent extends Event {
+  args: Result
+}
+
+// ==== Matching ====
+
+// Matches any BigNumberish within `tolerance` of `expected`, inclusive
+export const near = (expected: BigNumberish, tolerance: BigNumberish): ArgPredicate =>
+  Object.assign(
+    (actual: unknown) =>
+      BigNumber.from(<BigNumberish>actual)
+        .sub(expected)
+        .abs()
+        .lte(tolerance),
+    { toString: () => `${expected} ± ${tolerance}` }
+  )
+
+const show = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(show).join(', ')}]`
+  return `${value}`
+}
+
+const matches = (actual: unknown, expected: unknown): boolean => {
+  if (typeof expected == 'function') return !!(<ArgPredicate>expected)(actual)
+  if (expected === null || actual === null) return actual === expected
+  // Small uints decode to numbers, and expected amounts may be any BigNumberish
+  if (BigNumber.isBigNumber(actual) || typeof actual == 'number') {
+    try {
+      return BigNumber.from(actual).eq(<BigNumberish>expected)
+    } catch {
+      return false
+    }
+  }
+  if (BigNumber.isBigNumber(expected)) return false
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length == expected.length &&
+      expected.every((e, i) => matches(actual[i], e))
     )
   }
+  if (expected && typeof expected == 'object') {
+    const fields = <{ [key: string]: unknown }>actual
+    return Object.entries(expected).every(([k, v]) => fields && matches(fields[k], v))
+  }
+  return actual === expected
 }
 
-// TODO: Proper typing for "eventArgs"
-export const expectInReceipt = (
-  receipt: ContractReceipt,
-  eventName: string,
-  eventArgs = {}
-): any => {
-  if (receipt.events == undefined) {
-    throw new Error('No events found in receipt')
+// Describes the first argument that does not match, if any.
+// Positional args, as waffle's `withArgs` takes them, must also match in number
+const mismatch = (args: Result | undefined, expected: UntypedArgs = {}) => {
+  if (args == undefined)
+    return Object.keys(expected).length > 0 ? 'Event has no arguments' : undefined
+  if (Array.isArray(expected) && args.length != expected.length) {
+    return `expected ${expected.length} event arguments but got ${args.length}`
   }
+  for (const [k, v] of Object.entries(expected)) {
+    if (!(k in args)) return `Event argument '${k}' not found`
+    if (!matches(args[k], v)) {
+      return `expected event argument '${k}' to have value ${show(v)} but got ${show(args[k])}`
+    }
+  }
+  return undefined
+}
 
-  const events = receipt.events.filter((e: Event) => e.event === eventName)
+// Finds the first event matching `eventArgs`, or fails with why the first candidate did not match
+const findMatching = <E extends { args?: Result }>(
+  events: E[],
+  eventName: string,
+  eventArgs: UntypedArgs
+): E => {
   expect(events.length > 0).to.equal(true, `No '${eventName}' events found`)
 
-  const exceptions: string[] = []
-  const event = events.find(function (e: Event) {
-    for (const [k, v] of Object.entries(eventArgs)) {
-      try {
-        if (e.args == undefined) {
-          throw new Error('Event has no arguments')
-        }
-
-        contains(e.args, k, v)
-      } catch (error) {
-        exceptions.push(error as string)
-        return false
-      }
-    }
-    return true
-  })
-
-  if (event === undefined) {
+  const reasons = events.map((e) => mismatch(e.args, eventArgs))
+  const index = reasons.findIndex((reason) => reason === undefined)
+  if (index < 0) {
     // Each event entry may have failed to match for different reasons,
-    // throw the first one
-    throw exceptions[0]
+    // fail with the first one
+    expect.fail(reasons[0])
   }
-
-  return event
+  return events[index]
 }
 
-export const expectInIndirectReceipt = (
-  receipt: ContractReceipt,
-  emitter: Interface,
-  eventName: string,
-  eventArgs = {}
-): any => {
-  const decodedEvents = receipt.logs
+// Events can be referred to by name, or by signature for overloaded events
+const isEvent = (e: LogDescription, name: string) => e.name == name || e.signature == name
+
+// Decodes the events that emitters with the `emitter` interface emitted, in emission order
+const decodeLogs = (receipt: ContractReceipt, emitter: Interface, address?: string) =>
+  receipt.logs
+    .filter((log) => !address || log.address.toLowerCase() == address.toLowerCase())
     .map((log) => {
       try {
         return emitter.parseLog(log)
@@ -82,56 +139,124 @@ export const expectInIndirectReceipt = (
     })
     .filter((e): e is LogDescription => e !== undefined)
 
-  const expectedEvents = decodedEvents.filter((event) => event.name === eventName)
-  expect(expectedEvents.length > 0).to.equal(true, `No '${eventName}' events found`)
+// Decodes the events that `contract` emitted in a transaction, in emission order
+export const decodeEvents = (receipt: ContractReceipt, contract: BaseContract): LogDescription[] =>
+  decodeLogs(receipt, contract.interface, contract.address)
 
-  const exceptions: Array<string> = []
-  const event = expectedEvents.find(function (e) {
-    for (const [k, v] of Object.entries(eventArgs)) {
-      try {
-        if (e.args == undefined) {
-          throw new Error('Event has no arguments')
-        }
+// ==== Receipts ====
 
-        contains(e.args, k, v)
-      } catch (error) {
-        exceptions.push(error as string)
-        return false
-      }
-    }
-    return true
-  })
+// Expects `contract` to have emitted `name` with `eventArgs`, and returns the first such event
+export const expectEvent = <C extends BaseContract, N extends EventName<C>>(
+  receipt: ContractReceipt,
+  contract: C,
+  name: N,
+  eventArgs: ExpectedArgs<C, N> = {}
+): TypedLogDescription<C, N> => {
+  const events = decodeEvents(receipt, contract).filter((e) => isEvent(e, name))
+  return <TypedLogDescription<C, N>>findMatching(events, name, eventArgs)
+}
 
-  if (event === undefined) {
-    // Each event entry may have failed to match for different reasons,
-    // throw the first one
-    throw exceptions[0]
+// Expects `contract` to have emitted `name` with `eventArgs` exactly `count` times
+export const expectEventCount = <C extends BaseContract, N extends EventName<C>>(
+  receipt: ContractReceipt,
+  contract: C,
+  name: N,
+  count: number,
+  eventArgs: ExpectedArgs<C, N> = {}
+): TypedLogDescription<C, N>[] => {
+  const events = decodeEvents(receipt, contract).filter(
+    (e) => isEvent(e, name) && mismatch(e.args, eventArgs) === undefined
+  )
+  expect(events.length).to.equal(
+    count,
+    `expected ${count} '${name}' events but found ${events.length}`
+  )
+  return <TypedLogDescription<C, N>[]>events
+}
+
+// By event name, for events of the contract the transaction was sent to
+export const expectInReceipt = (
+  receipt: ContractReceipt,
+  eventName: string,
+  eventArgs: { [key: string]: unknown } = {}
+): IReceiptEvent => {
+  if (receipt.events == undefined) {
+    throw new Error('No events found in receipt')
   }
 
-  return event
+  const events = receipt.events.filter((e: Event) => e.event === eventName)
+  return <IReceiptEvent>findMatching(events, eventName, eventArgs)
+}
+
+// By event name, for events emitted by any contract with the `emitter` interface
+export const expectInIndirectReceipt = (
+  receipt: ContractReceipt,
+  emitter: Interface,
+  eventName: string,
+  eventArgs: { [key: string]: unknown } = {}
+): LogDescription => {
+  const events = decodeLogs(receipt, emitter).filter((e) => e.name === eventName)
+  return findMatching(events, eventName, eventArgs)
 }
 
 export interface IEvent {
-  contract: Contract
+  contract: BaseContract
   name: string
-  args?: any[]
+  args?: UntypedArgs // positional, or keyed by argument name
   emitted: boolean
 }
 
-// Checks for multiple events when executing a transaction `tx`
-// This is required due to a limitation in Waffle when chaining multiple .to.emits
-export const expectEvents = async (tx: Promise<ContractTransaction>, events: Array<IEvent>) => {
+// Typed IEvent, e.g. `emitted(rToken, 'Issuance', { amount: near(fp('1'), 10) })`
+export const emitted = <C extends BaseContract, N extends EventName<C>>(
+  contract: C,
+  name: N,
+  args?: ExpectedArgs<C, N>
+): IEvent => ({ contract, name, args, emitted: true })
+
+export const notEmitted = <C extends BaseContract, N extends EventName<C>>(
+  contract: C,
+  name: N
+): IEvent => ({ contract, name, emitted: false })
+
+// Expects the events to have been emitted in this order, not necessarily consecutively
+export const expectEventOrder = (receipt: ContractReceipt, events: IEvent[]) => {
+  let from = 0
   for (const evt of events) {
-    if (evt.emitted) {
-      if (evt.args) {
-        await expect(tx)
-          .to.emit(evt.contract, evt.name)
-          .withArgs(...evt.args)
-      } else {
-        await expect(tx).to.emit(evt.contract, evt.name)
+    const logs = receipt.logs.slice(from)
+    const index = logs.findIndex((log) => {
+      if (log.address.toLowerCase() != evt.contract.address.toLowerCase()) return false
+      try {
+        const e = evt.contract.interface.parseLog(log)
+        return isEvent(e, evt.name) && mismatch(e.args, evt.args) === undefined
+      } catch {
+        return false
       }
+    })
+    expect(index >= 0).to.equal(
+      true,
+      `No '${evt.name}' event found after log ${from} with args ${show(evt.args ?? [])}`
+    )
+    from += index + 1
+  }
+}
+
+// Checks for multiple events when executing a transaction `tx`, waiting for its receipt once.
+// Returns the receipt, for further checks such as `expectEventOrder`
+export const expectEvents = async (
+  tx: Promise<ContractTransaction>,
+  events: Array<IEvent>
+): Promise<ContractReceipt> => {
+  const receipt = await (await tx).wait()
+  for (const evt of events) {
+    const decoded = decodeEvents(receipt, evt.contract).filter((e) => isEvent(e, evt.name))
+    if (evt.emitted) {
+      findMatching(decoded, evt.name, evt.args ?? {})
     } else {
-      await expect(tx).to.not.emit(evt.contract, evt.name)
+      expect(decoded.length).to.equal(
+        0,
+        `Expected no '${evt.name}' events but found ${decoded.length}`
+      )
     }
   }
+  return receipt
 }
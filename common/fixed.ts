@@ -0,0 +1,319 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { RoundingMode } from './constants'
+import { bn } from './numbers'
+
+// A TypeScript mirror of contracts/libraries/Fixed.sol, for computing the exact values that the
+// contracts compute. Every function returns what its Solidity counterpart returns, and throws
+// wherever its Solidity counterpart reverts:
+//   'UIntOutOfBounds'  for the UIntOutOfBounds() custom error
+//   'overflow'         for Solidity's checked arithmetic panics, on uint192 or uint256
+//   'division by zero' for Solidity's division panics
+//   'x > FIX_ONE'      for the requirement in powu()
+// See Fixed.sol for the semantics of each function; the names and rounding defaults are the same.
+
+const { FLOOR, ROUND, CEIL } = RoundingMode
+
+export const FIX_SCALE = 10n ** 18n
+export const FIX_SCALE_SQ = 10n ** 36n
+export const UINT192_MAX = 2n ** 192n - 1n
+export const UINT256_MAX = 2n ** 256n - 1n
+export const FIX_MAX_INT = UINT192_MAX / FIX_SCALE
+
+// ==== Solidity semantics ====
+
+const toBigInt = (x: BigNumberish): bigint => (typeof x == 'bigint' ? x : bn(x).toBigInt())
+
+const uint256 = (x: BigNumberish): bigint => {
+  const v = toBigInt(x)
+  if (v < 0n || v > UINT256_MAX) throw new Error(`${v} is not a uint256`)
+  return v
+}
+
+const int8 = (x: number): bigint => {
+  if (!Number.isInteger(x) || x < -128 || x > 127) throw new Error(`${x} is not an int8`)
+  return BigInt(x)
+}
+
+// Checked uint arithmetic, reverting outside [0, max]
+const checked = (x: bigint, max = UINT256_MAX): bigint => {
+  if (x < 0n || x > max) throw new Error('overflow')
+  return x
+}
+
+const quotient = (x: bigint, y: bigint): bigint => {
+  if (y == 0n) throw new Error('division by zero')
+  return x / y
+}
+
+const safeWrap = (x: bigint): bigint => {
+  if (x > UINT192_MAX) throw new Error('UIntOutOfBounds')
+  return x
+}
+
+// ==== Pure-uint helpers ====
+
+export const abs = (x: BigNumberish): BigNumber => {
+  const v = toBigInt(x)
+  if (v < -(2n ** 255n) || v >= 2n ** 255n) throw new Error(`${v} is not an int256`)
+  return BigNumber.from(checked(v < 0n ? -v : v, 2n ** 255n - 1n))
+}
+
+const divrnd = (numerator: bigint, divisor: bigint, rounding: RoundingMode): bigint => {
+  let result = quotient(numerator, divisor)
+  if (rounding == FLOOR) return result
+
+  if (rounding == ROUND) {
+    if (numerator % divisor > (divisor - 1n) / 2n) result = checked(result + 1n)
+  } else if (numerator % divisor > 0n) result = checked(result + 1n)
+  return result
+}
+
+const mulDiv256_ = (x: bigint, y: bigint, z: bigint, rounding: RoundingMode = FLOOR): bigint => {
+  // The 512-bit product overflows iff its high word is at least z, which includes z == 0
+  if ((x * y) >> 256n >= z) throw new Error('UIntOutOfBounds')
+  let result = (x * y) / z
+  if (rounding == FLOOR) return result
+
+  const mm = (x * y) % z
+  if (rounding == CEIL) {
+    if (mm > 0n) result = checked(result + 1n)
+  } else if (mm > (z - 1n) / 2n) result = checked(result + 1n)
+  return result
+}
+
+export const divRnd = (
+  numerator: BigNumberish,
+  divisor: BigNumberish,
+  rounding: RoundingMode
+): BigNumber => BigNumber.from(divrnd(uint256(numerator), uint256(divisor), rounding))
+
+export const mulDiv256 = (
+  x: BigNumberish,
+  y: BigNumberish,
+  z: BigNumberish,
+  rounding: RoundingMode = FLOOR
+): BigNumber => BigNumber.from(mulDiv256_(uint256(x), uint256(y), uint256(z), rounding))
+
+// @return [hi, lo] satisfying hi * 2**256 + lo == x * y
+export const fullMul = (x: BigNumberish, y: BigNumberish): [BigNumber, BigNumber] => {
+  const product = uint256(x) * uint256(y)
+  return [BigNumber.from(product >> 256n), BigNumber.from(product & UINT256_MAX)]
+}
+
+// ==== Fix ====
+
+// An 18-decimal fixed-point value, as a uint192. `value` is the uint192 itself, e.g. 1e18 for 1.0
+export class Fix {
+  readonly value: bigint
+
+  constructor(value: BigNumberish) {
+    const v = toBigInt(value)
+    if (v < 0n) throw new Error(`${v} is not a uint192`)
+    this.value = safeWrap(v)
+  }
+
+  static readonly ZERO = new Fix(0)
+  static readonly ONE = new Fix(FIX_SCALE)
+  static readonly MAX = new Fix(UINT192_MAX)
+
+  // ==== Conversions ====
+
+  // @return x
+  static toFix(x: BigNumberish): Fix {
+    return new Fix(safeWrap(checked(uint256(x) * FIX_SCALE)))
+  }
+
+  // @return x * 10**shiftLeft
+  static shiftl_toFix(x: BigNumberish, shiftLeft: number, rounding = FLOOR): Fix {
+    const v = uint256(x)
+    let s = int8(shiftLeft)
+    if (v == 0n) return Fix.ZERO
+    if (s <= -96n) return new Fix(rounding == CEIL ? 1 : 0)
+    if (40n <= s) throw new Error('UIntOutOfBounds')
+
+    s += 18n
+    const coeff = 10n ** (s < 0n ? -s : s)
+    return new Fix(safeWrap(s >= 0n ? checked(v * coeff) : divrnd(v, coeff, rounding)))
+  }
+
+  // @return x / y
+  static divFix(x: BigNumberish, y: Fix): Fix {
+    const v = uint256(x)
+    if (v < UINT256_MAX / FIX_SCALE_SQ)
+      return new Fix(safeWrap(quotient(v * FIX_SCALE_SQ, y.value)))
+    return new Fix(safeWrap(mulDiv256_(v, FIX_SCALE_SQ, y.value)))
+  }
+
+  // @return x / y
+  static divuu(x: BigNumberish, y: BigNumberish): Fix {
+    return new Fix(safeWrap(mulDiv256_(FIX_SCALE, uint256(x), uint256(y))))
+  }
+
+  static min(x: Fix, y: Fix): Fix {
+    return x.value < y.value ? x : y
+  }
+
+  static max(x: Fix, y: Fix): Fix {
+    return x.value > y.value ? x : y
+  }
+
+  toBigNumber(): BigNumber {
+    return BigNumber.from(this.value)
+  }
+
+  // In decimal, e.g. '1.5' for 1.5e18
+  toString(): string {
+    const frac = (this.value % FIX_SCALE).toString().padStart(18, '0').replace(/0+$/, '')
+    return `${this.value / FIX_SCALE}${frac ? '.' + frac : ''}`
+  }
+
+  // @return x, as a uint
+  toUint(rounding = FLOOR): BigNumber {
+    return BigNumber.from(divrnd(this.value, FIX_SCALE, rounding))
+  }
+
+  // ==== Arithmetic ====
+
+  // @return x * 10**decimals
+  shiftl(decimals: number, rounding = FLOOR): Fix {
+    const d = int8(decimals)
+    if (this.value == 0n) return Fix.ZERO
+    if (d <= -59n) return new Fix(rounding == CEIL ? 1 : 0)
+    if (58n <= d) throw new Error('UIntOutOfBounds')
+
+    const coeff = 10n ** (d < 0n ? -d : d)
+    return new Fix(
+      safeWrap(d >= 0n ? checked(this.value * coeff) : divrnd(this.value, coeff, rounding))
+    )
+  }
+
+  // @return x + y
+  plus(y: Fix): Fix {
+    return new Fix(checked(this.value + y.value, UINT192_MAX))
+  }
+
+  // @return x + y
+  plusu(y: BigNumberish): Fix {
+    return new Fix(safeWrap(checked(this.value + checked(uint256(y) * FIX_SCALE))))
+  }
+
+  // @return x - y
+  minus(y: Fix): Fix {
+    return new Fix(checked(this.value - y.value, UINT192_MAX))
+  }
+
+  // @return x - y
+  minusu(y: BigNumberish): Fix {
+    return new Fix(safeWrap(checked(this.value - checked(uint256(y) * FIX_SCALE))))
+  }
+
+  // @return x * y, rounding to the nearest by default
+  mul(y: Fix, rounding = ROUND): Fix {
+    return new Fix(safeWrap(divrnd(checked(this.value * y.value), FIX_SCALE, rounding)))
+  }
+
+  // @return x * y
+  mulu(y: BigNumberish): Fix {
+    return new Fix(safeWrap(checked(this.value * uint256(y))))
+  }
+
+  // @return x / y
+  div(y: Fix, rounding = FLOOR): Fix {
+    return new Fix(safeWrap(divrnd(this.value * FIX_SCALE, y.value, rounding)))
+  }
+
+  // @return x / y
+  divu(y: BigNumberish, rounding = FLOOR): Fix {
+    return new Fix(safeWrap(divrnd(this.value, uint256(y), rounding)))
+  }
+
+  // @return x ** y, for x <= 1
+  powu(y: number): Fix {
+    if (!Number.isInteger(y) || y < 0 || y >= 2 ** 48) throw new Error(`${y} is not a uint48`)
+    if (this.value > FIX_SCALE) throw new Error('x > FIX_ONE')
+    if (y == 1) return this
+    if (this.value == FIX_SCALE || y == 0) return Fix.ONE
+
+    let e = BigInt(y)
+    let x = this.value * FIX_SCALE // D36
+    let result = FIX_SCALE_SQ // D36
+    for (;;) {
+      if ((e & 1n) == 1n) result = (result * x + FIX_SCALE_SQ / 2n) / FIX_SCALE_SQ
+      if (e <= 1n) break
+      e >>= 1n
+      x = (x * x + FIX_SCALE_SQ / 2n) / FIX_SCALE_SQ
+    }
+    return new Fix(safeWrap(result / FIX_SCALE))
+  }
+
+  // ==== Comparisons ====
+
+  lt(y: Fix): boolean {
+    return this.value < y.value
+  }
+
+  lte(y: Fix): boolean {
+    return this.value <= y.value
+  }
+
+  gt(y: Fix): boolean {
+    return this.value > y.value
+  }
+
+  gte(y: Fix): boolean {
+    return this.value >= y.value
+  }
+
+  eq(y: Fix): boolean {
+    return this.value == y.value
+  }
+
+  neq(y: Fix): boolean {
+    return this.value != y.value
+  }
+
+  // @return |x - y| < epsilon
+  near(y: Fix, epsilon: Fix): boolean {
+    const diff = this.value <= y.value ? y.value - this.value : this.value - y.value
+    return diff < epsilon.value
+  }
+
+  // ==== Chained operations, which only overflow if the end result does ====
+
+  // @return x * 10**decimals, as a uint
+  shiftl_toUint(decimals: number, rounding = FLOOR): BigNumber {
+    let d = int8(decimals)
+    if (this.value == 0n) return BigNumber.from(0)
+    if (d <= -42n) return BigNumber.from(rounding == CEIL ? 1 : 0)
+    if (96n <= d) throw new Error('UIntOutOfBounds')
+
+    d -= 18n
+    const coeff = 10n ** (d < 0n ? -d : d)
+    return BigNumber.from(
+      d >= 0n ? checked(this.value * coeff) : divrnd(this.value, coeff, rounding)
+    )
+  }
+
+  // @return x * y, as a uint
+  mulu_toUint(y: BigNumberish, rounding = FLOOR): BigNumber {
+    return BigNumber.from(mulDiv256_(this.value, uint256(y), FIX_SCALE, rounding))
+  }
+
+  // @return x * y, as a uint
+  mul_toUint(y: Fix, rounding = FLOOR): BigNumber {
+    return BigNumber.from(mulDiv256_(this.value, y.value, FIX_SCALE_SQ, rounding))
+  }
+
+  // @return x * y / z
+  muluDivu(y: BigNumberish, z: BigNumberish, rounding = FLOOR): Fix {
+    return new Fix(safeWrap(mulDiv256_(this.value, uint256(y), uint256(z), rounding)))
+  }
+
+  // @return x * y / z
+  mulDiv(y: Fix, z: Fix, rounding = FLOOR): Fix {
+    return new Fix(safeWrap(mulDiv256_(this.value, y.value, z.value, rounding)))
+  }
+}
+
+// Shorthand for `new Fix(x)`, where x is the uint192 representation, e.g. fix(fp('1.5'))
+export const fix = (x: BigNumberish): Fix => new Fix(x)
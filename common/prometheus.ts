@@ -0,0 +1,37 @@
+// Gauges in the Prometheus text exposition format, as served by `hardhat monitor:metrics`.
+// See https://prometheus.io/docs/instrumenting/exposition_formats/
+
+export type Labels = { [name: string]: string }
+
+interface IGauge {
+  help: string
+  samples: [Labels, string][] // the value is a decimal string, e.g. from formatEther
+}
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+
+const formatLabels = (labels: Labels) => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+  return pairs.length ? `{${pairs.join(',')}}` : ''
+}
+
+export class Gauges {
+  private readonly gauges = new Map<string, IGauge>() // by metric name, in the order first set
+
+  set(name: string, help: string, labels: Labels, value: string | number) {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name)) throw new Error(`Invalid metric name ${name}`)
+    if (!this.gauges.has(name)) this.gauges.set(name, { help, samples: [] })
+    this.gauges.get(name)?.samples.push([labels, value.toString()])
+  }
+
+  format(): string {
+    const lines: string[] = []
+    for (const [name, { help, samples }] of this.gauges) {
+      lines.push(`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`)
+      lines.push(`# TYPE ${name} gauge`)
+      for (const [labels, value] of samples) lines.push(`${name}${formatLabels(labels)} ${value}`)
+    }
+    return lines.join('\n') + '\n'
+  }
+}
@@ -0,0 +1,173 @@
+import { BigNumber, BigNumberish, ethers } from 'ethers'
+import { ParamType, Result } from 'ethers/lib/utils'
+
+// Decodes governance proposal calldata into calls on named components, and describes what the
+// calls change, against a snapshot of the RToken's current state.
+
+// Lowercased address or bytes32 => name, e.g. a component, a token symbol or a role
+export interface INames {
+  [key: string]: string
+}
+
+// Component name => ABI, e.g. { BasketHandler: new Interface(IBasketHandler.abi) }
+export interface IComponentAbis {
+  [component: string]: ethers.utils.Interface
+}
+
+export interface IDecodedCall {
+  target: string
+  component?: string // if the target is a named component
+  value: BigNumber
+  calldata: string
+  method?: string // if the calldata matches a function of the component ABIs
+  args: string[] // formatted
+  values?: Result
+}
+
+// Component name => field => formatted value
+export interface IStateSnapshot {
+  [component: string]: { [field: string]: string }
+}
+
+export interface IStateChange {
+  component: string
+  field: string
+  before?: string
+  after?: string
+}
+
+export const nameOf = (names: INames, key: string): string | undefined => names[key.toLowerCase()]
+
+// Formats a decoded value by its ABI type: uint192 values as Fixes, with `fp` semantics, and
+// addresses and bytes32 by their names
+export const formatValue = (param: ParamType, value: unknown, names: INames): string => {
+  if (param.baseType == 'array') {
+    return `[${(<unknown[]>value)
+      .map((v) => formatValue(param.arrayChildren, v, names))
+      .join(', ')}]`
+  }
+  if (param.baseType == 'tuple') {
+    const fields = param.components.map(
+      (c, i) => `${c.name || i}: ${formatValue(c, (<Result>value)[i], names)}`
+    )
+    return `{${fields.join(', ')}}`
+  }
+  if (param.type == 'address' || param.type == 'bytes32') {
+    const name = nameOf(names, <string>value)
+    if (name) return name
+    if (param.type == 'bytes32') {
+      try {
+        const str = ethers.utils.parseBytes32String(<string>value)
+        if (/^[\x20-\x7e]+$/.test(str)) return str
+      } catch {
+        // not a string
+      }
+    }
+    return param.type == 'address' ? ethers.utils.getAddress(<string>value) : <string>value
+  }
+  if (param.type == 'uint192') return ethers.utils.formatEther(<BigNumberish>value)
+  if (param.type == 'string') return JSON.stringify(value)
+  return `${value}`
+}
+
+// Formats a basket as [erc20: amount, ...]
+export const formatBasket = (erc20s: string[], amounts: BigNumberish[], names: INames): string => {
+  const entries = erc20s.map((erc20, i) => {
+    const name = nameOf(names, erc20) || ethers.utils.getAddress(erc20)
+    return `${name}: ${ethers.utils.formatEther(amounts[i])}`
+  })
+  return `[${entries.join(', ')}]`
+}
+
+export const decodeCall = (
+  target: string,
+  calldata: string,
+  value: BigNumberish,
+  abis: IComponentAbis,
+  names: INames
+): IDecodedCall => {
+  const component = nameOf(names, target)
+  const call: IDecodedCall = {
+    target: ethers.utils.getAddress(target),
+    component,
+    value: BigNumber.from(value),
+    calldata,
+    args: [],
+  }
+
+  // The component's own ABI first, then any ABI with a function of that selector
+  const selector = calldata.slice(0, 10)
+  const candidates = [
+    ...(component && abis[component] ? [abis[component]] : []),
+    ...Object.values(abis),
+  ]
+  for (const iface of candidates) {
+    let fragment: ethers.utils.FunctionFragment
+    try {
+      fragment = iface.getFunction(selector)
+    } catch {
+      continue
+    }
+    const values = iface.decodeFunctionData(fragment, calldata)
+    call.method = fragment.name
+    call.values = values
+    call.args = fragment.inputs.map((input, i) => formatValue(input, values[i], names))
+    break
+  }
+  return call
+}
+
+export const formatCall = (call: IDecodedCall): string => {
+  const contract = call.component || call.target
+  const value = call.value.isZero() ? '' : ` {value: ${ethers.utils.formatEther(call.value)} ETH}`
+  if (!call.method) return `${contract}: unknown calldata ${call.calldata}${value}`
+  return `${contract}.${call.method}(${call.args.join(', ')})${value}`
+}
+
+// Describes what a call changes, for the setters whose state is in the snapshot, e.g.
+//   "changes primeBasket from [cDAI: 0.5, aUSDC: 0.5] to [cDAI: 1]"
+export const describeChange = (
+  call: IDecodedCall,
+  snapshot: IStateSnapshot,
+  names: INames
+): string | undefined => {
+  if (!call.component || !call.method || !call.values) return undefined
+  const state = snapshot[call.component] || {}
+
+  let field: string | undefined
+  let after: string | undefined
+  if (call.method == 'setPrimeBasket') {
+    field = 'primeBasket'
+    after = formatBasket(call.values[0], call.values[1], names)
+  } else if (call.method == 'setDistribution') {
+    field = `distribution[${call.args[0]}]`
+    after = call.args[1]
+  } else if (call.method.startsWith('set') && call.args.length == 1) {
+    // setFoo(x) sets foo()
+    field = call.method[3].toLowerCase() + call.method.slice(4)
+    after = call.args[0]
+  }
+
+  if (!field) return undefined
+  if (state[field] === undefined) return `sets ${field} to ${after}`
+  if (state[field] == after) return `leaves ${field} at ${after}`
+  return `changes ${field} from ${state[field]} to ${after}`
+}
+
+export const diffSnapshots = (before: IStateSnapshot, after: IStateSnapshot): IStateChange[] => {
+  const changes: IStateChange[] = []
+  const components = new Set([...Object.keys(before), ...Object.keys(after)])
+  for (const component of components) {
+    const b = before[component] || {}
+    const a = after[component] || {}
+    for (const field of new Set([...Object.keys(b), ...Object.keys(a)])) {
+      if (b[field] !== a[field]) {
+        changes.push({ component, field, before: b[field], after: a[field] })
+      }
+    }
+  }
+  return changes
+}
+
+export const formatStateChange = ({ component, field, before, after }: IStateChange): string =>
+  `${component}.${field}: ${before ?? 'none'} -> ${after ?? 'none'}`
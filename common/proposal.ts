@@ -0,0 +1,97 @@
+import fs from 'fs'
+import { BigNumber, BigNumberish, ethers } from 'ethers'
+
+// Governance proposals, as built from a JSON spec, e.g.
+// {
+//   "description": "Set the unstaking delay to 2 weeks",
+//   "actions": [
+//     { "target": "0x...", "signature": "setUnstakingDelay(uint48)", "args": [1209600] }
+//   ]
+// }
+
+export interface IProposalAction {
+  target: string
+  signature: string // e.g. 'setUnstakingDelay(uint48)'
+  args?: unknown[]
+  value?: BigNumberish // {wei}, 0 by default
+}
+
+export interface IProposalSpec {
+  description: string
+  actions: IProposalAction[]
+}
+
+// The arguments of Governor.propose(), and the descriptionHash of queue() and execute()
+export interface IProposal {
+  targets: string[]
+  values: BigNumber[]
+  calldatas: string[]
+  description: string
+  descriptionHash: string
+}
+
+// @dev Must match `GovernorCountingSimple.VoteType`.
+export enum VoteType {
+  Against,
+  For,
+  Abstain,
+}
+
+const voteTypes: { [support: string]: VoteType } = {
+  against: VoteType.Against,
+  for: VoteType.For,
+  abstain: VoteType.Abstain,
+}
+
+export const parseVoteType = (support: string): VoteType => {
+  const vote = voteTypes[support.toLowerCase()]
+  if (vote === undefined) {
+    throw new Error(`Invalid vote '${support}': expected for, against or abstain`)
+  }
+  return vote
+}
+
+export const buildProposal = (spec: IProposalSpec): IProposal => {
+  if (!spec.description) throw new Error('The proposal has no description')
+  if (!spec.actions || spec.actions.length == 0) throw new Error('The proposal has no actions')
+
+  const proposal: IProposal = {
+    targets: [],
+    values: [],
+    calldatas: [],
+    description: spec.description,
+    descriptionHash: ethers.utils.id(spec.description),
+  }
+  spec.actions.forEach((action, i) => {
+    if (!ethers.utils.isAddress(action.target)) {
+      throw new Error(`actions[${i}].target is not an address: ${action.target}`)
+    }
+    let calldata: string
+    try {
+      const iface = new ethers.utils.Interface([`function ${action.signature}`])
+      calldata = iface.encodeFunctionData(iface.fragments[0].name, action.args || [])
+    } catch (e) {
+      throw new Error(`actions[${i}] does not encode as ${action.signature}: ${e}`)
+    }
+    proposal.targets.push(ethers.utils.getAddress(action.target))
+    proposal.values.push(BigNumber.from(action.value || 0))
+    proposal.calldatas.push(calldata)
+  })
+  return proposal
+}
+
+export const readProposalSpec = (path: string): IProposalSpec => {
+  if (!fs.existsSync(path)) throw new Error(`Proposal spec ${path} not found`)
+  return JSON.parse(fs.readFileSync(path, 'utf8'))
+}
+
+// Governor.hashProposal(), computed offline
+export const getProposalId = (proposal: IProposal): BigNumber =>
+  BigNumber.from(
+    ethers.utils.keccak256(
+      ethers.utils.defaultAbiCoder.encode(
+        ['address[]', 'uint256[]', 'bytes[]', 'bytes32'],
+        [proposal.targets, proposal.values, proposal.calldatas, proposal.descriptionHash]
+      )
+    )
+  )
@@ -0,0 +1,549 @@
+import { BigNumber } from 'ethers'
+import { formatEther, formatUnits } from 'ethers/lib/utils'
+import { CollateralStatus, RoundingMode, StatusName } from './constants'
+import { fix, Fix, FIX_SCALE } from './fixed'
+
+// A model of BackingManager.manageTokens() on an undercollateralized RToken, as implemented by
+// RecollateralizationLibP1 and TradeLib. TradingLibP0 computes the same trades, except that it does
+// not round a zero maxTradeSize up to 1.
+//
+// From a snapshot of the BackingManager and its RToken, the planner runs manageTokens() round after
+// round: each round either opens the trade the contracts would open, seizing RSR from StRSR as
+// needed, or compromises basketsNeeded once there is nothing left to trade. Each trade is assumed
+// to settle in full before the next round, at the fill given to the planner:
+//   worst   the worst price the trade accepts, after maxTradeSlippage. For the sale of collateral
+//           that is not SOUND, which accepts any price, the price its slippage would allow.
+//   oracle  the prices of the snapshot
+// Prices and collateral statuses are taken as they are in the snapshot for every round, and the
+// tradingDelay is assumed to have passed.
+
+const { FLOOR, ROUND, CEIL } = RoundingMode
+
+// Amounts are decimal strings of their raw values: D18 for Fix values, and qTok for balances
+export interface IAssetSnapshot {
+  erc20: string
+  symbol: string
+  decimals: number
+  isCollateral: boolean
+  status: StatusName // SOUND for assets that are not collateral
+  price: string // {UoA/tok} price(true)
+  isFallback: boolean
+  maxTradeVolume: string // {UoA}
+  quantity: string // {tok/BU} BasketHandler.quantity()
+  balance: string // {qTok} held by the BackingManager
+}
+
+export interface IRecollateralizationSnapshot {
+  block: number
+  rToken: string
+  rsr: string
+  basketStatus: StatusName
+  basketsNeeded: string // {BU}
+  totalSupply: string // {qRTok}
+  rsrStaked: string // {qRSR} held by StRSR
+  maxTradeSlippage: string // {1}
+  minTradeVolume: string // {UoA}
+  backingBuffer: string // {1}
+  assets: IAssetSnapshot[] // in the order of AssetRegistry.erc20s()
+}
+
+export type Fill = 'worst' | 'oracle'
+
+export interface IPlanOptions {
+  fill?: Fill // 'worst' by default
+  maxRounds?: number // {trades} 50 by default
+}
+
+export interface IPlannedTrade {
+  sell: string
+  buy: string
+  sellAmount: string // {qSellTok}
+  minBuyAmount: string // {qBuyTok}
+  boughtAmount: string // {qBuyTok} as filled
+  rsrSeized: string // {qRSR} seized from StRSR to open the trade
+  top: string // {BU} basket range the trade was planned in
+  bottom: string // {BU}
+}
+
+export type PlanOutcome = 'collateralized' | 'haircut' | 'basket not sound' | 'unfinished'
+
+export interface IRecollateralizationPlan {
+  outcome: PlanOutcome
+  trades: IPlannedTrade[]
+  rsrSeized: string // {qRSR}
+  basketsNeeded: string // {BU} before the first round
+  finalBasketsNeeded: string // {BU}
+  haircut: string // {1} of basketsNeeded given up by compromiseBasketsNeeded()
+  rTokenMinted: string // {qRTok} for the baskets held in excess, once collateralized
+  surplus: { erc20: string; amount: string }[] // {qTok} handed out to the revenue traders
+  balances: { erc20: string; balance: string }[] // {qTok} held by the BackingManager in the end
+}
+
+// A TradeRequest, with the amount a 'worst' fill buys
+interface ITradeRequest {
+  sell: IAssetSnapshot
+  buy: IAssetSnapshot
+  sellAmount: BigNumber // {qSellTok}
+  minBuyAmount: BigNumber // {qBuyTok}
+  worstBuyAmount: BigNumber // {qBuyTok}
+}
+
+// TradeInfo, from RecollateralizationLib
+interface ITradeInfo {
+  sell?: IAssetSnapshot
+  buy?: IAssetSnapshot
+  sellAmount: Fix // {sellTok}
+  buyAmount: Fix // {buyTok}
+  sellPrice: Fix // {UoA/sellTok}
+  buyPrice: Fix // {UoA/buyTok}
+}
+
+interface IBasketRange {
+  top: Fix // {BU}
+  bottom: Fix // {BU}
+}
+
+// Prefer selling assets in this order: DISABLED -> SOUND -> IFFY
+// @return If we prefer to sell `status2` over `status1`
+const preferToSell = (status1: CollateralStatus, status2: CollateralStatus): boolean => {
+  if (status1 == CollateralStatus.DISABLED) return false
+  if (status1 == CollateralStatus.SOUND) return status2 == CollateralStatus.DISABLED
+  return status2 != CollateralStatus.IFFY
+}
+
+// ==== TradeLib ====
+
+const minTradeSize = (minTradeVolume: Fix, price: Fix): Fix => {
+  const size = price.eq(Fix.ZERO) ? Fix.MAX : minTradeVolume.div(price, ROUND)
+  return size.gt(Fix.ZERO) ? size : fix(1)
+}
+
+const maxTradeSize = (asset: IAssetSnapshot, price: Fix): Fix => {
+  const size = price.eq(Fix.ZERO) ? Fix.MAX : fix(asset.maxTradeVolume).div(price, ROUND)
+  return size.gt(Fix.ZERO) ? size : fix(1)
+}
+
+const isEnoughToSell = (
+  asset: IAssetSnapshot,
+  price: Fix,
+  amt: Fix,
+  minTradeVolume: Fix
+): boolean =>
+  amt.gte(minTradeSize(minTradeVolume, price)) && amt.shiftl_toUint(asset.decimals).gt(1)
+
+class Planner {
+  readonly snapshot: IRecollateralizationSnapshot
+  readonly balances: Map<string, BigNumber> // {qTok} held by the BackingManager, by erc20
+  readonly maxTradeSlippage: Fix
+  readonly minTradeVolume: Fix
+  rsrStaked: BigNumber // {qRSR}
+  basketsNeeded: Fix // {BU}
+  totalSupply: BigNumber // {qRTok}
+
+  constructor(snapshot: IRecollateralizationSnapshot) {
+    this.snapshot = snapshot
+    this.balances = new Map(snapshot.assets.map((a) => [a.erc20, BigNumber.from(a.balance)]))
+    this.maxTradeSlippage = fix(snapshot.maxTradeSlippage)
+    this.minTradeVolume = fix(snapshot.minTradeVolume)
+    this.rsrStaked = BigNumber.from(snapshot.rsrStaked)
+    this.basketsNeeded = fix(snapshot.basketsNeeded)
+    this.totalSupply = BigNumber.from(snapshot.totalSupply)
+  }
+
+  asset(erc20: string): IAssetSnapshot {
+    const asset = this.snapshot.assets.find((a) => a.erc20 == erc20)
+    if (!asset) throw new Error(`${erc20} is not registered`)
+    return asset
+  }
+
+  // {tok} held by the BackingManager, as Asset.bal()
+  bal(asset: IAssetSnapshot): Fix {
+    return Fix.shiftl_toFix(<BigNumber>this.balances.get(asset.erc20), -asset.decimals)
+  }
+
+  transfer(erc20: string, amount: BigNumber) {
+    this.balances.set(erc20, (<BigNumber>this.balances.get(erc20)).add(amount))
+  }
+
+  // ==== BasketHandler ====
+
+  basket(): IAssetSnapshot[] {
+    return this.snapshot.assets.filter((a) => fix(a.quantity).gt(Fix.ZERO))
+  }
+
+  // {UoA/BU} price(true), FIX_MAX when it overflows
+  basketPrice(): Fix {
+    let p = 0n
+    for (const a of this.basket()) {
+      if (fix(a.price).eq(Fix.ZERO)) continue
+      p += (fix(a.price).value * fix(a.quantity).value + FIX_SCALE / 2n) / FIX_SCALE
+      if (p > Fix.MAX.value) return Fix.MAX
+    }
+    return fix(p)
+  }
+
+  // {BU}
+  basketsHeld(): Fix {
+    const basket = this.basket()
+    if (basket.length == 0 || this.snapshot.basketStatus == 'DISABLED') return Fix.ZERO
+    let baskets = Fix.MAX
+    for (const a of basket) baskets = Fix.min(baskets, this.bal(a).div(fix(a.quantity)))
+    return baskets
+  }
+
+  fullyCollateralized(): boolean {
+    return this.basketsHeld().gte(this.basketsNeeded)
+  }
+
+  // ==== RecollateralizationLibP1 ====
+
+  prepareRecollateralizationTrade(): { req?: ITradeRequest; range: IBasketRange } {
+    const range = this.basketRange()
+    const trade = this.nextTradePair(range)
+    if (!trade.sell || !trade.buy) return { range }
+
+    let req: ITradeRequest | undefined
+    if (trade.sell.isCollateral && trade.sell.status != 'SOUND') {
+      req = this.prepareTradeSell(trade)
+      if (req) req.minBuyAmount = BigNumber.from(0)
+    } else {
+      req = this.prepareTradeToCoverDeficit(trade)
+    }
+    if (!req) throw new Error('assert: recollateralization trade is dust')
+    return { req, range }
+  }
+
+  basketRange(): IBasketRange {
+    const basketPrice = this.basketPrice()
+    const [assetsHigh, assetsLow] = this.totalAssetValue()
+
+    const basketTargetHigh = Fix.min(assetsHigh, this.basketsNeeded.mul(basketPrice))
+    const shortfall = this.collateralShortfall(basketTargetHigh, basketPrice)
+    const shortfallSlippage = this.maxTradeSlippage.mul(shortfall)
+    const basketTargetLow = assetsLow.gt(shortfallSlippage)
+      ? Fix.min(assetsLow.minus(shortfallSlippage), basketTargetHigh)
+      : Fix.ZERO
+
+    return {
+      top: basketTargetHigh.div(basketPrice, CEIL),
+      bottom: basketTargetLow.div(basketPrice, CEIL),
+    }
+  }
+
+  // @return [assetsHigh, assetsLow] {UoA}
+  totalAssetValue(): [Fix, Fix] {
+    let assetsHigh = Fix.ZERO
+    let assetsLow = Fix.ZERO
+    let potentialDustLoss = Fix.ZERO
+    for (const a of this.snapshot.assets) {
+      if (a.erc20 == this.snapshot.rToken) continue
+
+      let bal = this.bal(a)
+      if (a.erc20 == this.snapshot.rsr) {
+        bal = bal.plus(Fix.shiftl_toFix(this.rsrStaked, -a.decimals))
+      }
+
+      const inBasket = fix(a.quantity).gt(Fix.ZERO)
+      const price = fix(a.price)
+      if (!inBasket && !isEnoughToSell(a, price, bal, this.minTradeVolume)) continue
+
+      const val = price.mul(bal, FLOOR)
+      assetsHigh = assetsHigh.plus(val)
+      potentialDustLoss = potentialDustLoss.plus(this.minTradeVolume)
+      if (!a.isFallback) assetsLow = assetsLow.plus(val)
+    }
+    return [
+      assetsHigh,
+      assetsLow.gt(potentialDustLoss) ? assetsLow.minus(potentialDustLoss) : Fix.ZERO,
+    ]
+  }
+
+  // {UoA}
+  collateralShortfall(backing: Fix, basketPrice: Fix): Fix {
+    if (basketPrice.eq(Fix.ZERO)) throw new Error('assert: basket price is zero')
+    let shortfall = Fix.ZERO
+    for (const a of this.basket()) {
+      const needed = backing.mulDiv(fix(a.quantity), basketPrice, CEIL)
+      const held = this.bal(a)
+      if (held.lt(needed)) shortfall = shortfall.plus(needed.minus(held).mul(fix(a.price), FLOOR))
+    }
+    return shortfall
+  }
+
+  nextTradePair(range: IBasketRange): ITradeInfo {
+    const trade: ITradeInfo = {
+      sellAmount: Fix.ZERO,
+      buyAmount: Fix.ZERO,
+      sellPrice: Fix.ZERO,
+      buyPrice: Fix.ZERO,
+    }
+    let surplusStatus = CollateralStatus.IFFY // least-desirable sell status
+    let maxSurplus = Fix.ZERO
+    let maxDeficit = Fix.ZERO
+
+    for (const a of this.snapshot.assets) {
+      if (a.erc20 == this.snapshot.rsr) continue
+
+      const bal = this.bal(a)
+      const price = fix(a.price)
+      const needed = range.top.mul(fix(a.quantity), CEIL)
+      if (bal.gt(needed)) {
+        const delta = bal.minus(needed).mul(price, FLOOR)
+        const status = a.isCollateral ? CollateralStatus[a.status] : CollateralStatus.SOUND
+        if (
+          (preferToSell(surplusStatus, status) ||
+            (delta.gt(maxSurplus) && surplusStatus == status)) &&
+          isEnoughToSell(a, price, bal.minus(needed), this.minTradeVolume)
+        ) {
+          trade.sell = a
+          trade.sellAmount = bal.minus(needed)
+          trade.sellPrice = price
+          surplusStatus = status
+          maxSurplus = delta
+        }
+      } else {
+        const neededBottom = range.bottom.mul(fix(a.quantity), CEIL)
+        if (bal.lt(neededBottom)) {
+          const amtShort = neededBottom.minus(bal)
+          const delta = amtShort.mul(price, CEIL)
+          if (delta.gt(maxDeficit)) {
+            trade.buy = a
+            trade.buyAmount = amtShort
+            trade.buyPrice = price
+            maxDeficit = delta
+          }
+        }
+      }
+    }
+
+    // Use RSR if needed, from the BackingManager and then StRSR
+    if (!trade.sell && trade.buy) {
+      const rsr = this.asset(this.snapshot.rsr)
+      const rsrAvailable = this.bal(rsr).plus(Fix.shiftl_toFix(this.rsrStaked, -rsr.decimals))
+      if (isEnoughToSell(rsr, fix(rsr.price), rsrAvailable, this.minTradeVolume)) {
+        trade.sell = rsr
+        trade.sellAmount = rsrAvailable
+        trade.sellPrice = fix(rsr.price)
+      }
+    }
+    return trade
+  }
+
+  // ==== TradeLib ====
+
+  prepareTradeSell(trade: ITradeInfo): ITradeRequest | undefined {
+    const sell = <IAssetSnapshot>trade.sell
+    const buy = <IAssetSnapshot>trade.buy
+    if (trade.buyPrice.eq(Fix.ZERO)) throw new Error('assert: buy price is zero')
+    if (!isEnoughToSell(sell, trade.sellPrice, trade.sellAmount, this.minTradeVolume)) return
+
+    const s = Fix.min(trade.sellAmount, maxTradeSize(sell, trade.sellPrice))
+    const b = s
+      .mul(Fix.ONE.minus(this.maxTradeSlippage))
+      .mulDiv(trade.sellPrice, trade.buyPrice, CEIL)
+    const minBuyAmount = b.shiftl_toUint(buy.decimals, CEIL)
+    return {
+      sell,
+      buy,
+      sellAmount: s.shiftl_toUint(sell.decimals, FLOOR),
+      minBuyAmount,
+      worstBuyAmount: minBuyAmount,
+    }
+  }
+
+  prepareTradeToCoverDeficit(trade: ITradeInfo): ITradeRequest | undefined {
+    if (trade.sellPrice.eq(Fix.ZERO) || trade.buyPrice.eq(Fix.ZERO)) {
+      throw new Error('assert: sell or buy price is zero')
+    }
+    const buyAmount = Fix.max(trade.buyAmount, minTradeSize(this.minTradeVolume, trade.buyPrice))
+    const exactSellAmount = buyAmount.mulDiv(trade.buyPrice, trade.sellPrice, CEIL)
+    const slippedSellAmount = exactSellAmount.div(Fix.ONE.minus(this.maxTradeSlippage), CEIL)
+    return this.prepareTradeSell({
+      ...trade,
+      buyAmount,
+      sellAmount: Fix.min(slippedSellAmount, trade.sellAmount),
+    })
+  }
+
+  // ==== BackingManager ====
+
+  // Opens the trade, seizing RSR as needed, and settles it in full at `fill`
+  // @return [{qRSR} seized, {qBuyTok} bought]
+  trade(req: ITradeRequest, fill: Fill): [BigNumber, BigNumber] {
+    let seized = BigNumber.from(0)
+    if (req.sell.erc20 == this.snapshot.rsr) {
+      const bal = <BigNumber>this.balances.get(req.sell.erc20)
+      if (req.sellAmount.gt(bal)) {
+        seized = req.sellAmount.sub(bal)
+        this.rsrStaked = this.rsrStaked.sub(seized)
+        this.transfer(req.sell.erc20, seized)
+      }
+    }
+
+    let bought = req.worstBuyAmount
+    if (fill == 'oracle') {
+      const atOracle = Fix.shiftl_toFix(req.sellAmount, -req.sell.decimals)
+        .mulDiv(fix(req.sell.price), fix(req.buy.price), FLOOR)
+        .shiftl_toUint(req.buy.decimals, FLOOR)
+      bought = atOracle.gt(req.minBuyAmount) ? atOracle : req.minBuyAmount
+    }
+    this.transfer(req.sell.erc20, req.sellAmount.mul(-1))
+    this.transfer(req.buy.erc20, bought)
+    return [seized, bought]
+  }
+
+  compromiseBasketsNeeded() {
+    this.basketsNeeded = this.basketsHeld()
+  }
+
+  // @return [{qRTok} minted, {qTok} surplus by erc20], for a manageTokens() call on every erc20
+  handoutExcessAssets(): [BigNumber, { erc20: string; amount: string }[]] {
+    const surplus: { erc20: string; amount: string }[] = []
+    const rsrBal = <BigNumber>this.balances.get(this.snapshot.rsr)
+    if (rsrBal.gt(0)) {
+      surplus.push({ erc20: this.snapshot.rsr, amount: rsrBal.toString() })
+      this.transfer(this.snapshot.rsr, rsrBal.mul(-1))
+    }
+
+    let needed = this.basketsNeeded
+    let minted = BigNumber.from(0)
+    const held = this.basketsHeld()
+    if (held.gt(needed)) {
+      const rToken = this.asset(this.snapshot.rToken)
+      const totalSupply = Fix.shiftl_toFix(this.totalSupply, -rToken.decimals)
+      const extraBUs = held.minus(needed)
+      const rTok = needed.gt(Fix.ZERO) ? extraBUs.mulDiv(totalSupply, needed) : extraBUs
+      minted = rTok.shiftl_toUint(rToken.decimals)
+      this.totalSupply = this.totalSupply.add(minted)
+      this.transfer(rToken.erc20, minted)
+      this.basketsNeeded = held
+      needed = held
+    }
+
+    needed = needed.mul(Fix.ONE.plus(fix(this.snapshot.backingBuffer)))
+    for (const a of this.snapshot.assets) {
+      const req = needed.mul(fix(a.quantity), CEIL)
+      if (this.bal(a).gt(req)) {
+        // Handed out in full: the Distributor's split leaves at most a few qTok behind
+        const delta = this.bal(a).minus(req).shiftl_toUint(a.decimals)
+        surplus.push({ erc20: a.erc20, amount: delta.toString() })
+        this.transfer(a.erc20, delta.mul(-1))
+      }
+    }
+    return [minted, surplus]
+  }
+}
+
+// The trade the next manageTokens() call opens, or undefined if it compromises basketsNeeded
+// instead. Only meaningful while the basket is SOUND and not fully collateralized.
+export const nextRecollateralizationTrade = (
+  snapshot: IRecollateralizationSnapshot
+): { sell: string; buy: string; sellAmount: string; minBuyAmount: string } | undefined => {
+  const { req } = new Planner(snapshot).prepareRecollateralizationTrade()
+  if (!req) return
+  return {
+    sell: req.sell.erc20,
+    buy: req.buy.erc20,
+    sellAmount: req.sellAmount.toString(),
+    minBuyAmount: req.minBuyAmount.toString(),
+  }
+}
+
+export const planRecollateralization = (
+  snapshot: IRecollateralizationSnapshot,
+  opts: IPlanOptions = {}
+): IRecollateralizationPlan => {
+  const fill = opts.fill || 'worst'
+  const maxRounds = opts.maxRounds === undefined ? 50 : opts.maxRounds
+  const planner = new Planner(snapshot)
+  const trades: IPlannedTrade[] = []
+  let rsrSeized = BigNumber.from(0)
+  let rTokenMinted = BigNumber.from(0)
+  let surplus: IRecollateralizationPlan['surplus'] = []
+  let haircut = Fix.ZERO
+
+  let outcome: PlanOutcome
+  if (snapshot.basketStatus != 'SOUND') outcome = 'basket not sound'
+  else {
+    for (;;) {
+      if (planner.fullyCollateralized()) {
+        ;[rTokenMinted, surplus] = planner.handoutExcessAssets()
+        outcome = haircut.gt(Fix.ZERO) ? 'haircut' : 'collateralized'
+        break
+      }
+      if (trades.length == maxRounds) {
+        outcome = 'unfinished'
+        break
+      }
+
+      const { req, range } = planner.prepareRecollateralizationTrade()
+      if (!req) {
+        const before = planner.basketsNeeded
+        planner.compromiseBasketsNeeded()
+        haircut = Fix.ONE.minus(planner.basketsNeeded.div(before, CEIL))
+        continue
+      }
+
+      const [seized, bought] = planner.trade(req, fill)
+      rsrSeized = rsrSeized.add(seized)
+      trades.push({
+        sell: req.sell.erc20,
+        buy: req.buy.erc20,
+        sellAmount: req.sellAmount.toString(),
+        minBuyAmount: req.minBuyAmount.toString(),
+        boughtAmount: bought.toString(),
+        rsrSeized: seized.toString(),
+        top: range.top.toBigNumber().toString(),
+        bottom: range.bottom.toBigNumber().toString(),
+      })
+    }
+  }
+
+  return {
+    outcome,
+    trades,
+    rsrSeized: rsrSeized.toString(),
+    basketsNeeded: snapshot.basketsNeeded,
+    finalBasketsNeeded: planner.basketsNeeded.toBigNumber().toString(),
+    haircut: haircut.toBigNumber().toString(),
+    rTokenMinted: rTokenMinted.toString(),
+    surplus,
+    balances: [...planner.balances.entries()].map(([erc20, balance]) => ({
+      erc20,
+      balance: balance.toString(),
+    })),
+  }
+}
+
+export const formatRecollateralizationPlan = (
+  snapshot: IRecollateralizationSnapshot,
+  plan: IRecollateralizationPlan
+): string => {
+  const assets = new Map(snapshot.assets.map((a) => [a.erc20, a]))
+  const amount = (erc20: string, qTok: string) => {
+    const asset = <IAssetSnapshot>assets.get(erc20)
+    return `${formatUnits(qTok, asset.decimals)} ${asset.symbol}`
+  }
+
+  const lines = [`Recollateralization plan at block ${snapshot.block}: ${plan.outcome}`]
+  plan.trades.forEach((t, i) => {
+    const seized = BigNumber.from(t.rsrSeized).gt(0)
+      ? `, seizing ${amount(snapshot.rsr, t.rsrSeized)}`
+      : ''
+    lines.push(
+      `  ${i + 1}. Sell ${amount(t.sell, t.sellAmount)} for at least ` +
+        `${amount(t.buy, t.minBuyAmount)}, filled for ${amount(t.buy, t.boughtAmount)}${seized}`
+    )
+  })
+  lines.push(
+    '',
+    `RSR seized: ${amount(snapshot.rsr, plan.rsrSeized)}`,
+    `basketsNeeded: ${formatEther(plan.basketsNeeded)} -> ${formatEther(plan.finalBasketsNeeded)}` +
+      ` (haircut of ${(parseFloat(formatEther(plan.haircut)) * 100).toFixed(4)}%)`
+  )
+  if (plan.surplus.length) {
+    lines.push('Surplus handed out to the revenue traders:')
+    for (const s of plan.surplus) lines.push(`  ${amount(s.erc20, s.amount)}`)
+  }
+  return lines.join('\n')
+}
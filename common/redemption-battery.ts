@@ -0,0 +1,180 @@
+import { BigNumber, utils } from 'ethers'
+
+// A model of RedemptionBatteryLib: how much RToken can be redeemed at a block, and how that
+// changes with redemptions, as `hardhat rtoken:redemption-capacity` forecasts.
+//
+// The battery charges linearly, block by block, at max(floor, supply * scalingRedemptionRate) per
+// hour, up to a full charge of an hour of charging, and never beyond the supply. Each redemption
+// discharges it by the amount redeemed. With both rates at 0, redemptions are not throttled.
+
+// @dev Must match `BLOCKS_PER_HOUR` in RedemptionBattery.sol.
+export const BLOCKS_PER_HOUR = 300 // {blocks/hour}
+
+const D18 = BigNumber.from(10).pow(18)
+
+export interface IBattery {
+  redemptionRateFloor: BigNumber // {qRTok/hour}
+  scalingRedemptionRate: BigNumber // D18{1/hour}
+  lastBlock: number // {blocks}
+  lastCharge: BigNumber // {qRTok}
+}
+
+export type IBatteryRates = Pick<IBattery, 'redemptionRateFloor' | 'scalingRedemptionRate'>
+
+export const isThrottled = (battery: IBatteryRates): boolean =>
+  !battery.redemptionRateFloor.isZero() || !battery.scalingRedemptionRate.isZero()
+
+// {qRTok/hour} The rate the battery charges at, for a supply of `supply` {qRTok}
+export const chargePerHour = (battery: IBatteryRates, supply: BigNumber): BigNumber => {
+  // {qRTok/hour} = {qRTok} * D18{1/hour} / D18
+  const amtPerHour = supply.mul(battery.scalingRedemptionRate).div(D18)
+  return battery.redemptionRateFloor.gt(amtPerHour) ? battery.redemptionRateFloor : amtPerHour
+}
+
+// {qRTok} The full charge of the battery, for a supply of `supply` {qRTok}
+export const maxCharge = (battery: IBatteryRates, supply: BigNumber): BigNumber => {
+  const amtPerHour = chargePerHour(battery, supply)
+  return amtPerHour.gt(supply) ? supply : amtPerHour
+}
+
+// {qRTok} As RedemptionBatteryLib.currentCharge() at `block`, so 0 when redemptions are not
+// throttled. `supply` {qRTok} is the total RToken supply
+export const currentCharge = (battery: IBattery, supply: BigNumber, block: number): BigNumber => {
+  const amtPerHour = chargePerHour(battery, supply)
+  const blocks = block - battery.lastBlock
+
+  // {qRTok} = {qRTok} + {qRTok/hour} * {blocks} / {blocks/hour}
+  const charge = battery.lastCharge.add(amtPerHour.mul(blocks).div(BLOCKS_PER_HOUR))
+
+  const max = amtPerHour.gt(supply) ? supply : amtPerHour
+  return charge.gt(max) ? max : charge
+}
+
+// As RedemptionBatteryLib.discharge() at `block`, redeeming `amount` {qRTok} of a supply of
+// `supply` {qRTok}. Updates the battery in place, and throws as the contract reverts
+export const discharge = (
+  battery: IBattery,
+  supply: BigNumber,
+  amount: BigNumber,
+  block: number
+) => {
+  if (!isThrottled(battery)) return
+
+  const charge = currentCharge(battery, supply, block)
+  if (amount.gt(charge)) throw new Error('redemption battery insufficient')
+
+  battery.lastBlock = block
+  battery.lastCharge = charge.sub(amount)
+}
+
+// {blocks} How long after `block` `amount` {qRTok} can be redeemed in one go, if it ever can,
+// while the supply stays `supply` {qRTok}
+export const blocksToCharge = (
+  battery: IBattery,
+  supply: BigNumber,
+  block: number,
+  amount: BigNumber
+): number | undefined => {
+  if (!isThrottled(battery)) return amount.lte(supply) ? 0 : undefined
+  if (amount.gt(maxCharge(battery, supply))) return undefined
+  if (amount.lte(currentCharge(battery, supply, block))) return 0
+
+  // The first block where lastCharge + amtPerHour * blocks / BLOCKS_PER_HOUR >= amount
+  const amtPerHour = chargePerHour(battery, supply)
+  const needed = amount.sub(battery.lastCharge).mul(BLOCKS_PER_HOUR)
+  const blocks = needed.add(amtPerHour).sub(1).div(amtPerHour).toNumber()
+  return battery.lastBlock + blocks - block
+}
+
+// ==== Forecasts ====
+
+// Amounts are decimal strings of whole RToken
+export interface ICapacityPoint {
+  minutes: number
+  block: number
+  capacity: string // {RTok} that can be redeemed at the block
+}
+
+export interface ICapacityForecast {
+  block: number
+  supply: string // {RTok}
+  throttled: boolean
+  chargePerHour: string // {RTok/hour}
+  maxCharge: string // {RTok}
+  points: ICapacityPoint[]
+  // When `amount` can be redeemed in one go, if it ever can
+  amount?: { amount: string; minutes?: number; block?: number }
+}
+
+const toMinutes = (blocks: number) => (blocks * 60) / BLOCKS_PER_HOUR
+const toBlocks = (minutes: number) => Math.ceil((minutes * BLOCKS_PER_HOUR) / 60)
+
+// Forecasts the redemption capacity each of `minutes` after `block`, and when `amount` {qRTok} can
+// be redeemed, with no redemptions in between and the supply staying `supply` {qRTok}
+export const forecastCapacity = (
+  battery: IBattery,
+  supply: BigNumber,
+  block: number,
+  minutes: number[],
+  amount?: BigNumber
+): ICapacityForecast => {
+  const { formatEther } = utils
+  const throttled = isThrottled(battery)
+
+  // Without throttling the contract reports no charge, but the whole supply can be redeemed
+  const capacity = (at: number) => (throttled ? currentCharge(battery, supply, at) : supply)
+  const forecast: ICapacityForecast = {
+    block,
+    supply: formatEther(supply),
+    throttled,
+    chargePerHour: formatEther(chargePerHour(battery, supply)),
+    maxCharge: formatEther(throttled ? maxCharge(battery, supply) : supply),
+    points: minutes.map((m) => ({
+      minutes: m,
+      block: block + toBlocks(m),
+      capacity: formatEther(capacity(block + toBlocks(m))),
+    })),
+  }
+
+  if (amount) {
+    const blocks = blocksToCharge(battery, supply, block, amount)
+    forecast.amount =
+      blocks === undefined
+        ? { amount: formatEther(amount) }
+        : { amount: formatEther(amount), minutes: toMinutes(blocks), block: block + blocks }
+  }
+  return forecast
+}
+
+export const formatCapacityForecast = (forecast: ICapacityForecast, symbol: string): string => {
+  const lines = [`Redemption capacity of ${symbol} at block ${forecast.block}`]
+  if (!forecast.throttled) {
+    lines.push(`  Redemptions are not throttled: all ${forecast.supply} ${symbol} can be redeemed`)
+    return lines.join('\n')
+  }
+
+  lines.push(
+    `  Charges ${forecast.chargePerHour} ${symbol} per hour, up to ${forecast.maxCharge} ` +
+      `of a supply of ${forecast.supply}`,
+    '',
+    '  minutes     block   capacity'
+  )
+  for (const p of forecast.points) {
+    lines.push(
+      `  ${p.minutes.toString().padStart(7)} ${p.block.toString().padStart(9)}   ${p.capacity}`
+    )
+  }
+
+  if (forecast.amount) {
+    const { amount, minutes, block } = forecast.amount
+    lines.push(
+      '',
+      minutes === undefined
+        ? `  ${amount} ${symbol} is more than a full charge, so it cannot be redeemed at once`
+        : minutes == 0
+        ? `  ${amount} ${symbol} can be redeemed now`
+        : `  ${amount} ${symbol} can be redeemed in ${minutes} minutes, at block ${block}`
+    )
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,447 @@
+import { BigNumber } from 'ethers'
+import { IConfig } from './configuration'
+import { RoundingMode } from './constants'
+import { fix, Fix } from './fixed'
+import { fp } from './numbers'
+
+// A simulation of how an RToken's revenue flows over time, as `hardhat revenue:simulate` shows.
+//
+// The collateral in the basket appreciates along its yield curve. Once per step, a keeper runs:
+//   1. Furnace.melt() and StRSR.payoutRewards()
+//   2. BackingManager.manageTokens(), which mints RToken for the baskets held beyond basketsNeeded,
+//      and hands out the excess RToken and collateral to the RevenueTraders by the distribution
+//   3. The RevenueTraders sell what they hold for RToken or RSR, and the Distributor sends what
+//      they bought to the Furnace and StRSR
+// Furnace and StRSR pay out revenue from the period after it arrives, as the contracts do. Auctions
+// settle within the step, at `slippage` below the oracle prices. Every token is assumed to have 18
+// decimals, and the Furnace and StRSR to be the only beneficiaries of the distribution.
+
+const { FLOOR, ROUND, CEIL } = RoundingMode
+
+const YEAR = 365 * 24 * 60 * 60 // {s}
+const DAY = 24 * 60 * 60 // {s}
+
+// The parameters of the RToken that govern its revenue, e.g. `params` in rTokenConfig
+export type IRevenueConfig = Pick<
+  IConfig,
+  | 'dist'
+  | 'rewardPeriod'
+  | 'rewardRatio'
+  | 'minTradeVolume'
+  | 'rTokenMaxTradeVolume'
+  | 'maxTradeSlippage'
+  | 'backingBuffer'
+>
+
+// The APY of the reference unit of a collateral, from `day` until the next point
+export interface IYieldPoint {
+  day: number
+  apy: number
+}
+
+// Amounts are decimal strings in whole units, e.g. '1.5'
+export interface IRevenueCollateral {
+  symbol: string
+  refAmt: string // {ref/BU}
+  refPerTok?: string // {ref/tok} at the start, 1 by default
+  refPrice?: string // {UoA/ref}, 1 by default
+  yieldCurve: IYieldPoint[] // refPerTok growth, by ascending day
+}
+
+export interface IRevenueScenario {
+  rTokenSupply: string // {rTok}
+  rsrStaked: string // {RSR}
+  rsrPrice: string // {UoA/RSR}
+  slippage?: string // {1} below the oracle prices that auctions clear at, 0 by default
+  collateral: IRevenueCollateral[]
+}
+
+export interface IRevenueOptions {
+  days: number
+  step?: number // {s} between keeper runs, the rewardPeriod by default
+  // The Furnace is deployed with the rewardPeriod and rewardRatio of StRSR by default
+  furnacePeriod?: BigNumber // {s}
+  furnaceRatio?: BigNumber // D18{1}
+}
+
+// The state after each step. Amounts are decimal strings in whole units, as for the scenario.
+export interface IRevenuePoint {
+  day: number
+  refPerTok: { [symbol: string]: string } // {ref/tok} of each collateral
+  rTokenSupply: string // {rTok}
+  basketsNeeded: string // {BU}
+  rTokenPrice: string // {UoA/rTok}
+  rTokenAppreciation: number // {1} of the price since the start
+  rTokenAPY: number // {1} annualized since the start
+  minted: string // {rTok} of revenue in this step
+  melted: string // {rTok} in this step
+  furnaceBalance: string // {rTok}
+  rsrPaid: string // {RSR} to stakers in this step
+  rsrRewards: string // {RSR} held by StRSR, not yet paid out
+  stRSRRate: string // {RSR/stRSR}
+  stRSRAPY: number // {1} annualized since the start
+}
+
+// Amounts held, in {qTok}
+type Balances = Map<string, BigNumber>
+
+const RTOKEN = 'RToken'
+const RSR = 'RSR'
+
+// Every token has 18 decimals
+const toTok = (q: BigNumber): Fix => fix(q)
+const toQ = (x: Fix, rounding = FLOOR): BigNumber => x.shiftl_toUint(18, rounding)
+const toUnits = (q: BigNumber): string => toTok(q).toString()
+
+const minTradeSize = (minTradeVolume: Fix, price: Fix): Fix => {
+  const size = price.eq(Fix.ZERO) ? Fix.MAX : minTradeVolume.div(price, ROUND)
+  return size.gt(Fix.ZERO) ? size : fix(1)
+}
+
+const maxTradeSize = (maxTradeVolume: Fix, price: Fix): Fix => {
+  const size = price.eq(Fix.ZERO) ? Fix.MAX : maxTradeVolume.div(price, ROUND)
+  return size.gt(Fix.ZERO) ? size : fix(1)
+}
+
+interface ICollateralState {
+  symbol: string
+  refAmt: Fix
+  refPerTok: Fix
+  refPrice: Fix
+  yieldCurve: IYieldPoint[]
+}
+
+class Simulation {
+  readonly config: IRevenueConfig
+  readonly slippage: Fix
+  readonly furnacePeriod: number
+  readonly furnaceRatio: Fix
+  readonly rsrPrice: Fix
+  readonly collateral: ICollateralState[]
+
+  time = 0 // {s}
+  supply: BigNumber // {qRTok}
+  basketsNeeded: Fix // {BU}
+  readonly backingManager: Balances = new Map()
+  readonly rTokenTrader: Balances = new Map()
+  readonly rsrTrader: Balances = new Map()
+
+  furnaceBalance = BigNumber.from(0) // {qRTok}
+  lastPayout = 0 // {s}
+  lastPayoutBal = BigNumber.from(0) // {qRTok}
+
+  stRSRBalance: BigNumber // {qRSR}
+  stakeRSR: BigNumber // {qRSR}
+  readonly totalStakes: BigNumber // {qStRSR}
+  stakeRate = Fix.ONE // D18{qStRSR/qRSR}
+  payoutLastPaid = 0 // {s}
+  rsrRewardsAtLastPayout = BigNumber.from(0) // {qRSR}
+
+  // Over the current step
+  minted = BigNumber.from(0) // {qRTok}
+  melted = BigNumber.from(0) // {qRTok}
+  rsrPaid = BigNumber.from(0) // {qRSR}
+
+  constructor(scenario: IRevenueScenario, config: IRevenueConfig, options: IRevenueOptions) {
+    this.config = config
+    this.slippage = fix(fp(scenario.slippage || '0'))
+    if (this.slippage.gt(fix(config.maxTradeSlippage))) {
+      throw new Error('The slippage is beyond maxTradeSlippage, so auctions would not clear')
+    }
+    this.furnacePeriod = (options.furnacePeriod || config.rewardPeriod).toNumber()
+    this.furnaceRatio = fix(options.furnaceRatio || config.rewardRatio)
+    this.rsrPrice = fix(fp(scenario.rsrPrice))
+    this.collateral = scenario.collateral.map((c) => ({
+      symbol: c.symbol,
+      refAmt: fix(fp(c.refAmt)),
+      refPerTok: fix(fp(c.refPerTok || '1')),
+      refPrice: fix(fp(c.refPrice || '1')),
+      yieldCurve: c.yieldCurve,
+    }))
+
+    // Issued at 1 BU per RToken
+    this.supply = fp(scenario.rTokenSupply)
+    this.basketsNeeded = toTok(this.supply)
+    for (const c of this.collateral) {
+      this.backingManager.set(c.symbol, toQ(this.basketsNeeded.mul(this.quantity(c), CEIL), CEIL))
+    }
+    this.stRSRBalance = this.stakeRSR = this.totalStakes = fp(scenario.rsrStaked)
+  }
+
+  // ==== Prices ====
+
+  // {tok/BU}
+  quantity(c: ICollateralState): Fix {
+    return c.refAmt.div(c.refPerTok, CEIL)
+  }
+
+  // {UoA/BU}
+  basketPrice(): Fix {
+    return this.collateral.reduce(
+      (sum, c) => sum.plus(this.quantity(c).mul(c.refPrice.mul(c.refPerTok))),
+      Fix.ZERO
+    )
+  }
+
+  // {UoA/tok}
+  price(token: string): Fix {
+    if (token == RSR) return this.rsrPrice
+    if (token == RTOKEN) {
+      if (this.supply.eq(0)) return this.basketPrice()
+      return this.basketsNeeded.mulDiv(this.basketPrice(), toTok(this.supply))
+    }
+    const c = <ICollateralState>this.collateral.find((c) => c.symbol == token)
+    return c.refPrice.mul(c.refPerTok)
+  }
+
+  // D18{qRSR/qStRSR}
+  exchangeRate(): Fix {
+    return fix((10n ** 36n + this.stakeRate.value / 2n) / this.stakeRate.value)
+  }
+
+  // ==== Time ====
+
+  // Grows each refPerTok along its yield curve over `seconds`
+  appreciate(seconds: number) {
+    const day = this.time / DAY
+    for (const c of this.collateral) {
+      const point = [...c.yieldCurve].reverse().find((p) => p.day <= day)
+      const growth = Math.pow(1 + (point ? point.apy : 0), seconds / YEAR)
+      c.refPerTok = c.refPerTok.mul(fix(fp(growth.toFixed(18))))
+    }
+    this.time += seconds
+  }
+
+  // ==== Furnace ====
+
+  melt() {
+    if (this.time < this.lastPayout + this.furnacePeriod) return
+    const numPeriods = Math.floor((this.time - this.lastPayout) / this.furnacePeriod)
+
+    // Paying out the ratio r, N times, equals paying out the ratio (1 - (1-r)^N) 1 time.
+    const payoutRatio = Fix.ONE.minus(Fix.ONE.minus(this.furnaceRatio).powu(numPeriods))
+    const amount = payoutRatio.mulu_toUint(this.lastPayoutBal)
+
+    this.lastPayout += numPeriods * this.furnacePeriod
+    this.lastPayoutBal = this.furnaceBalance.sub(amount)
+    this.furnaceBalance = this.furnaceBalance.sub(amount)
+    this.supply = this.supply.sub(amount)
+    this.melted = this.melted.add(amount)
+  }
+
+  // ==== StRSR ====
+
+  payoutRewards() {
+    const rewardPeriod = this.config.rewardPeriod.toNumber()
+    if (this.time < this.payoutLastPaid + rewardPeriod) return
+    const numPeriods = Math.floor((this.time - this.payoutLastPaid) / rewardPeriod)
+
+    const payoutRatio = Fix.ONE.minus(Fix.ONE.minus(fix(this.config.rewardRatio)).powu(numPeriods))
+    const payout = payoutRatio.mulu_toUint(this.rsrRewardsAtLastPayout)
+    this.stakeRSR = this.stakeRSR.add(payout)
+    this.payoutLastPaid += numPeriods * rewardPeriod
+    this.rsrRewardsAtLastPayout = this.rsrRewards()
+    this.rsrPaid = this.rsrPaid.add(payout)
+
+    // D18{qStRSR/qRSR} = {qStRSR} * D18 / {qRSR}, rounded up
+    this.stakeRate =
+      this.stakeRSR.eq(0) || this.totalStakes.eq(0)
+        ? Fix.ONE
+        : fix(this.totalStakes.mul(fp(1)).add(this.stakeRSR.sub(1)).div(this.stakeRSR))
+  }
+
+  // {qRSR}
+  rsrRewards(): BigNumber {
+    return this.stRSRBalance.sub(this.stakeRSR)
+  }
+
+  // ==== BackingManager ====
+
+  handoutExcessAssets() {
+    // Mint revenue RToken and update basketsNeeded
+    let needed = this.basketsNeeded // {BU}
+    const held = this.collateral.reduce(
+      (min, c) =>
+        Fix.min(min, toTok(this.balance(this.backingManager, c.symbol)).div(this.quantity(c))),
+      Fix.MAX
+    )
+    if (held.gt(needed)) {
+      const extraBUs = held.minus(needed)
+      const rTok = needed.gt(Fix.ZERO) ? extraBUs.mulDiv(toTok(this.supply), needed) : extraBUs
+      const minted = toQ(rTok)
+      this.supply = this.supply.add(minted)
+      this.add(this.backingManager, RTOKEN, minted)
+      this.minted = this.minted.add(minted)
+      this.basketsNeeded = needed = held
+    }
+
+    // Keep a small buffer of individual collateral; "excess" assets are beyond the buffer.
+    needed = needed.mul(Fix.ONE.plus(fix(this.config.backingBuffer)))
+
+    const { rTokenDist, rsrDist } = this.config.dist
+    const totalShares = rTokenDist.add(rsrDist)
+    const tokens = [...this.collateral.map((c) => c.symbol), RTOKEN]
+    for (const token of tokens) {
+      const c = this.collateral.find((c) => c.symbol == token)
+      const req = c ? needed.mul(this.quantity(c), CEIL) : Fix.ZERO
+      const bal = toTok(this.balance(this.backingManager, token))
+      if (!bal.gt(req)) continue
+
+      // Divides first, as the contract does, leaving the dust
+      const delta = toQ(bal.minus(req))
+      const toRSR = delta.div(totalShares).mul(rsrDist)
+      const toRToken = delta.div(totalShares).mul(rTokenDist)
+      this.add(this.backingManager, token, toRSR.add(toRToken).mul(-1))
+      this.add(this.rTokenTrader, token, toRToken)
+      this.add(this.rsrTrader, token, toRSR)
+    }
+  }
+
+  // ==== RevenueTraders ====
+
+  manageTokens(trader: Balances, tokenToBuy: string) {
+    for (const token of [...trader.keys()]) {
+      if (token == tokenToBuy) continue
+      const sellAmount = toTok(this.balance(trader, token))
+      const sellPrice = this.price(token)
+      const buyPrice = this.price(tokenToBuy)
+
+      // Don't sell dust
+      const minTradeVolume = fix(this.config.minTradeVolume)
+      if (sellAmount.lt(minTradeSize(minTradeVolume, sellPrice))) continue
+      if (toQ(sellAmount).lte(1)) continue
+
+      // Auctions are settled at `slippage` below the oracle prices
+      const maxTradeVolume = fix(this.config.rTokenMaxTradeVolume)
+      const s = Fix.min(sellAmount, maxTradeSize(maxTradeVolume, sellPrice))
+      const bought = s.mul(Fix.ONE.minus(this.slippage)).mulDiv(sellPrice, buyPrice, FLOOR)
+      this.add(trader, token, toQ(s).mul(-1))
+      this.add(trader, tokenToBuy, toQ(bought))
+    }
+    this.distribute(trader, tokenToBuy)
+  }
+
+  // Sends what the trader bought to the Furnace or StRSR
+  distribute(trader: Balances, token: string) {
+    const amount = this.balance(trader, token)
+    const { rTokenDist, rsrDist } = this.config.dist
+    const shares = token == RSR ? rsrDist : rTokenDist
+    if (amount.eq(0) || shares.eq(0)) return
+
+    // Rounds "early", leaving the dust with the trader
+    const transferAmt = amount.div(shares).mul(shares)
+    this.add(trader, token, transferAmt.mul(-1))
+    if (token == RSR) this.stRSRBalance = this.stRSRBalance.add(transferAmt)
+    else this.furnaceBalance = this.furnaceBalance.add(transferAmt)
+  }
+
+  balance(balances: Balances, token: string): BigNumber {
+    return balances.get(token) || BigNumber.from(0)
+  }
+
+  add(balances: Balances, token: string, amount: BigNumber) {
+    balances.set(token, this.balance(balances, token).add(amount))
+  }
+
+  // ==== Keeper ====
+
+  step(seconds: number) {
+    this.minted = this.melted = this.rsrPaid = BigNumber.from(0)
+    this.appreciate(seconds)
+    this.melt()
+    this.payoutRewards()
+    this.handoutExcessAssets()
+    this.manageTokens(this.rTokenTrader, RTOKEN)
+    this.manageTokens(this.rsrTrader, RSR)
+  }
+}
+
+const annualized = (growth: number, seconds: number): number =>
+  seconds > 0 ? Math.pow(growth, YEAR / seconds) - 1 : 0
+
+// @return The state after each step, over `options.days`
+export const simulateRevenue = (
+  scenario: IRevenueScenario,
+  config: IRevenueConfig,
+  options: IRevenueOptions
+): IRevenuePoint[] => {
+  const sim = new Simulation(scenario, config, options)
+  const step = options.step || config.rewardPeriod.toNumber()
+  if (step <= 0) throw new Error('The step must be positive')
+
+  const initialPrice = Number(sim.price(RTOKEN).toString())
+  const initialRate = Number(sim.exchangeRate().toString())
+  const points: IRevenuePoint[] = []
+  while (sim.time + step <= options.days * DAY) {
+    sim.step(step)
+    const price = sim.price(RTOKEN)
+    const rate = sim.exchangeRate()
+    const appreciation = Number(price.toString()) / initialPrice
+    points.push({
+      day: sim.time / DAY,
+      refPerTok: Object.fromEntries(sim.collateral.map((c) => [c.symbol, c.refPerTok.toString()])),
+      rTokenSupply: toUnits(sim.supply),
+      basketsNeeded: sim.basketsNeeded.toString(),
+      rTokenPrice: price.toString(),
+      rTokenAppreciation: appreciation - 1,
+      rTokenAPY: annualized(appreciation, sim.time),
+      minted: toUnits(sim.minted),
+      melted: toUnits(sim.melted),
+      furnaceBalance: toUnits(sim.furnaceBalance),
+      rsrPaid: toUnits(sim.rsrPaid),
+      rsrRewards: toUnits(sim.rsrRewards()),
+      stRSRRate: rate.toString(),
+      stRSRAPY: annualized(Number(rate.toString()) / initialRate, sim.time),
+    })
+  }
+  return points
+}
+
+const columns: Exclude<keyof IRevenuePoint, 'refPerTok'>[] = [
+  'day',
+  'rTokenSupply',
+  'basketsNeeded',
+  'rTokenPrice',
+  'rTokenAppreciation',
+  'rTokenAPY',
+  'minted',
+  'melted',
+  'furnaceBalance',
+  'rsrPaid',
+  'rsrRewards',
+  'stRSRRate',
+  'stRSRAPY',
+]
+
+// One row per step, with a refPerTok column per collateral
+export const formatRevenueCSV = (points: IRevenuePoint[]): string => {
+  const symbols = points.length ? Object.keys(points[0].refPerTok) : []
+  const header = [...columns, ...symbols.map((symbol) => `${symbol} refPerTok`)]
+  const rows = points.map((p) =>
+    [...columns.map((col) => p[col]), ...symbols.map((symbol) => p.refPerTok[symbol])].join(',')
+  )
+  return [header.join(','), ...rows].join('\n')
+}
+
+const pct = (x: number) => `${(x * 100).toFixed(2)}%`
+
+// One line every `every` days, and the last one
+export const formatRevenueSimulation = (points: IRevenuePoint[], every = 30): string => {
+  const lines = ['day   RToken price   appreciation   RToken APY   stRSR rate   stRSR APY']
+  let next = every
+  points.forEach((p, i) => {
+    if (p.day < next && i != points.length - 1) return
+    next = (Math.floor(p.day / every) + 1) * every
+    lines.push(
+      [
+        p.day.toFixed(0).padEnd(5),
+        Number(p.rTokenPrice).toFixed(6).padStart(12),
+        pct(p.rTokenAppreciation).padStart(14),
+        pct(p.rTokenAPY).padStart(12),
+        Number(p.stRSRRate).toFixed(6).padStart(12),
+        pct(p.stRSRAPY).padStart(11),
+      ].join(' ')
+    )
+  })
+  return lines.join('\n')
+}
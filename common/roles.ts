@@ -0,0 +1,156 @@
+import { Contract, ethers } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { LONG_FREEZER, OWNER, PAUSER, SHORT_FREEZER } from './constants'
+
+// Role holders, replayed from the RoleGranted/RoleRevoked events of an AccessControl contract
+
+export const MAIN_ROLES = [OWNER, SHORT_FREEZER, LONG_FREEZER, PAUSER]
+
+export const TIMELOCK_ADMIN_ROLE = ethers.utils.id('TIMELOCK_ADMIN_ROLE')
+export const PROPOSER_ROLE = ethers.utils.id('PROPOSER_ROLE')
+export const EXECUTOR_ROLE = ethers.utils.id('EXECUTOR_ROLE')
+export const CANCELLER_ROLE = ethers.utils.id('CANCELLER_ROLE')
+
+export const TIMELOCK_ROLES = [TIMELOCK_ADMIN_ROLE, PROPOSER_ROLE, EXECUTOR_ROLE, CANCELLER_ROLE]
+
+const roleNames: { [role: string]: string } = {
+  [OWNER]: 'OWNER',
+  [SHORT_FREEZER]: 'SHORT_FREEZER',
+  [LONG_FREEZER]: 'LONG_FREEZER',
+  [PAUSER]: 'PAUSER',
+  [TIMELOCK_ADMIN_ROLE]: 'TIMELOCK_ADMIN_ROLE',
+  [PROPOSER_ROLE]: 'PROPOSER_ROLE',
+  [EXECUTOR_ROLE]: 'EXECUTOR_ROLE',
+  [CANCELLER_ROLE]: 'CANCELLER_ROLE',
+}
+
+export const roleName = (role: string): string => roleNames[role] || role
+
+export interface IRoleEvent {
+  event: 'RoleGranted' | 'RoleRevoked'
+  role: string
+  account: string
+}
+
+// role => current holders, in order of their grant
+export interface IRoleHolders {
+  [role: string]: string[]
+}
+
+// Replays role events, which must be in chain order
+export const replayRoleEvents = (events: IRoleEvent[]): IRoleHolders => {
+  const holders: IRoleHolders = {}
+  for (const { event, role, account } of events) {
+    const addr = ethers.utils.getAddress(account)
+    const current = (holders[role] = holders[role] || [])
+    if (event == 'RoleGranted' && !current.includes(addr)) current.push(addr)
+    else if (event == 'RoleRevoked') holders[role] = current.filter((a) => a != addr)
+  }
+  return holders
+}
+
+// Queries and replays the role events of `contract`, which must have the AccessControl events
+export const getRoleHolders = async (contract: Contract): Promise<IRoleHolders> => {
+  const events = [
+    ...(await contract.queryFilter(contract.filters.RoleGranted())),
+    ...(await contract.queryFilter(contract.filters.RoleRevoked())),
+  ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+  return replayRoleEvents(
+    events.map((e) => ({
+      event: <IRoleEvent['event']>e.event,
+      role: e.args?.role,
+      account: e.args?.account,
+    }))
+  )
+}
+
+export interface IRoleAudit {
+  main: IRoleHolders
+  timelock?: IRoleHolders // if the RToken has governance
+  timelockAddr?: string
+  deployer: string
+  eoas: string[] // role holders without code
+  longFreezes: { [account: string]: number } // remaining charges of each LONG_FREEZER
+}
+
+// Reads the current role holders of Main and, if given, its TimelockController
+export const auditRoles = async (
+  hre: HardhatRuntimeEnvironment,
+  mainAddr: string,
+  deployer: string,
+  timelockAddr?: string
+): Promise<IRoleAudit> => {
+  const main = await hre.ethers.getContractAt('TestIMain', mainAddr)
+  const audit: IRoleAudit = {
+    main: await getRoleHolders(main),
+    deployer: ethers.utils.getAddress(deployer),
+    eoas: [],
+    longFreezes: {},
+  }
+
+  if (timelockAddr) {
+    const timelock = await hre.ethers.getContractAt('TimelockController', timelockAddr)
+    audit.timelockAddr = ethers.utils.getAddress(timelockAddr)
+    audit.timelock = await getRoleHolders(timelock)
+  }
+
+  const accounts = new Set([
+    ...Object.values(audit.main).flat(),
+    ...Object.values(audit.timelock || {}).flat(),
+  ])
+  for (const account of accounts) {
+    // address(0) as EXECUTOR means anyone can execute, and is not an account
+    if (account == ethers.constants.AddressZero) continue
+    if ((await hre.ethers.provider.getCode(account)) == '0x') audit.eoas.push(account)
+  }
+
+  for (const account of audit.main[LONG_FREEZER] || []) {
+    audit.longFreezes[account] = (await main.longFreezes(account)).toNumber()
+  }
+  return audit
+}
+
+// Flags the dangerous states of an audit
+export const findRoleWarnings = (audit: IRoleAudit): string[] => {
+  const warnings: string[] = []
+  const owners = audit.main[OWNER] || []
+
+  if (owners.includes(audit.deployer)) {
+    warnings.push(`The deployer ${audit.deployer} is still OWNER`)
+  }
+  for (const owner of owners) {
+    if (owner != audit.deployer && audit.eoas.includes(owner)) {
+      warnings.push(`The EOA ${owner} is OWNER`)
+    }
+  }
+  if (owners.length == 0) warnings.push('Nobody is OWNER')
+  if ((audit.main[PAUSER] || []).length == 0) warnings.push('Nobody is PAUSER')
+
+  if (!audit.timelockAddr) {
+    warnings.push('No governance: the RToken has no TimelockController')
+  } else {
+    if (!owners.includes(audit.timelockAddr)) {
+      warnings.push(`Governance does not hold OWNER: ${audit.timelockAddr} is not OWNER`)
+    }
+    for (const admin of audit.timelock?.[TIMELOCK_ADMIN_ROLE] || []) {
+      if (admin != audit.timelockAddr) {
+        warnings.push(`${admin} can bypass governance: it holds TIMELOCK_ADMIN_ROLE`)
+      }
+    }
+  }
+
+  // Governance may long-freeze; anyone else with charges left can freeze the RToken for long
+  for (const [account, charges] of Object.entries(audit.longFreezes)) {
+    if (charges > 0 && account != audit.timelockAddr) {
+      warnings.push(`${account} has ${charges} long-freeze charges remaining`)
+    }
+  }
+  return warnings
+}
+
+// Formats the holders of each role, one role per line
+export const formatRoleHolders = (roles: string[], holders: IRoleHolders): string =>
+  roles
+    .map((role) => `  ${roleName(role)}: ${(holders[role] || []).join(', ') || 'none'}`)
+    .join('\n')
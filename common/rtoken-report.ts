@@ -0,0 +1,116 @@
+// A health report of a deployed RToken, as produced by `hardhat rtoken:report`. Every amount is a
+// decimal string, and every list is in a stable order, so that daily reports diff cleanly.
+
+export interface IBasketEntry {
+  erc20: string
+  symbol: string
+  targetName: string
+  uoaShare: string // {1} of the basket's UoA value
+  balance: string // {tok} held by the BackingManager
+  uoaValue: string // {UoA} of the balance
+}
+
+export interface ICollateralReport {
+  erc20: string
+  symbol: string
+  collateral: string
+  status: string // CollateralStatus
+  whenDefault?: number // {s} if the collateral is IFFY
+  defaultsIn?: number // {s} until an IFFY collateral defaults
+}
+
+export interface ITradeReport {
+  trader: string // BackingManager, RSRTrader or RTokenTrader
+  trade: string
+  sell: string // symbol
+  buy: string // symbol
+  endTime: number // {s}
+}
+
+export interface IRTokenReport {
+  rToken: string
+  symbol: string
+  block: number
+  timestamp: number // {s}
+  price: string // {UoA/rTok}
+  totalSupply: string // {rTok}
+  basketsNeeded: string // {BU}
+  basketsPerRTok: string // {BU/rTok}
+  paused: boolean
+  frozen: boolean
+  basket: {
+    status: string // CollateralStatus
+    fullyCollateralized: boolean
+    backing: string // {1} worst-case collateralization after trading
+    overcollateralization: string // {1} RSR insurance over the fully-backed value
+    entries: IBasketEntry[]
+  }
+  collateral: ICollateralReport[]
+  trades: ITradeReport[]
+  redemption: {
+    limit: string // {rTok} the battery's current charge
+    maxCharge: string // {rTok} the battery's full charge
+    charged: string // {1} limit / maxCharge
+  }
+}
+
+export const formatDuration = (seconds: number): string => {
+  if (seconds <= 0) return 'now'
+  const units: [string, number][] = [
+    ['d', 86400],
+    ['h', 3600],
+    ['m', 60],
+    ['s', 1],
+  ]
+  const parts: string[] = []
+  for (const [unit, size] of units) {
+    if (seconds >= size) {
+      parts.push(`${Math.floor(seconds / size)}${unit}`)
+      seconds %= size
+    }
+  }
+  return parts.join(' ')
+}
+
+const pct = (ratio: string) => `${(parseFloat(ratio) * 100).toFixed(2)}%`
+
+export const formatReport = (r: IRTokenReport): string => {
+  const lines = [
+    `${r.symbol} (${r.rToken}) at block ${r.block}, ${new Date(r.timestamp * 1000).toISOString()}`,
+    `  price: ${r.price} UoA`,
+    `  supply: ${r.totalSupply}, basketsNeeded: ${r.basketsNeeded} (${r.basketsPerRTok} BU/rTok)`,
+    `  paused: ${r.paused}, frozen: ${r.frozen}`,
+    '',
+    `Basket: ${r.basket.status}, ${
+      r.basket.fullyCollateralized ? 'fully collateralized' : 'UNDERCOLLATERALIZED'
+    }`,
+    `  backing: ${pct(r.basket.backing)}, overcollateralization: ${pct(
+      r.basket.overcollateralization
+    )}`,
+  ]
+  for (const e of r.basket.entries) {
+    lines.push(
+      `  ${e.symbol} (${e.targetName}): ${pct(e.uoaShare)} of the basket, ` +
+        `${e.balance} held, worth ${e.uoaValue} UoA`
+    )
+  }
+
+  lines.push('', 'Collateral:')
+  for (const c of r.collateral) {
+    const countdown =
+      c.defaultsIn !== undefined ? `, defaults in ${formatDuration(c.defaultsIn)}` : ''
+    lines.push(`  ${c.symbol}: ${c.status}${countdown}`)
+  }
+
+  lines.push('', `Open trades: ${r.trades.length}`)
+  for (const t of r.trades) {
+    const endsIn = formatDuration(t.endTime - r.timestamp)
+    lines.push(
+      `  ${t.trader}: ${t.sell} -> ${t.buy}, ends ${endsIn == 'now' ? 'now' : `in ${endsIn}`}`
+    )
+  }
+
+  const { limit, maxCharge, charged } = r.redemption
+  lines.push('', `Redemption battery: ${limit} of ${maxCharge} ${r.symbol} (${pct(charged)})`)
+  return lines.join('\n')
+}
@@ -0,0 +1,110 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { RoundingMode } from './constants'
+import { bn, div, fp, pow10, toBNDecimals } from './numbers'
+
+// Dimensional units for protocol quantities, checked by the compiler.
+//
+// A Quantity<U> is a BigNumber branded with its unit U, written as in the contracts' comments:
+// 'UoA/tok' is {UoA/tok}. Quantities are D18 fixed-point values, except {qTok}, which is a raw
+// token amount. The brand only exists at compile time; at runtime a Quantity is a BigNumber.
+//
+// Arithmetic goes through the functions below, which derive the unit of their result:
+//   mul(targetPerRef, refPerTok): TargetPerTok   // {target/tok} = {target/ref} * {ref/tok}
+//   plus(uoaPerTok, refPerTok)                   // compile error: {UoA/tok} + {ref/tok}
+// BigNumber's own methods still work on a Quantity, but return unbranded BigNumbers.
+
+declare const unitBrand: unique symbol
+
+// The brand is invariant in U, so that mismatched units can't unify into a union of units
+export type Quantity<U extends string> = BigNumber & { readonly [unitBrand]: (unit: U) => U }
+
+export type UoA = Quantity<'UoA'>
+export type Tok = Quantity<'tok'>
+export type QTok = Quantity<'qTok'>
+export type BU = Quantity<'BU'>
+export type UoAPerTok = Quantity<'UoA/tok'>
+export type UoAPerRef = Quantity<'UoA/ref'>
+export type UoAPerTarget = Quantity<'UoA/target'>
+export type RefPerTok = Quantity<'ref/tok'>
+export type TargetPerRef = Quantity<'target/ref'>
+export type TargetPerTok = Quantity<'target/tok'>
+export type TokPerBU = Quantity<'tok/BU'>
+export type RefPerBU = Quantity<'ref/BU'>
+export type TargetPerBU = Quantity<'target/BU'>
+export type BUPerRTok = Quantity<'BU/rTok'>
+
+// Brands x, which must already be in unit U, e.g. quantity<'ref/tok'>(await coll.refPerTok())
+export const quantity = <U extends string>(x: BigNumberish): Quantity<U> => <Quantity<U>>bn(x)
+
+// Parses x as a D18 quantity in unit U, e.g. fpq<'target/ref'>('1')
+export const fpq = <U extends string>(x: BigNumberish): Quantity<U> => <Quantity<U>>fp(x)
+
+// ==== Arithmetic ====
+
+const D18 = pow10(18)
+
+export const plus = <U extends string>(x: Quantity<U>, y: Quantity<U>): Quantity<U> =>
+  <Quantity<U>>x.add(y)
+
+export const minus = <U extends string>(x: Quantity<U>, y: Quantity<U>): Quantity<U> =>
+  <Quantity<U>>x.sub(y)
+
+// Scales x by a dimensionless D18 factor
+export const scale = <U extends string>(
+  x: Quantity<U>,
+  factor: BigNumberish,
+  rnd = RoundingMode.FLOOR
+): Quantity<U> => <Quantity<U>>div(x.mul(factor), D18, rnd)
+
+// {A/C} = {A/B} * {B/C}, in either order; or {A} = {A/B} * {B}, in either order
+export function mul<A extends string, B extends string, C extends string>(
+  x: Quantity<`${A}/${B}`>,
+  y: Quantity<`${B}/${C}`>,
+  rnd?: RoundingMode
+): Quantity<`${A}/${C}`>
+export function mul<A extends string, B extends string, C extends string>(
+  x: Quantity<`${B}/${C}`>,
+  y: Quantity<`${A}/${B}`>,
+  rnd?: RoundingMode
+): Quantity<`${A}/${C}`>
+export function mul<A extends string, B extends string>(
+  x: Quantity<`${A}/${B}`>,
+  y: Quantity<B>,
+  rnd?: RoundingMode
+): Quantity<A>
+export function mul<A extends string, B extends string>(
+  x: Quantity<B>,
+  y: Quantity<`${A}/${B}`>,
+  rnd?: RoundingMode
+): Quantity<A>
+export function mul(x: BigNumber, y: BigNumber, rnd = RoundingMode.FLOOR): BigNumber {
+  return div(x.mul(y), D18, rnd)
+}
+
+// {A/B} = {A/C} / {B/C}; or {B} = {A} / {A/B}; or {A/B} = {A} / {B}
+export function divide<A extends string, B extends string, C extends string>(
+  x: Quantity<`${A}/${C}`>,
+  y: Quantity<`${B}/${C}`>,
+  rnd?: RoundingMode
+): Quantity<`${A}/${B}`>
+export function divide<A extends string, B extends string>(
+  x: Quantity<A>,
+  y: Quantity<`${A}/${B}`>,
+  rnd?: RoundingMode
+): Quantity<B>
+export function divide<A extends string, B extends string>(
+  x: Quantity<A>,
+  y: Quantity<B>,
+  rnd?: RoundingMode
+): Quantity<`${A}/${B}`>
+export function divide(x: BigNumber, y: BigNumber, rnd = RoundingMode.FLOOR): BigNumber {
+  return div(x.mul(D18), y, rnd)
+}
+
+// ==== {tok} <-> {qTok} ====
+
+// {qTok} = {tok} * {qTok/tok}, truncating below the token's decimals
+export const toQTok = (x: Tok, decimals: number): QTok => <QTok>toBNDecimals(x, decimals)
+
+// {tok} = {qTok} / {qTok/tok}
+export const toTok = (x: QTok, decimals: number): Tok => <Tok>x.mul(pow10(18 - decimals))
@@ -1,8 +1,9 @@
 import hre from 'hardhat'
 import axios from 'axios'
+import { BigNumber } from 'ethers'
 import { bn } from '../common/numbers'
 import { getChainId } from '../common/blockchain-utils'
-import { getEtherscanBaseURL } from './deployment/utils'
+import { ESTIMATED_DEPLOYMENT_GAS, getEtherscanBaseURL } from './deployment/utils'
 
 import { useEnv } from '#/utils/env'
 
@@ -36,9 +37,24 @@ async function main() {
   console.log('=================================')
   console.log(`Environment checks complete! Ready to deploy to chain ${chainId}!`)
 
-  const decaEthBal = (await hre.ethers.provider.getBalance(deployer.address)).div(bn('1e16'))
-  const ethBal = (decaEthBal.toNumber() / 100).toFixed(2)
-  console.log(`The deployment address is ${deployer.address} and it holds >=${ethBal} ETH`)
+  // Round down to 2 decimals
+  const fmtEth = (amt: BigNumber) => (amt.div(bn('1e16')).toNumber() / 100).toFixed(2)
+
+  const balance = await hre.ethers.provider.getBalance(deployer.address)
+  console.log(`The deployment address is ${deployer.address} and it holds >=${fmtEth(balance)} ETH`)
+
+  // Check balance against the expected deployment cost at the current gas price
+  // DEPLOYMENT_GAS can be set to the total reported by `yarn deploy --dry-run`
+  const gas = bn(useEnv('DEPLOYMENT_GAS', ESTIMATED_DEPLOYMENT_GAS.toString()))
+  const gasPrice = await hre.ethers.provider.getGasPrice()
+  const required = gas.mul(gasPrice)
+  const gwei = hre.ethers.utils.formatUnits(gasPrice, 'gwei')
+  console.log(`Deploying needs ~${fmtEth(required)} ETH (${gas} gas at ${gwei} gwei)`)
+  if (balance.lt(required)) {
+    console.log(`NOT ENOUGH: send ~${fmtEth(required.sub(balance))} more ETH`)
+  } else {
+    console.log('The balance is enough to deploy')
+  }
 }
 
 main().catch((error) => {
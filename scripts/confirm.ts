@@ -32,7 +32,7 @@ async function main() {
 
   // Part 2/3 of the *overall* deployment process: Confirmation
 
-  const scripts = ['0_confirm_components.ts', '1_confirm_assets.ts']
+  const scripts = ['0_confirm_components.ts', '1_confirm_assets.ts', '2_confirm_config.ts']
 
   for (const script of scripts) {
     console.log('\n===========================================\n', script, '')
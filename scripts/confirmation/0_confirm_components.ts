@@ -8,7 +8,7 @@ import {
   getRTokenDeploymentFilename,
   IRTokenDeployments,
 } from '../deployment/common'
-import { RTOKEN_NAME } from '../deployment/phase3-rtoken/rTokenConfig'
+import { getRTokenName } from '../deployment/phase3-rtoken/rTokenConfig'
 
 async function main() {
   // ********** Read config **********
@@ -24,7 +24,7 @@ async function main() {
 
   // Get RToken Configuration
   // Check previous step completed
-  const rTokenDeploymentFilename = getRTokenDeploymentFilename(chainId, RTOKEN_NAME)
+  const rTokenDeploymentFilename = getRTokenDeploymentFilename(chainId, getRTokenName())
   const rTokenDeployments = <IRTokenDeployments>getDeploymentFile(rTokenDeploymentFilename)
 
   const mainComponent = await hre.ethers.getContractAt('MainP1', rTokenDeployments.main)
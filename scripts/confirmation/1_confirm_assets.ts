@@ -1,6 +1,5 @@
 import hre from 'hardhat'
 
-import { bn } from '../../common/numbers'
 import { getChainId } from '../../common/blockchain-utils'
 import { developmentChains, networkConfig } from '../../common/configuration'
 import {
@@ -8,6 +7,7 @@ import {
   IAssetCollDeployments,
   getAssetCollDeploymentFilename,
 } from '../deployment/common'
+import { mul, quantity, RefPerTok, TargetPerRef, UoAPerTarget, UoAPerTok } from '../../common/units'
 
 async function main() {
   // ********** Read config **********
@@ -48,15 +48,16 @@ async function main() {
     const erc20 = await hre.ethers.getContractAt('ERC20Mock', await coll.erc20())
     console.log(`confirming collateral for erc20 ${await erc20.symbol()}`)
 
-    const [isFallback, currentPrice] = await coll.price(true) // {UoA/tok}
+    const [isFallback, price] = await coll.price(true)
     if (isFallback) throw new Error('misconfigured oracle')
 
-    const refPerTok = await coll.refPerTok() // {ref/tok}
-    const targetPerRef = await coll.targetPerRef() // {target/ref}
-    const pricePerTarget = await coll.pricePerTarget() // {UoA/target}
+    const currentPrice: UoAPerTok = quantity(price)
+    const refPerTok: RefPerTok = quantity(await coll.refPerTok())
+    const targetPerRef: TargetPerRef = quantity(await coll.targetPerRef())
+    const pricePerTarget: UoAPerTarget = quantity(await coll.pricePerTarget())
 
     // {UoA/tok} ~= {ref/tok} * {target/ref} * {UoA/target}
-    const product = refPerTok.mul(targetPerRef).mul(pricePerTarget).div(bn('1e36'))
+    const product: UoAPerTok = mul(pricePerTarget, mul(targetPerRef, refPerTok))
     const lower = currentPrice.sub(currentPrice.div(100))
     const upper = currentPrice.add(currentPrice.div(100))
 
@@ -64,7 +65,7 @@ async function main() {
       throw new Error('a peg is more than 1% off?')
     }
 
-    const fallbackPrice = await coll.fallbackPrice() // {UoA/tok}
+    const fallbackPrice: UoAPerTok = quantity(await coll.fallbackPrice())
     if (fallbackPrice.lt(lower) || fallbackPrice.gt(upper)) {
       throw new Error('a fallback price is >1% off')
     }
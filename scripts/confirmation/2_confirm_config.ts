@@ -0,0 +1,63 @@
+import hre from 'hardhat'
+
+import { getChainId } from '../../common/blockchain-utils'
+import { networkConfig } from '../../common/configuration'
+import {
+  getAssetCollDeploymentFilename,
+  getDeploymentFile,
+  getRTokenDeploymentFilename,
+  IAssetCollDeployments,
+  IRTokenDeployments,
+} from '../deployment/common'
+import {
+  getRTokenConfig,
+  getRTokenName,
+  getRTokenSetup,
+} from '../deployment/phase3-rtoken/rTokenConfig'
+import { diffDeployedConfig, formatConfigDiffs } from './config-drift'
+
+export default async function main() {
+  // ********** Read config **********
+  const [deployer] = await hre.ethers.getSigners()
+  const chainId = await getChainId(hre)
+  if (!networkConfig[chainId]) {
+    throw new Error(`Missing network configuration for ${hre.network.name}`)
+  }
+
+  const rTokenName = getRTokenName()
+  const rTokenConf = getRTokenConfig(chainId, rTokenName)
+
+  const assetCollDeployments = <IAssetCollDeployments>(
+    getDeploymentFile(getAssetCollDeploymentFilename(chainId))
+  )
+  const rTokenDeployments = <IRTokenDeployments>(
+    getDeploymentFile(getRTokenDeploymentFilename(chainId, rTokenName))
+  )
+
+  // 'deployer' beneficiaries resolve to the current signer, as they did when deploying
+  const rTokenSetup = getRTokenSetup(
+    rTokenName,
+    rTokenConf.setup,
+    assetCollDeployments,
+    deployer.address
+  )
+
+  console.log(`Checking RToken ${rTokenConf.symbol} against its configuration`)
+  const diffs = await diffDeployedConfig(rTokenConf, rTokenSetup, rTokenConf, {
+    main: rTokenDeployments.main,
+    governance: rTokenDeployments.governance || undefined,
+  })
+
+  if (diffs.length > 0) {
+    console.log(`Config drift for RToken ${rTokenConf.symbol}:\n${formatConfigDiffs(diffs)}`)
+    throw new Error(`${diffs.length} parameters differ from the configuration`)
+  }
+  console.log('All parameters match the configuration')
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
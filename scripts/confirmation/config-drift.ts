@@ -0,0 +1,282 @@
+import hre from 'hardhat'
+import { BigNumber } from 'ethers'
+import { IGovParams, IRTokenConfig, IRTokenSetup } from '../../common/configuration'
+import {
+  Governance,
+  IAssetRegistry,
+  IBasketHandler,
+  ICollateral,
+  TestIBackingManager,
+  TestIBroker,
+  TestIDistributor,
+  TestIFurnace,
+  TestIMain,
+  TestIRevenueTrader,
+  TestIRToken,
+  TestIStRSR,
+  TimelockController,
+} from '../../typechain'
+
+// A governance parameter whose on-chain value differs from the RToken's config entry
+export interface IConfigDiff {
+  component: string
+  field: string
+  expected: string
+  actual: string
+}
+
+type Value = BigNumber | number | string | undefined
+
+const FURNACE = '0x0000000000000000000000000000000000000001'
+const ST_RSR = '0x0000000000000000000000000000000000000002'
+
+const format = (value: Value): string => {
+  if (value === undefined) return 'none'
+  if (typeof value == 'string' && hre.ethers.utils.isAddress(value)) {
+    return hre.ethers.utils.getAddress(value)
+  }
+  return value.toString()
+}
+
+const parseTargetName = (targetName: string) => hre.ethers.utils.parseBytes32String(targetName)
+
+// Reads every governance parameter of a deployed RToken and diffs it against its config.
+// Returns the mismatches only; an empty list means the deployment matches the config.
+export const diffDeployedConfig = async (
+  rTokenConfig: IRTokenConfig,
+  setup: IRTokenSetup,
+  gov: IGovParams | undefined,
+  deployed: { main: string; governance?: string }
+): Promise<IConfigDiff[]> => {
+  const diffs: IConfigDiff[] = []
+  const compare = (component: string, field: string, expected: Value, actual: Value) => {
+    if (format(expected) != format(actual)) {
+      diffs.push({ component, field, expected: format(expected), actual: format(actual) })
+    }
+  }
+  const { params } = rTokenConfig
+
+  // ==== Components ====
+  const main = <TestIMain>await hre.ethers.getContractAt('TestIMain', deployed.main)
+  const rToken = <TestIRToken>await hre.ethers.getContractAt('TestIRToken', await main.rToken())
+  const stRSR = <TestIStRSR>await hre.ethers.getContractAt('TestIStRSR', await main.stRSR())
+  const furnace = <TestIFurnace>await hre.ethers.getContractAt('TestIFurnace', await main.furnace())
+  const broker = <TestIBroker>await hre.ethers.getContractAt('TestIBroker', await main.broker())
+  const distributor = <TestIDistributor>(
+    await hre.ethers.getContractAt('TestIDistributor', await main.distributor())
+  )
+  const assetRegistry = <IAssetRegistry>(
+    await hre.ethers.getContractAt('IAssetRegistry', await main.assetRegistry())
+  )
+  const basketHandler = <IBasketHandler>(
+    await hre.ethers.getContractAt('IBasketHandler', await main.basketHandler())
+  )
+  const backingManager = <TestIBackingManager>(
+    await hre.ethers.getContractAt('TestIBackingManager', await main.backingManager())
+  )
+  const rsrTrader = <TestIRevenueTrader>(
+    await hre.ethers.getContractAt('TestIRevenueTrader', await main.rsrTrader())
+  )
+  const rTokenTrader = <TestIRevenueTrader>(
+    await hre.ethers.getContractAt('TestIRevenueTrader', await main.rTokenTrader())
+  )
+
+  // ==== Main ====
+  compare('Main', 'shortFreeze', params.shortFreeze, await main.shortFreeze())
+  compare('Main', 'longFreeze', params.longFreeze, await main.longFreeze())
+
+  // ==== RToken ====
+  compare('RToken', 'name', rTokenConfig.name, await rToken.name())
+  compare('RToken', 'symbol', rTokenConfig.symbol, await rToken.symbol())
+  compare('RToken', 'issuanceRate', params.issuanceRate, await rToken.issuanceRate())
+  compare(
+    'RToken',
+    'scalingRedemptionRate',
+    params.scalingRedemptionRate,
+    await rToken.scalingRedemptionRate()
+  )
+  compare(
+    'RToken',
+    'redemptionRateFloor',
+    params.redemptionRateFloor,
+    await rToken.redemptionRateFloor()
+  )
+  const rTokenAsset = await hre.ethers.getContractAt(
+    'IAsset',
+    await assetRegistry.toAsset(rToken.address)
+  )
+  compare(
+    'RTokenAsset',
+    'maxTradeVolume',
+    params.rTokenMaxTradeVolume,
+    await rTokenAsset.maxTradeVolume()
+  )
+
+  // ==== StRSR and Furnace ====
+  compare('StRSR', 'rewardPeriod', params.rewardPeriod, await stRSR.rewardPeriod())
+  compare('StRSR', 'rewardRatio', params.rewardRatio, await stRSR.rewardRatio())
+  compare('StRSR', 'unstakingDelay', params.unstakingDelay, await stRSR.unstakingDelay())
+  compare('Furnace', 'period', params.rewardPeriod, await furnace.period())
+  compare('Furnace', 'ratio', params.rewardRatio, await furnace.ratio())
+
+  // ==== Trading ====
+  compare('Broker', 'auctionLength', params.auctionLength, await broker.auctionLength())
+  compare(
+    'BackingManager',
+    'tradingDelay',
+    params.tradingDelay,
+    await backingManager.tradingDelay()
+  )
+  compare(
+    'BackingManager',
+    'backingBuffer',
+    params.backingBuffer,
+    await backingManager.backingBuffer()
+  )
+  const traders: [string, TestIBackingManager | TestIRevenueTrader][] = [
+    ['BackingManager', backingManager],
+    ['RSRTrader', rsrTrader],
+    ['RTokenTrader', rTokenTrader],
+  ]
+  for (const [name, trader] of traders) {
+    compare(name, 'maxTradeSlippage', params.maxTradeSlippage, await trader.maxTradeSlippage())
+    compare(name, 'minTradeVolume', params.minTradeVolume, await trader.minTradeVolume())
+  }
+
+  // ==== Distributor ====
+  compare(
+    'Distributor',
+    'rTokenDist',
+    params.dist.rTokenDist,
+    (await distributor.distribution(FURNACE)).rTokenDist
+  )
+  compare(
+    'Distributor',
+    'rsrDist',
+    params.dist.rsrDist,
+    (await distributor.distribution(ST_RSR)).rsrDist
+  )
+  for (const { beneficiary, revShare } of setup.beneficiaries) {
+    const share = await distributor.distribution(beneficiary)
+    compare('Distributor', `${beneficiary}.rTokenDist`, revShare.rTokenDist, share.rTokenDist)
+    compare('Distributor', `${beneficiary}.rsrDist`, revShare.rsrDist, share.rsrDist)
+  }
+
+  // ==== BasketHandler ====
+  // The basket config is not readable on-chain, so it is taken from the latest events
+  const basketEvents = await basketHandler.queryFilter(basketHandler.filters.PrimeBasketSet())
+  const primeBasket: { [erc20: string]: { targetAmt: BigNumber; targetName: string } } = {}
+  if (basketEvents.length > 0) {
+    const { erc20s, targetAmts, targetNames } = basketEvents[basketEvents.length - 1].args
+    erc20s.forEach((erc20: string, i: number) => {
+      primeBasket[format(erc20)] = {
+        targetAmt: targetAmts[i],
+        targetName: parseTargetName(targetNames[i]),
+      }
+    })
+  }
+
+  const expectedErc20s: string[] = []
+  for (let i = 0; i < setup.primaryBasket.length; i++) {
+    const coll = <ICollateral>await hre.ethers.getContractAt('ICollateral', setup.primaryBasket[i])
+    const erc20 = format(await coll.erc20())
+    expectedErc20s.push(erc20)
+    compare(
+      'BasketHandler',
+      `primeBasket[${erc20}]`,
+      setup.weights[i],
+      primeBasket[erc20]?.targetAmt
+    )
+    if (primeBasket[erc20]) {
+      compare(
+        'BasketHandler',
+        `primeBasket[${erc20}].targetName`,
+        parseTargetName(await coll.targetName()),
+        primeBasket[erc20].targetName
+      )
+    }
+  }
+  for (const erc20 of Object.keys(primeBasket)) {
+    if (!expectedErc20s.includes(erc20)) {
+      compare('BasketHandler', `primeBasket[${erc20}]`, undefined, primeBasket[erc20].targetAmt)
+    }
+  }
+
+  const backupEvents = await basketHandler.queryFilter(basketHandler.filters.BackupConfigSet())
+  const backups: { [targetName: string]: { max: BigNumber; erc20s: string[] } } = {}
+  for (const event of backupEvents) {
+    backups[parseTargetName(event.args.targetName)] = {
+      max: event.args.max,
+      erc20s: event.args.erc20s.map(format),
+    }
+  }
+
+  const expectedUnits: string[] = []
+  for (const backup of setup.backups) {
+    const unit = parseTargetName(backup.backupUnit)
+    expectedUnits.push(unit)
+
+    const erc20s: string[] = []
+    for (const addr of backup.backupCollateral) {
+      erc20s.push(format(await (await hre.ethers.getContractAt('ICollateral', addr)).erc20()))
+    }
+    compare(
+      'BasketHandler',
+      `backupConfig[${unit}].max`,
+      backup.diversityFactor,
+      backups[unit]?.max
+    )
+    compare(
+      'BasketHandler',
+      `backupConfig[${unit}].erc20s`,
+      erc20s.join(','),
+      backups[unit]?.erc20s.join(',')
+    )
+  }
+  for (const unit of Object.keys(backups)) {
+    if (!expectedUnits.includes(unit) && backups[unit].erc20s.length > 0) {
+      compare(
+        'BasketHandler',
+        `backupConfig[${unit}].erc20s`,
+        undefined,
+        backups[unit].erc20s.join(',')
+      )
+    }
+  }
+
+  // ==== Governance ====
+  if (gov && deployed.governance) {
+    const governor = <Governance>await hre.ethers.getContractAt('Governance', deployed.governance)
+    const timelock = <TimelockController>(
+      await hre.ethers.getContractAt('TimelockController', await governor.timelock())
+    )
+    compare('Governance', 'votingDelay', gov.votingDelay, await governor.votingDelay())
+    compare('Governance', 'votingPeriod', gov.votingPeriod, await governor.votingPeriod())
+    compare(
+      'Governance',
+      'proposalThresholdAsMicroPercent',
+      gov.proposalThresholdAsMicroPercent,
+      await governor.proposalThreshold()
+    )
+    compare('Governance', 'quorumPercent', gov.quorumPercent, await governor['quorumNumerator()']())
+    compare('TimelockController', 'minDelay', gov.timelockDelay, await timelock.getMinDelay())
+  }
+
+  return diffs
+}
+
+// Formats the diffs grouped by component, e.g.
+//   StRSR
+//     rewardPeriod: expected 86400, found 172800
+export const formatConfigDiffs = (diffs: IConfigDiff[]): string => {
+  const lines: string[] = []
+  let component: string | undefined
+  for (const diff of diffs) {
+    if (diff.component != component) {
+      component = diff.component
+      lines.push(`  ${component}`)
+    }
+    lines.push(`    ${diff.field}: expected ${diff.expected}, found ${diff.actual}`)
+  }
+  return lines.join('\n')
+}
@@ -1,4 +1,5 @@
 import fs from 'fs'
+import path from 'path'
 import { ITokens, IComponents, IImplementations } from '../../common/configuration'
 
 // This file is intended to have minimal imports, so that it can be used from tasks if necessary
@@ -9,6 +10,19 @@ export interface IPrerequisites {
   GNOSIS_EASY_AUCTION: string
 }
 
+export type StepStatus = 'pending' | 'done' | 'failed'
+
+export interface IStepRecord {
+  status: StepStatus
+  txHashes: string[]
+  addresses: { [key: string]: string }
+  error?: string
+}
+
+export interface IStepRecords {
+  [step: string]: IStepRecord
+}
+
 export interface IDeployments {
   prerequisites: IPrerequisites
   rewardableLib: string
@@ -22,11 +36,13 @@ export interface IDeployments {
   deployer: string
   rsrAsset: string
   implementations: IImplementations
+  steps?: IStepRecords
 }
 
 export interface IAssetCollDeployments {
   assets: ITokens
   collateral: ITokens
+  steps?: IStepRecords
 }
 
 export interface IRTokenDeployments {
@@ -36,12 +52,19 @@ export interface IRTokenDeployments {
   rTokenAsset: string
   governance: string
   timelock: string
+  steps?: IStepRecords
 }
 
-const pathToFolder = './scripts/addresses/'
+const defaultPathToFolder = './scripts/addresses/'
+let pathToFolder = defaultPathToFolder
 const tempFileSuffix = '-tmp-deployments.json'
 const tempAssetCollFileSuffix = '-tmp-assets-collateral.json'
 
+// Redirects all deployment files to another folder, e.g. for dry runs; resets when `folder` is empty
+export const setDeploymentFolder = (folder?: string) => {
+  pathToFolder = folder ? path.join(folder, '/') : defaultPathToFolder
+}
+
 export const getDeploymentFilename = (chainId: number): string => {
   return `${pathToFolder}${chainId}${tempFileSuffix}`
 }
@@ -5,7 +5,7 @@ import { getChainId, isValidContract } from '../../../common/blockchain-utils'
 import { networkConfig } from '../../../common/configuration'
 import { fileExists, getDeploymentFilename, IDeployments } from '../common'
 
-async function main() {
+export default async function main() {
   // ==== Read Configuration ====
   const chainId = await getChainId(hre)
 
@@ -89,7 +89,9 @@ async function main() {
     Deployment file: ${deploymentFilename}`)
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
@@ -12,7 +12,7 @@ let rewardableLib: Contract
 let oracleLib: OracleLib
 let permitLib: PermitLib
 
-async function main() {
+export default async function main() {
   // ==== Read Configuration ====
   const [burner] = await hre.ethers.getSigners()
   const chainId = await getChainId(hre)
@@ -65,7 +65,9 @@ async function main() {
     Deployment file: ${deploymentFilename}`)
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
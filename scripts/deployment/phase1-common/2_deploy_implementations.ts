@@ -46,7 +46,7 @@ const writeComponentDeployment = (
   console.log(`    ${logDesc} Implementation: ${implAddr}`)
 }
 
-async function main() {
+export default async function main() {
   // ==== Read Configuration ====
   const [burner] = await hre.ethers.getSigners()
   const chainId = await getChainId(hre)
@@ -218,7 +218,9 @@ async function main() {
   console.log(`    Deployment file: ${deploymentFilename}`)
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
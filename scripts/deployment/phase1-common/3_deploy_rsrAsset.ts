@@ -11,7 +11,7 @@ import { Asset } from '../../../typechain'
 
 let rsrAsset: Asset
 
-async function main() {
+export default async function main() {
   // ==== Read Configuration ====
   const [burner] = await hre.ethers.getSigners()
   const chainId = await getChainId(hre)
@@ -50,7 +50,9 @@ async function main() {
     Deployment file: ${deploymentFilename}`)
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
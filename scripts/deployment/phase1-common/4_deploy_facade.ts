@@ -9,7 +9,7 @@ import { FacadeRead } from '../../../typechain'
 
 let facadeRead: FacadeRead
 
-async function main() {
+export default async function main() {
   // ==== Read Configuration ====
   const [burner] = await hre.ethers.getSigners()
   const chainId = await getChainId(hre)
@@ -48,7 +48,9 @@ async function main() {
     Deployment file: ${deploymentFilename}`)
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
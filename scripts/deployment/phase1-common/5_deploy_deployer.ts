@@ -9,7 +9,7 @@ import { DeployerP1 } from '../../../typechain'
 
 let deployer: DeployerP1
 
-async function main() {
+export default async function main() {
   // ==== Read Configuration ====
   const [burner] = await hre.ethers.getSigners()
 
@@ -56,7 +56,9 @@ async function main() {
     Deployment file: ${deploymentFilename}`)
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
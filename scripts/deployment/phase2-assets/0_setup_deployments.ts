@@ -10,7 +10,7 @@ import {
   IAssetCollDeployments,
 } from '../common'
 
-async function main() {
+export default async function main() {
   // ==== Read Configuration ====
   const chainId = await getChainId(hre)
 
@@ -44,7 +44,9 @@ async function main() {
     Deployment file: ${deploymentFilename}`)
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
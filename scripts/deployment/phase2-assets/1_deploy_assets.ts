@@ -13,7 +13,7 @@ import {
 } from '../../deployment/common'
 import { getCurrentPrice, getOracleTimeout } from '../../deployment/utils'
 
-async function main() {
+export default async function main() {
   // ==== Read Configuration ====
   const [burner] = await hre.ethers.getSigners()
   const chainId = await getChainId(hre)
@@ -73,7 +73,9 @@ async function main() {
     Deployment file: ${assetCollDeploymentFilename}`)
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
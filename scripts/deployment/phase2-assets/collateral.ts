@@ -0,0 +1,291 @@
+import hre from 'hardhat'
+import { BigNumber } from 'ethers'
+import { networkConfig } from '../../../common/configuration'
+import { bn, fp } from '../../../common/numbers'
+import { getCurrentPrice, getOracleTimeout, verifyContract } from '../utils'
+import { CollateralPlugin, FeedKey, ICollateralConfig } from './collateralConfig'
+import { ATokenMock, CTokenMock, ERC20Mock, StaticATokenLM } from '../../../typechain'
+
+interface IPluginSpec {
+  contract: string // fully qualified name, for verification
+  args: string[] // constructor params, in order, named as in the deploy task
+}
+
+const pluginSpecs: { [plugin in CollateralPlugin]: IPluginSpec } = {
+  fiat: {
+    contract: 'contracts/plugins/assets/FiatCollateral.sol:FiatCollateral',
+    args: [
+      'fallbackPrice',
+      'priceFeed',
+      'tokenAddress',
+      'maxTradeVolume',
+      'oracleTimeout',
+      'targetName',
+      'defaultThreshold',
+      'delayUntilDefault',
+    ],
+  },
+  eurfiat: {
+    contract: 'contracts/plugins/assets/EURFiatCollateral.sol:EURFiatCollateral',
+    args: [
+      'fallbackPrice',
+      'referenceUnitFeed',
+      'targetUnitFeed',
+      'tokenAddress',
+      'maxTradeVolume',
+      'oracleTimeout',
+      'targetName',
+      'defaultThreshold',
+      'delayUntilDefault',
+    ],
+  },
+  nonfiat: {
+    contract: 'contracts/plugins/assets/NonFiatCollateral.sol:NonFiatCollateral',
+    args: [
+      'fallbackPrice',
+      'referenceUnitFeed',
+      'targetUnitFeed',
+      'tokenAddress',
+      'maxTradeVolume',
+      'oracleTimeout',
+      'targetName',
+      'defaultThreshold',
+      'delayUntilDefault',
+    ],
+  },
+  selfreferential: {
+    contract: 'contracts/plugins/assets/SelfReferentialCollateral.sol:SelfReferentialCollateral',
+    args: [
+      'fallbackPrice',
+      'priceFeed',
+      'tokenAddress',
+      'maxTradeVolume',
+      'oracleTimeout',
+      'targetName',
+      'delayUntilDefault',
+    ],
+  },
+  'atoken-fiat': {
+    contract: 'contracts/plugins/assets/ATokenFiatCollateral.sol:ATokenFiatCollateral',
+    args: [
+      'fallbackPrice',
+      'priceFeed',
+      'staticAToken',
+      'maxTradeVolume',
+      'oracleTimeout',
+      'targetName',
+      'defaultThreshold',
+      'delayUntilDefault',
+    ],
+  },
+  'ctoken-fiat': {
+    contract: 'contracts/plugins/assets/CTokenFiatCollateral.sol:CTokenFiatCollateral',
+    args: [
+      'fallbackPrice',
+      'priceFeed',
+      'cToken',
+      'maxTradeVolume',
+      'oracleTimeout',
+      'targetName',
+      'defaultThreshold',
+      'delayUntilDefault',
+      'decimals',
+      'comptroller',
+    ],
+  },
+  'ctoken-nonfiat': {
+    contract: 'contracts/plugins/assets/CTokenNonFiatCollateral.sol:CTokenNonFiatCollateral',
+    args: [
+      'fallbackPrice',
+      'referenceUnitFeed',
+      'targetUnitFeed',
+      'cToken',
+      'maxTradeVolume',
+      'oracleTimeout',
+      'targetName',
+      'defaultThreshold',
+      'delayUntilDefault',
+      'decimals',
+      'comptroller',
+    ],
+  },
+  'ctoken-selfreferential': {
+    contract:
+      'contracts/plugins/assets/CTokenSelfReferentialCollateral.sol:CTokenSelfReferentialCollateral',
+    args: [
+      'fallbackPrice',
+      'priceFeed',
+      'cToken',
+      'maxTradeVolume',
+      'oracleTimeout',
+      'targetName',
+      'delayUntilDefault',
+      'decimals',
+      'comptroller',
+    ],
+  },
+}
+
+const isAToken = (coll: ICollateralConfig) => coll.plugin.startsWith('atoken')
+const isCToken = (coll: ICollateralConfig) => coll.plugin.startsWith('ctoken')
+
+const getFeed = (chainId: number, key: FeedKey): string => {
+  const feed = networkConfig[chainId].chainlinkFeeds[key]
+  if (!feed) throw new Error(`Missing ${key} price feed for network ${chainId}`)
+  return feed
+}
+
+const getToken = (chainId: number, coll: ICollateralConfig): string => {
+  const token = networkConfig[chainId].tokens[coll.token]
+  if (!token) throw new Error(`Missing ${coll.token} token for network ${chainId}`)
+  return token
+}
+
+// Reference ERC20 decimals of a cToken
+const getCTokenDecimals = async (chainId: number, coll: ICollateralConfig): Promise<number> => {
+  if (coll.decimals !== undefined) return coll.decimals
+
+  const cToken = <CTokenMock>await hre.ethers.getContractAt('CTokenMock', getToken(chainId, coll))
+  const underlying = <ERC20Mock>(
+    await hre.ethers.getContractAt('ERC20Mock', await cToken.underlying())
+  )
+  return underlying.decimals()
+}
+
+// Constructor args for the StaticATokenLM wrapping an aToken
+export const getStaticATokenArgs = async (
+  chainId: number,
+  coll: ICollateralConfig
+): Promise<string[]> => {
+  const aToken = <ATokenMock>await hre.ethers.getContractAt('ATokenMock', getToken(chainId, coll))
+  return [
+    networkConfig[chainId].AAVE_LENDING_POOL as string,
+    aToken.address,
+    'Static ' + (await aToken.name()),
+    's' + (await aToken.symbol()),
+  ]
+}
+
+// Fallback price {UoA/tok}, from the current {UoA/ref} price and the current refPerTok
+export const getFallbackPrice = async (
+  chainId: number,
+  coll: ICollateralConfig,
+  erc20: string
+): Promise<BigNumber> => {
+  const price = coll.fallbackPriceFeed
+    ? await getCurrentPrice(getFeed(chainId, coll.fallbackPriceFeed))
+    : fp('1')
+
+  if (isAToken(coll)) {
+    const staticAToken = <StaticATokenLM>await hre.ethers.getContractAt('StaticATokenLM', erc20)
+    return price.mul(await staticAToken.rate()).div(bn('1e27'))
+  }
+  if (isCToken(coll)) {
+    const cToken = <CTokenMock>await hre.ethers.getContractAt('CTokenMock', erc20)
+    const decimals = await getCTokenDecimals(chainId, coll)
+    return price.mul(await cToken.exchangeRateStored()).div(bn(10).pow(10 + decimals))
+  }
+  return price
+}
+
+// Named collateral params, as taken by the `deploy-*-collateral` tasks
+export const getCollateralParams = async (
+  chainId: number,
+  coll: ICollateralConfig,
+  erc20: string,
+  fallbackPrice: BigNumber
+): Promise<{ [param: string]: string }> => {
+  const params: { [param: string]: string } = {
+    fallbackPrice: fallbackPrice.toString(),
+    maxTradeVolume: coll.maxTradeVolume.toString(),
+    oracleTimeout: getOracleTimeout(chainId).toString(),
+    targetName: hre.ethers.utils.formatBytes32String(coll.targetName),
+    delayUntilDefault: coll.delayUntilDefault.toString(),
+  }
+
+  if (coll.priceFeed) params.priceFeed = getFeed(chainId, coll.priceFeed)
+  if (coll.referenceUnitFeed) {
+    params.referenceUnitFeed = getFeed(chainId, coll.referenceUnitFeed)
+  }
+  if (coll.targetUnitFeed) params.targetUnitFeed = getFeed(chainId, coll.targetUnitFeed)
+  if (coll.defaultThreshold) params.defaultThreshold = coll.defaultThreshold.toString()
+
+  if (isAToken(coll)) params.staticAToken = erc20
+  else if (isCToken(coll)) {
+    params.cToken = erc20
+    params.decimals = (await getCTokenDecimals(chainId, coll)).toString()
+    params.comptroller = networkConfig[chainId].COMPTROLLER as string
+  } else params.tokenAddress = erc20
+
+  for (const arg of pluginSpecs[coll.plugin].args) {
+    if (params[arg] === undefined) {
+      throw new Error(`Missing ${arg} for ${coll.token} ${coll.plugin} collateral`)
+    }
+  }
+  return params
+}
+
+// Deploys the collateral plugin for a manifest entry, returning its address
+export const deployCollateral = async (
+  chainId: number,
+  coll: ICollateralConfig,
+  oracleLib: string
+): Promise<string> => {
+  let erc20 = getToken(chainId, coll)
+
+  if (isAToken(coll)) {
+    const [burner] = await hre.ethers.getSigners()
+
+    // Wrap in StaticAToken
+    const StaticATokenFactory = await hre.ethers.getContractFactory('StaticATokenLM')
+    const staticAToken = <StaticATokenLM>(
+      await StaticATokenFactory.connect(burner).deploy(
+        ...((await getStaticATokenArgs(chainId, coll)) as [string, string, string, string])
+      )
+    )
+    await staticAToken.deployed()
+
+    // Sleep 20s to allow sync
+    await new Promise((r) => setTimeout(r, 20000))
+
+    console.log(
+      `Deployed StaticAToken for ${coll.token} on ${hre.network.name} (${chainId}): ${staticAToken.address} `
+    )
+    erc20 = staticAToken.address
+  }
+
+  const fallbackPrice = await getFallbackPrice(chainId, coll, erc20)
+  const { collateral } = await hre.run(`deploy-${coll.plugin}-collateral`, {
+    ...(await getCollateralParams(chainId, coll, erc20, fallbackPrice)),
+    oracleLib,
+  })
+  return collateral
+}
+
+// Verifies a deployed collateral plugin (and its StaticAToken, if any) on Etherscan
+export const verifyCollateral = async (
+  chainId: number,
+  coll: ICollateralConfig,
+  collateral: string
+) => {
+  const asset = await hre.ethers.getContractAt('Asset', collateral)
+  const erc20 = await asset.erc20()
+
+  if (isAToken(coll)) {
+    await verifyContract(
+      chainId,
+      erc20,
+      await getStaticATokenArgs(chainId, coll),
+      'contracts/plugins/aave/StaticATokenLM.sol:StaticATokenLM'
+    )
+  }
+
+  const spec = pluginSpecs[coll.plugin]
+  const params = await getCollateralParams(chainId, coll, erc20, await asset.fallbackPrice())
+  await verifyContract(
+    chainId,
+    collateral,
+    spec.args.map((arg) => params[arg]),
+    spec.contract
+  )
+}
@@ -0,0 +1,243 @@
+import { BigNumber } from 'ethers'
+import { ICurrencies, ITokens, networkConfig } from '../../../common/configuration'
+import { bn, fp } from '../../../common/numbers'
+
+// Each plugin is deployed by the `deploy-${plugin}-collateral` task
+export type CollateralPlugin =
+  | 'fiat'
+  | 'eurfiat'
+  | 'nonfiat'
+  | 'selfreferential'
+  | 'atoken-fiat'
+  | 'ctoken-fiat'
+  | 'ctoken-nonfiat'
+  | 'ctoken-selfreferential'
+
+export type FeedKey = keyof (ITokens & ICurrencies)
+
+export interface ICollateralConfig {
+  plugin: CollateralPlugin
+  token: keyof ITokens // also the key of the plugin in the assets/collateral deployment file
+  priceFeed?: FeedKey // single-feed plugins
+  referenceUnitFeed?: FeedKey // two-feed plugins
+  targetUnitFeed?: FeedKey // two-feed plugins
+  fallbackPriceFeed?: FeedKey // {UoA/ref} for the fallback price; $1 if absent
+  decimals?: number // reference ERC20 decimals, for cTokens without an underlying()
+  targetName: string
+  defaultThreshold?: BigNumber // not used by self-referential plugins
+  delayUntilDefault: BigNumber
+  maxTradeVolume: BigNumber
+}
+
+const MAX_TRADE_VOLUME = fp('1e6') // $1m
+const DEFAULT_THRESHOLD = fp('0.05') // 5%
+const DELAY_UNTIL_DEFAULT = bn('86400') // 24h
+
+// The collateral we deploy on every network, in deployment order
+const standardCollateral: ICollateralConfig[] = [
+  {
+    plugin: 'fiat',
+    token: 'DAI',
+    priceFeed: 'DAI',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'fiat',
+    token: 'USDC',
+    priceFeed: 'USDC',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'fiat',
+    token: 'USDT',
+    priceFeed: 'USDT',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'fiat',
+    token: 'USDP',
+    priceFeed: 'USDP',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'fiat',
+    token: 'TUSD',
+    priceFeed: 'TUSD',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'fiat',
+    token: 'BUSD',
+    priceFeed: 'BUSD',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'atoken-fiat',
+    token: 'aDAI',
+    priceFeed: 'DAI',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'atoken-fiat',
+    token: 'aUSDC',
+    priceFeed: 'USDC',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'atoken-fiat',
+    token: 'aUSDT',
+    priceFeed: 'USDT',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'atoken-fiat',
+    token: 'aBUSD',
+    priceFeed: 'BUSD',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'atoken-fiat',
+    token: 'aUSDP',
+    priceFeed: 'USDP',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'ctoken-fiat',
+    token: 'cDAI',
+    priceFeed: 'DAI',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'ctoken-fiat',
+    token: 'cUSDC',
+    priceFeed: 'USDC',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'ctoken-fiat',
+    token: 'cUSDT',
+    priceFeed: 'USDT',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'ctoken-fiat',
+    token: 'cUSDP',
+    priceFeed: 'USDP',
+    targetName: 'USD',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'ctoken-nonfiat',
+    token: 'cWBTC',
+    referenceUnitFeed: 'WBTC',
+    targetUnitFeed: 'BTC',
+    fallbackPriceFeed: 'BTC',
+    targetName: 'BTC',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'ctoken-selfreferential',
+    token: 'cETH',
+    priceFeed: 'ETH',
+    fallbackPriceFeed: 'ETH',
+    decimals: 18,
+    targetName: 'ETH',
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'nonfiat',
+    token: 'WBTC',
+    referenceUnitFeed: 'WBTC',
+    targetUnitFeed: 'BTC',
+    fallbackPriceFeed: 'BTC',
+    targetName: 'BTC',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'selfreferential',
+    token: 'WETH',
+    priceFeed: 'ETH',
+    fallbackPriceFeed: 'ETH',
+    targetName: 'ETH',
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+  {
+    plugin: 'eurfiat',
+    token: 'EURT',
+    referenceUnitFeed: 'EURT',
+    targetUnitFeed: 'EUR',
+    fallbackPriceFeed: 'EURT',
+    targetName: 'EURO',
+    defaultThreshold: DEFAULT_THRESHOLD,
+    delayUntilDefault: DELAY_UNTIL_DEFAULT,
+    maxTradeVolume: MAX_TRADE_VOLUME,
+  },
+]
+
+export const collateralConfig: { [chainId: number]: ICollateralConfig[] } = {
+  '1': standardCollateral,
+  // The 31337 mainnet forking config is realistic for mainnet
+  '31337': standardCollateral,
+  '5': standardCollateral,
+}
+
+export const getCollateralConfig = (chainId: number): ICollateralConfig[] => {
+  if (!networkConfig[chainId]) {
+    throw new Error(`Missing network configuration for network ${chainId}`)
+  }
+
+  if (!collateralConfig[chainId]) {
+    throw new Error(`Collateral configuration not available for network ${chainId}`)
+  }
+  return collateralConfig[chainId]
+}
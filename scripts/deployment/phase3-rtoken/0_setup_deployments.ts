@@ -2,8 +2,9 @@ import fs from 'fs'
 import hre from 'hardhat'
 
 import { getChainId, isValidContract } from '../../../common/blockchain-utils'
+import { assertValidRToken } from '../../../common/config-validation'
 import { networkConfig } from '../../../common/configuration'
-import { getRTokenConfig, RTOKEN_NAME } from './rTokenConfig'
+import { getRTokenConfig, getRTokenName } from './rTokenConfig'
 import {
   fileExists,
   getDeploymentFile,
@@ -14,12 +15,13 @@ import {
 } from '../common'
 import { validatePrerequisites } from '../utils'
 
-async function main() {
+export default async function main() {
   // ==== Read Configuration ====
   const chainId = await getChainId(hre)
 
   // Get RToken Configuration
-  const rTokenConf = getRTokenConfig(chainId, RTOKEN_NAME)
+  const rTokenName = getRTokenName()
+  const rTokenConf = getRTokenConfig(chainId, rTokenName)
 
   console.log(
     `Creating Deployment file for RToken ${rTokenConf.symbol} in network ${hre.network.name} (${chainId})`
@@ -29,8 +31,11 @@ async function main() {
     throw new Error(`Missing network configuration for ${hre.network.name}`)
   }
 
+  // Validate configuration against protocol bounds, before anything gets deployed
+  assertValidRToken(rTokenConf, undefined, rTokenConf)
+
   // Check if deployment file already exists for this chainId
-  const rTokenDeploymentFilename = getRTokenDeploymentFilename(chainId, RTOKEN_NAME)
+  const rTokenDeploymentFilename = getRTokenDeploymentFilename(chainId, rTokenName)
   if (fileExists(rTokenDeploymentFilename)) {
     throw new Error(`${rTokenDeploymentFilename} exists; I won't overwrite it.`)
   }
@@ -71,12 +76,14 @@ async function main() {
 
   fs.writeFileSync(rTokenDeploymentFilename, JSON.stringify(rTokenDeployments, null, 2))
 
-  console.log(`Deployment file created for RToken ${RTOKEN_NAME} in ${hre.network.name} (${chainId}):
+  console.log(`Deployment file created for RToken ${rTokenName} in ${hre.network.name} (${chainId}):
     FacadeWrite: ${deployments.facadeWrite}
     Deployment file: ${rTokenDeploymentFilename}`)
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
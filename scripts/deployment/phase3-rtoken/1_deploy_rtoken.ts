@@ -3,9 +3,9 @@ import hre, { ethers } from 'hardhat'
 
 import { getChainId, isValidContract } from '../../../common/blockchain-utils'
 import { IRTokenConfig, IRTokenSetup, networkConfig } from '../../../common/configuration'
-import { getRTokenConfig, RTOKEN_NAME } from './rTokenConfig'
+import { getRTokenConfig, getRTokenName, getRTokenSetup } from './rTokenConfig'
+import { assertValidRToken } from '../../../common/config-validation'
 import { expectInIndirectReceipt } from '../../../common/events'
-import { bn, fp } from '../../../common/numbers'
 import {
   getAssetCollDeploymentFilename,
   getDeploymentFile,
@@ -15,14 +15,15 @@ import {
 } from '../common'
 import { AssetRegistryP1, DeployerP1, FacadeWrite, MainP1 } from '../../../typechain'
 
-async function main() {
+export default async function main() {
   // ==== Read Configuration ====
   const [deployerUser] = await hre.ethers.getSigners()
 
   const chainId = await getChainId(hre)
 
   // Get RToken Configuration
-  const rTokenConf = getRTokenConfig(chainId, RTOKEN_NAME)
+  const rTokenName = getRTokenName()
+  const rTokenConf = getRTokenConfig(chainId, rTokenName)
 
   console.log(`Deploying RToken ${rTokenConf.symbol} to network ${hre.network.name} (${chainId})
   with deployer account: ${deployerUser.address}`)
@@ -32,7 +33,7 @@ async function main() {
   }
 
   // Check previous step completed
-  const rTokenDeploymentFilename = getRTokenDeploymentFilename(chainId, RTOKEN_NAME)
+  const rTokenDeploymentFilename = getRTokenDeploymentFilename(chainId, rTokenName)
   const rTokenDeployments = <IRTokenDeployments>getDeploymentFile(rTokenDeploymentFilename)
 
   // Get deployed assets/collateral
@@ -47,35 +48,15 @@ async function main() {
     params: rTokenConf.params,
   }
 
-  const rTokenSetup: IRTokenSetup = {
-    assets: [
-      assetCollDeployments.assets.stkAAVE as string,
-      assetCollDeployments.assets.COMP as string,
-    ],
-    primaryBasket: [
-      assetCollDeployments.collateral.DAI as string,
-      assetCollDeployments.collateral.aDAI as string,
-      assetCollDeployments.collateral.cDAI as string,
-    ],
-    weights: [fp('0.25'), fp('0.25'), fp('0.5')],
-    backups: [
-      {
-        backupUnit: ethers.utils.formatBytes32String('USD'),
-        diversityFactor: bn(1),
-        backupCollateral: [assetCollDeployments.collateral.USDC as string],
-      },
-    ],
-    // doesn't matter what this is since it won't get used
-    beneficiaries: [
-      {
-        beneficiary: deployerUser.address,
-        revShare: {
-          rTokenDist: bn('0'),
-          rsrDist: bn('0'),
-        },
-      },
-    ],
-  }
+  const rTokenSetup: IRTokenSetup = getRTokenSetup(
+    rTokenName,
+    rTokenConf.setup,
+    assetCollDeployments,
+    deployerUser.address
+  )
+
+  // Validate configuration against protocol bounds
+  assertValidRToken(rTokenConfig, rTokenSetup, rTokenConf)
 
   // Validate assets
   for (const assetAddr of rTokenSetup.assets) {
@@ -142,7 +123,7 @@ async function main() {
 
   fs.writeFileSync(rTokenDeploymentFilename, JSON.stringify(rTokenDeployments, null, 2))
 
-  console.log(`Deployed for RToken ${RTOKEN_NAME} in ${hre.network.name} (${chainId})
+  console.log(`Deployed for RToken ${rTokenName} in ${hre.network.name} (${chainId})
     Main: ${main.address}
     AssetRegistry:  ${assetRegistry.address}
     BackingManager:  ${backingManagerAddr}
@@ -158,7 +139,9 @@ async function main() {
     Deployment file: ${rTokenDeploymentFilename}`)
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
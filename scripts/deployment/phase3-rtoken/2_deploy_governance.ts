@@ -5,18 +5,19 @@ import { getChainId, isValidContract } from '../../../common/blockchain-utils'
 import { IGovParams, networkConfig } from '../../../common/configuration'
 import { ZERO_ADDRESS } from '../../../common/constants'
 import { expectInReceipt } from '../../../common/events'
-import { getRTokenConfig, RTOKEN_NAME } from './rTokenConfig'
+import { getRTokenConfig, getRTokenName } from './rTokenConfig'
 import { getDeploymentFile, getRTokenDeploymentFilename, IRTokenDeployments } from '../common'
 import { FacadeWrite, MainP1, RTokenP1, StRSRP1 } from '../../../typechain'
 
-async function main() {
+export default async function main() {
   // ==== Read Configuration ====
   const [deployerUser] = await hre.ethers.getSigners()
 
   const chainId = await getChainId(hre)
 
   // Get RToken Configuration
-  const rTokenConf = getRTokenConfig(chainId, RTOKEN_NAME)
+  const rTokenName = getRTokenName()
+  const rTokenConf = getRTokenConfig(chainId, rTokenName)
 
   console.log(`Deploying Governance for RToken ${rTokenConf.symbol} to network ${hre.network.name} (${chainId})
    with deployer account: ${deployerUser.address}`)
@@ -26,7 +27,7 @@ async function main() {
   }
 
   // Check previous step completed
-  const rTokenDeploymentFilename = getRTokenDeploymentFilename(chainId, RTOKEN_NAME)
+  const rTokenDeploymentFilename = getRTokenDeploymentFilename(chainId, rTokenName)
   const rTokenDeployments = <IRTokenDeployments>getDeploymentFile(rTokenDeploymentFilename)
 
   // Check Main available
@@ -56,7 +57,7 @@ async function main() {
     stRSR.address != rTokenDeployments.components.stRSR
   ) {
     throw new Error(
-      `Invalid addresses in config file for RToken ${RTOKEN_NAME} in network ${hre.network.name}`
+      `Invalid addresses in config file for RToken ${rTokenName} in network ${hre.network.name}`
     )
   }
 
@@ -95,13 +96,15 @@ async function main() {
 
   fs.writeFileSync(rTokenDeploymentFilename, JSON.stringify(rTokenDeployments, null, 2))
 
-  console.log(`Deployed for RToken ${RTOKEN_NAME} in ${hre.network.name} (${chainId})
+  console.log(`Deployed for RToken ${rTokenName} in ${hre.network.name} (${chainId})
       Governance:  ${governanceAddr}
       Timelock:  ${timelockAddr}
       Deployment file: ${rTokenDeploymentFilename}`)
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
@@ -1,9 +1,55 @@
-import { IGovParams, IRTokenConfig, networkConfig } from '../../../common/configuration'
+import { BigNumber, ethers } from 'ethers'
+import {
+  IBackupInfo,
+  IBeneficiaryInfo,
+  IGovParams,
+  IRevenueShare,
+  IRTokenConfig,
+  IRTokenSetup,
+  ITokens,
+  networkConfig,
+} from '../../../common/configuration'
 import { bn, fp } from '../../../common/numbers'
+import { IAssetCollDeployments } from '../common'
+import { useEnv } from '#/utils/env'
 
-export const RTOKEN_NAME = 'RTKN'
+export const DEFAULT_RTOKEN_NAME = 'RTKN'
 
-export type IRToken = { [key: string]: IRTokenConfig & IGovParams }
+// Same as IRTokenSetup, but assets and collateral are referred to by their key in the
+// assets/collateral deployment file, and backup units by target name
+export interface IRTokenSetupConfig {
+  assets: (keyof ITokens)[]
+  primaryBasket: (keyof ITokens)[]
+  weights: BigNumber[]
+  backups: {
+    backupUnit: string
+    diversityFactor: BigNumber
+    backupCollateral: (keyof ITokens)[]
+  }[]
+  beneficiaries: {
+    beneficiary: string // address, or 'deployer'
+    revShare: IRevenueShare
+  }[]
+}
+
+export type IRTokenEntry = IRTokenConfig & IGovParams & { setup: IRTokenSetupConfig }
+
+export type IRToken = { [key: string]: IRTokenEntry }
+
+const rtknSetup: IRTokenSetupConfig = {
+  assets: ['stkAAVE', 'COMP'],
+  primaryBasket: ['DAI', 'aDAI', 'cDAI'],
+  weights: [fp('0.25'), fp('0.25'), fp('0.5')],
+  backups: [
+    {
+      backupUnit: 'USD',
+      diversityFactor: bn(1),
+      backupCollateral: ['USDC'],
+    },
+  ],
+  // FacadeWrite rejects beneficiaries with an empty revShare, and we don't need any
+  beneficiaries: [],
+}
 
 export const rTokenConfig: { [key: string]: IRToken } = {
   '1': {
@@ -36,6 +82,7 @@ export const rTokenConfig: { [key: string]: IRToken } = {
       proposalThresholdAsMicroPercent: bn(5e4), // 0.05%
       quorumPercent: bn(10), // 10%
       timelockDelay: bn(2).pow(47), // a hella long time; bricks deployment effectively
+      setup: rtknSetup,
     },
   },
   // The 31337 mainnet forking config is realistic for mainnet
@@ -69,6 +116,7 @@ export const rTokenConfig: { [key: string]: IRToken } = {
       proposalThresholdAsMicroPercent: bn(5e4), // 0.05%
       quorumPercent: bn(10), // 10%
       timelockDelay: bn(60 * 60 * 24 * 4), // in seconds, 4 days
+      setup: rtknSetup,
     },
   },
   '5': {
@@ -101,17 +149,69 @@ export const rTokenConfig: { [key: string]: IRToken } = {
       proposalThresholdAsMicroPercent: bn(5e4), // 0.05%
       quorumPercent: bn(10), // 10%
       timelockDelay: bn(1), // 1s
+      setup: rtknSetup,
     },
   },
 }
 
+// The RToken the phase3 scripts work on, from `--rtoken` in tasks or RTOKEN for `hardhat run`
+let selectedRToken: string | undefined
+
+export const selectRToken = (name: string) => {
+  selectedRToken = name
+}
+
+export const getRTokenName = (): string => selectedRToken || useEnv('RTOKEN', DEFAULT_RTOKEN_NAME)
+
 export const getRTokenConfig = (chainId: string, name: string) => {
   if (!networkConfig[chainId]) {
     throw new Error(`Missing network configuration for network ${chainId}`)
   }
 
-  if (!rTokenConfig[chainId][name]) {
+  if (!rTokenConfig[chainId]?.[name]) {
     throw new Error(`Configuration for RToken ${name} not available for network ${chainId}`)
   }
   return rTokenConfig[chainId][name]
 }
+
+// Resolves a symbolic RToken setup against the assets/collateral deployment file
+export const getRTokenSetup = (
+  name: string,
+  setup: IRTokenSetupConfig,
+  assetCollDeployments: IAssetCollDeployments,
+  deployer: string
+): IRTokenSetup => {
+  const getAsset = (key: keyof ITokens): string => {
+    const addr = assetCollDeployments.assets[key]
+    if (!addr) throw new Error(`Missing asset ${key} for RToken ${name}`)
+    return addr
+  }
+  const getCollateral = (key: keyof ITokens): string => {
+    const addr = assetCollDeployments.collateral[key]
+    if (!addr) throw new Error(`Missing collateral ${key} for RToken ${name}`)
+    return addr
+  }
+
+  if (setup.primaryBasket.length != setup.weights.length) {
+    throw new Error(`Primary basket and weights have different lengths for RToken ${name}`)
+  }
+
+  const backups: IBackupInfo[] = setup.backups.map((b) => ({
+    backupUnit: ethers.utils.formatBytes32String(b.backupUnit),
+    diversityFactor: b.diversityFactor,
+    backupCollateral: b.backupCollateral.map(getCollateral),
+  }))
+
+  const beneficiaries: IBeneficiaryInfo[] = setup.beneficiaries.map((b) => ({
+    beneficiary: b.beneficiary == 'deployer' ? deployer : b.beneficiary,
+    revShare: b.revShare,
+  }))
+
+  return {
+    assets: setup.assets.map(getAsset),
+    primaryBasket: setup.primaryBasket.map(getCollateral),
+    weights: setup.weights,
+    backups,
+    beneficiaries,
+  }
+}
@@ -0,0 +1,351 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import hre from 'hardhat'
+import { BigNumber } from 'ethers'
+
+import { getChainId } from '../../common/blockchain-utils'
+import { developmentChains, networkConfig } from '../../common/configuration'
+import {
+  fileExists,
+  getAssetCollDeploymentFilename,
+  getDeploymentFile,
+  getDeploymentFilename,
+  getRTokenDeploymentFilename,
+  IStepRecord,
+  setDeploymentFolder,
+} from './common'
+import { getRTokenName } from './phase3-rtoken/rTokenConfig'
+
+import setupPhase1 from './phase1-common/0_setup_deployments'
+import deployLibraries from './phase1-common/1_deploy_libraries'
+import deployImplementations from './phase1-common/2_deploy_implementations'
+import deployRSRAsset from './phase1-common/3_deploy_rsrAsset'
+import deployFacade from './phase1-common/4_deploy_facade'
+import deployDeployer from './phase1-common/5_deploy_deployer'
+import deployFacadeWrite from './phase1-common/6_deploy_facadeWrite'
+import deployFacadeAct from './phase1-common/7_deploy_facadeAct'
+import setupPhase2 from './phase2-assets/0_setup_deployments'
+import deployAssets from './phase2-assets/1_deploy_assets'
+import deployCollateral from './phase2-assets/2_deploy_collateral'
+import setupPhase3 from './phase3-rtoken/0_setup_deployments'
+import deployRToken from './phase3-rtoken/1_deploy_rtoken'
+import deployGovernance from './phase3-rtoken/2_deploy_governance'
+
+export interface IDeploymentStep {
+  name: string
+  run: () => Promise<void>
+  // The deployment file in which this step records its status
+  filename: (chainId: number) => string
+  // Optional steps only run when requested by name
+  optional?: boolean
+}
+
+export interface IRunnerOptions {
+  resume?: boolean // skip steps already recorded as done
+  from?: string // first step to run
+  only?: string[] // run exactly these steps, even if already done
+  skip?: string[] // never run these steps
+}
+
+// Phase3 steps work on the selected RToken, see `selectRToken()`
+const rTokenDeploymentFilename = (chainId: number) =>
+  getRTokenDeploymentFilename(chainId, getRTokenName())
+
+// Part 1/3 of the *overall* deployment process: Deploy all contracts
+// See `confirm.ts` for part 2
+export const deploymentSteps: IDeploymentStep[] = [
+  { name: 'phase1-common/0_setup_deployments', run: setupPhase1, filename: getDeploymentFilename },
+  {
+    name: 'phase1-common/1_deploy_libraries',
+    run: deployLibraries,
+    filename: getDeploymentFilename,
+  },
+  {
+    name: 'phase1-common/2_deploy_implementations',
+    run: deployImplementations,
+    filename: getDeploymentFilename,
+  },
+  { name: 'phase1-common/3_deploy_rsrAsset', run: deployRSRAsset, filename: getDeploymentFilename },
+  { name: 'phase1-common/4_deploy_facade', run: deployFacade, filename: getDeploymentFilename },
+  { name: 'phase1-common/5_deploy_deployer', run: deployDeployer, filename: getDeploymentFilename },
+  {
+    name: 'phase1-common/6_deploy_facadeWrite',
+    run: deployFacadeWrite,
+    filename: getDeploymentFilename,
+  },
+  {
+    name: 'phase1-common/7_deploy_facadeAct',
+    run: deployFacadeAct,
+    filename: getDeploymentFilename,
+  },
+  // =============================================
+  {
+    name: 'phase2-assets/0_setup_deployments',
+    run: setupPhase2,
+    filename: getAssetCollDeploymentFilename,
+  },
+  {
+    name: 'phase2-assets/1_deploy_assets',
+    run: deployAssets,
+    filename: getAssetCollDeploymentFilename,
+  },
+  {
+    name: 'phase2-assets/2_deploy_collateral',
+    run: deployCollateral,
+    filename: getAssetCollDeploymentFilename,
+  },
+  // ===============================================
+  // These phase3 steps will not deploy functional RTokens or Governance. They deploy bricked
+  // versions that are used for verification only. Further deployment is left up to the Register.
+  // We can request them with `--only` whenever we update governance, which will be rarely
+  {
+    name: 'phase3-rtoken/0_setup_deployments',
+    run: setupPhase3,
+    filename: rTokenDeploymentFilename,
+    optional: true,
+  },
+  {
+    name: 'phase3-rtoken/1_deploy_rtoken',
+    run: deployRToken,
+    filename: rTokenDeploymentFilename,
+    optional: true,
+  },
+  {
+    name: 'phase3-rtoken/2_deploy_governance',
+    run: deployGovernance,
+    filename: rTokenDeploymentFilename,
+    optional: true,
+  },
+]
+
+const getStep = (name: string): IDeploymentStep => {
+  const step = deploymentSteps.find((s) => s.name == name)
+  if (!step) {
+    throw new Error(
+      `Unknown deployment step ${name}. Valid steps:\n  ${deploymentSteps
+        .map((s) => s.name)
+        .join('\n  ')}`
+    )
+  }
+  return step
+}
+
+export const getStepRecord = (step: IDeploymentStep, chainId: number): IStepRecord | undefined => {
+  const filename = step.filename(chainId)
+  if (!fileExists(filename)) return undefined
+  return getDeploymentFile(filename).steps?.[step.name]
+}
+
+const writeStepRecord = (step: IDeploymentStep, chainId: number, record: IStepRecord) => {
+  // The setup step of each phase creates its file; a failure before that has nowhere to go
+  const filename = step.filename(chainId)
+  if (!fileExists(filename)) return
+
+  const deployments = getDeploymentFile(filename)
+  deployments.steps = { ...deployments.steps, [step.name]: record }
+  fs.writeFileSync(filename, JSON.stringify(deployments, null, 2))
+}
+
+// Flattens every address in a deployment file into a `path.to.field => address` map
+const collectAddresses = (
+  obj: { [key: string]: unknown },
+  prefix = '',
+  out: { [key: string]: string } = {}
+): { [key: string]: string } => {
+  for (const [key, value] of Object.entries(obj)) {
+    if (!prefix && key == 'steps') continue
+    const path = prefix + key
+    if (typeof value === 'string' && hre.ethers.utils.isAddress(value)) out[path] = value
+    else if (value && typeof value === 'object') {
+      collectAddresses(<{ [key: string]: unknown }>value, path + '.', out)
+    }
+  }
+  return out
+}
+
+const readAddresses = (filename: string): { [key: string]: string } => {
+  if (!fileExists(filename)) return {}
+  return collectAddresses(<{ [key: string]: unknown }>(<unknown>getDeploymentFile(filename)))
+}
+
+// The hardhat-ethers provider emits a `debug` event for each request it sends, as ethers does
+interface IProviderDebugEvent {
+  action: string
+  request: { method: string }
+  response?: string
+}
+
+// Runs `fn` and returns the hashes of the transactions it sent, in order
+const recordTxHashes = async (fn: () => Promise<void>): Promise<[string[], unknown]> => {
+  const hashes: string[] = []
+  const listener = ({ action, request, response }: IProviderDebugEvent) => {
+    const sent = ['eth_sendTransaction', 'eth_sendRawTransaction'].includes(request?.method)
+    if (action == 'send' && sent && response) hashes.push(response)
+  }
+
+  hre.ethers.provider.on('debug', listener)
+  try {
+    await fn()
+    return [hashes, undefined]
+  } catch (e) {
+    return [hashes, e]
+  } finally {
+    hre.ethers.provider.off('debug', listener)
+  }
+}
+
+export const runStep = async (step: IDeploymentStep, chainId: number): Promise<IStepRecord> => {
+  const filename = step.filename(chainId)
+  const addressesBefore = readAddresses(filename)
+
+  writeStepRecord(step, chainId, { status: 'pending', txHashes: [], addresses: {} })
+
+  const [txHashes, error] = await recordTxHashes(step.run)
+
+  // Record whatever the step managed to do, even if it failed partway through
+  const addresses: { [key: string]: string } = {}
+  for (const [path, addr] of Object.entries(readAddresses(filename))) {
+    if (addressesBefore[path] != addr) addresses[path] = addr
+  }
+  const record: IStepRecord = {
+    status: error ? 'failed' : 'done',
+    txHashes,
+    addresses,
+  }
+  if (error) record.error = error instanceof Error ? error.message : String(error)
+
+  writeStepRecord(step, chainId, record)
+  if (error) throw error
+  return record
+}
+
+// Selects the steps to run, in order, logging the reason for each one left out
+export const selectSteps = (chainId: number, opts: IRunnerOptions): IDeploymentStep[] => {
+  const only = (opts.only ?? []).map(getStep)
+  const skip = (opts.skip ?? []).map(getStep)
+  const from = opts.from ? deploymentSteps.indexOf(getStep(opts.from)) : 0
+
+  return deploymentSteps.filter((step, i) => {
+    if (i < from) return false
+    if (only.length > 0) return only.includes(step)
+    if (step.optional) return false
+
+    if (skip.includes(step)) {
+      console.log(`Skipping ${step.name}`)
+      return false
+    }
+    if (opts.resume && getStepRecord(step, chainId)?.status == 'done') {
+      console.log(`Skipping ${step.name} (already done)`)
+      return false
+    }
+    return true
+  })
+}
+
+export const printDeploymentStatus = async () => {
+  const chainId = await getChainId(hre)
+
+  console.log(`Deployment status on network ${hre.network.name} (${chainId})\n`)
+  for (const step of deploymentSteps) {
+    const record = getStepRecord(step, chainId)
+    const status = record?.status ?? 'pending'
+    console.log(`  ${status.padEnd(8)} ${step.name}${step.optional ? ' (optional)' : ''}`)
+    if (record?.error) console.log(`           ${record.error}`)
+  }
+}
+
+export const runDeployment = async (opts: IRunnerOptions = {}) => {
+  const [deployer] = await hre.ethers.getSigners()
+  const chainId = await getChainId(hre)
+
+  // Check if chain is supported
+  if (!networkConfig[chainId]) {
+    throw new Error(`Missing network configuration for ${hre.network.name}`)
+  }
+
+  console.log(`Starting full deployment on network ${hre.network.name} (${chainId})`)
+  console.log(`Deployer account: ${deployer.address}\n`)
+
+  for (const step of selectSteps(chainId, opts)) {
+    console.log('\n===========================================\n', step.name, '')
+    await runStep(step, chainId)
+  }
+}
+
+interface IGasReportRow {
+  step: string
+  label: string // deployed contract, or recipient of a plain tx
+  gasUsed: BigNumber
+}
+
+// Gas used by every tx of a step, labelled with the deployment file field each contract went to
+const getGasReport = async (step: IDeploymentStep, record: IStepRecord) => {
+  const fields: { [addr: string]: string } = {}
+  for (const [field, addr] of Object.entries(record.addresses)) fields[addr.toLowerCase()] = field
+
+  const rows: IGasReportRow[] = []
+  for (const hash of record.txHashes) {
+    const receipt = await hre.ethers.provider.getTransactionReceipt(hash)
+    const label = receipt.contractAddress
+      ? fields[receipt.contractAddress.toLowerCase()] ?? `(contract ${receipt.contractAddress})`
+      : `(tx to ${fields[receipt.to.toLowerCase()] ?? receipt.to})`
+    rows.push({ step: step.name, label, gasUsed: receipt.gasUsed })
+  }
+  return rows
+}
+
+const printGasReport = (rows: IGasReportRow[], gasPrice: BigNumber) => {
+  const width = Math.max(...rows.map((r) => r.step.length + r.label.length + 3), 10)
+  const fmtGas = (gas: BigNumber) => gas.toNumber().toLocaleString('en-US').padStart(14)
+  const fmtEth = (gas: BigNumber) => hre.ethers.utils.formatEther(gas.mul(gasPrice))
+
+  console.log(`\n${'Contract'.padEnd(width)} ${'Gas'.padStart(14)}  ETH`)
+  for (const row of rows) {
+    const name = `${row.step} / ${row.label}`
+    console.log(`${name.padEnd(width)} ${fmtGas(row.gasUsed)}  ${fmtEth(row.gasUsed)}`)
+  }
+
+  const total = rows.reduce((sum, r) => sum.add(r.gasUsed), BigNumber.from(0))
+  console.log(`${'Total'.padEnd(width)} ${fmtGas(total)}  ${fmtEth(total)}`)
+  console.log(
+    `\n${rows.length} txs, at ${hre.ethers.utils.formatUnits(gasPrice, 'gwei')} gwei gas price`
+  )
+}
+
+// Runs every step, optional ones included, against a development chain (a mainnet fork or a
+// local node) and prints the gas used by each tx. Deployment files go to a temp folder instead of
+// `scripts/addresses/`, so existing ones are neither read nor touched.
+export const runDryRun = async (gasPrice?: BigNumber) => {
+  const [deployer] = await hre.ethers.getSigners()
+  const chainId = await getChainId(hre)
+
+  if (!developmentChains.includes(hre.network.name)) {
+    throw new Error(
+      `Dry runs only work on development chains, not ${hre.network.name}. Use FORK=1 or a local node`
+    )
+  }
+  if (!networkConfig[chainId]) {
+    throw new Error(`Missing network configuration for ${hre.network.name}`)
+  }
+
+  const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'reserve-dry-run-'))
+  setDeploymentFolder(folder)
+
+  console.log(`Starting deployment dry run on network ${hre.network.name} (${chainId})`)
+  console.log(`Deployer account: ${deployer.address}`)
+  console.log(`Deployment files: ${folder}\n`)
+
+  const rows: IGasReportRow[] = []
+  try {
+    for (const step of deploymentSteps) {
+      console.log('\n===========================================\n', step.name, '')
+      rows.push(...(await getGasReport(step, await runStep(step, chainId))))
+    }
+  } finally {
+    setDeploymentFolder()
+    fs.rmdirSync(folder, { recursive: true })
+  }
+
+  printGasReport(rows, gasPrice ?? (await hre.ethers.provider.getGasPrice()))
+}
@@ -18,6 +18,9 @@ export const getCurrentPrice = async (chainlinkAddr?: string): Promise<BigNumber
   return fp(answer).div(bn(10).pow(await chainlinkFeed.decimals()))
 }
 
+// Rough gas for a full deployment, incl. collateral: 6 ETH at 30 gwei. Measure with a dry run
+export const ESTIMATED_DEPLOYMENT_GAS = bn('200e6')
+
 export const getOracleTimeout = (chainId: number): BigNumber => {
   return bn(chainId == 1 ? '86400' : '4294967296') // long timeout on testnets
 }
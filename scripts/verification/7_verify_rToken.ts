@@ -2,7 +2,7 @@ import hre from 'hardhat'
 
 import { getChainId } from '../../common/blockchain-utils'
 import { developmentChains, networkConfig } from '../../common/configuration'
-import { getRTokenConfig } from '../deployment/phase3-rtoken/rTokenConfig'
+import { getRTokenConfig, getRTokenName } from '../deployment/phase3-rtoken/rTokenConfig'
 import {
   getDeploymentFile,
   getDeploymentFilename,
@@ -15,10 +15,7 @@ import { verifyContract } from '../deployment/utils'
 
 let rTokenDeployments: IRTokenDeployments
 
-// Define the Token to use
-const RTOKEN_NAME = 'RTKN'
-
-async function main() {
+export default async function main() {
   // ********** Read config **********
   const chainId = await getChainId(hre)
   if (!networkConfig[chainId]) {
@@ -37,11 +34,11 @@ async function main() {
   const phase1Deployment = <IDeployments>getDeploymentFile(phase1File)
 
   rTokenDeployments = <IRTokenDeployments>(
-    getDeploymentFile(getRTokenDeploymentFilename(chainId, RTOKEN_NAME))
+    getDeploymentFile(getRTokenDeploymentFilename(chainId, getRTokenName()))
   )
 
   // Get RToken Configuration
-  const rTokenConf = getRTokenConfig(chainId, RTOKEN_NAME)
+  const rTokenConf = getRTokenConfig(chainId, getRTokenName())
 
   /********************** Verify RTokenAsset ****************************************/
   await verifyContract(
@@ -61,7 +58,9 @@ async function main() {
   )
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
@@ -2,7 +2,7 @@ import hre from 'hardhat'
 
 import { getChainId } from '../../common/blockchain-utils'
 import { developmentChains, networkConfig } from '../../common/configuration'
-import { getRTokenConfig } from '../deployment/phase3-rtoken/rTokenConfig'
+import { getRTokenConfig, getRTokenName } from '../deployment/phase3-rtoken/rTokenConfig'
 import {
   getDeploymentFile,
   getRTokenDeploymentFilename,
@@ -12,10 +12,7 @@ import { verifyContract } from '../deployment/utils'
 
 let rTokenDeployments: IRTokenDeployments
 
-// Define the Token to use
-const RTOKEN_NAME = 'RTKN'
-
-async function main() {
+export default async function main() {
   // ********** Read config **********
   const chainId = await getChainId(hre)
   if (!networkConfig[chainId]) {
@@ -27,11 +24,11 @@ async function main() {
   }
 
   rTokenDeployments = <IRTokenDeployments>(
-    getDeploymentFile(getRTokenDeploymentFilename(chainId, RTOKEN_NAME))
+    getDeploymentFile(getRTokenDeploymentFilename(chainId, getRTokenName()))
   )
 
   // Get RToken Configuration
-  const rTokenConf = getRTokenConfig(chainId, RTOKEN_NAME)
+  const rTokenConf = getRTokenConfig(chainId, getRTokenName())
 
   /********************** Verify TimelockController ****************************************/
   await verifyContract(
@@ -57,7 +54,9 @@ async function main() {
   )
 }
 
-main().catch((error) => {
-  console.error(error)
-  process.exitCode = 1
-})
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
@@ -0,0 +1,142 @@
+import { BigNumber } from 'ethers'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import {
+  bidOrder,
+  clearAuction,
+  encodeOrder,
+  formatAuctionSimulation,
+  formatPrice,
+  IAuction,
+  IOrder,
+  ITokenInfo,
+  minimumPrice,
+  orderPrice,
+  prevOrder,
+} from '../../common/easy-auction'
+import { getAuctionRef, getTokenInfo } from './common'
+import { easyAuctionAbi, readAuction } from './orderbook'
+
+const D18 = BigNumber.from(10).pow(18)
+
+// D18{qBidTok/qAuctTok} The price of the auctioning token in bidding tokens, from the oracles of
+// the RToken that opened `trade`
+const oraclePrice = async (
+  hre: HardhatRuntimeEnvironment,
+  trade: string,
+  auctioning: ITokenInfo,
+  bidding: ITokenInfo
+): Promise<BigNumber> => {
+  const broker = await hre.ethers.getContractAt(
+    'IBroker',
+    await (await hre.ethers.getContractAt('GnosisTrade', trade)).broker()
+  )
+  const main = await hre.ethers.getContractAt('IMain', await broker.main())
+  const assetRegistry = await hre.ethers.getContractAt('IAssetRegistry', await main.assetRegistry())
+  const price = async (erc20: string): Promise<BigNumber> => {
+    const asset = await hre.ethers.getContractAt('IAsset', await assetRegistry.toAsset(erc20))
+    const [, uoaPerTok] = await asset.price(true) // {UoA/tok}
+    return uoaPerTok
+  }
+
+  // {qBidTok/qAuctTok} = {UoA/auctTok} / {UoA/bidTok} * {qBidTok/bidTok} / {qAuctTok/auctTok}
+  return (await price(auctioning.address))
+    .mul(D18)
+    .mul(BigNumber.from(10).pow(bidding.decimals))
+    .div(await price(bidding.address))
+    .div(BigNumber.from(10).pow(auctioning.decimals))
+}
+
+// D18{qBidTok/qAuctTok} The price to bid at by `strategy`, adjusted by `margin` D18{1}
+const strategyPrice = async (
+  hre: HardhatRuntimeEnvironment,
+  params: { strategy: string; trade?: string },
+  auction: IAuction,
+  orders: IOrder[],
+  margin: BigNumber,
+  auctioning: ITokenInfo,
+  bidding: ITokenInfo
+): Promise<BigNumber> => {
+  if (params.strategy == 'oracle') {
+    if (!params.trade) throw new Error('The oracle strategy needs the --trade of the auction')
+    const price = await oraclePrice(hre, params.trade, auctioning, bidding)
+    return price.mul(D18.sub(margin)).div(D18)
+  } else if (params.strategy == 'minimum') {
+    return minimumPrice(auction).mul(D18.add(margin)).div(D18)
+  } else if (params.strategy == 'clearing') {
+    const { clearingPriceOrder } = clearAuction(auction, orders)
+    return orderPrice(clearingPriceOrder).mul(D18.add(margin)).div(D18)
+  }
+  throw new Error(`Unknown strategy ${params.strategy}: use oracle, minimum or clearing`)
+}
+
+task('auction:bid', 'Places an order in an EasyAuction, priced by a bidding strategy')
+  .addOptionalParam('trade', 'GnosisTrade address, to bid in its auction')
+  .addOptionalParam('auction', 'EasyAuction auction id, instead of --trade')
+  .addOptionalParam('gnosis', 'EasyAuction address, instead of the deployment file')
+  .addOptionalParam(
+    'strategy',
+    'oracle: the oracle price less --margin; minimum or clearing: the minimum price or the ' +
+      'current clearing price plus --margin',
+    'oracle'
+  )
+  .addOptionalParam('margin', 'Fraction below or above the price of the strategy', '0.01')
+  .addOptionalParam('amount', 'Auctioning tokens to bid for, instead of the whole auction')
+  .addFlag('preview', 'Only print the order and how the auction would clear with it')
+  .setAction(async (params, hre) => {
+    const { gnosis: gnosisAddr, auctionId } = await getAuctionRef(hre, params)
+    const { auction, orders } = await readAuction(hre.ethers.provider, gnosisAddr, auctionId)
+    const auctioning = await getTokenInfo(hre, auction.auctioningToken)
+    const bidding = await getTokenInfo(hre, auction.biddingToken)
+
+    const block = await hre.ethers.provider.getBlock('latest')
+    if (block.timestamp >= auction.auctionEndDate) {
+      throw new Error(`Auction ${auctionId} no longer takes orders`)
+    }
+
+    const [signer] = await hre.ethers.getSigners()
+    const gnosis = new hre.ethers.Contract(gnosisAddr, easyAuctionAbi, signer)
+    const userId = (<BigNumber>await gnosis.callStatic.getUserId(signer.address)).toNumber()
+
+    const price = await strategyPrice(
+      hre,
+      params,
+      auction,
+      orders,
+      hre.ethers.utils.parseEther(params.margin),
+      auctioning,
+      bidding
+    )
+    const amount = params.amount
+      ? hre.ethers.utils.parseUnits(params.amount, auctioning.decimals)
+      : auction.auctioneer.sellAmount
+    const order = bidOrder(auction, userId, amount, price)
+
+    const { formatUnits } = hre.ethers.utils
+    console.log(
+      `Bidding ${formatUnits(order.sellAmount, bidding.decimals)} ${bidding.symbol} for ` +
+        `${formatUnits(order.buyAmount, auctioning.decimals)} ${auctioning.symbol}, at ` +
+        `${formatPrice(order, auctioning, bidding)} by the ${params.strategy} strategy\n`
+    )
+    const clearing = clearAuction(auction, [...orders, order])
+    console.log(formatAuctionSimulation(auction, clearing, auctioning, bidding))
+    if (params.preview) return order
+
+    const erc20 = await hre.ethers.getContractAt('IERC20Metadata', auction.biddingToken)
+    await (await erc20.connect(signer).approve(gnosisAddr, order.sellAmount)).wait()
+    const receipt = await (
+      await gnosis.placeSellOrders(
+        auctionId,
+        [order.buyAmount],
+        [order.sellAmount],
+        [prevOrder(orders, order)],
+        '0x'
+      )
+    ).wait()
+
+    // EasyAuction skips orders that were already placed, without reverting
+    const placed = receipt.events?.some((e: { event?: string }) => e.event == 'NewSellOrder')
+    if (!placed) throw new Error('The order was already placed')
+    console.log(`\nPlaced order ${encodeOrder(order)} in tx ${receipt.transactionHash}`)
+    return order
+  })
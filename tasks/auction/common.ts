@@ -0,0 +1,54 @@
+import { BigNumber } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { getChainId } from '../../common/blockchain-utils'
+import { ITokenInfo } from '../../common/easy-auction'
+import {
+  getDeploymentFile,
+  getDeploymentFilename,
+  IDeployments,
+} from '../../scripts/deployment/common'
+
+// An EasyAuction auction, as the auction:* tasks take it: `trade`, the GnosisTrade that opened it,
+// or `auction`, its id in the EasyAuction at `gnosis` or else the deployment's
+export interface IAuctionRef {
+  gnosis: string
+  auctionId: number
+  trade?: string
+}
+
+export const getAuctionRef = async (
+  hre: HardhatRuntimeEnvironment,
+  params: { trade?: string; auction?: string; gnosis?: string }
+): Promise<IAuctionRef> => {
+  if (params.trade) {
+    const trade = await hre.ethers.getContractAt('GnosisTrade', params.trade)
+    return {
+      gnosis: await trade.gnosis(),
+      auctionId: (await trade.auctionId()).toNumber(),
+      trade: params.trade,
+    }
+  }
+  if (!params.auction) throw new Error('Either --trade or --auction is required')
+
+  let gnosis = params.gnosis
+  if (!gnosis) {
+    const chainId = await getChainId(hre)
+    const deployments = <IDeployments>getDeploymentFile(getDeploymentFilename(chainId))
+    gnosis = deployments.prerequisites.GNOSIS_EASY_AUCTION
+  }
+  return { gnosis, auctionId: parseInt(params.auction) }
+}
+
+export const getTokenInfo = async (
+  hre: HardhatRuntimeEnvironment,
+  erc20: string
+): Promise<ITokenInfo> => {
+  const token = await hre.ethers.getContractAt('IERC20Metadata', erc20)
+  return { address: erc20, symbol: await token.symbol(), decimals: await token.decimals() }
+}
+
+// Prints BigNumbers as decimal strings in JSON
+export const jsonReplacer = (_key: string, value: unknown) =>
+  (<{ type?: string }>value)?.type == 'BigNumber'
+    ? BigNumber.from((<{ hex: string }>value).hex).toString()
+    : value
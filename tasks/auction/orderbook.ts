@@ -0,0 +1,94 @@
+import { BigNumber, Contract, ethers } from 'ethers'
+import { decodeOrder, IAuction, IOrder } from '../../common/easy-auction'
+
+// Reads an EasyAuction auction and its orderbook at a single block. The orderbook is not readable
+// on chain, so it is rebuilt from the NewSellOrder and CancellationSellOrder events since the
+// auction was initiated. Orders that were already claimed stay in it, so that the clearing of a
+// settled auction can be reproduced as well.
+
+export const easyAuctionAbi = [
+  'function auctionData(uint256) view returns (address auctioningToken, address biddingToken, uint256 orderCancellationEndDate, uint256 auctionEndDate, bytes32 initialAuctionOrder, uint256 minimumBiddingAmountPerOrder, uint256 interimSumBidAmount, bytes32 interimOrder, bytes32 clearingPriceOrder, uint96 volumeClearingPriceOrder, bool minFundingThresholdNotReached, bool isAtomicClosureAllowed, uint256 feeNumerator, uint256 minFundingThreshold)',
+  'function getUserId(address user) returns (uint64)',
+  'function placeSellOrders(uint256 auctionId, uint96[] _minBuyAmounts, uint96[] _sellAmounts, bytes32[] _prevSellOrders, bytes allowListCallData) returns (uint64)',
+  'event NewAuction(uint256 indexed auctionId, address indexed _auctioningToken, address indexed _biddingToken, uint256 orderCancellationEndDate, uint256 auctionEndDate, uint64 userId, uint96 _auctionedSellAmount, uint96 _minBuyAmount, uint256 minimumBiddingAmountPerOrder, uint256 minFundingThreshold, address allowListContract, bytes allowListData)',
+  'event NewSellOrder(uint256 indexed auctionId, uint64 indexed userId, uint96 buyAmount, uint96 sellAmount)',
+  'event CancellationSellOrder(uint256 indexed auctionId, uint64 indexed userId, uint96 buyAmount, uint96 sellAmount)',
+  'event NewUser(uint64 indexed userId, address indexed userAddress)',
+]
+
+export interface IAuctionOrder extends IOrder {
+  user?: string // the address of userId, when it was registered by placing an order
+}
+
+export interface IAuctionBook {
+  block: number
+  auction: IAuction
+  orders: IAuctionOrder[] // in the order they were placed
+  clearingPriceOrder?: IOrder // once the auction is settled
+}
+
+export const readAuction = async (
+  provider: ethers.providers.Provider,
+  gnosisAddr: string,
+  auctionId: number,
+  blockTag?: number
+): Promise<IAuctionBook> => {
+  const block = blockTag === undefined ? await provider.getBlockNumber() : blockTag
+  const gnosis = new Contract(gnosisAddr, easyAuctionAbi, provider)
+
+  const [initiated] = await gnosis.queryFilter(gnosis.filters.NewAuction(auctionId), 0, block)
+  if (!initiated?.args) throw new Error(`Auction ${auctionId} was never initiated`)
+  const args = initiated.args
+  const data = await gnosis.auctionData(auctionId, { blockTag: block })
+
+  const auction: IAuction = {
+    auctionId,
+    auctioningToken: args._auctioningToken,
+    biddingToken: args._biddingToken,
+    orderCancellationEndDate: args.orderCancellationEndDate.toNumber(),
+    auctionEndDate: args.auctionEndDate.toNumber(),
+    auctioneer: {
+      userId: args.userId.toNumber(),
+      buyAmount: args._minBuyAmount,
+      sellAmount: args._auctionedSellAmount,
+    },
+    minimumBiddingAmountPerOrder: args.minimumBiddingAmountPerOrder,
+    minFundingThreshold: args.minFundingThreshold,
+    feeNumerator: data.feeNumerator,
+  }
+
+  // Replay the placements and cancellations in order; an order can be placed again once canceled
+  const events = async (filter: ethers.EventFilter) =>
+    await gnosis.queryFilter(filter, initiated.blockNumber, block)
+  const changes = [
+    ...(await events(gnosis.filters.NewSellOrder(auctionId))),
+    ...(await events(gnosis.filters.CancellationSellOrder(auctionId))),
+  ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+  const key = (order: IOrder) => `${order.userId}:${order.buyAmount}:${order.sellAmount}`
+  const book = new Map<string, IAuctionOrder>()
+  for (const event of changes) {
+    const order: IOrder = {
+      userId: (<BigNumber>event.args?.userId).toNumber(),
+      buyAmount: event.args?.buyAmount,
+      sellAmount: event.args?.sellAmount,
+    }
+    if (event.event == 'NewSellOrder') book.set(key(order), order)
+    else book.delete(key(order))
+  }
+
+  const orders = [...book.values()]
+  for (const userId of new Set(orders.map((o) => o.userId))) {
+    const [registered] = await gnosis.queryFilter(gnosis.filters.NewUser(userId), 0, block)
+    const user: string | undefined = registered?.args?.userAddress
+    orders.filter((o) => o.userId == userId).forEach((o) => (o.user = user))
+  }
+
+  const cleared = data.clearingPriceOrder != ethers.constants.HashZero
+  return {
+    block,
+    auction,
+    orders,
+    clearingPriceOrder: cleared ? decodeOrder(data.clearingPriceOrder) : undefined,
+  }
+}
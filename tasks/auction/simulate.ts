@@ -0,0 +1,46 @@
+import { task } from 'hardhat/config'
+import {
+  clearAuction,
+  encodeOrder,
+  formatAuctionSimulation,
+  formatPrice,
+} from '../../common/easy-auction'
+import { getAuctionRef, getTokenInfo, jsonReplacer } from './common'
+import { readAuction } from './orderbook'
+
+task('auction:simulate', 'Computes the clearing price and fills of an EasyAuction from its orders')
+  .addOptionalParam('trade', 'GnosisTrade address, to simulate its auction')
+  .addOptionalParam('auction', 'EasyAuction auction id, instead of --trade')
+  .addOptionalParam('gnosis', 'EasyAuction address, instead of the deployment file')
+  .addOptionalParam('block', 'Block to read the orderbook at, instead of the latest')
+  .addFlag('json', 'Print the clearing as JSON rather than as text')
+  .setAction(async (params, hre) => {
+    const { gnosis, auctionId } = await getAuctionRef(hre, params)
+    const book = await readAuction(
+      hre.ethers.provider,
+      gnosis,
+      auctionId,
+      params.block ? parseInt(params.block) : undefined
+    )
+    const { auction, orders, clearingPriceOrder } = book
+    const clearing = clearAuction(auction, orders)
+
+    if (params.json) {
+      console.log(JSON.stringify({ ...book, clearing }, jsonReplacer, 2))
+      return clearing
+    }
+
+    const auctioning = await getTokenInfo(hre, auction.auctioningToken)
+    const bidding = await getTokenInfo(hre, auction.biddingToken)
+    console.log(formatAuctionSimulation(auction, clearing, auctioning, bidding))
+
+    // Once settled, the auction's actual clearing price
+    if (clearingPriceOrder) {
+      const matches = encodeOrder(clearingPriceOrder) == encodeOrder(clearing.clearingPriceOrder)
+      console.log(
+        `\nSettled at ${formatPrice(clearingPriceOrder, auctioning, bidding)}` +
+          (matches ? ', as simulated' : ', unlike the simulation')
+      )
+    }
+    return clearing
+  })
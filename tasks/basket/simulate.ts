@@ -0,0 +1,45 @@
+import fs from 'fs'
+import { task } from 'hardhat/config'
+import { formatSimulatedBasket, IBasketSnapshot, simulateBasket } from '../../common/basket'
+import { getRTokenAddress } from '../rtoken/common'
+import { readBasketSnapshot } from './snapshot'
+
+task('basket:simulate', 'Shows the basket that refreshBasket() would select for an RToken')
+  .addOptionalParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addOptionalParam('snapshot', 'Path of a saved snapshot to simulate from, instead of the chain')
+  .addOptionalParam('save', 'Path to save the snapshot to as JSON, e.g. to edit and simulate again')
+  .addOptionalParam('block', 'Block to read the snapshot at, instead of the latest')
+  .addOptionalParam('default', 'Comma-separated collateral (erc20 address or symbol) to default')
+  .addFlag('json', 'Print the basket as JSON rather than as text')
+  .setAction(async (params, hre) => {
+    let snapshot: IBasketSnapshot
+    if (params.snapshot) {
+      snapshot = JSON.parse(fs.readFileSync(params.snapshot, 'utf8'))
+    } else {
+      if (!params.rtoken) throw new Error('Either --rtoken or --snapshot is required')
+      snapshot = await readBasketSnapshot(
+        hre.ethers.provider,
+        await getRTokenAddress(hre, params.rtoken),
+        params.block ? parseInt(params.block) : undefined
+      )
+    }
+    if (params.save) {
+      fs.writeFileSync(params.save, JSON.stringify(snapshot, null, 2) + '\n')
+    }
+
+    // What if some collateral defaults
+    for (const name of params.default ? params.default.split(',') : []) {
+      const coll = snapshot.collateral.find(
+        (c) => c.erc20.toLowerCase() == name.toLowerCase() || c.symbol == name
+      )
+      if (!coll) throw new Error(`Unknown collateral ${name}`)
+      coll.status = 'DISABLED'
+    }
+
+    const simulated = simulateBasket(snapshot)
+    console.log(
+      params.json ? JSON.stringify(simulated, null, 2) : formatSimulatedBasket(snapshot, simulated)
+    )
+    if (params.save) console.log(`\nSaved the snapshot to ${params.save}`)
+    return simulated
+  })
@@ -0,0 +1,102 @@
+import { BigNumber, Contract, ethers } from 'ethers'
+import { CollateralStatus, StatusName } from '../../common/constants'
+import { IBasketCollateral, IBasketSnapshot } from '../../common/basket'
+
+// Reads the state that refreshBasket() selects the next basket from, all at a single block. The
+// basket configuration is not readable on chain, so it is taken from the latest events. Collateral
+// statuses are read as last refreshed on chain.
+
+const rTokenAbi = ['function main() view returns (address)']
+const mainAbi = [
+  'function rsr() view returns (address)',
+  'function stRSR() view returns (address)',
+  'function assetRegistry() view returns (address)',
+  'function basketHandler() view returns (address)',
+]
+const assetRegistryAbi = ['function getRegistry() view returns (address[], address[])']
+const basketHandlerAbi = [
+  'function nonce() view returns (uint48)',
+  'event PrimeBasketSet(address[] erc20s, uint192[] targetAmts, bytes32[] targetNames)',
+  'event BasketSet(uint256 indexed nonce, address[] erc20s, uint192[] refAmts, bool disabled)',
+  'event BackupConfigSet(bytes32 indexed targetName, uint256 indexed max, address[] erc20s)',
+]
+const collateralAbi = [
+  'function isCollateral() view returns (bool)',
+  'function targetName() view returns (bytes32)',
+  'function status() view returns (uint8)',
+  'function refPerTok() view returns (uint192)',
+  'function targetPerRef() view returns (uint192)',
+]
+const erc20Abi = ['function symbol() view returns (string)']
+
+const statusName = (status: CollateralStatus) => <StatusName>CollateralStatus[status]
+
+const toStrings = (values: BigNumber[]) => values.map((v) => v.toString())
+
+export const readBasketSnapshot = async (
+  provider: ethers.providers.Provider,
+  rTokenAddr: string,
+  blockTag?: number
+): Promise<IBasketSnapshot> => {
+  const block = blockTag === undefined ? await provider.getBlockNumber() : blockTag
+  const overrides = { blockTag: block }
+  const at = (addr: string, abi: string[]) => new Contract(addr, abi, provider)
+  const { parseBytes32String } = ethers.utils
+
+  const main = at(await at(rTokenAddr, rTokenAbi).main(overrides), mainAbi)
+  const basketHandler = at(await main.basketHandler(overrides), basketHandlerAbi)
+  const assetRegistry = at(await main.assetRegistry(overrides), assetRegistryAbi)
+  const events = (filter: ethers.EventFilter) => basketHandler.queryFilter(filter, 0, block)
+
+  const prime = (await events(basketHandler.filters.PrimeBasketSet())).pop()?.args
+  if (!prime) throw new Error('The prime basket has never been set')
+  const [primeERC20s, targetAmts, targetNames] = prime
+
+  // The basket is only set when it is not disabled; disableBasket() emits zero refAmts
+  const basketSet = (await events(basketHandler.filters.BasketSet()))
+    .filter((event) => !event.args?.disabled)
+    .pop()?.args
+
+  // The latest config of each target name
+  const backups: IBasketSnapshot['backups'] = {}
+  for (const event of await events(basketHandler.filters.BackupConfigSet())) {
+    const [targetName, max, erc20s] = <[string, BigNumber, string[]]>(<unknown>event.args)
+    backups[parseBytes32String(targetName)] = {
+      max: max.gt(Number.MAX_SAFE_INTEGER) ? Number.MAX_SAFE_INTEGER : max.toNumber(),
+      erc20s: [...erc20s],
+    }
+  }
+
+  const [erc20s, assets]: [string[], string[]] = await assetRegistry.getRegistry(overrides)
+  const collateral: IBasketCollateral[] = []
+  for (let i = 0; i < erc20s.length; i++) {
+    const coll = at(assets[i], collateralAbi)
+    if (!(await coll.isCollateral(overrides))) continue
+    collateral.push({
+      erc20: erc20s[i],
+      symbol: await at(erc20s[i], erc20Abi).symbol(overrides),
+      targetName: parseBytes32String(await coll.targetName(overrides)),
+      status: statusName(await coll.status(overrides)),
+      refPerTok: (await coll.refPerTok(overrides)).toString(),
+      targetPerRef: (await coll.targetPerRef(overrides)).toString(),
+    })
+  }
+
+  return {
+    block,
+    rsr: await main.rsr(overrides),
+    rToken: rTokenAddr,
+    stRSR: await main.stRSR(overrides),
+    nonce: await basketHandler.nonce(overrides),
+    basket: basketSet
+      ? { erc20s: [...basketSet[1]], refAmts: toStrings(basketSet[2]) }
+      : { erc20s: [], refAmts: [] },
+    primeBasket: {
+      erc20s: [...primeERC20s],
+      targetAmts: toStrings(targetAmts),
+      targetNames: targetNames.map(parseBytes32String),
+    },
+    backups,
+    collateral,
+  }
+}
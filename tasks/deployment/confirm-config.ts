@@ -0,0 +1,16 @@
+import { task } from 'hardhat/config'
+import { selectRToken } from '../../scripts/deployment/phase3-rtoken/rTokenConfig'
+
+task('confirm-config', 'Checks the on-chain parameters of a deployed RToken against its config')
+  .addOptionalParam('rtoken', 'Name of the RToken in rTokenConfig')
+  .setAction(async (params, hre) => {
+    if (params.rtoken) selectRToken(params.rtoken)
+
+    await hre.run('compile', { quiet: true })
+
+    // The confirmation script reads `hre` from `hardhat` at import, so it waits for the action
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { default: confirmConfig } = await import('../../scripts/confirmation/2_confirm_config')
+
+    await confirmConfig()
+  })
@@ -0,0 +1,48 @@
+import { task } from 'hardhat/config'
+import { selectRToken } from '../../scripts/deployment/phase3-rtoken/rTokenConfig'
+
+const splitSteps = (steps: string): string[] =>
+  steps
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0)
+
+task('deploy-all', 'Runs the deployment steps, recording their status in the deployment files')
+  .addFlag('resume', 'Skip steps that are already recorded as done')
+  .addFlag('status', 'Print the recorded status of each step and exit')
+  .addOptionalParam('from', 'Name of the first step to run')
+  .addOptionalParam('only', 'Comma-separated steps to run, even if already done', '')
+  .addOptionalParam('skip', 'Comma-separated steps to skip', '')
+  .addFlag('dryRun', 'Run all steps on a development chain and report gas, leaving files untouched')
+  .addOptionalParam('gasPrice', 'Gas price for the dry run cost estimate, in gwei')
+  .addOptionalParam('rtoken', 'Name of the RToken in rTokenConfig for the phase3 steps')
+  .setAction(async (params, hre) => {
+    if (params.rtoken) selectRToken(params.rtoken)
+
+    await hre.run('compile', { quiet: true })
+
+    // The deployment steps import `hardhat` themselves, so they can only be loaded once it is ready
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { printDeploymentStatus, runDeployment, runDryRun } = await import(
+      '../../scripts/deployment/runner'
+    )
+
+    if (params.status) {
+      await printDeploymentStatus()
+      return
+    }
+
+    if (params.dryRun) {
+      await runDryRun(
+        params.gasPrice ? hre.ethers.utils.parseUnits(params.gasPrice, 'gwei') : undefined
+      )
+      return
+    }
+
+    await runDeployment({
+      resume: params.resume,
+      from: params.from,
+      only: splitSteps(params.only),
+      skip: splitSteps(params.skip),
+    })
+  })
@@ -0,0 +1,21 @@
+import { task } from 'hardhat/config'
+import { selectRToken } from '../../scripts/deployment/phase3-rtoken/rTokenConfig'
+
+task('verify-rtoken', 'Verifies the RToken and governance contracts of an RToken on Etherscan')
+  .addOptionalParam('rtoken', 'Name of the RToken in rTokenConfig')
+  .setAction(async (params, hre) => {
+    if (params.rtoken) selectRToken(params.rtoken)
+
+    await hre.run('compile', { quiet: true })
+
+    // The verification scripts take `hre` from `hardhat`, which cannot load before the config has
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { default: verifyRToken } = await import('../../scripts/verification/7_verify_rToken')
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { default: verifyGovernance } = await import(
+      '../../scripts/verification/8_verify_governance'
+    )
+
+    await verifyRToken()
+    await verifyGovernance()
+  })
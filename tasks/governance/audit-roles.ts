@@ -0,0 +1,60 @@
+import { task } from 'hardhat/config'
+import { getChainId } from '../../common/blockchain-utils'
+import { networkConfig } from '../../common/configuration'
+import {
+  auditRoles,
+  findRoleWarnings,
+  formatRoleHolders,
+  MAIN_ROLES,
+  TIMELOCK_ROLES,
+} from '../../common/roles'
+import {
+  getDeploymentFile,
+  getRTokenDeploymentFilename,
+  IRTokenDeployments,
+} from '../../scripts/deployment/common'
+import { getRTokenName, selectRToken } from '../../scripts/deployment/phase3-rtoken/rTokenConfig'
+
+task('audit-roles', 'Lists the holders of the roles of an RToken, and flags dangerous states')
+  .addOptionalParam('rtoken', 'Name of the RToken in rTokenConfig')
+  .addOptionalParam('main', 'Main address, instead of the RToken deployment file')
+  .addOptionalParam('timelock', 'TimelockController address, instead of the RToken deployment file')
+  .addOptionalParam('deployer', 'Deployer address, defaults to the first signer')
+  .setAction(async (params, hre) => {
+    if (params.rtoken) selectRToken(params.rtoken)
+
+    const chainId = await getChainId(hre)
+    if (!networkConfig[chainId]) {
+      throw new Error(`Missing network configuration for ${hre.network.name}`)
+    }
+
+    let mainAddr: string = params.main
+    let timelockAddr: string | undefined = params.timelock
+    if (!mainAddr) {
+      const rTokenDeployments = <IRTokenDeployments>(
+        getDeploymentFile(getRTokenDeploymentFilename(chainId, getRTokenName()))
+      )
+      mainAddr = rTokenDeployments.main
+      timelockAddr = timelockAddr || rTokenDeployments.timelock || undefined
+    }
+    const deployer: string = params.deployer || (await hre.ethers.getSigners())[0].address
+
+    console.log(`Auditing roles of Main ${mainAddr} on ${hre.network.name} (${chainId})`)
+    const audit = await auditRoles(hre, mainAddr, deployer, timelockAddr)
+
+    console.log(`\nMain\n${formatRoleHolders(MAIN_ROLES, audit.main)}`)
+    for (const [account, charges] of Object.entries(audit.longFreezes)) {
+      console.log(`  long-freeze charges of ${account}: ${charges}`)
+    }
+    if (audit.timelock) {
+      console.log(`\nTimelockController ${audit.timelockAddr}`)
+      console.log(formatRoleHolders(TIMELOCK_ROLES, audit.timelock))
+    }
+    if (audit.eoas.length > 0) console.log(`\nEOAs: ${audit.eoas.join(', ')}`)
+
+    const warnings = findRoleWarnings(audit)
+    if (warnings.length > 0) console.log(`\nWARNING\n  ${warnings.join('\n  ')}`)
+    else console.log('\nNo dangerous states found')
+
+    return { audit, warnings }
+  })
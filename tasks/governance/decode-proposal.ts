@@ -0,0 +1,339 @@
+import { BigNumber, Contract } from 'ethers'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { getChainId } from '../../common/blockchain-utils'
+import { developmentChains, networkConfig } from '../../common/configuration'
+import { buildProposal, readProposalSpec } from '../../common/proposal'
+import {
+  decodeCall,
+  describeChange,
+  diffSnapshots,
+  formatBasket,
+  formatCall,
+  formatStateChange,
+  formatValue,
+  IComponentAbis,
+  IDecodedCall,
+  INames,
+  IStateSnapshot,
+} from '../../common/proposal-decoder'
+import { getRoleHolders, MAIN_ROLES, roleName, TIMELOCK_ROLES } from '../../common/roles'
+import {
+  getDeploymentFile,
+  getRTokenDeploymentFilename,
+  IRTokenDeployments,
+} from '../../scripts/deployment/common'
+import { getRTokenName, selectRToken } from '../../scripts/deployment/phase3-rtoken/rTokenConfig'
+
+// The artifact whose ABI decodes the calls to each component, including its getters
+const COMPONENT_ARTIFACTS: { [component: string]: string } = {
+  Main: 'TestIMain',
+  RToken: 'TestIRToken',
+  StRSR: 'TestIStRSR',
+  AssetRegistry: 'IAssetRegistry',
+  BasketHandler: 'IBasketHandler',
+  BackingManager: 'TestIBackingManager',
+  Distributor: 'TestIDistributor',
+  RSRTrader: 'TestIRevenueTrader',
+  RTokenTrader: 'TestIRevenueTrader',
+  Furnace: 'TestIFurnace',
+  Broker: 'TestIBroker',
+  Governance: 'Governance',
+  TimelockController: 'TimelockController',
+}
+
+// The no-argument getters recorded in a state snapshot
+const SNAPSHOT_GETTERS: { [component: string]: string[] } = {
+  Main: ['shortFreeze', 'longFreeze', 'paused', 'frozen'],
+  RToken: [
+    'issuanceRate',
+    'scalingRedemptionRate',
+    'redemptionRateFloor',
+    'basketsNeeded',
+    'totalSupply',
+  ],
+  StRSR: ['unstakingDelay', 'rewardPeriod', 'rewardRatio', 'exchangeRate'],
+  BasketHandler: ['status', 'nonce'],
+  BackingManager: ['tradingDelay', 'backingBuffer', 'maxTradeSlippage', 'minTradeVolume'],
+  RSRTrader: ['maxTradeSlippage', 'minTradeVolume'],
+  RTokenTrader: ['maxTradeSlippage', 'minTradeVolume'],
+  Furnace: ['period', 'ratio'],
+  Broker: ['auctionLength', 'disabled'],
+  Governance: ['votingDelay', 'votingPeriod', 'proposalThreshold', 'quorumNumerator()'],
+  TimelockController: ['getMinDelay'],
+}
+
+interface IRTokenSystem {
+  addresses: { [component: string]: string }
+  abis: IComponentAbis
+  names: INames
+}
+
+const loadSystem = async (
+  hre: HardhatRuntimeEnvironment,
+  mainAddr: string,
+  governorAddr?: string
+): Promise<IRTokenSystem> => {
+  const main = await hre.ethers.getContractAt('TestIMain', mainAddr)
+  const addresses: { [component: string]: string } = {
+    Main: main.address,
+    RToken: await main.rToken(),
+    StRSR: await main.stRSR(),
+    AssetRegistry: await main.assetRegistry(),
+    BasketHandler: await main.basketHandler(),
+    BackingManager: await main.backingManager(),
+    Distributor: await main.distributor(),
+    RSRTrader: await main.rsrTrader(),
+    RTokenTrader: await main.rTokenTrader(),
+    Furnace: await main.furnace(),
+    Broker: await main.broker(),
+  }
+  if (governorAddr) {
+    const governor = await hre.ethers.getContractAt('Governance', governorAddr)
+    addresses.Governance = governor.address
+    addresses.TimelockController = await governor.timelock()
+  }
+
+  const abis: IComponentAbis = {}
+  const names: INames = {}
+  for (const [component, addr] of Object.entries(addresses)) {
+    const { abi } = await hre.artifacts.readArtifact(COMPONENT_ARTIFACTS[component])
+    abis[component] = new hre.ethers.utils.Interface(abi)
+    names[addr.toLowerCase()] = component
+  }
+
+  // The Distributor's special destinations
+  names['0x0000000000000000000000000000000000000001'] = 'FURNACE'
+  names['0x0000000000000000000000000000000000000002'] = 'ST_RSR'
+
+  // Registered tokens and their assets, by symbol
+  const assetRegistry = await hre.ethers.getContractAt('IAssetRegistry', addresses.AssetRegistry)
+  const [erc20s, assets] = await assetRegistry.getRegistry()
+  for (let i = 0; i < erc20s.length; i++) {
+    const symbol = await (await hre.ethers.getContractAt('ERC20Mock', erc20s[i])).symbol()
+    names[erc20s[i].toLowerCase()] = symbol
+    names[assets[i].toLowerCase()] = `${symbol}-asset`
+  }
+
+  for (const role of [...MAIN_ROLES, ...TIMELOCK_ROLES]) {
+    names[role.toLowerCase()] = roleName(role)
+  }
+  return { addresses, abis, names }
+}
+
+// Reads the governable state of every component, formatted as the decoder formats arguments
+const readState = async (
+  hre: HardhatRuntimeEnvironment,
+  { addresses, abis, names }: IRTokenSystem
+): Promise<IStateSnapshot> => {
+  const snapshot: IStateSnapshot = {}
+  const contract = (component: string) =>
+    new Contract(addresses[component], abis[component], hre.ethers.provider)
+
+  for (const [component, getters] of Object.entries(SNAPSHOT_GETTERS)) {
+    if (!addresses[component]) continue
+    const state: { [field: string]: string } = (snapshot[component] = {})
+    for (const getter of getters) {
+      const fragment = abis[component].getFunction(getter)
+      const result = await contract(component).functions[getter]()
+      const field = fragment.name
+      state[field] =
+        fragment.outputs?.length == 1
+          ? formatValue(fragment.outputs[0], result[0], names)
+          : formatValue(
+              hre.ethers.utils.ParamType.from({
+                type: 'tuple',
+                name: field,
+                components: fragment.outputs,
+              }),
+              result,
+              names
+            )
+    }
+  }
+
+  // Baskets are only readable from their latest events
+  const basketHandler = contract('BasketHandler')
+  const primeBasketSet = await basketHandler.queryFilter(basketHandler.filters.PrimeBasketSet())
+  if (primeBasketSet.length > 0) {
+    const [erc20s, targetAmts] = primeBasketSet[primeBasketSet.length - 1].args || []
+    snapshot.BasketHandler.primeBasket = formatBasket(erc20s, targetAmts, names)
+  }
+  const basketSet = await basketHandler.queryFilter(basketHandler.filters.BasketSet())
+  if (basketSet.length > 0) {
+    const [, erc20s, refAmts] = basketSet[basketSet.length - 1].args || []
+    snapshot.BasketHandler.basket = formatBasket(erc20s, refAmts, names)
+  }
+
+  // Revenue shares of every destination ever set
+  const distributor = contract('Distributor')
+  const distributionSet = await distributor.queryFilter(distributor.filters.DistributionSet())
+  const dests = new Set(distributionSet.map((e) => <string>e.args?.dest))
+  snapshot.Distributor = {}
+  for (const dest of dests) {
+    const share = await distributor.distribution(dest)
+    const name = formatValue(hre.ethers.utils.ParamType.from('address'), dest, names)
+    snapshot.Distributor[
+      `distribution[${name}]`
+    ] = `{rTokenDist: ${share.rTokenDist}, rsrDist: ${share.rsrDist}}`
+  }
+
+  // Registered assets
+  const [erc20s, assets] = await contract('AssetRegistry').getRegistry()
+  snapshot.AssetRegistry = {}
+  for (let i = 0; i < erc20s.length; i++) {
+    const erc20 = names[erc20s[i].toLowerCase()] || erc20s[i]
+    snapshot.AssetRegistry[`toAsset[${erc20}]`] = names[assets[i].toLowerCase()] || assets[i]
+  }
+
+  // Role holders of Main
+  const holders = await getRoleHolders(contract('Main'))
+  for (const role of MAIN_ROLES) {
+    const accounts = (holders[role] || []).map((a) => names[a.toLowerCase()] || a)
+    snapshot.Main[`roles[${roleName(role)}]`] = `[${accounts.join(', ')}]`
+  }
+  return snapshot
+}
+
+// Executes the calls from the timelock on a local fork, and reverts them once the state is read
+const simulate = async (
+  hre: HardhatRuntimeEnvironment,
+  system: IRTokenSystem,
+  calls: IDecodedCall[]
+) => {
+  if (!developmentChains.includes(hre.network.name)) {
+    throw new Error(`--simulate only works on local networks and forks, not ${hre.network.name}`)
+  }
+  const executor = system.addresses.TimelockController
+  if (!executor) throw new Error('--simulate needs the governance of the RToken')
+
+  const snapshotId = await hre.network.provider.send('evm_snapshot', [])
+  try {
+    const before = await readState(hre, system)
+    const value = calls.reduce((sum, call) => sum.add(call.value), BigNumber.from(0))
+    const balance = hre.ethers.utils.parseEther('1').add(value)
+    await hre.network.provider.send('hardhat_impersonateAccount', [executor])
+    await hre.network.provider.send('hardhat_setBalance', [
+      executor,
+      hre.ethers.utils.hexStripZeros(balance.toHexString()),
+    ])
+    const signer = await hre.ethers.getSigner(executor)
+
+    let reverted = 0
+    for (const call of calls) {
+      try {
+        const tx = { to: call.target, data: call.calldata, value: call.value }
+        await (await signer.sendTransaction(tx)).wait()
+      } catch (e) {
+        reverted++
+        console.log(`  REVERTED ${formatCall(call)}: ${e instanceof Error ? e.message : e}`)
+      }
+    }
+
+    const changes = diffSnapshots(before, await readState(hre, system))
+    console.log(`\nState diff after execution${reverted > 0 ? `, with ${reverted} reverts` : ''}:`)
+    if (changes.length == 0) console.log('  no changes')
+    for (const change of changes) console.log(`  ${formatStateChange(change)}`)
+    return changes
+  } finally {
+    await hre.network.provider.send('evm_revert', [snapshotId])
+  }
+}
+
+interface IProposalActions {
+  targets: string[]
+  values: BigNumber[]
+  calldatas: string[]
+  description?: string
+}
+
+// Reads the actions of a proposal from whichever of --proposal-id, --spec or --calldata was given
+const getActions = async (
+  hre: HardhatRuntimeEnvironment,
+  params: { proposalId?: string; spec?: string; calldata?: string; target?: string },
+  governorAddr?: string
+): Promise<IProposalActions> => {
+  if (params.proposalId) {
+    if (!governorAddr) throw new Error('--proposal-id needs the governance of the RToken')
+    const governor = await hre.ethers.getContractAt('Governance', governorAddr)
+    const created = (await governor.queryFilter(governor.filters.ProposalCreated())).find((e) =>
+      BigNumber.from(params.proposalId).eq(e.args?.proposalId)
+    )
+    if (!created?.args) {
+      throw new Error(`Proposal ${params.proposalId} not found`)
+    }
+
+    // By position, as `values` is shadowed by Array.prototype.values in an ethers Result:
+    // ProposalCreated(proposalId, proposer, targets, values, signatures, calldatas, startBlock,
+    //   endBlock, description)
+    const [, , targets, values, , calldatas, , , description] = created.args
+    return { targets, values, calldatas, description }
+  }
+  if (params.spec) return buildProposal(readProposalSpec(params.spec))
+  if (!params.calldata) throw new Error('Needs exactly one of --proposal-id, --spec and --calldata')
+  if (params.target) {
+    return { targets: [params.target], values: [BigNumber.from(0)], calldatas: [params.calldata] }
+  }
+
+  // propose(), queue() and execute() all start with (targets, values, calldatas)
+  const { abi } = await hre.artifacts.readArtifact('Governance')
+  const governance = new hre.ethers.utils.Interface(abi)
+  const fragment = governance.getFunction(params.calldata.slice(0, 10))
+  if (!['propose', 'queue', 'execute'].includes(fragment.name)) {
+    throw new Error(`Calldata of Governance.${fragment.name} holds no proposal; pass --target`)
+  }
+  const decoded = governance.decodeFunctionData(fragment, params.calldata)
+  return {
+    targets: decoded[0],
+    values: decoded[1],
+    calldatas: decoded[2],
+    description: fragment.name == 'propose' ? decoded[3] : undefined,
+  }
+}
+
+task('governance:decode', 'Decodes the calls of a proposal, and what they change')
+  .addOptionalParam('rtoken', 'Name of the RToken in rTokenConfig')
+  .addOptionalParam('main', 'Main address, instead of the RToken deployment file')
+  .addOptionalParam('governor', 'Governance address, instead of the RToken deployment file')
+  .addOptionalParam('proposalId', 'Id of a proposal submitted to the governor')
+  .addOptionalParam('spec', 'Path to a proposal spec, as taken by governance:propose')
+  .addOptionalParam('calldata', 'Raw calldata: a call to --target, or to propose/queue/execute')
+  .addOptionalParam('target', 'Target of --calldata, if it is a single call')
+  .addFlag('simulate', 'Execute the calls on a local fork, and report the state diff')
+  .setAction(async (params, hre) => {
+    if (params.rtoken) selectRToken(params.rtoken)
+    if ([params.proposalId, params.spec, params.calldata].filter((p) => p).length != 1) {
+      throw new Error('Needs exactly one of --proposal-id, --spec and --calldata')
+    }
+
+    let mainAddr: string = params.main
+    let governorAddr: string | undefined = params.governor
+    if (!mainAddr) {
+      const chainId = await getChainId(hre)
+      if (!networkConfig[chainId]) {
+        throw new Error(`Missing network configuration for ${hre.network.name}`)
+      }
+      const rTokenDeployments = <IRTokenDeployments>(
+        getDeploymentFile(getRTokenDeploymentFilename(chainId, getRTokenName()))
+      )
+      mainAddr = rTokenDeployments.main
+      governorAddr = governorAddr || rTokenDeployments.governance || undefined
+    }
+    const system = await loadSystem(hre, mainAddr, governorAddr)
+
+    const { targets, values, calldatas, description } = await getActions(hre, params, governorAddr)
+
+    // ==== Decode ====
+    const snapshot = await readState(hre, system)
+    const calls = targets.map((target, i) =>
+      decodeCall(target, calldatas[i], values[i], system.abis, system.names)
+    )
+    if (description) console.log(`Proposal: ${description}\n`)
+    for (const call of calls) {
+      const change = describeChange(call, snapshot, system.names)
+      console.log(`${formatCall(call)}${change ? ` — ${change}` : ''}`)
+    }
+
+    if (params.simulate) await simulate(hre, system, calls)
+    return calls
+  })
@@ -0,0 +1,205 @@
+import { BigNumber, BigNumberish, Contract } from 'ethers'
+import { task } from 'hardhat/config'
+import { ConfigurableTaskDefinition, HardhatRuntimeEnvironment } from 'hardhat/types'
+import { getChainId } from '../../common/blockchain-utils'
+import { developmentChains, networkConfig } from '../../common/configuration'
+import { ProposalState } from '../../common/constants'
+import {
+  buildProposal,
+  getProposalId,
+  IProposal,
+  parseVoteType,
+  readProposalSpec,
+} from '../../common/proposal'
+import {
+  getDeploymentFile,
+  getRTokenDeploymentFilename,
+  IRTokenDeployments,
+} from '../../scripts/deployment/common'
+import { getRTokenName, selectRToken } from '../../scripts/deployment/phase3-rtoken/rTokenConfig'
+
+interface IGovernanceParams {
+  rtoken?: string
+  governor?: string
+  fastForward: boolean
+}
+
+// Resolves the Governance of an RToken, from --governor or from the RToken deployment file
+const getGovernor = async (
+  hre: HardhatRuntimeEnvironment,
+  params: IGovernanceParams
+): Promise<Contract> => {
+  if (params.fastForward && !developmentChains.includes(hre.network.name)) {
+    throw new Error(`--fast-forward only works on local networks, not ${hre.network.name}`)
+  }
+
+  if (params.rtoken) selectRToken(params.rtoken)
+
+  let governorAddr = params.governor
+  if (!governorAddr) {
+    const chainId = await getChainId(hre)
+    if (!networkConfig[chainId]) {
+      throw new Error(`Missing network configuration for ${hre.network.name}`)
+    }
+    const rTokenDeployments = <IRTokenDeployments>(
+      getDeploymentFile(getRTokenDeploymentFilename(chainId, getRTokenName()))
+    )
+    if (!rTokenDeployments.governance) {
+      throw new Error(`RToken ${getRTokenName()} has no governance on ${hre.network.name}`)
+    }
+    governorAddr = rTokenDeployments.governance
+  }
+  return hre.ethers.getContractAt('Governance', governorAddr)
+}
+
+const getProposal = (specPath: string): IProposal => buildProposal(readProposalSpec(specPath))
+
+// Prints the ProposalState of a proposal, as a transition from `before` if given
+const logState = async (governor: Contract, proposalId: BigNumber, before?: number) => {
+  const state: number = await governor.state(proposalId)
+  if (before === undefined || before == state) {
+    console.log(`ProposalState: ${ProposalState[state]}`)
+  } else {
+    console.log(`ProposalState: ${ProposalState[before]} -> ${ProposalState[state]}`)
+  }
+  return state
+}
+
+// On local networks, advances time by `seconds` if given and mines `blocks`, then prints the
+// transition it caused
+const fastForward = async (
+  hre: HardhatRuntimeEnvironment,
+  governor: Contract,
+  proposalId: BigNumber,
+  blocks: BigNumberish,
+  seconds?: BigNumberish
+) => {
+  const before: number = await governor.state(proposalId)
+  if (seconds !== undefined) {
+    await hre.network.provider.send('evm_increaseTime', [BigNumber.from(seconds).toNumber()])
+  }
+  await hre.network.provider.send('hardhat_mine', [
+    hre.ethers.utils.hexValue(BigNumber.from(blocks)),
+  ])
+  return logState(governor, proposalId, before)
+}
+
+const addGovernanceParams = (t: ConfigurableTaskDefinition, fastForward: string) =>
+  t
+    .addOptionalParam('rtoken', 'Name of the RToken in rTokenConfig')
+    .addOptionalParam('governor', 'Governance address, instead of the RToken deployment file')
+    .addFlag('fastForward', fastForward)
+
+addGovernanceParams(
+  task('governance:propose', 'Submits a proposal built from a JSON spec of actions'),
+  'Mine through the voting delay, so that voting is open'
+)
+  .addParam(
+    'spec',
+    'Path to the proposal spec: { description, actions: [{ target, signature, args }] }'
+  )
+  .setAction(async (params, hre) => {
+    const [proposer] = await hre.ethers.getSigners()
+    const governor = await getGovernor(hre, params)
+    const proposal = getProposal(params.spec)
+    const proposalId = getProposalId(proposal)
+
+    const { targets, values, calldatas, description } = proposal
+    const receipt = await (
+      await governor.connect(proposer).propose(targets, values, calldatas, description)
+    ).wait()
+    console.log(`Proposed ${proposalId} in tx ${receipt.transactionHash}`)
+    await logState(governor, proposalId)
+
+    if (params.fastForward) {
+      const votingDelay: BigNumber = await governor.votingDelay()
+      await fastForward(hre, governor, proposalId, votingDelay.add(1))
+    }
+    return proposalId
+  })
+
+addGovernanceParams(
+  task('governance:vote', 'Casts a vote, with a reason, on a proposal'),
+  'Mine through the voting period, so that the vote is over'
+)
+  .addOptionalParam('spec', 'Path to the proposal spec, to identify the proposal')
+  .addOptionalParam('proposalId', 'Proposal id, instead of the proposal spec')
+  .addParam('support', 'for, against or abstain')
+  .addOptionalParam('reason', 'Reason for the vote', '')
+  .setAction(async (params, hre) => {
+    const [voter] = await hre.ethers.getSigners()
+    const governor = await getGovernor(hre, params)
+    if (!params.spec && !params.proposalId) throw new Error('Needs --spec or --proposal-id')
+    const proposalId = params.proposalId
+      ? BigNumber.from(params.proposalId)
+      : getProposalId(getProposal(params.spec))
+    const support = parseVoteType(params.support)
+
+    const before: number = await governor.state(proposalId)
+    const receipt = await (
+      await governor.connect(voter).castVoteWithReason(proposalId, support, params.reason)
+    ).wait()
+    console.log(`${voter.address} voted ${params.support} in tx ${receipt.transactionHash}`)
+
+    const [against, forVotes, abstain] = (await governor.proposalVotes(proposalId)).map(
+      hre.ethers.utils.formatEther
+    )
+    console.log(`Votes: ${forVotes} for, ${against} against, ${abstain} abstain`)
+    await logState(governor, proposalId, before)
+
+    if (params.fastForward) {
+      const deadline: BigNumber = await governor.proposalDeadline(proposalId)
+      const blockNumber = await hre.ethers.provider.getBlockNumber()
+      await fastForward(hre, governor, proposalId, deadline.sub(blockNumber).add(1))
+    }
+  })
+
+addGovernanceParams(
+  task('governance:queue', 'Queues a succeeded proposal in the timelock'),
+  'Advance time through the timelock delay, so that the proposal can be executed'
+)
+  .addParam('spec', 'Path to the proposal spec')
+  .setAction(async (params, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const governor = await getGovernor(hre, params)
+    const proposal = getProposal(params.spec)
+    const proposalId = getProposalId(proposal)
+
+    const before: number = await governor.state(proposalId)
+    const { targets, values, calldatas, descriptionHash } = proposal
+    const receipt = await (
+      await governor.connect(signer).queue(targets, values, calldatas, descriptionHash)
+    ).wait()
+    const eta: BigNumber = await governor.proposalEta(proposalId)
+    console.log(`Queued in tx ${receipt.transactionHash}, executable from ${eta}`)
+    await logState(governor, proposalId, before)
+
+    if (params.fastForward) {
+      const timelock = await hre.ethers.getContractAt(
+        'TimelockController',
+        await governor.timelock()
+      )
+      const minDelay: BigNumber = await timelock.getMinDelay()
+      await fastForward(hre, governor, proposalId, 1, minDelay.add(1))
+    }
+  })
+
+task('governance:execute', 'Executes a queued proposal whose timelock delay has passed')
+  .addOptionalParam('rtoken', 'Name of the RToken in rTokenConfig')
+  .addOptionalParam('governor', 'Governance address, instead of the RToken deployment file')
+  .addParam('spec', 'Path to the proposal spec')
+  .setAction(async (params, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const governor = await getGovernor(hre, { ...params, fastForward: false })
+    const proposal = getProposal(params.spec)
+    const proposalId = getProposalId(proposal)
+
+    const before: number = await governor.state(proposalId)
+    const { targets, values, calldatas, descriptionHash } = proposal
+    const value = values.reduce((sum, v) => sum.add(v), BigNumber.from(0))
+    const receipt = await (
+      await governor.connect(signer).execute(targets, values, calldatas, descriptionHash, { value })
+    ).wait()
+    console.log(`Executed in tx ${receipt.transactionHash}`)
+    await logState(governor, proposalId, before)
+  })
@@ -15,5 +15,24 @@ import './deployment/mock/deploy-mock-usdc'
 import './deployment/mock/deploy-mock-aave'
 import './deployment/mock/deploy-mock-wbtc'
 import './deployment/create-deployer-registry'
+import './deployment/deploy-all'
+import './deployment/verify-rtoken'
+import './deployment/confirm-config'
 import './deployment/empty-wallet'
+import './governance/audit-roles'
+import './governance/proposals'
+import './governance/decode-proposal'
+import './rtoken/issuance'
+import './rtoken/staking'
+import './rtoken/report'
+import './rtoken/recollateralization'
+import './rtoken/redemption-capacity'
+import './basket/simulate'
+import './revenue/simulate'
+import './auction/simulate'
+import './auction/bid'
+import './keeper/run'
+import './monitor/run'
+import './monitor/metrics'
+import './indexer/run'
 import './testing/mint-tokens'
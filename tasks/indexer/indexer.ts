@@ -0,0 +1,107 @@
+import { BigNumber, Contract, ethers } from 'ethers'
+import { EventArg, EventStore, IIndexedEvent } from '../../common/event-store'
+
+// Walks the logs of the components of a Main into an EventStore, in batches of blocks, up to the
+// latest block with `confirmations` blocks on top of it. Only confirmed blocks are stored, so a
+// reorg shallower than `confirmations` never reaches the store.
+
+export interface IIndexedComponent {
+  name: string // e.g. 'RToken', or 'RSRTrader'
+  contract: Contract // with the interface that declares `events`
+  events: string[]
+}
+
+// The events indexed for each kind of component
+export const indexedEvents = {
+  RToken: ['Issuance', 'Redemption', 'Melted'],
+  StRSR: ['Staked', 'UnstakingStarted', 'RewardsPaid', 'ExchangeRateSet'],
+  BasketHandler: ['BasketSet'],
+  Trading: ['TradeStarted', 'TradeSettled'],
+  Distributor: ['RevenueDistributed'],
+}
+
+export interface IIndexerOptions {
+  provider: ethers.providers.Provider
+  store: EventStore
+  components: IIndexedComponent[]
+  confirmations: number
+  batchSize?: number // {blocks} per eth_getLogs call, 2000 by default
+  log?: (msg: string) => void
+}
+
+const toArg = (value: unknown): EventArg => {
+  if (BigNumber.isBigNumber(value)) return value.toString()
+  if (Array.isArray(value)) return value.map(toArg)
+  if (typeof value == 'boolean') return value
+  return `${value}`
+}
+
+export class EventIndexer {
+  readonly provider: ethers.providers.Provider
+  readonly store: EventStore
+  readonly components: IIndexedComponent[]
+  readonly confirmations: number
+  readonly batchSize: number
+  readonly log: (msg: string) => void
+
+  constructor(opts: IIndexerOptions) {
+    this.provider = opts.provider
+    this.store = opts.store
+    this.components = opts.components
+    this.confirmations = opts.confirmations
+    this.batchSize = opts.batchSize || 2000
+    this.log = opts.log || ((msg) => console.log(msg))
+  }
+
+  // Indexes every confirmed block after the store's last one, and returns the number of events
+  async sync(): Promise<number> {
+    const safeBlock = (await this.provider.getBlockNumber()) - this.confirmations
+    let indexed = 0
+    while (this.store.lastBlock < safeBlock) {
+      const fromBlock = this.store.lastBlock + 1
+      const toBlock = Math.min(fromBlock + this.batchSize - 1, safeBlock)
+      const events = await this.fetch(fromBlock, toBlock)
+      this.store.append(events, toBlock)
+      indexed += events.length
+      this.log(`Indexed blocks ${fromBlock}-${toBlock}: ${events.length} events`)
+    }
+    return indexed
+  }
+
+  private async fetch(fromBlock: number, toBlock: number): Promise<IIndexedEvent[]> {
+    const events: IIndexedEvent[] = []
+    const timestamps = new Map<number, number>() // by block
+    for (const { name, contract, events: names } of this.components) {
+      // Any of the component's events, in a single call
+      const topics = [names.map((n) => contract.interface.getEventTopic(n))]
+      const logs = await this.provider.getLogs({
+        address: contract.address,
+        topics,
+        fromBlock,
+        toBlock,
+      })
+
+      for (const log of logs) {
+        const parsed = contract.interface.parseLog(log)
+        const args: IIndexedEvent['args'] = {}
+        parsed.eventFragment.inputs.forEach((input, i) => {
+          args[input.name] = toArg(parsed.args[i])
+        })
+        if (!timestamps.has(log.blockNumber)) {
+          timestamps.set(log.blockNumber, (await this.provider.getBlock(log.blockNumber)).timestamp)
+        }
+        events.push({
+          block: log.blockNumber,
+          logIndex: log.logIndex,
+          txHash: log.transactionHash,
+          timestamp: <number>timestamps.get(log.blockNumber),
+          component: name,
+          contract: contract.address,
+          event: parsed.name,
+          args,
+        })
+      }
+    }
+    return events.sort((a, b) => a.block - b.block || a.logIndex - b.logIndex)
+  }
+}
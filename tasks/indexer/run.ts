@@ -0,0 +1,137 @@
+import path from 'path'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { getChainId } from '../../common/blockchain-utils'
+import { EventStore, IIndexedEvent } from '../../common/event-store'
+import {
+  getDeploymentFile,
+  getRTokenDeploymentFilename,
+  IRTokenDeployments,
+} from '../../scripts/deployment/common'
+import { EventIndexer, IIndexedComponent, indexedEvents } from './indexer'
+
+// Resolves `rtoken`, an address or the name of an RToken in rTokenConfig, and its store in `dir`
+const getStoreDir = async (hre: HardhatRuntimeEnvironment, rtoken: string, dir: string) => {
+  const chainId = await getChainId(hre)
+  let rTokenAddr = rtoken
+  if (!hre.ethers.utils.isAddress(rtoken)) {
+    const rTokenDeployments = <IRTokenDeployments>(
+      getDeploymentFile(getRTokenDeploymentFilename(chainId, rtoken))
+    )
+    rTokenAddr = rTokenDeployments.components.rToken
+  }
+  rTokenAddr = hre.ethers.utils.getAddress(rTokenAddr)
+  return { rTokenAddr, storeDir: path.join(dir, `${chainId}`, rTokenAddr) }
+}
+
+const getComponents = async (
+  hre: HardhatRuntimeEnvironment,
+  rTokenAddr: string
+): Promise<IIndexedComponent[]> => {
+  const rToken = await hre.ethers.getContractAt('IRToken', rTokenAddr)
+  const main = await hre.ethers.getContractAt('IMain', await rToken.main())
+  const component = async (name: string, artifact: string, addr: string, events: string[]) => ({
+    name,
+    contract: await hre.ethers.getContractAt(artifact, addr),
+    events,
+  })
+  return [
+    await component('RToken', 'IRToken', rTokenAddr, indexedEvents.RToken),
+    await component('StRSR', 'IStRSR', await main.stRSR(), indexedEvents.StRSR),
+    await component(
+      'BasketHandler',
+      'IBasketHandler',
+      await main.basketHandler(),
+      indexedEvents.BasketHandler
+    ),
+    await component(
+      'BackingManager',
+      'ITrading',
+      await main.backingManager(),
+      indexedEvents.Trading
+    ),
+    await component('RSRTrader', 'ITrading', await main.rsrTrader(), indexedEvents.Trading),
+    await component('RTokenTrader', 'ITrading', await main.rTokenTrader(), indexedEvents.Trading),
+    await component(
+      'Distributor',
+      'IDistributor',
+      await main.distributor(),
+      indexedEvents.Distributor
+    ),
+  ]
+}
+
+const formatEvent = (e: IIndexedEvent) => {
+  const args = Object.entries(e.args).map(([name, value]) => `${name}: ${value}`)
+  return `${e.block} ${e.component}.${e.event}(${args.join(', ')}) ${e.txHash}`
+}
+
+task('indexer:sync', 'Indexes the events of an RToken into a local JSON-lines store')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addOptionalParam('fromBlock', 'First block to index, needed on the first sync')
+  .addOptionalParam('confirmations', 'Blocks on top of the last block to index', '12')
+  .addOptionalParam('batch', 'Blocks per eth_getLogs call', '2000')
+  .addOptionalParam('dir', 'Folder of the stores, one per chain and RToken', 'indexer-data')
+  .setAction(async (params, hre) => {
+    const { rTokenAddr, storeDir } = await getStoreDir(hre, params.rtoken, params.dir)
+    const store = EventStore.open(
+      storeDir,
+      params.fromBlock ? parseInt(params.fromBlock) : undefined
+    )
+    const indexer = new EventIndexer({
+      provider: hre.ethers.provider,
+      store,
+      components: await getComponents(hre, rTokenAddr),
+      confirmations: parseInt(params.confirmations),
+      batchSize: parseInt(params.batch),
+    })
+
+    const indexed = await indexer.sync()
+    console.log(`${indexed} new events, indexed up to block ${store.lastBlock} in ${storeDir}`)
+    return indexed
+  })
+
+task('indexer:query', 'Prints the indexed events of an RToken')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addOptionalParam('event', 'Comma-separated event names, e.g. Issuance,Redemption')
+  .addOptionalParam('component', 'Component that emitted the events, e.g. RSRTrader')
+  .addOptionalParam('fromBlock', 'First block')
+  .addOptionalParam('toBlock', 'Last block')
+  .addOptionalParam('dir', 'Folder of the stores, one per chain and RToken', 'indexer-data')
+  .addFlag('json', 'Print the events as JSON lines')
+  .setAction(async (params, hre) => {
+    const { storeDir } = await getStoreDir(hre, params.rtoken, params.dir)
+    const events = EventStore.open(storeDir).query({
+      events: params.event ? (<string>params.event).split(',') : undefined,
+      component: params.component,
+      fromBlock: params.fromBlock ? parseInt(params.fromBlock) : undefined,
+      toBlock: params.toBlock ? parseInt(params.toBlock) : undefined,
+    })
+    for (const e of events) console.log(params.json ? JSON.stringify(e) : formatEvent(e))
+    return events
+  })
+
+task('indexer:trades', 'Prints every indexed trade of an RToken, with its settlement')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addOptionalParam('component', 'Trader, e.g. BackingManager or RSRTrader')
+  .addOptionalParam('dir', 'Folder of the stores, one per chain and RToken', 'indexer-data')
+  .addFlag('json', 'Print the trades as JSON lines')
+  .setAction(async (params, hre) => {
+    const { storeDir } = await getStoreDir(hre, params.rtoken, params.dir)
+    const trades = EventStore.open(storeDir).trades({ component: params.component })
+    for (const t of trades) {
+      if (params.json) {
+        console.log(JSON.stringify(t))
+        continue
+      }
+      const settled =
+        t.settleBlock === undefined
+          ? 'open'
+          : `settled at block ${t.settleBlock} for ${t.buyAmount} ${t.buy}`
+      console.log(
+        `${t.trader} ${t.trade}: ${t.sellAmount} ${t.sell} for at least ${t.minBuyAmount} ${t.buy}, ` +
+          `started at block ${t.startBlock}, ${settled}`
+      )
+    }
+    return trades
+  })
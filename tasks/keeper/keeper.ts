@@ -0,0 +1,395 @@
+import { BigNumber, Contract, ethers, Signer } from 'ethers'
+import { KeeperScheduler } from './scheduler'
+
+// A keeper that progresses RTokens: every block it asks FacadeAct.getActCalldata for the next call
+// of each RToken, simulates it, prices it against its policy, and sends it. See docs/mev.md.
+
+// The calls FacadeAct.getActCalldata can return, for naming actions
+const actionsAbi = new ethers.utils.Interface([
+  'function refreshBasket()',
+  'function settleTrade(address)',
+  'function manageTokens(address[])',
+  'function manageToken(address)',
+  'function melt()',
+  'function payoutRewards()',
+  'function claimRewards()',
+  'function claimAndSweepRewards(address)',
+])
+
+// When several RTokens need a call in the same block, higher priorities are sent first
+const defaultPriorities: { [action: string]: number } = {
+  refreshBasket: 4,
+  settleTrade: 3,
+  manageTokens: 3,
+  manageToken: 2,
+  melt: 1,
+  payoutRewards: 1,
+  claimRewards: 0,
+  claimAndSweepRewards: 0,
+}
+
+// What the keeper is willing to pay for an action, overriding the policy defaults
+export interface IActionPolicy {
+  enabled: boolean
+  priority?: number
+  maxGasCost?: BigNumber // {wei}
+  maxPriorityFeePerGas?: BigNumber // {wei/gas}
+}
+
+export interface IKeeperPolicy {
+  maxFeePerGas?: BigNumber // {wei/gas} skips every action while gas is pricier
+  maxPriorityFeePerGas?: BigNumber // {wei/gas} tip, the network's suggestion by default
+  maxGasCost?: BigNumber // {wei} skips any action that would cost more
+  actions: { [action: string]: IActionPolicy } // by action name, e.g. 'melt'
+}
+
+// The fees of the latest block: a base fee on EIP-1559 networks, only a gas price elsewhere
+export interface IGasFees {
+  baseFeePerGas?: BigNumber // {wei/gas}
+  maxPriorityFeePerGas?: BigNumber // {wei/gas}
+  gasPrice: BigNumber // {wei/gas}
+}
+
+export interface IPolicyDecision {
+  send: boolean
+  reason?: string // why the action is skipped
+  cost: BigNumber // {wei} expected cost at the current fees
+  overrides: ethers.providers.TransactionRequest
+}
+
+export interface IKeeperRecord {
+  rToken: string
+  block: number
+  status: 'idle' | 'skipped' | 'reverted' | 'sent' | 'failed'
+  action?: string
+  to?: string
+  reason?: string
+  txHash?: string
+  gasUsed?: BigNumber
+}
+
+export interface IKeeperOptions {
+  signer: Signer
+  facadeAct: Contract
+  rTokens: string[]
+  schedulers?: KeeperScheduler[] // for the calls due at known times, see ./scheduler.ts
+  policy?: IKeeperPolicy
+  retries?: number // times to resend a transaction that fails, 3 by default
+  retryDelay?: number // {ms} between resends, 1000 by default
+  log?: (msg: string) => void
+}
+
+const GAS_LIMIT_MARGIN = 20 // {%} over the gas estimate
+
+const gwei = (amt: unknown) => ethers.utils.parseUnits(`${amt}`, 'gwei')
+const eth = (amt: unknown) => ethers.utils.parseEther(`${amt}`)
+
+// Parses a JSON policy, with fees in gwei and costs in ETH, where `false` disables an action, e.g.
+// { "maxFeePerGas": 100, "maxGasCost": "0.05", "actions": { "melt": { "maxGasCost": "0.005" },
+//   "claimAndSweepRewards": false } }
+export const parseKeeperPolicy = (json: {
+  maxFeePerGas?: string | number
+  maxPriorityFeePerGas?: string | number
+  maxGasCost?: string | number
+  actions?: {
+    [action: string]:
+      | boolean
+      | {
+          priority?: number
+          maxGasCost?: string | number
+          maxPriorityFeePerGas?: string | number
+        }
+  }
+}): IKeeperPolicy => {
+  const policy: IKeeperPolicy = { actions: {} }
+  if (json.maxFeePerGas !== undefined) policy.maxFeePerGas = gwei(json.maxFeePerGas)
+  if (json.maxPriorityFeePerGas !== undefined) {
+    policy.maxPriorityFeePerGas = gwei(json.maxPriorityFeePerGas)
+  }
+  if (json.maxGasCost !== undefined) policy.maxGasCost = eth(json.maxGasCost)
+
+  for (const [action, spec] of Object.entries(json.actions || {})) {
+    if (typeof spec == 'boolean') {
+      policy.actions[action] = { enabled: spec }
+      continue
+    }
+    policy.actions[action] = {
+      enabled: true,
+      priority: spec.priority,
+      maxGasCost: spec.maxGasCost === undefined ? undefined : eth(spec.maxGasCost),
+      maxPriorityFeePerGas:
+        spec.maxPriorityFeePerGas === undefined ? undefined : gwei(spec.maxPriorityFeePerGas),
+    }
+  }
+  return policy
+}
+
+export const actionName = (calldata: string): string => {
+  try {
+    return actionsAbi.getFunction(calldata.slice(0, 10)).name
+  } catch {
+    return calldata.slice(0, 10)
+  }
+}
+
+export const actionPriority = (policy: IKeeperPolicy, action: string): number =>
+  policy.actions[action]?.priority ?? defaultPriorities[action] ?? 0
+
+// Decides whether an action of `gasLimit` gas is worth sending at `fees`, and at what fees
+export const applyPolicy = (
+  policy: IKeeperPolicy,
+  action: string,
+  gasLimit: BigNumber,
+  fees: IGasFees
+): IPolicyDecision => {
+  const actionPolicy = policy.actions[action] || { enabled: true }
+  const limit = gasLimit.mul(100 + GAS_LIMIT_MARGIN).div(100)
+
+  let gasPrice: BigNumber // {wei/gas} expected to be paid
+  let overrides: ethers.providers.TransactionRequest
+  if (fees.baseFeePerGas) {
+    const tip =
+      actionPolicy.maxPriorityFeePerGas ||
+      policy.maxPriorityFeePerGas ||
+      fees.maxPriorityFeePerGas ||
+      BigNumber.from(0)
+    gasPrice = fees.baseFeePerGas.add(tip)
+
+    // Room for the base fee to double, within the policy
+    let maxFeePerGas = fees.baseFeePerGas.mul(2).add(tip)
+    if (policy.maxFeePerGas && maxFeePerGas.gt(policy.maxFeePerGas)) {
+      maxFeePerGas = policy.maxFeePerGas
+    }
+    overrides = { gasLimit: limit, maxFeePerGas, maxPriorityFeePerGas: tip }
+  } else {
+    gasPrice = fees.gasPrice
+    overrides = { gasLimit: limit, gasPrice }
+  }
+
+  const cost = gasLimit.mul(gasPrice)
+  const skip = (reason: string) => ({ send: false, reason, cost, overrides })
+  if (!actionPolicy.enabled) return skip(`${action} is disabled by the policy`)
+  if (policy.maxFeePerGas && gasPrice.gt(policy.maxFeePerGas)) {
+    const price = ethers.utils.formatUnits(gasPrice, 'gwei')
+    return skip(`gas price ${price} gwei is over maxFeePerGas`)
+  }
+  const maxGasCost = actionPolicy.maxGasCost || policy.maxGasCost
+  if (maxGasCost && cost.gt(maxGasCost)) {
+    return skip(`cost ${ethers.utils.formatEther(cost)} ETH is over maxGasCost`)
+  }
+  return { send: true, cost, overrides }
+}
+
+interface ICandidate {
+  record: IKeeperRecord
+  data: string
+  decision: IPolicyDecision
+}
+
+export class Keeper {
+  readonly signer: Signer
+  readonly facadeAct: Contract
+  readonly rTokens: string[]
+  readonly schedulers: KeeperScheduler[]
+  readonly policy: IKeeperPolicy
+  readonly retries: number
+  readonly retryDelay: number
+  readonly log: (msg: string) => void
+
+  private nonce?: number // the next nonce, once known
+  private lastBlock = -1
+
+  constructor(opts: IKeeperOptions) {
+    this.signer = opts.signer
+    this.facadeAct = opts.facadeAct
+    this.rTokens = opts.rTokens
+    this.schedulers = opts.schedulers || []
+    this.policy = opts.policy || { actions: {} }
+    this.retries = opts.retries ?? 3
+    this.retryDelay = opts.retryDelay ?? 1000
+    this.log = opts.log || ((msg) => console.log(`${new Date().toISOString()} ${msg}`))
+  }
+
+  private get provider(): ethers.providers.Provider {
+    if (!this.signer.provider) throw new Error('The keeper signer has no provider')
+    return this.signer.provider
+  }
+
+  // Acts on every RToken once, at the latest block
+  async poll(): Promise<IKeeperRecord[]> {
+    const block = await this.provider.getBlock('latest')
+    const feeData = await this.provider.getFeeData()
+    const fees: IGasFees = {
+      baseFeePerGas: block.baseFeePerGas || undefined,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas || undefined,
+      gasPrice: feeData.gasPrice || BigNumber.from(0),
+    }
+    this.lastBlock = block.number
+
+    const records: IKeeperRecord[] = []
+    const candidates: ICandidate[] = []
+    for (const rToken of this.rTokens) {
+      const record: IKeeperRecord = { rToken, block: block.number, status: 'idle' }
+      records.push(record)
+      const candidate = await this.prepare(record, fees)
+      if (candidate) candidates.push(candidate)
+    }
+
+    candidates.sort(
+      (a, b) =>
+        actionPriority(this.policy, <string>b.record.action) -
+        actionPriority(this.policy, <string>a.record.action)
+    )
+    for (const candidate of candidates) await this.send(candidate)
+
+    // Then the calls due at known times, in case getActCalldata had more pressing calls
+    const now = Math.max(block.timestamp + 1, wallClock())
+    for (const scheduler of this.schedulers) {
+      await scheduler.sync()
+      for (const call of scheduler.due(now)) {
+        const record: IKeeperRecord = {
+          rToken: scheduler.rToken,
+          block: block.number,
+          status: 'idle',
+          action: call.action,
+          to: call.to,
+        }
+        records.push(record)
+        const candidate = await this.price(record, call.action, call.data, fees)
+        if (candidate) await this.send(candidate)
+        scheduler.done(call, now, record.status == 'sent')
+      }
+    }
+    return records
+  }
+
+  // Polls whenever a new block is mined or a scheduled call is due, until `stop` returns true
+  async run(interval: number, stop: () => boolean = () => false) {
+    this.log(`Keeping ${this.rTokens.join(', ')} as ${await this.signer.getAddress()}`)
+    while (!stop()) {
+      const wakeup = Math.min(...this.schedulers.map((s) => s.nextWakeup() ?? Infinity))
+      try {
+        const block = await this.provider.getBlockNumber()
+        if (block > this.lastBlock || wakeup <= wallClock()) await this.poll()
+      } catch (e) {
+        this.log(`Poll failed: ${errorMessage(e)}`)
+      }
+
+      // Sleep until the next check, or the next scheduled call if it is sooner
+      const next = Math.min(...this.schedulers.map((s) => s.nextWakeup() ?? Infinity))
+      const sleep = Math.max(0, Math.min(interval, next * 1000 - Date.now()))
+      await new Promise((r) => setTimeout(r, sleep))
+    }
+  }
+
+  // Gets, simulates and prices the next call of an RToken, updating its record
+  private async prepare(record: IKeeperRecord, fees: IGasFees): Promise<ICandidate | undefined> {
+    let to: string
+    let data: string
+    try {
+      ;[to, data] = await this.facadeAct.callStatic.getActCalldata(record.rToken)
+    } catch (e) {
+      return this.fail(record, 'failed', `getActCalldata reverted: ${errorMessage(e)}`)
+    }
+    if (to == ethers.constants.AddressZero) return undefined
+    const action = actionName(data)
+    record.to = to
+    record.action = action
+    return this.price(record, action, data, fees)
+  }
+
+  // Simulates a call and prices it against the policy, updating its record
+  private async price(
+    record: IKeeperRecord,
+    action: string,
+    data: string,
+    fees: IGasFees
+  ): Promise<ICandidate | undefined> {
+    const to = <string>record.to
+    let gasLimit: BigNumber
+    try {
+      await this.signer.call({ to, data })
+      gasLimit = await this.signer.estimateGas({ to, data })
+    } catch (e) {
+      return this.fail(record, 'reverted', `simulation reverted: ${errorMessage(e)}`)
+    }
+
+    const decision = applyPolicy(this.policy, action, gasLimit, fees)
+    if (!decision.send) return this.fail(record, 'skipped', <string>decision.reason)
+    return { record, data, decision }
+  }
+
+  // Sends a call with the next nonce, resyncing the nonce and resending on failures. Once sent, the
+  // tx is only resent if the node no longer knows of it, so that a failed wait() cannot double it
+  private async send({ record, data, decision }: ICandidate) {
+    const cost = ethers.utils.formatEther(decision.cost)
+    let tx: ethers.providers.TransactionResponse | undefined
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      if (attempt > 0) {
+        this.log(`${label(record)}: retry ${attempt} of ${this.retries}`)
+        await new Promise((r) => setTimeout(r, this.retryDelay))
+      }
+      try {
+        if (tx && (await this.dropped(tx.hash))) {
+          this.log(`${label(record)}: tx ${tx.hash} was dropped`)
+          tx = undefined
+          this.nonce = undefined
+        }
+        if (!tx) {
+          if (this.nonce === undefined) {
+            this.nonce = await this.signer.getTransactionCount('pending')
+          }
+          tx = await this.signer.sendTransaction({
+            ...decision.overrides,
+            to: record.to,
+            data,
+            nonce: this.nonce,
+          })
+          this.nonce++
+          record.txHash = tx.hash
+          this.log(`${label(record)}: sent tx ${tx.hash} (~${cost} ETH)`)
+        }
+
+        const receipt = await tx.wait()
+        record.status = 'sent'
+        record.gasUsed = receipt.gasUsed
+        this.log(`${label(record)}: mined in block ${receipt.blockNumber}, ${receipt.gasUsed} gas`)
+        return
+      } catch (e) {
+        // A mined tx that reverted used its nonce: resending it would only revert again
+        if (tx && (<{ receipt?: unknown }>e).receipt) {
+          this.fail(record, 'reverted', `tx ${tx.hash} reverted`)
+          return
+        }
+        // A sent tx may still be mined with its nonce, so only a failed send frees it
+        if (!tx) this.nonce = undefined
+        record.reason = errorMessage(e)
+        this.log(`${label(record)}: ${tx ? 'wait' : 'send'} failed: ${record.reason}`)
+      }
+    }
+    record.status = 'failed'
+  }
+
+  // Whether the node has neither mined nor kept a sent tx
+  private async dropped(txHash: string): Promise<boolean> {
+    if (await this.provider.getTransactionReceipt(txHash)) return false
+    return !(await this.provider.getTransaction(txHash))
+  }
+
+  private fail(record: IKeeperRecord, status: IKeeperRecord['status'], reason: string) {
+    record.status = status
+    record.reason = reason
+    this.log(`${label(record)}: ${status}, ${reason}`)
+    return undefined
+  }
+}
+
+const wallClock = () => Math.floor(Date.now() / 1000) // {s}
+
+const label = ({ rToken, block, action, to }: IKeeperRecord) =>
+  `[block ${block}] ${rToken}${action ? ` ${action} on ${to}` : ''}`
+
+const errorMessage = (e: unknown): string => {
+  const err = <{ reason?: string; message?: string }>e
+  return err.reason || err.message || `${e}`
+}
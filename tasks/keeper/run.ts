@@ -0,0 +1,82 @@
+import fs from 'fs'
+import { task } from 'hardhat/config'
+import { getChainId } from '../../common/blockchain-utils'
+import { networkConfig } from '../../common/configuration'
+import {
+  getDeploymentFile,
+  getDeploymentFilename,
+  getRTokenDeploymentFilename,
+  IDeployments,
+  IRTokenDeployments,
+} from '../../scripts/deployment/common'
+import { IKeeperRecord, Keeper, parseKeeperPolicy } from './keeper'
+import { KeeperScheduler } from './scheduler'
+
+task('keeper', 'Progresses RTokens every block, with the calls of FacadeAct.getActCalldata')
+  .addParam('rtoken', 'Comma-separated RToken addresses, or names of RTokens in rTokenConfig')
+  .addOptionalParam('facadeAct', 'FacadeAct address, instead of the deployment file')
+  .addOptionalParam('policy', 'Path to a JSON gas policy, see tasks/keeper/keeper.ts')
+  .addOptionalParam('interval', 'Milliseconds between checks for a new block', '4000')
+  .addOptionalParam('retries', 'Times to resend a transaction that fails', '3')
+  .addOptionalParam('claimInterval', 'Seconds between reward claims, none if unset')
+  .addFlag('once', 'Act on the latest block once, then exit')
+  .setAction(async (params, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const chainId = await getChainId(hre)
+    if (!networkConfig[chainId]) {
+      throw new Error(`Missing network configuration for ${hre.network.name}`)
+    }
+
+    const rTokens = (<string>params.rtoken).split(',').map((rtoken) => {
+      if (hre.ethers.utils.isAddress(rtoken)) return rtoken
+      const rTokenDeployments = <IRTokenDeployments>(
+        getDeploymentFile(getRTokenDeploymentFilename(chainId, rtoken))
+      )
+      return rTokenDeployments.components.rToken
+    })
+    const facadeActAddr: string =
+      params.facadeAct ||
+      (<IDeployments>getDeploymentFile(getDeploymentFilename(chainId))).facadeAct
+
+    if (params.policy && !fs.existsSync(params.policy)) {
+      throw new Error(`Keeper policy ${params.policy} not found`)
+    }
+    // Settlements, melting, reward payouts and claims, right when they are due
+    const schedulers: KeeperScheduler[] = []
+    for (const rToken of rTokens) {
+      schedulers.push(
+        await KeeperScheduler.create({
+          provider: hre.ethers.provider,
+          rToken,
+          facadeAct: facadeActAddr,
+          claimInterval: params.claimInterval ? parseInt(params.claimInterval) : undefined,
+        })
+      )
+    }
+
+    const keeper = new Keeper({
+      signer,
+      facadeAct: await hre.ethers.getContractAt('FacadeAct', facadeActAddr),
+      rTokens,
+      schedulers,
+      policy: params.policy
+        ? parseKeeperPolicy(JSON.parse(fs.readFileSync(params.policy, 'utf8')))
+        : undefined,
+      retries: parseInt(params.retries),
+    })
+
+    if (params.once) {
+      const records: IKeeperRecord[] = await keeper.poll()
+      for (const { rToken, status } of records.filter((r) => r.status == 'idle')) {
+        keeper.log(`${rToken}: ${status}, no action needed`)
+      }
+      return records
+    }
+
+    let stopping = false
+    process.on('SIGINT', () => {
+      keeper.log('Stopping after this poll')
+      stopping = true
+    })
+    await keeper.run(parseInt(params.interval), () => stopping)
+  })
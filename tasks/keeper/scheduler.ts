@@ -0,0 +1,198 @@
+import { BigNumber, Contract, ethers } from 'ethers'
+
+// Schedules the keeper calls that are due at known times, so that they are made right on time
+// rather than found by polling: settling each trade when its auction ends, melting and paying out
+// rewards when their periods elapse, and claiming rewards on a fixed cadence.
+
+const rTokenAbi = ['function main() view returns (address)']
+const mainAbi = [
+  'function assetRegistry() view returns (address)',
+  'function backingManager() view returns (address)',
+  'function rsrTrader() view returns (address)',
+  'function rTokenTrader() view returns (address)',
+  'function furnace() view returns (address)',
+  'function stRSR() view returns (address)',
+]
+const assetRegistryAbi = ['function erc20s() view returns (address[])']
+const tradingAbi = [
+  'event TradeStarted(address indexed trade, address indexed sell, address indexed buy, uint256 sellAmount, uint256 minBuyAmount)',
+  'event TradeSettled(address indexed trade, address indexed sell, address indexed buy, uint256 sellAmount, uint256 buyAmount)',
+  'function trades(address sell) view returns (address)',
+  'function settleTrade(address sell)',
+]
+const tradeAbi = ['function endTime() view returns (uint48)']
+const furnaceAbi = [
+  'function lastPayout() view returns (uint256)',
+  'function period() view returns (uint48)',
+  'function melt()',
+]
+const stRSRAbi = [
+  'function payoutLastPaid() view returns (uint48)',
+  'function rewardPeriod() view returns (uint48)',
+  'function payoutRewards()',
+]
+const facadeActAbi = ['function claimAndSweepRewards(address rToken)']
+
+export interface IScheduledCall {
+  key: string // identifies the call across syncs, e.g. 'settleTrade:{trader}:{sell}'
+  at: number // {s} the timestamp from which the call should be made
+  action: string // the method called, as named by the keeper policy
+  to: string
+  data: string
+}
+
+export interface ISchedulerOptions {
+  provider: ethers.providers.Provider
+  rToken: string
+  facadeAct: string // the FacadeAct that claims rewards
+  claimInterval?: number // {s} between reward claims, rewards are never claimed if undefined
+  retryInterval?: number // {s} before a call that failed is scheduled again, 60 by default
+}
+
+// An open trade, to be settled from its end time
+interface IOpenTrade {
+  trader: Contract
+  sell: string
+  endTime: number // {s}
+}
+
+// The contracts of an RToken that the scheduler reads and calls
+interface ISchedulerContracts {
+  assetRegistry: Contract
+  traders: Contract[] // the BackingManager and both RevenueTraders
+  furnace: Contract
+  stRSR: Contract
+  facadeAct: Contract
+}
+
+export class KeeperScheduler {
+  readonly rToken: string
+  readonly claimInterval?: number
+  readonly retryInterval: number
+
+  private readonly contracts: ISchedulerContracts
+  private calls = new Map<string, IScheduledCall>()
+  private trades = new Map<string, IOpenTrade>() // by the key of their settleTrade call
+  private notBefore = new Map<string, number>() // {s} by key, for calls that failed
+  private lastBlock?: number // the last block whose trade events are synced
+  private lastClaim = 0 // {s}
+
+  private constructor(opts: ISchedulerOptions, contracts: ISchedulerContracts) {
+    this.rToken = opts.rToken
+    this.claimInterval = opts.claimInterval
+    this.retryInterval = opts.retryInterval ?? 60
+    this.contracts = contracts
+  }
+
+  static async create(opts: ISchedulerOptions): Promise<KeeperScheduler> {
+    const at = (addr: string, abi: string[]) => new Contract(addr, abi, opts.provider)
+    const main = at(await at(opts.rToken, rTokenAbi).main(), mainAbi)
+    return new KeeperScheduler(opts, {
+      assetRegistry: at(await main.assetRegistry(), assetRegistryAbi),
+      traders: [
+        at(await main.backingManager(), tradingAbi),
+        at(await main.rsrTrader(), tradingAbi),
+        at(await main.rTokenTrader(), tradingAbi),
+      ],
+      furnace: at(await main.furnace(), furnaceAbi),
+      stRSR: at(await main.stRSR(), stRSRAbi),
+      facadeAct: at(opts.facadeAct, facadeActAbi),
+    })
+  }
+
+  // Updates the schedule from the chain: the open trades, and when each period next elapses
+  async sync() {
+    const { assetRegistry, traders, furnace, stRSR, facadeAct } = this.contracts
+    const block = await furnace.provider.getBlockNumber()
+
+    // All trades at the first sync, then only the trades that events show started or settled
+    const sells: [Contract, string][] = []
+    if (this.lastBlock === undefined) {
+      const erc20s: string[] = await assetRegistry.erc20s()
+      for (const trader of traders)
+        sells.push(...erc20s.map((e): [Contract, string] => [trader, e]))
+    } else if (block > this.lastBlock) {
+      for (const trader of traders) {
+        const events = [
+          ...(await trader.queryFilter(trader.filters.TradeStarted(), this.lastBlock + 1, block)),
+          ...(await trader.queryFilter(trader.filters.TradeSettled(), this.lastBlock + 1, block)),
+        ]
+        const changed = new Set(events.map((e) => <string>e.args?.sell))
+        for (const sell of changed) sells.push([trader, sell])
+      }
+    }
+    for (const [trader, sell] of sells) await this.syncTrade(trader, sell)
+    this.lastBlock = block
+
+    // Every open trade, so that a settleTrade that failed or was skipped is made again
+    for (const [key, { trader, sell, endTime }] of this.trades) {
+      this.schedule(key, endTime, trader, 'settleTrade', [sell])
+    }
+
+    // lastPayout and payoutLastPaid only move forward by whole periods
+    const lastPayout: BigNumber = await furnace.lastPayout()
+    this.schedule('melt', lastPayout.toNumber() + (await furnace.period()), furnace, 'melt')
+    const payoutLastPaid: number = await stRSR.payoutLastPaid()
+    const payoutAt = payoutLastPaid + (await stRSR.rewardPeriod())
+    this.schedule('payoutRewards', payoutAt, stRSR, 'payoutRewards')
+
+    if (this.claimInterval !== undefined) {
+      const claimAt = this.lastClaim + this.claimInterval
+      this.schedule('claimAndSweepRewards', claimAt, facadeAct, 'claimAndSweepRewards', [
+        this.rToken,
+      ])
+    }
+  }
+
+  // The earliest time a call is scheduled for, if any
+  nextWakeup(): number | undefined {
+    const times = [...this.calls.values()].map((c) => c.at)
+    return times.length > 0 ? Math.min(...times) : undefined
+  }
+
+  // The calls due at `now`, earliest first
+  due(now: number): IScheduledCall[] {
+    return [...this.calls.values()].filter((c) => c.at <= now).sort((a, b) => a.at - b.at)
+  }
+
+  // Records the outcome of a due call. Until the next sync reschedules it, a made call is dropped,
+  // and a failed call is held back for the retry interval.
+  done(call: IScheduledCall, now: number, made: boolean) {
+    this.calls.delete(call.key)
+    if (!made) {
+      this.notBefore.set(call.key, now + this.retryInterval)
+      return
+    }
+    this.notBefore.delete(call.key)
+    if (call.action == 'claimAndSweepRewards') this.lastClaim = now
+  }
+
+  private async syncTrade(trader: Contract, sell: string) {
+    const key = `settleTrade:${trader.address}:${sell}`
+    const trade: string = await trader.trades(sell)
+    if (trade == ethers.constants.AddressZero) {
+      this.trades.delete(key)
+      this.calls.delete(key)
+      this.notBefore.delete(key)
+      return
+    }
+    const endTime: number = await new Contract(trade, tradeAbi, trader.provider).endTime()
+    this.trades.set(key, { trader, sell, endTime })
+  }
+
+  private schedule(
+    key: string,
+    at: number,
+    contract: Contract,
+    method: string,
+    args: unknown[] = []
+  ) {
+    this.calls.set(key, {
+      key,
+      at: Math.max(at, this.notBefore.get(key) ?? 0),
+      action: method,
+      to: contract.address,
+      data: contract.interface.encodeFunctionData(method, args),
+    })
+  }
+}
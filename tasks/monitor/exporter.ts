@@ -0,0 +1,213 @@
+import http from 'http'
+import { BigNumber, Contract, ethers } from 'ethers'
+import { Gauges, Labels } from '../../common/prometheus'
+
+// Reads the state of one or more RTokens through FacadeRead and the component interfaces, and
+// serves it as Prometheus gauges. Reads happen every interval rather than on every scrape, so that
+// scrapes are cheap and each one sees a consistent state.
+
+const rTokenAbi = [
+  'function main() view returns (address)',
+  'function symbol() view returns (string)',
+  'function totalSupply() view returns (uint256)',
+  'function basketsNeeded() view returns (uint192)',
+  'function balanceOf(address) view returns (uint256)',
+]
+const mainAbi = [
+  'function stRSR() view returns (address)',
+  'function assetRegistry() view returns (address)',
+  'function distributor() view returns (address)',
+  'function furnace() view returns (address)',
+]
+const facadeAbi = ['function price(address rToken) view returns (uint192)']
+const stRSRAbi = [
+  'function exchangeRate() view returns (uint192)',
+  'function totalSupply() view returns (uint256)',
+]
+const assetRegistryAbi = ['function getRegistry() view returns (address[], address[])']
+const distributorAbi = ['function totals() view returns (uint24 rTokenTotal, uint24 rsrTotal)']
+const collateralAbi = [
+  'function isCollateral() view returns (bool)',
+  'function refPerTok() view returns (uint192)',
+  'function price(bool allowFallback) view returns (bool isFallback, uint192)',
+]
+const erc20Abi = ['function symbol() view returns (string)']
+
+interface IExportedRToken {
+  rToken: Contract
+  symbol: string
+  stRSR: Contract
+  assetRegistry: Contract
+  distributor: Contract
+  furnace: string
+}
+
+export interface IExporterOptions {
+  provider: ethers.providers.Provider
+  rTokens: string[]
+  facade: string // FacadeRead
+  log?: (msg: string) => void
+}
+
+export class MetricsExporter {
+  readonly provider: ethers.providers.Provider
+  readonly facade: Contract
+  readonly log: (msg: string) => void
+
+  private readonly exported: IExportedRToken[]
+  private readonly symbols = new Map<string, string>() // by erc20
+  private latest = '' // the metrics of the last successful collect()
+
+  private constructor(opts: IExporterOptions, exported: IExportedRToken[]) {
+    this.provider = opts.provider
+    this.facade = new Contract(opts.facade, facadeAbi, opts.provider)
+    this.log = opts.log || ((msg) => console.error(`${new Date().toISOString()} ${msg}`))
+    this.exported = exported
+  }
+
+  static async create(opts: IExporterOptions): Promise<MetricsExporter> {
+    const at = (addr: string, abi: string[]) => new Contract(addr, abi, opts.provider)
+    const exported: IExportedRToken[] = []
+    for (const addr of opts.rTokens) {
+      const rToken = at(addr, rTokenAbi)
+      const main = at(await rToken.main(), mainAbi)
+      exported.push({
+        rToken,
+        symbol: await rToken.symbol(),
+        stRSR: at(await main.stRSR(), stRSRAbi),
+        assetRegistry: at(await main.assetRegistry(), assetRegistryAbi),
+        distributor: at(await main.distributor(), distributorAbi),
+        furnace: await main.furnace(),
+      })
+    }
+    return new MetricsExporter(opts, exported)
+  }
+
+  // Reads every gauge, at a single block, and returns them in the text format
+  async collect(): Promise<string> {
+    const blockTag = await this.provider.getBlockNumber()
+    const { formatEther } = ethers.utils
+    const gauges = new Gauges()
+    gauges.set('reserve_block_number', 'Block the metrics were read at', {}, blockTag)
+
+    for (const e of this.exported) {
+      const labels: Labels = { rtoken: e.rToken.address, symbol: e.symbol }
+      const set = (name: string, help: string, value: BigNumber | number, extra: Labels = {}) =>
+        gauges.set(
+          `reserve_${name}`,
+          help,
+          { ...labels, ...extra },
+          typeof value == 'number' ? value : formatEther(value)
+        )
+
+      // ==== RToken ====
+      set('rtoken_total_supply', 'RToken supply {rTok}', await e.rToken.totalSupply({ blockTag }))
+      set(
+        'rtoken_baskets_needed',
+        'Baskets the RToken supply is backed by {BU}',
+        await e.rToken.basketsNeeded({ blockTag })
+      )
+      set(
+        'rtoken_price',
+        'RToken price from FacadeRead {UoA/rTok}',
+        await this.facade.price(e.rToken.address, { blockTag })
+      )
+
+      // ==== StRSR ====
+      set(
+        'strsr_exchange_rate',
+        'StRSR exchange rate {RSR/stRSR}',
+        await e.stRSR.exchangeRate({ blockTag })
+      )
+      set('strsr_total_supply', 'Total staked {stRSR}', await e.stRSR.totalSupply({ blockTag }))
+
+      // ==== Furnace and Distributor ====
+      set(
+        'furnace_balance',
+        'RToken held by the Furnace, to be melted {rTok}',
+        await e.rToken.balanceOf(e.furnace, { blockTag })
+      )
+      const [rTokenTotal, rsrTotal]: number[] = await e.distributor.totals({ blockTag })
+      set('distributor_rtoken_total', 'Revenue shares sent to RToken holders', rTokenTotal)
+      set('distributor_rsr_total', 'Revenue shares sent to RSR stakers', rsrTotal)
+
+      // ==== Collateral ====
+      const [erc20s, assets]: [string[], string[]] = await e.assetRegistry.getRegistry({
+        blockTag,
+      })
+      for (let i = 0; i < assets.length; i++) {
+        const coll = new Contract(assets[i], collateralAbi, this.provider)
+        if (!(await coll.isCollateral({ blockTag }))) continue
+
+        const extra = { erc20: erc20s[i], token: await this.symbol(erc20s[i]) }
+        // price(true) should fall back rather than revert, but a broken plugin must not take the
+        // gauges of every other collateral down with it
+        let priced: [boolean, BigNumber] | undefined
+        try {
+          priced = await coll.price(true, { blockTag })
+        } catch (e) {
+          this.log(`${extra.token} price reverted: ${e instanceof Error ? e.message : e}`)
+        }
+        set(
+          'collateral_price_unavailable',
+          '1 if the collateral price reverted, even with the fallback',
+          +!priced,
+          extra
+        )
+        if (priced) {
+          const [isFallback, price] = priced
+          set('collateral_price', 'Collateral price {UoA/tok}', price, extra)
+          set(
+            'collateral_price_fallback',
+            '1 if the collateral price is a fallback',
+            +isFallback,
+            extra
+          )
+        }
+        set(
+          'collateral_ref_per_tok',
+          'Collateral refPerTok {ref/tok}',
+          await coll.refPerTok({ blockTag }),
+          extra
+        )
+      }
+    }
+
+    this.latest = gauges.format()
+    return this.latest
+  }
+
+  // Collects every `interval` ms until `stop` returns true. A failed collect keeps the last metrics.
+  async run(interval: number, stop: () => boolean = () => false) {
+    while (!stop()) {
+      try {
+        await this.collect()
+      } catch (e) {
+        this.log(`Collect failed: ${e instanceof Error ? e.message : e}`)
+      }
+      await new Promise((r) => setTimeout(r, interval))
+    }
+  }
+
+  // Serves the last collected metrics at /metrics
+  async serve(port: number, host: string): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+      if (req.method != 'GET' || req.url?.split('?')[0] != '/metrics') {
+        res.writeHead(404).end()
+      } else if (!this.latest) {
+        res.writeHead(503).end('No metrics collected yet\n')
+      } else {
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' }).end(this.latest)
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(port, host, resolve))
+    return server
+  }
+
+  private async symbol(erc20: string): Promise<string> {
+    if (!this.symbols.has(erc20)) {
+      this.symbols.set(erc20, await new Contract(erc20, erc20Abi, this.provider).symbol())
+    }
+    return <string>this.symbols.get(erc20)
+  }
+}
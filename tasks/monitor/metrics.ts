@@ -0,0 +1,57 @@
+import { task } from 'hardhat/config'
+import { getChainId } from '../../common/blockchain-utils'
+import { networkConfig } from '../../common/configuration'
+import {
+  getDeploymentFile,
+  getDeploymentFilename,
+  getRTokenDeploymentFilename,
+  IDeployments,
+  IRTokenDeployments,
+} from '../../scripts/deployment/common'
+import { MetricsExporter } from './exporter'
+
+task('monitor:metrics', 'Serves the state of RTokens as Prometheus gauges at /metrics')
+  .addParam('rtoken', 'Comma-separated RToken addresses, or names of RTokens in rTokenConfig')
+  .addOptionalParam('facade', 'FacadeRead address, instead of the deployment file')
+  .addOptionalParam('port', 'Port to serve /metrics on', '9464')
+  .addOptionalParam('host', 'Host to serve /metrics on', '127.0.0.1')
+  .addOptionalParam('interval', 'Milliseconds between reads of the metrics', '15000')
+  .addFlag('once', 'Print the metrics once, then exit')
+  .setAction(async (params, hre) => {
+    const chainId = await getChainId(hre)
+    if (!networkConfig[chainId]) {
+      throw new Error(`Missing network configuration for ${hre.network.name}`)
+    }
+
+    const rTokens = (<string>params.rtoken).split(',').map((rtoken) => {
+      if (hre.ethers.utils.isAddress(rtoken)) return rtoken
+      const rTokenDeployments = <IRTokenDeployments>(
+        getDeploymentFile(getRTokenDeploymentFilename(chainId, rtoken))
+      )
+      return rTokenDeployments.components.rToken
+    })
+
+    const exporter = await MetricsExporter.create({
+      provider: hre.ethers.provider,
+      rTokens,
+      facade:
+        params.facade ||
+        (<IDeployments>getDeploymentFile(getDeploymentFilename(chainId))).facadeRead,
+    })
+
+    if (params.once) {
+      console.log(await exporter.collect())
+      return
+    }
+
+    const server = await exporter.serve(parseInt(params.port), params.host)
+    exporter.log(`Serving metrics at http://${params.host}:${params.port}/metrics`)
+
+    let stopping = false
+    process.on('SIGINT', () => {
+      exporter.log('Stopping after this read')
+      stopping = true
+    })
+    await exporter.run(parseInt(params.interval), () => stopping)
+    server.close()
+  })
@@ -0,0 +1,49 @@
+import { task } from 'hardhat/config'
+import { getChainId } from '../../common/blockchain-utils'
+import { networkConfig } from '../../common/configuration'
+import {
+  getDeploymentFile,
+  getRTokenDeploymentFilename,
+  IRTokenDeployments,
+} from '../../scripts/deployment/common'
+import { parseSink } from './sinks'
+import { CollateralWatcher } from './watcher'
+
+task('monitor', 'Alerts on collateral defaults, basket changes, trades and oracle fallbacks')
+  .addParam('main', 'Comma-separated Main addresses, or names of RTokens in rTokenConfig')
+  .addOptionalParam(
+    'sink',
+    'Comma-separated alert sinks: stdout, file:{path} or webhook:{url}',
+    'stdout'
+  )
+  .addOptionalParam('interval', 'Milliseconds between polls', '12000')
+  .addOptionalParam('fromBlock', 'First block to alert on, instead of the next one')
+  .addFlag('once', 'Poll once, then exit')
+  .setAction(async (params, hre) => {
+    const chainId = await getChainId(hre)
+    if (!networkConfig[chainId]) {
+      throw new Error(`Missing network configuration for ${hre.network.name}`)
+    }
+
+    const mains = (<string>params.main).split(',').map((main) => {
+      if (hre.ethers.utils.isAddress(main)) return main
+      return (<IRTokenDeployments>getDeploymentFile(getRTokenDeploymentFilename(chainId, main)))
+        .main
+    })
+
+    const watcher = await CollateralWatcher.create({
+      provider: hre.ethers.provider,
+      mains,
+      sinks: (<string>params.sink).split(',').map(parseSink),
+      fromBlock: params.fromBlock ? parseInt(params.fromBlock) : undefined,
+    })
+
+    if (params.once) return watcher.poll()
+
+    let stopping = false
+    process.on('SIGINT', () => {
+      watcher.log('Stopping after this poll')
+      stopping = true
+    })
+    await watcher.run(parseInt(params.interval), () => stopping)
+  })
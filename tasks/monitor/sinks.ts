@@ -0,0 +1,74 @@
+import fs from 'fs'
+import axios from 'axios'
+
+// Where the monitor sends its alerts. Every sink takes alerts one at a time, as they are found.
+
+export type AlertSeverity = 'info' | 'warning' | 'critical'
+
+export interface IAlert {
+  severity: AlertSeverity
+  kind: string // the event, e.g. 'CollateralStatusChanged', or 'OracleFallback'
+  main: string
+  contract: string // the contract that emitted the event, or whose price fell back
+  block: number
+  txHash?: string
+  message: string
+  data: { [key: string]: string | number | boolean }
+}
+
+export interface IAlertSink {
+  name: string
+  send(alert: IAlert): Promise<void>
+}
+
+// Prints each alert as a line of JSON
+export class StdoutSink implements IAlertSink {
+  readonly name = 'stdout'
+
+  async send(alert: IAlert) {
+    console.log(JSON.stringify(alert))
+  }
+}
+
+// Appends each alert to a file as a line of JSON
+export class FileSink implements IAlertSink {
+  readonly name: string
+  readonly path: string
+
+  constructor(path: string) {
+    this.name = `file:${path}`
+    this.path = path
+  }
+
+  async send(alert: IAlert) {
+    fs.appendFileSync(this.path, JSON.stringify(alert) + '\n')
+  }
+}
+
+// POSTs each alert as JSON to a URL
+export class WebhookSink implements IAlertSink {
+  readonly name: string
+  readonly url: string
+  readonly timeout: number // {ms}
+
+  constructor(url: string, timeout = 10000) {
+    this.name = `webhook:${url}`
+    this.url = url
+    this.timeout = timeout
+  }
+
+  async send(alert: IAlert) {
+    await axios.post(this.url, alert, {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: this.timeout,
+    })
+  }
+}
+
+// Parses a sink as given on the command line: 'stdout', 'file:{path}' or 'webhook:{url}'
+export const parseSink = (spec: string): IAlertSink => {
+  if (spec == 'stdout') return new StdoutSink()
+  if (spec.startsWith('file:')) return new FileSink(spec.slice('file:'.length))
+  if (spec.startsWith('webhook:')) return new WebhookSink(spec.slice('webhook:'.length))
+  throw new Error(`Invalid alert sink '${spec}': expected stdout, file:{path} or webhook:{url}`)
+}
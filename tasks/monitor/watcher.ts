@@ -0,0 +1,298 @@
+import { BigNumber, Contract, ethers, Event } from 'ethers'
+import { CollateralStatus } from '../../common/constants'
+import { AlertSeverity, IAlert, IAlertSink } from './sinks'
+
+// Watches one or more Mains for the events an operator needs to know about, and polls the price
+// of every registered asset for oracle fallbacks, sending an alert to every sink for each.
+
+const mainAbi = [
+  'event UnfreezeAtSet(uint48 indexed oldVal, uint48 indexed newVal)',
+  'event PausedSet(bool indexed oldVal, bool indexed newVal)',
+  'function assetRegistry() view returns (address)',
+  'function basketHandler() view returns (address)',
+  'function backingManager() view returns (address)',
+  'function rsrTrader() view returns (address)',
+  'function rTokenTrader() view returns (address)',
+]
+const assetRegistryAbi = ['function getRegistry() view returns (address[], address[])']
+const basketHandlerAbi = [
+  'event BasketSet(uint256 indexed nonce, address[] erc20s, uint192[] refAmts, bool disabled)',
+]
+const tradingAbi = [
+  'event TradeStarted(address indexed trade, address indexed sell, address indexed buy, uint256 sellAmount, uint256 minBuyAmount)',
+  'event TradeSettled(address indexed trade, address indexed sell, address indexed buy, uint256 sellAmount, uint256 buyAmount)',
+]
+const assetAbi = [
+  'event CollateralStatusChanged(uint8 indexed oldStatus, uint8 indexed newStatus)',
+  'function price(bool allowFallback) view returns (bool isFallback, uint192)',
+]
+const erc20Abi = ['function symbol() view returns (string)']
+
+// By CollateralStatus
+const statusSeverities: AlertSeverity[] = ['info', 'warning', 'critical']
+
+const MAX_UINT48 = 2 ** 48 - 1 // unfreezeAt when frozen forever
+
+type PriceState = 'ok' | 'fallback' | 'unavailable'
+
+interface IWatchedMain {
+  main: Contract
+  assetRegistry: Contract
+  basketHandler: Contract
+  traders: [string, Contract][] // by component name
+  assets: Map<string, string> // asset => erc20, as last registered
+  prices: Map<string, PriceState> // by asset, as last polled
+}
+
+export interface IWatcherOptions {
+  provider: ethers.providers.Provider
+  mains: string[]
+  sinks: IAlertSink[]
+  fromBlock?: number // the first block to alert on, the next block by default
+  log?: (msg: string) => void // for failures of the watcher itself, rather than alerts
+}
+
+export class CollateralWatcher {
+  readonly provider: ethers.providers.Provider
+  readonly sinks: IAlertSink[]
+  readonly log: (msg: string) => void
+
+  private readonly watched: IWatchedMain[]
+  private readonly symbols = new Map<string, string>() // by erc20
+  private lastBlock?: number // the last block whose events were checked
+
+  private constructor(opts: IWatcherOptions, watched: IWatchedMain[]) {
+    this.provider = opts.provider
+    this.sinks = opts.sinks
+    this.log = opts.log || ((msg) => console.error(`${new Date().toISOString()} ${msg}`))
+    this.watched = watched
+    if (opts.fromBlock !== undefined) this.lastBlock = opts.fromBlock - 1
+  }
+
+  static async create(opts: IWatcherOptions): Promise<CollateralWatcher> {
+    const at = (addr: string, abi: string[]) => new Contract(addr, abi, opts.provider)
+    const watched: IWatchedMain[] = []
+    for (const addr of opts.mains) {
+      const main = at(addr, mainAbi)
+      watched.push({
+        main,
+        assetRegistry: at(await main.assetRegistry(), assetRegistryAbi),
+        basketHandler: at(await main.basketHandler(), basketHandlerAbi),
+        traders: [
+          ['BackingManager', at(await main.backingManager(), tradingAbi)],
+          ['RSRTrader', at(await main.rsrTrader(), tradingAbi)],
+          ['RTokenTrader', at(await main.rTokenTrader(), tradingAbi)],
+        ],
+        assets: new Map(),
+        prices: new Map(),
+      })
+    }
+    return new CollateralWatcher(opts, watched)
+  }
+
+  // Checks the events since the last poll and the prices of every asset, and sends the alerts
+  async poll(): Promise<IAlert[]> {
+    const block = await this.provider.getBlockNumber()
+    const fromBlock = this.lastBlock === undefined ? block + 1 : this.lastBlock + 1
+
+    const alerts: IAlert[] = []
+    for (const w of this.watched) {
+      const [erc20s, assets]: [string[], string[]] = await w.assetRegistry.getRegistry()
+      w.assets = new Map(assets.map((asset, i) => [asset, erc20s[i]]))
+      if (fromBlock <= block) alerts.push(...(await this.checkEvents(w, fromBlock, block)))
+      alerts.push(...(await this.checkPrices(w, block)))
+    }
+    this.lastBlock = block
+
+    for (const alert of alerts) {
+      for (const sink of this.sinks) {
+        try {
+          await sink.send(alert)
+        } catch (e) {
+          this.log(`Alert sink ${sink.name} failed: ${e instanceof Error ? e.message : e}`)
+        }
+      }
+    }
+    return alerts
+  }
+
+  // Polls every `interval` ms until `stop` returns true
+  async run(interval: number, stop: () => boolean = () => false) {
+    this.log(`Watching ${this.watched.map((w) => w.main.address).join(', ')}`)
+    while (!stop()) {
+      try {
+        await this.poll()
+      } catch (e) {
+        this.log(`Poll failed: ${e instanceof Error ? e.message : e}`)
+      }
+      await new Promise((r) => setTimeout(r, interval))
+    }
+  }
+
+  private async checkEvents(w: IWatchedMain, fromBlock: number, toBlock: number) {
+    const query = (contract: Contract, event: string) =>
+      contract.queryFilter(contract.filters[event](), fromBlock, toBlock)
+
+    const found: [Event, IAlert][] = []
+    const add = async (events: Event[], toAlert: (e: Event) => Promise<Omit<IAlert, 'main'>>) => {
+      for (const e of events) found.push([e, { main: w.main.address, ...(await toAlert(e)) }])
+    }
+    const base = (e: Event) => ({
+      kind: <string>e.event,
+      contract: e.address,
+      block: e.blockNumber,
+      txHash: e.transactionHash,
+    })
+
+    await add(await query(w.main, 'PausedSet'), async (e) => ({
+      ...base(e),
+      severity: e.args?.newVal ? 'warning' : 'info',
+      message: e.args?.newVal ? 'Main paused' : 'Main unpaused',
+      data: { paused: e.args?.newVal },
+    }))
+
+    await add(await query(w.main, 'UnfreezeAtSet'), async (e) => {
+      const unfreezeAt: number = e.args?.newVal
+      const frozen = unfreezeAt > (await e.getBlock()).timestamp
+      return {
+        ...base(e),
+        severity: frozen ? 'warning' : 'info',
+        message: !frozen
+          ? 'Main unfrozen'
+          : unfreezeAt == MAX_UINT48
+          ? 'Main frozen forever'
+          : `Main frozen until ${new Date(unfreezeAt * 1000).toISOString()}`,
+        data: { unfreezeAt, frozen },
+      }
+    })
+
+    await add(await query(w.basketHandler, 'BasketSet'), async (e) => {
+      const [nonce, erc20s, refAmts, disabled] = e.args || []
+      const entries: string[] = []
+      for (let i = 0; i < erc20s.length; i++) {
+        entries.push(`${await this.symbol(erc20s[i])}: ${ethers.utils.formatEther(refAmts[i])}`)
+      }
+      return {
+        ...base(e),
+        severity: disabled ? 'critical' : 'warning',
+        message: disabled
+          ? `Basket ${nonce} set, and DISABLED`
+          : `Basket ${nonce} set: [${entries.join(', ')}]`,
+        data: { nonce: nonce.toString(), disabled, basket: entries.join(', ') },
+      }
+    })
+
+    for (const [trader, contract] of w.traders) {
+      for (const event of ['TradeStarted', 'TradeSettled']) {
+        await add(await query(contract, event), async (e) => {
+          const [trade, sell, buy, sellAmount, buyAmount] = e.args || []
+          const [sellSym, buySym] = [await this.symbol(sell), await this.symbol(buy)]
+          const started = event == 'TradeStarted'
+          return {
+            ...base(e),
+            severity: 'info',
+            message: `${trader} ${
+              started ? 'started' : 'settled'
+            } a trade of ${sellSym} for ${buySym}`,
+            data: {
+              trader,
+              trade,
+              sell: sellSym,
+              buy: buySym,
+              sellAmount: sellAmount.toString(),
+              [started ? 'minBuyAmount' : 'buyAmount']: buyAmount.toString(),
+            },
+          }
+        })
+      }
+    }
+
+    for (const [asset, erc20] of w.assets) {
+      const contract = new Contract(asset, assetAbi, this.provider)
+      await add(await query(contract, 'CollateralStatusChanged'), async (e) => {
+        const oldStatus: number = e.args?.oldStatus
+        const newStatus: number = e.args?.newStatus
+        const symbol = await this.symbol(erc20)
+        return {
+          ...base(e),
+          severity: statusSeverities[newStatus],
+          message: `${symbol} collateral ${CollateralStatus[oldStatus]} -> ${CollateralStatus[newStatus]}`,
+          data: {
+            erc20: symbol,
+            oldStatus: CollateralStatus[oldStatus],
+            newStatus: CollateralStatus[newStatus],
+          },
+        }
+      })
+    }
+
+    // In chain order, whichever contract emitted them
+    found.sort(([a], [b]) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+    return found.map(([, alert]) => alert)
+  }
+
+  // Alerts when an asset's price falls back, is unavailable, or recovers
+  private async checkPrices(w: IWatchedMain, block: number) {
+    const alerts: IAlert[] = []
+    for (const [asset, erc20] of w.assets) {
+      let state: PriceState
+      let price: BigNumber | undefined
+      try {
+        const [isFallback, p] = await new Contract(asset, assetAbi, this.provider).price(true)
+        state = isFallback ? 'fallback' : 'ok'
+        price = p
+      } catch {
+        state = 'unavailable'
+      }
+
+      const before = w.prices.get(asset) || 'ok'
+      w.prices.set(asset, state)
+      if (state == before) continue
+
+      const symbol = await this.symbol(erc20)
+      const alert = {
+        main: w.main.address,
+        contract: asset,
+        block,
+        data: {
+          erc20: symbol,
+          price: price ? ethers.utils.formatEther(price) : 'none',
+        },
+      }
+      if (state == 'fallback') {
+        alerts.push({
+          ...alert,
+          kind: 'OracleFallback',
+          severity: 'warning',
+          message: `${symbol} price fell back to ${alert.data.price}`,
+        })
+      } else if (state == 'unavailable') {
+        alerts.push({
+          ...alert,
+          kind: 'PriceUnavailable',
+          severity: 'critical',
+          message: `${symbol} price reverted`,
+        })
+      } else {
+        alerts.push({
+          ...alert,
+          kind: 'OracleRecovered',
+          severity: 'info',
+          message: `${symbol} price recovered at ${alert.data.price}`,
+        })
+      }
+    }
+    return alerts
+  }
+
+  private async symbol(erc20: string): Promise<string> {
+    if (!this.symbols.has(erc20)) {
+      try {
+        this.symbols.set(erc20, await new Contract(erc20, erc20Abi, this.provider).symbol())
+      } catch {
+        this.symbols.set(erc20, erc20)
+      }
+    }
+    return <string>this.symbols.get(erc20)
+  }
+}
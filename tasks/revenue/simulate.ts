@@ -0,0 +1,57 @@
+import fs from 'fs'
+import { task } from 'hardhat/config'
+import { getChainId } from '../../common/blockchain-utils'
+import {
+  formatRevenueCSV,
+  formatRevenueSimulation,
+  IRevenueConfig,
+  IRevenueScenario,
+  simulateRevenue,
+} from '../../common/revenue'
+import { getRTokenConfig, getRTokenName } from '../../scripts/deployment/phase3-rtoken/rTokenConfig'
+
+task('revenue:simulate', 'Projects how the revenue of an RToken flows to its holders and stakers')
+  .addParam('scenario', 'Path of the scenario JSON: supply, stake, prices and collateral yields')
+  .addOptionalParam('rtoken', 'Name of the RToken in rTokenConfig to take the parameters of')
+  .addOptionalParam('days', 'Days to simulate', '365')
+  .addOptionalParam('step', 'Seconds between keeper runs, instead of the rewardPeriod')
+  .addOptionalParam('dist', 'Distribution to use instead, as rTokenDist,rsrDist, e.g. 40,60')
+  .addOptionalParam('rewardPeriod', 'rewardPeriod to use instead, in seconds')
+  .addOptionalParam('rewardRatio', 'rewardRatio to use instead, e.g. 0.0077')
+  .addOptionalParam('furnacePeriod', 'Period of the Furnace, if not the rewardPeriod')
+  .addOptionalParam('furnaceRatio', 'Ratio of the Furnace, if not the rewardRatio')
+  .addOptionalParam('out', 'Path to save the time series to, as CSV if it ends in .csv, else JSON')
+  .addFlag('json', 'Print the time series as JSON rather than a monthly summary')
+  .setAction(async (params, hre) => {
+    const { BigNumber, utils } = hre.ethers
+
+    const chainId = await getChainId(hre)
+    const name = params.rtoken || getRTokenName()
+    const config: IRevenueConfig = { ...getRTokenConfig(chainId, name).params }
+    if (params.dist) {
+      const [rTokenDist, rsrDist] = params.dist.split(',').map((x: string) => BigNumber.from(x))
+      config.dist = { rTokenDist, rsrDist }
+    }
+    if (params.rewardPeriod) config.rewardPeriod = BigNumber.from(params.rewardPeriod)
+    if (params.rewardRatio) config.rewardRatio = utils.parseEther(params.rewardRatio)
+
+    const scenario: IRevenueScenario = JSON.parse(fs.readFileSync(params.scenario, 'utf8'))
+    const points = simulateRevenue(scenario, config, {
+      days: parseInt(params.days),
+      step: params.step ? parseInt(params.step) : undefined,
+      furnacePeriod: params.furnacePeriod ? BigNumber.from(params.furnacePeriod) : undefined,
+      furnaceRatio: params.furnaceRatio ? utils.parseEther(params.furnaceRatio) : undefined,
+    })
+
+    console.log(`Revenue of ${name} on ${hre.network.name} (${chainId}) over ${params.days} days`)
+    console.log(params.json ? JSON.stringify(points, null, 2) : formatRevenueSimulation(points))
+    if (params.out) {
+      const csv = params.out.endsWith('.csv')
+      fs.writeFileSync(
+        params.out,
+        (csv ? formatRevenueCSV(points) : JSON.stringify(points, null, 2)) + '\n'
+      )
+      console.log(`\nSaved the time series to ${params.out}`)
+    }
+    return points
+  })
@@ -0,0 +1,64 @@
+import { BigNumber, Contract, ethers } from 'ethers'
+import {
+  BLOCKS_PER_HOUR,
+  chargePerHour,
+  IBattery,
+  isThrottled,
+  maxCharge,
+} from '../../common/redemption-battery'
+
+// Reads the redemption battery of an RToken at a single block. Only its rates are readable on
+// chain, so its last charge is recovered from redemptionLimit(): a battery that is not fully
+// charged has been discharged within the last hour, and was last discharged by the latest
+// Redemption event since.
+
+const rTokenAbi = [
+  'function totalSupply() view returns (uint256)',
+  'function redemptionRateFloor() view returns (uint256)',
+  'function scalingRedemptionRate() view returns (uint192)',
+  'function redemptionLimit() view returns (uint256)',
+  'event Redemption(address indexed redeemer, uint256 indexed amount, uint192 baskets)',
+]
+
+export interface IBatteryState {
+  block: number
+  supply: BigNumber // {qRTok}
+  battery: IBattery
+}
+
+export const readBattery = async (
+  provider: ethers.providers.Provider,
+  rTokenAddr: string,
+  blockTag?: number
+): Promise<IBatteryState> => {
+  const block = blockTag === undefined ? await provider.getBlockNumber() : blockTag
+  const overrides = { blockTag: block }
+  const rToken = new Contract(rTokenAddr, rTokenAbi, provider)
+
+  const supply: BigNumber = await rToken.totalSupply(overrides)
+  const rates = {
+    redemptionRateFloor: <BigNumber>await rToken.redemptionRateFloor(overrides),
+    scalingRedemptionRate: <BigNumber>await rToken.scalingRedemptionRate(overrides),
+  }
+  const charge: BigNumber = await rToken.redemptionLimit(overrides)
+
+  // Without throttling, or fully charged, the battery is the same whatever its last discharge
+  if (!isThrottled(rates) || charge.eq(maxCharge(rates, supply))) {
+    return { block, supply, battery: { ...rates, lastBlock: block, lastCharge: charge } }
+  }
+
+  // The battery was never discharged, if it is still charging up from block 0
+  const redemptions = await rToken.queryFilter(
+    rToken.filters.Redemption(),
+    Math.max(0, block - BLOCKS_PER_HOUR),
+    block
+  )
+  const lastBlock = redemptions.length ? redemptions[redemptions.length - 1].blockNumber : 0
+
+  // {qRTok} = {qRTok} - {qRTok/hour} * {blocks} / {blocks/hour}, as charging is not capped yet
+  const charged = chargePerHour(rates, supply)
+    .mul(block - lastBlock)
+    .div(BLOCKS_PER_HOUR)
+  if (charged.gt(charge)) throw new Error('The battery is not full, but was not discharged lately')
+  return { block, supply, battery: { ...rates, lastBlock, lastCharge: charge.sub(charged) } }
+}
@@ -0,0 +1,76 @@
+import { BigNumberish, Contract } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { getChainId } from '../../common/blockchain-utils'
+import { networkConfig } from '../../common/configuration'
+import {
+  getDeploymentFile,
+  getDeploymentFilename,
+  getRTokenDeploymentFilename,
+  IDeployments,
+  IRTokenDeployments,
+} from '../../scripts/deployment/common'
+
+// The contracts of an RToken, as used by the rtoken:* and strsr:* tasks
+export interface IRTokenContracts {
+  rToken: Contract
+  main: Contract
+  basketHandler: Contract
+  backingManager: Contract
+  facade: Contract // FacadeRead
+}
+
+// Resolves `rtoken`, an RToken address or the name of an RToken in rTokenConfig
+export const getRTokenAddress = async (
+  hre: HardhatRuntimeEnvironment,
+  rtoken: string
+): Promise<string> => {
+  const chainId = await getChainId(hre)
+  if (!networkConfig[chainId]) {
+    throw new Error(`Missing network configuration for ${hre.network.name}`)
+  }
+  if (hre.ethers.utils.isAddress(rtoken)) return rtoken
+
+  const rTokenDeployments = <IRTokenDeployments>(
+    getDeploymentFile(getRTokenDeploymentFilename(chainId, rtoken))
+  )
+  return rTokenDeployments.components.rToken
+}
+
+// Resolves `rtoken`, an RToken address or the name of an RToken in rTokenConfig, and the FacadeRead
+// of the deployment. The FacadeRead can be given as `facadeAddr` for RTokens deployed elsewhere.
+export const getRTokenContracts = async (
+  hre: HardhatRuntimeEnvironment,
+  rtoken: string,
+  facadeAddr?: string
+): Promise<IRTokenContracts> => {
+  const chainId = await getChainId(hre)
+  const rTokenAddr = await getRTokenAddress(hre, rtoken)
+  if (!facadeAddr) {
+    facadeAddr = (<IDeployments>getDeploymentFile(getDeploymentFilename(chainId))).facadeRead
+  }
+
+  const rToken = await hre.ethers.getContractAt('IRToken', rTokenAddr)
+  const main = await hre.ethers.getContractAt('IMain', await rToken.main())
+  return {
+    rToken,
+    main,
+    basketHandler: await hre.ethers.getContractAt('IBasketHandler', await main.basketHandler()),
+    backingManager: await hre.ethers.getContractAt('IBackingManager', await main.backingManager()),
+    facade: await hre.ethers.getContractAt('FacadeRead', facadeAddr),
+  }
+}
+
+// Formats token amounts with the symbols and decimals of their tokens, one per line
+export const formatTokenAmounts = async (
+  hre: HardhatRuntimeEnvironment,
+  erc20s: string[],
+  amounts: BigNumberish[]
+): Promise<string> => {
+  const lines: string[] = []
+  for (let i = 0; i < erc20s.length; i++) {
+    const erc20 = await hre.ethers.getContractAt('ERC20Mock', erc20s[i])
+    const amount = hre.ethers.utils.formatUnits(amounts[i], await erc20.decimals())
+    lines.push(`  ${amount} ${await erc20.symbol()} (${erc20s[i]})`)
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,179 @@
+import { BigNumber } from 'ethers'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { fix } from '../../common/fixed'
+import { formatTokenAmounts, getRTokenContracts, IRTokenContracts } from './common'
+
+const D18 = BigNumber.from(10).pow(18)
+
+// A pending issuance, and the blocks until it can vest: 0 if it can vest in the next block
+export interface IPendingIssuance {
+  index: BigNumber
+  amount: BigNumber // {qRTok}
+  blocks: number
+}
+
+// Prints the pending issuances of `account` and the endId that vests all of the vestable ones
+const reportPending = async (
+  hre: HardhatRuntimeEnvironment,
+  { rToken, facade }: IRTokenContracts,
+  account: string
+): Promise<{ endIdForVest: BigNumber; pending: IPendingIssuance[] }> => {
+  const pending = await facade.pendingIssuances(rToken.address, account)
+  const endIdForVest: BigNumber = await facade.endIdForVest(rToken.address, account)
+  const next = (await hre.ethers.provider.getBlockNumber()) + 1 // where a vest() sent now lands
+
+  console.log(`Pending issuances of ${account}: ${pending.length}`)
+  const issuances: IPendingIssuance[] = []
+  for (const { index, availableAt, amount } of pending) {
+    // availableAt is a D18 fractional block number, as issuance can vest part way through a block.
+    // The issuance vests in the first block at or after it
+    const at = availableAt.add(D18).sub(1).div(D18).toNumber()
+    const blocks = Math.max(at - next, 0)
+    const status = blocks == 0 ? 'vestable' : `in ${blocks} block${blocks == 1 ? '' : 's'}`
+    console.log(`  #${index}: ${hre.ethers.utils.formatEther(amount)} RToken, ${status}`)
+    issuances.push({ index, amount, blocks })
+  }
+  console.log(`endIdForVest: ${endIdForVest}`)
+  return { endIdForVest, pending: issuances }
+}
+
+task('rtoken:issue', 'Issues RToken, approving the basket tokens it takes')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addParam('amount', 'Amount of RToken to issue, in whole RToken, e.g. 100.5')
+  .addOptionalParam('facade', 'FacadeRead address, instead of the deployment file')
+  .setAction(async (params, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const contracts = await getRTokenContracts(hre, params.rtoken, params.facade)
+    const { rToken, facade } = contracts
+    const amount = hre.ethers.utils.parseEther(params.amount)
+
+    // FacadeRead.issue pokes Main, so it can only be called statically
+    const [erc20s, deposits] = await facade.callStatic.issue(rToken.address, amount)
+    const breakdown = await formatTokenAmounts(hre, erc20s, deposits)
+    console.log(`Issuing ${params.amount} ${await rToken.symbol()} takes:\n${breakdown}`)
+
+    for (let i = 0; i < erc20s.length; i++) {
+      const erc20 = await hre.ethers.getContractAt('ERC20Mock', erc20s[i])
+      const balance = await erc20.balanceOf(signer.address)
+      if (balance.lt(deposits[i])) {
+        throw new Error(
+          `Insufficient ${await erc20.symbol()}: has ${balance}, needs ${deposits[i]}`
+        )
+      }
+      if ((await erc20.allowance(signer.address, rToken.address)).lt(deposits[i])) {
+        console.log(`Approving ${deposits[i]} ${await erc20.symbol()}`)
+        await (await erc20.connect(signer).approve(rToken.address, deposits[i])).wait()
+      }
+    }
+
+    const receipt = await (await rToken.connect(signer).issue(amount)).wait()
+    console.log(`Issued in tx ${receipt.transactionHash}`)
+
+    return reportPending(hre, contracts, signer.address)
+  })
+
+task('rtoken:vest', 'Vests the pending issuances of an account that are ready')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addOptionalParam('account', 'Account to vest for, defaults to the first signer')
+  .addOptionalParam('endId', 'Issuance index to vest up to, defaults to endIdForVest')
+  .addOptionalParam('facade', 'FacadeRead address, instead of the deployment file')
+  .setAction(async (params, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const contracts = await getRTokenContracts(hre, params.rtoken, params.facade)
+    const account: string = params.account || signer.address
+
+    const endId =
+      params.endId || (await contracts.facade.endIdForVest(contracts.rToken.address, account))
+    console.log(`Vesting the issuances of ${account} up to endId ${endId}`)
+    const receipt = await (await contracts.rToken.connect(signer).vest(account, endId)).wait()
+    console.log(`Vested in tx ${receipt.transactionHash}`)
+
+    return reportPending(hre, contracts, account)
+  })
+
+task('rtoken:cancel', 'Cancels pending issuances of the first signer, refunding their deposits')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addOptionalParam(
+    'endId',
+    'Issuance index to cancel from (or up to, with --earliest); defaults to all pending issuances'
+  )
+  .addFlag('earliest', 'Cancel the issuances before endId, instead of those from endId on')
+  .addOptionalParam('facade', 'FacadeRead address, instead of the deployment file')
+  .setAction(async (params, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const contracts = await getRTokenContracts(hre, params.rtoken, params.facade)
+    const { rToken, facade } = contracts
+
+    let endId = params.endId
+    if (endId === undefined) {
+      const pending = await facade.pendingIssuances(rToken.address, signer.address)
+      if (pending.length == 0) {
+        console.log(`No pending issuances for ${signer.address}`)
+        return reportPending(hre, contracts, signer.address)
+      }
+      // Cancel the latest issuances from the first pending one, i.e. all of them
+      if (params.earliest) throw new Error('--earliest needs an --end-id')
+      endId = pending[0].index
+    }
+
+    const which = params.earliest ? 'before' : 'from'
+    console.log(`Canceling the issuances of ${signer.address} ${which} index ${endId}`)
+    const receipt = await (await rToken.connect(signer).cancel(endId, params.earliest)).wait()
+    console.log(`Canceled in tx ${receipt.transactionHash}`)
+
+    return reportPending(hre, contracts, signer.address)
+  })
+
+task('rtoken:redeem', 'Redeems RToken for basket collateral, previewing the amounts first')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addParam('amount', 'Amount of RToken to redeem, in whole RToken, e.g. 100.5')
+  .addFlag('preview', 'Only preview the redemption')
+  .addOptionalParam('facade', 'FacadeRead address, instead of the deployment file')
+  .setAction(async (params, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const { rToken, basketHandler, backingManager } = await getRTokenContracts(
+      hre,
+      params.rtoken,
+      params.facade
+    )
+    const amount = hre.ethers.utils.parseEther(params.amount)
+    const symbol = await rToken.symbol()
+
+    // Mirrors RToken.redeem(): the quote for the redeemed share of basketsNeeded, bounded by the
+    // prorata share of the BackingManager's balances. redeem() first melts the Furnace's RToken,
+    // which lowers the supply, so the preview is pre-melt and the redemption returns at least it
+    const supply: BigNumber = await rToken.totalSupply()
+    if (supply.isZero()) throw new Error(`${symbol} has no supply`)
+    const baskets = fix(await rToken.basketsNeeded()).muluDivu(amount, supply)
+    const [erc20s, quantities] = await basketHandler.quote(baskets.toBigNumber(), 0) // FLOOR
+    const prorate = D18.mul(amount).div(supply)
+    const amounts: BigNumber[] = []
+    for (let i = 0; i < erc20s.length; i++) {
+      const erc20 = await hre.ethers.getContractAt('ERC20Mock', erc20s[i])
+      const prorata = prorate.mul(await erc20.balanceOf(backingManager.address)).div(D18)
+      amounts.push(prorata.lt(quantities[i]) ? prorata : quantities[i])
+    }
+
+    const redemptionLimit: BigNumber = await rToken.redemptionLimit()
+    const breakdown = await formatTokenAmounts(hre, erc20s, amounts)
+    console.log(
+      `Redeeming ${params.amount} ${symbol} (${baskets} baskets) returns at least, before the ` +
+        `Furnace melts:\n${breakdown}`
+    )
+    console.log(`Redemption limit: ${hre.ethers.utils.formatEther(redemptionLimit)} ${symbol}`)
+
+    if (params.preview) return { erc20s, amounts, redemptionLimit }
+
+    // Without rates, the battery is not charged but does not throttle redemptions either
+    const throttled =
+      !(await rToken.redemptionRateFloor()).isZero() ||
+      !(await rToken.scalingRedemptionRate()).isZero()
+    if (throttled && amount.gt(redemptionLimit)) {
+      throw new Error(`Redeeming ${params.amount} ${symbol} exceeds the redemption limit`)
+    }
+
+    const receipt = await (await rToken.connect(signer).redeem(amount)).wait()
+    console.log(`Redeemed in tx ${receipt.transactionHash}`)
+    return { erc20s, amounts, redemptionLimit }
+  })
@@ -0,0 +1,50 @@
+import fs from 'fs'
+import { task } from 'hardhat/config'
+import {
+  Fill,
+  formatRecollateralizationPlan,
+  IRecollateralizationSnapshot,
+  planRecollateralization,
+} from '../../common/recollateralization'
+import { getRTokenAddress } from './common'
+import { readRecollateralizationSnapshot } from './snapshot'
+
+task(
+  'rtoken:recollateralization-plan',
+  'Plans the trades that the BackingManager will open to recollateralize an RToken'
+)
+  .addOptionalParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addOptionalParam('snapshot', 'Path of a saved snapshot to plan from, instead of the chain')
+  .addOptionalParam('save', 'Path to save the snapshot to as JSON, e.g. to edit and plan again')
+  .addOptionalParam('block', 'Block to read the snapshot at, instead of the latest')
+  .addOptionalParam('fill', 'How each trade fills: worst (after slippage) or oracle', 'worst')
+  .addOptionalParam('maxRounds', 'Trades to plan at most', '50')
+  .addFlag('json', 'Print the plan as JSON rather than as text')
+  .setAction(async (params, hre) => {
+    if (!['worst', 'oracle'].includes(params.fill)) throw new Error(`Unknown fill ${params.fill}`)
+
+    let snapshot: IRecollateralizationSnapshot
+    if (params.snapshot) {
+      snapshot = JSON.parse(fs.readFileSync(params.snapshot, 'utf8'))
+    } else {
+      if (!params.rtoken) throw new Error('Either --rtoken or --snapshot is required')
+      snapshot = await readRecollateralizationSnapshot(
+        hre.ethers.provider,
+        await getRTokenAddress(hre, params.rtoken),
+        params.block ? parseInt(params.block) : undefined
+      )
+    }
+    if (params.save) {
+      fs.writeFileSync(params.save, JSON.stringify(snapshot, null, 2) + '\n')
+    }
+
+    const plan = planRecollateralization(snapshot, {
+      fill: <Fill>params.fill,
+      maxRounds: parseInt(params.maxRounds),
+    })
+    console.log(
+      params.json ? JSON.stringify(plan, null, 2) : formatRecollateralizationPlan(snapshot, plan)
+    )
+    if (params.save) console.log(`\nSaved the snapshot to ${params.save}`)
+    return plan
+  })
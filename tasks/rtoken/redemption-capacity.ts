@@ -0,0 +1,35 @@
+import { task } from 'hardhat/config'
+import { forecastCapacity, formatCapacityForecast } from '../../common/redemption-battery'
+import { readBattery } from './battery'
+import { getRTokenAddress } from './common'
+
+task('rtoken:redemption-capacity', 'Forecasts how much of an RToken can be redeemed over time')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addOptionalParam('minutes', 'Minutes from now to forecast, comma-separated', '0,5,10,15,30,60')
+  .addOptionalParam('amount', 'An amount of RToken to find when it can be redeemed, e.g. 1000')
+  .addOptionalParam('block', 'Block to read the battery at, instead of the latest')
+  .addFlag('json', 'Print the forecast as JSON rather than as text')
+  .setAction(async (params, hre) => {
+    const rTokenAddr = await getRTokenAddress(hre, params.rtoken)
+    const { block, supply, battery } = await readBattery(
+      hre.ethers.provider,
+      rTokenAddr,
+      params.block ? parseInt(params.block) : undefined
+    )
+
+    const forecast = forecastCapacity(
+      battery,
+      supply,
+      block,
+      params.minutes.split(',').map((m: string) => parseInt(m)),
+      params.amount ? hre.ethers.utils.parseEther(params.amount) : undefined
+    )
+
+    const rToken = await hre.ethers.getContractAt('IRToken', rTokenAddr)
+    console.log(
+      params.json
+        ? JSON.stringify(forecast, null, 2)
+        : formatCapacityForecast(forecast, await rToken.symbol())
+    )
+    return forecast
+  })
@@ -0,0 +1,169 @@
+import fs from 'fs'
+import { BigNumber } from 'ethers'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { CollateralStatus } from '../../common/constants'
+import {
+  formatReport,
+  IBasketEntry,
+  ICollateralReport,
+  IRTokenReport,
+  ITradeReport,
+} from '../../common/rtoken-report'
+import { maxCharge } from '../../common/redemption-battery'
+import { getRTokenContracts, IRTokenContracts } from './common'
+
+const D18 = BigNumber.from(10).pow(18)
+
+const buildReport = async (
+  hre: HardhatRuntimeEnvironment,
+  { rToken, main, basketHandler, backingManager, facade }: IRTokenContracts
+): Promise<IRTokenReport> => {
+  const { formatEther, formatUnits, parseBytes32String } = hre.ethers.utils
+  const block = await hre.ethers.provider.getBlock('latest')
+
+  const assetRegistry = await hre.ethers.getContractAt('IAssetRegistry', await main.assetRegistry())
+  const [erc20s, assets]: [string[], string[]] = await assetRegistry.getRegistry()
+  const symbols: { [erc20: string]: string } = {}
+  for (const erc20 of erc20s) {
+    symbols[erc20] = await (await hre.ethers.getContractAt('ERC20Mock', erc20)).symbol()
+  }
+
+  // ==== Supply ====
+  const totalSupply: BigNumber = await rToken.totalSupply()
+  const basketsNeeded: BigNumber = await rToken.basketsNeeded() // {BU}
+  // {BU/rTok} = {BU} * D18 / {rTok}, 1 while there is no supply, as in RToken
+  const basketsPerRTok = totalSupply.isZero() ? D18 : basketsNeeded.mul(D18).div(totalSupply)
+
+  // ==== Basket ====
+  // FacadeRead.basketBreakdown refreshes the assets, so it can only be called statically
+  const [basketERC20s, uoaShares, targets] = await facade.callStatic.basketBreakdown(rToken.address)
+  const [backing, insurance] = await facade.backingOverview(rToken.address)
+  const entries: IBasketEntry[] = []
+  for (let i = 0; i < basketERC20s.length; i++) {
+    const asset = await hre.ethers.getContractAt(
+      'IAsset',
+      await assetRegistry.toAsset(basketERC20s[i])
+    )
+    const bal: BigNumber = await asset.bal(backingManager.address) // {tok}
+    const [, price] = await asset.price(true) // {UoA/tok}
+    entries.push({
+      erc20: basketERC20s[i],
+      symbol: symbols[basketERC20s[i]],
+      targetName: parseBytes32String(targets[i]),
+      uoaShare: formatEther(uoaShares[i]),
+      balance: formatEther(bal),
+      // {UoA} = {tok} * {UoA/tok}
+      uoaValue: formatEther(bal.mul(price).div(D18)),
+    })
+  }
+
+  // ==== Collateral ====
+  const collateral: ICollateralReport[] = []
+  for (let i = 0; i < erc20s.length; i++) {
+    const asset = await hre.ethers.getContractAt('IAsset', assets[i])
+    if (!(await asset.isCollateral())) continue
+
+    const coll = await hre.ethers.getContractAt('Collateral', assets[i])
+    const status: number = await coll.status()
+    const entry: ICollateralReport = {
+      erc20: erc20s[i],
+      symbol: symbols[erc20s[i]],
+      collateral: assets[i],
+      status: CollateralStatus[status],
+    }
+    if (status == CollateralStatus.IFFY) {
+      // Not every collateral plugin extends Collateral, and tracks when it defaults
+      try {
+        const whenDefault: BigNumber = await coll.whenDefault()
+        entry.whenDefault = whenDefault.toNumber()
+        entry.defaultsIn = Math.max(0, entry.whenDefault - block.timestamp)
+      } catch {
+        // no countdown
+      }
+    }
+    collateral.push(entry)
+  }
+
+  // ==== Trades ====
+  const trades: ITradeReport[] = []
+  const traders: [string, string][] = [
+    ['BackingManager', backingManager.address],
+    ['RSRTrader', await main.rsrTrader()],
+    ['RTokenTrader', await main.rTokenTrader()],
+  ]
+  for (const [name, addr] of traders) {
+    const trader = await hre.ethers.getContractAt('ITrading', addr)
+    for (const erc20 of erc20s) {
+      const tradeAddr: string = await trader.trades(erc20)
+      if (tradeAddr == hre.ethers.constants.AddressZero) continue
+      const trade = await hre.ethers.getContractAt('ITrade', tradeAddr)
+      const buy: string = await trade.buy()
+      trades.push({
+        trader: name,
+        trade: tradeAddr,
+        sell: symbols[erc20],
+        buy: symbols[buy] || buy,
+        endTime: await trade.endTime(),
+      })
+    }
+  }
+
+  // ==== Redemption battery ====
+  const limit: BigNumber = await rToken.redemptionLimit()
+  const fullCharge = maxCharge(
+    {
+      redemptionRateFloor: await rToken.redemptionRateFloor(),
+      scalingRedemptionRate: await rToken.scalingRedemptionRate(),
+    },
+    totalSupply
+  )
+
+  const testMain = await hre.ethers.getContractAt('TestIMain', main.address)
+  return {
+    rToken: rToken.address,
+    symbol: await rToken.symbol(),
+    block: block.number,
+    timestamp: block.timestamp,
+    price: formatEther(await facade.price(rToken.address)),
+    totalSupply: formatEther(totalSupply),
+    basketsNeeded: formatEther(basketsNeeded),
+    basketsPerRTok: formatEther(basketsPerRTok),
+    paused: await testMain.paused(),
+    frozen: await testMain.frozen(),
+    basket: {
+      status: CollateralStatus[await basketHandler.status()],
+      fullyCollateralized: await basketHandler.fullyCollateralized(),
+      backing: formatEther(backing),
+      overcollateralization: formatEther(insurance),
+      entries,
+    },
+    collateral,
+    trades,
+    redemption: {
+      limit: formatEther(limit),
+      maxCharge: formatEther(fullCharge),
+      charged: fullCharge.isZero() ? '1.0' : formatUnits(limit.mul(D18).div(fullCharge), 18),
+    },
+  }
+}
+
+task('rtoken:report', 'Prints a health report of an RToken, and optionally saves it as JSON')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addOptionalParam('facade', 'FacadeRead address, instead of the deployment file')
+  .addOptionalParam('out', 'Path to save the report to as JSON, e.g. to diff with earlier ones')
+  .addFlag('json', 'Print the report as JSON rather than as text')
+  .setAction(async (params, hre) => {
+    const report = await buildReport(
+      hre,
+      await getRTokenContracts(hre, params.rtoken, params.facade)
+    )
+    const json = JSON.stringify(report, null, 2)
+
+    console.log(params.json ? json : formatReport(report))
+    if (params.out) {
+      fs.writeFileSync(params.out, json + '\n')
+      console.log(`\nSaved to ${params.out}`)
+    }
+    return report
+  })
@@ -0,0 +1,95 @@
+import { BigNumber, Contract, ethers } from 'ethers'
+import { CollateralStatus, StatusName } from '../../common/constants'
+import { IAssetSnapshot, IRecollateralizationSnapshot } from '../../common/recollateralization'
+
+// Reads the state the recollateralization planner starts from, all at a single block. Collateral
+// statuses are read as last refreshed on chain, while prices are read live.
+
+const rTokenAbi = [
+  'function main() view returns (address)',
+  'function totalSupply() view returns (uint256)',
+  'function basketsNeeded() view returns (uint192)',
+]
+const mainAbi = [
+  'function rsr() view returns (address)',
+  'function stRSR() view returns (address)',
+  'function assetRegistry() view returns (address)',
+  'function basketHandler() view returns (address)',
+  'function backingManager() view returns (address)',
+]
+const assetRegistryAbi = ['function getRegistry() view returns (address[], address[])']
+const basketHandlerAbi = [
+  'function status() view returns (uint8)',
+  'function quantity(address erc20) view returns (uint192)',
+]
+const backingManagerAbi = [
+  'function maxTradeSlippage() view returns (uint192)',
+  'function minTradeVolume() view returns (uint192)',
+  'function backingBuffer() view returns (uint192)',
+]
+const assetAbi = [
+  'function erc20Decimals() view returns (uint8)',
+  'function isCollateral() view returns (bool)',
+  'function status() view returns (uint8)',
+  'function maxTradeVolume() view returns (uint192)',
+  'function price(bool allowFallback) view returns (bool isFallback, uint192)',
+]
+const erc20Abi = [
+  'function symbol() view returns (string)',
+  'function balanceOf(address) view returns (uint256)',
+]
+
+const statusName = (status: CollateralStatus) => <StatusName>CollateralStatus[status]
+
+export const readRecollateralizationSnapshot = async (
+  provider: ethers.providers.Provider,
+  rTokenAddr: string,
+  blockTag?: number
+): Promise<IRecollateralizationSnapshot> => {
+  const block = blockTag === undefined ? await provider.getBlockNumber() : blockTag
+  const overrides = { blockTag: block }
+  const at = (addr: string, abi: string[]) => new Contract(addr, abi, provider)
+
+  const rToken = at(rTokenAddr, rTokenAbi)
+  const main = at(await rToken.main(overrides), mainAbi)
+  const rsr: string = await main.rsr(overrides)
+  const stRSR: string = await main.stRSR(overrides)
+  const basketHandler = at(await main.basketHandler(overrides), basketHandlerAbi)
+  const backingManager = at(await main.backingManager(overrides), backingManagerAbi)
+  const assetRegistry = at(await main.assetRegistry(overrides), assetRegistryAbi)
+
+  const [erc20s, assetAddrs]: [string[], string[]] = await assetRegistry.getRegistry(overrides)
+  const assets: IAssetSnapshot[] = []
+  for (let i = 0; i < erc20s.length; i++) {
+    const asset = at(assetAddrs[i], assetAbi)
+    const erc20 = at(erc20s[i], erc20Abi)
+    const isCollateral: boolean = await asset.isCollateral(overrides)
+    const [isFallback, price]: [boolean, BigNumber] = await asset.price(true, overrides)
+    assets.push({
+      erc20: erc20s[i],
+      symbol: await erc20.symbol(overrides),
+      decimals: await asset.erc20Decimals(overrides),
+      isCollateral,
+      status: isCollateral ? statusName(await asset.status(overrides)) : 'SOUND',
+      price: price.toString(),
+      isFallback,
+      maxTradeVolume: (await asset.maxTradeVolume(overrides)).toString(),
+      quantity: (await basketHandler.quantity(erc20s[i], overrides)).toString(),
+      balance: (await erc20.balanceOf(backingManager.address, overrides)).toString(),
+    })
+  }
+
+  return {
+    block,
+    rToken: rTokenAddr,
+    rsr,
+    basketStatus: statusName(await basketHandler.status(overrides)),
+    basketsNeeded: (await rToken.basketsNeeded(overrides)).toString(),
+    totalSupply: (await rToken.totalSupply(overrides)).toString(),
+    rsrStaked: (await at(rsr, erc20Abi).balanceOf(stRSR, overrides)).toString(),
+    maxTradeSlippage: (await backingManager.maxTradeSlippage(overrides)).toString(),
+    minTradeVolume: (await backingManager.minTradeVolume(overrides)).toString(),
+    backingBuffer: (await backingManager.backingBuffer(overrides)).toString(),
+    assets,
+  }
+}
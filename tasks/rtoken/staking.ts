@@ -0,0 +1,153 @@
+import { BigNumber, Contract } from 'ethers'
+import { task } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { getRTokenContracts, IRTokenContracts } from './common'
+
+const D18 = BigNumber.from(10).pow(18)
+
+const getStRSR = async (hre: HardhatRuntimeEnvironment, { main }: IRTokenContracts) =>
+  hre.ethers.getContractAt('StRSRP1Votes', await main.stRSR())
+
+const formatTime = (timestamp: number) => new Date(timestamp * 1000).toISOString()
+
+// Prints the pending unstakings of `account` in RSR, with their unlock times
+const reportUnstakings = async (
+  hre: HardhatRuntimeEnvironment,
+  { rToken, facade }: IRTokenContracts,
+  stRSR: Contract,
+  account: string
+): Promise<{ endIdForWithdraw: BigNumber }> => {
+  const pending = await facade.pendingUnstakings(rToken.address, account)
+  const endIdForWithdraw: BigNumber = await stRSR.endIdForWithdraw(account)
+  const draftRate: BigNumber = await stRSR.draftRate() // D18{qDrafts/qRSR}
+  const now = (await hre.ethers.provider.getBlock('latest')).timestamp
+
+  console.log(
+    `Pending unstakings of ${account} in era ${await stRSR.currentEra()}: ${pending.length}`
+  )
+  for (const { index, availableAt, amount } of pending) {
+    // {qRSR} = {qDrafts} * D18 / D18{qDrafts/qRSR}
+    const rsr = hre.ethers.utils.formatEther(amount.mul(D18).div(draftRate))
+    const at = availableAt.toNumber()
+    const status = at <= now ? 'withdrawable' : `unlocks in ${at - now}s`
+    console.log(`  #${index}: ${rsr} RSR, unlocks at ${formatTime(at)} (${status})`)
+  }
+  console.log(`endIdForWithdraw: ${endIdForWithdraw}`)
+  return { endIdForWithdraw }
+}
+
+task('strsr:stake', 'Stakes RSR in the StRSR of an RToken, approving it first')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addParam('amount', 'Amount of RSR to stake, in whole RSR, e.g. 1000')
+  .addOptionalParam('facade', 'FacadeRead address, instead of the deployment file')
+  .setAction(async (params, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const contracts = await getRTokenContracts(hre, params.rtoken, params.facade)
+    const stRSR = await getStRSR(hre, contracts)
+    const rsr = await hre.ethers.getContractAt('ERC20Mock', await contracts.main.rsr())
+    const amount = hre.ethers.utils.parseEther(params.amount)
+
+    const balance: BigNumber = await rsr.balanceOf(signer.address)
+    if (balance.lt(amount)) {
+      throw new Error(`Insufficient RSR: has ${hre.ethers.utils.formatEther(balance)}`)
+    }
+    if ((await rsr.allowance(signer.address, stRSR.address)).lt(amount)) {
+      console.log(`Approving ${params.amount} RSR`)
+      await (await rsr.connect(signer).approve(stRSR.address, amount)).wait()
+    }
+
+    const receipt = await (await stRSR.connect(signer).stake(amount)).wait()
+    const stBalance = await stRSR.balanceOf(signer.address)
+    console.log(`Staked ${params.amount} RSR in tx ${receipt.transactionHash}`)
+    console.log(`Balance: ${hre.ethers.utils.formatEther(stBalance)} ${await stRSR.symbol()}`)
+  })
+
+task('strsr:unstake', 'Starts unstaking stRSR, to be withdrawn after the unstaking delay')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addParam('amount', 'Amount of stRSR to unstake, in whole stRSR, e.g. 1000')
+  .addOptionalParam('facade', 'FacadeRead address, instead of the deployment file')
+  .setAction(async (params, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const contracts = await getRTokenContracts(hre, params.rtoken, params.facade)
+    const stRSR = await getStRSR(hre, contracts)
+    const amount = hre.ethers.utils.parseEther(params.amount)
+
+    const receipt = await (await stRSR.connect(signer).unstake(amount)).wait()
+    console.log(
+      `Unstaking ${params.amount} ${await stRSR.symbol()} in tx ${receipt.transactionHash}`
+    )
+
+    return reportUnstakings(hre, contracts, stRSR, signer.address)
+  })
+
+task('strsr:withdraw', 'Withdraws the RSR of the unstakings of an account that have unlocked')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addOptionalParam('account', 'Account to withdraw for, defaults to the first signer')
+  .addOptionalParam('facade', 'FacadeRead address, instead of the deployment file')
+  .setAction(async (params, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const contracts = await getRTokenContracts(hre, params.rtoken, params.facade)
+    const stRSR = await getStRSR(hre, contracts)
+    const account: string = params.account || signer.address
+
+    const pending = await contracts.facade.pendingUnstakings(contracts.rToken.address, account)
+    const endId: BigNumber = await stRSR.endIdForWithdraw(account)
+    if (pending.length == 0 || endId.lte(pending[0].index)) {
+      console.log(`No unlocked unstakings for ${account}`)
+    } else {
+      console.log(`Withdrawing the unstakings of ${account} up to endId ${endId}`)
+      const receipt = await (await stRSR.connect(signer).withdraw(account, endId)).wait()
+      console.log(`Withdrawn in tx ${receipt.transactionHash}`)
+    }
+
+    return reportUnstakings(hre, contracts, stRSR, account)
+  })
+
+task('strsr:delegate', 'Delegates the votes of the first signer in StRSR')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addOptionalParam('delegatee', 'Account to delegate to, defaults to the first signer itself')
+  .addOptionalParam('facade', 'FacadeRead address, instead of the deployment file')
+  .setAction(async (params, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const stRSR = await getStRSR(hre, await getRTokenContracts(hre, params.rtoken, params.facade))
+    const delegatee: string = params.delegatee || signer.address
+
+    const receipt = await (await stRSR.connect(signer).delegate(delegatee)).wait()
+    console.log(`Delegated the votes of ${signer.address} to ${delegatee}`)
+    console.log(`  in tx ${receipt.transactionHash}`)
+    console.log(
+      `Votes of ${delegatee}: ${hre.ethers.utils.formatEther(await stRSR.getVotes(delegatee))}`
+    )
+  })
+
+task('strsr:status', 'Prints the StRSR exchange rate, and the stake and votes of an account')
+  .addParam('rtoken', 'RToken address, or the name of the RToken in rTokenConfig')
+  .addOptionalParam('account', 'Account to report on, defaults to the first signer')
+  .addOptionalParam('facade', 'FacadeRead address, instead of the deployment file')
+  .setAction(async (params, hre) => {
+    const [signer] = await hre.ethers.getSigners()
+    const contracts = await getRTokenContracts(hre, params.rtoken, params.facade)
+    const stRSR = await getStRSR(hre, contracts)
+    const account: string = params.account || signer.address
+    const symbol = await stRSR.symbol()
+    const { formatEther } = hre.ethers.utils
+
+    const exchangeRate: BigNumber = await stRSR.exchangeRate() // D18{qRSR/qStRSR}
+    const balance: BigNumber = await stRSR.balanceOf(account)
+    // {qRSR} = {qStRSR} * D18{qRSR/qStRSR} / D18
+    const balanceInRSR = balance.mul(exchangeRate).div(D18)
+    const delegatee: string = await stRSR.delegates(account)
+    const votes: BigNumber = await stRSR.getVotes(account)
+
+    console.log(`${symbol} at ${stRSR.address}`)
+    console.log(`  exchange rate: ${formatEther(exchangeRate)} RSR per ${symbol}`)
+    console.log(`  unstaking delay: ${await stRSR.unstakingDelay()}s`)
+    console.log(`\nAccount ${account}`)
+    console.log(`  balance: ${formatEther(balance)} ${symbol} (${formatEther(balanceInRSR)} RSR)`)
+    console.log(`  delegate: ${delegatee}`)
+    console.log(`  voting power: ${formatEther(votes)}`)
+    console.log()
+
+    const { endIdForWithdraw } = await reportUnstakings(hre, contracts, stRSR, account)
+    return { exchangeRate, balance, balanceInRSR, delegatee, votes, endIdForWithdraw }
+  })
@@ -0,0 +1,140 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { BigNumber, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { ISimulatedBasket, simulateBasket } from '../common/basket'
+import { CollateralStatus } from '../common/constants'
+import { bn, fp } from '../common/numbers'
+import {
+  ERC20Mock,
+  FiatCollateral,
+  IAssetRegistry,
+  IBasketHandler,
+  StaticATokenMock,
+  TestIRToken,
+} from '../typechain'
+import { readBasketSnapshot } from '../tasks/basket/snapshot'
+import { setOraclePrice } from './utils/oracles'
+import { advanceTime } from './utils/time'
+import { Collateral, defaultFixture } from './fixtures'
+
+const createFixtureLoader = waffle.createFixtureLoader
+
+// Runs the scenarios of "Default Handling - Basket Selection" in Recollateralization.test.ts, and
+// checks that the model selects the basket that refreshBasket() sets
+describe('Basket simulator', () => {
+  let owner: SignerWithAddress
+
+  let erc20s: ERC20Mock[]
+  let collateral: Collateral[]
+  let basket: Collateral[]
+  let rToken: TestIRToken
+  let assetRegistry: IAssetRegistry
+  let basketHandler: IBasketHandler
+
+  let backupToken1: ERC20Mock
+  let backupToken2: ERC20Mock
+
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let wallet: Wallet
+
+  const USD = ethers.utils.formatBytes32String('USD')
+
+  // Simulates the basket from the chain's state, then refreshes it on chain. Returns the model's
+  // basket, once checked against the BasketSet event.
+  const simulateAndRefresh = async (): Promise<ISimulatedBasket> => {
+    await assetRegistry.refresh()
+    const simulated = simulateBasket(await readBasketSnapshot(ethers.provider, rToken.address))
+
+    const receipt = await (await basketHandler.connect(owner).refreshBasket()).wait()
+    const [basketSet] = receipt.logs
+      .filter((log) => log.address == basketHandler.address)
+      .map((log) => basketHandler.interface.parseLog(log))
+      .filter((parsed) => parsed.name == 'BasketSet')
+      .slice(-1)
+    expect([
+      basketSet.args.nonce.toNumber(),
+      [...basketSet.args.erc20s],
+      basketSet.args.refAmts.map((amt: BigNumber) => amt.toString()),
+      basketSet.args.disabled,
+    ]).to.eql([simulated.nonce, simulated.erc20s, simulated.refAmts, simulated.disabled])
+    return simulated
+  }
+
+  const hardDefault = async (token: StaticATokenMock) => {
+    await token.setExchangeRate(fp('0.99'))
+    await assetRegistry.refresh()
+  }
+
+  const softDefault = async (coll: FiatCollateral) => {
+    await setOraclePrice(coll.address, bn('0.5e8'))
+    await coll.refresh()
+    await advanceTime((await coll.delayUntilDefault()).toString())
+    await coll.refresh()
+    expect(await coll.status()).to.equal(CollateralStatus.DISABLED)
+  }
+
+  before('create fixture loader', async () => {
+    ;[wallet] = (await ethers.getSigners()) as unknown as Wallet[]
+    loadFixture = createFixtureLoader([wallet])
+  })
+
+  beforeEach(async () => {
+    ;[owner] = await ethers.getSigners()
+    ;({ erc20s, collateral, basket, rToken, assetRegistry, basketHandler } = await loadFixture(
+      defaultFixture
+    ))
+
+    // Backup tokens and collaterals - USDT - aUSDT
+    backupToken1 = erc20s[2]
+    backupToken2 = erc20s[9]
+    await assetRegistry.connect(owner).register(collateral[2].address)
+    await assetRegistry.connect(owner).register(collateral[9].address)
+  })
+
+  it('Should simulate the basket while all collateral is sound', async () => {
+    const simulated = await simulateAndRefresh()
+    expect(simulated.disabled).to.equal(false)
+    expect(simulated.erc20s.length).to.equal(basket.length)
+  })
+
+  it('Should simulate a single backup token', async () => {
+    await basketHandler.connect(owner).setBackupConfig(USD, bn(1), [backupToken1.address])
+    await softDefault(<FiatCollateral>basket[1])
+
+    const simulated = await simulateAndRefresh()
+    expect(simulated.erc20s[simulated.erc20s.length - 1]).to.equal(backupToken1.address)
+    expect(simulated.targets[0].backupERC20s).to.eql([backupToken1.address])
+  })
+
+  it('Should simulate multiple backup tokens', async () => {
+    await basketHandler
+      .connect(owner)
+      .setBackupConfig(USD, bn(2), [backupToken1.address, backupToken2.address])
+    await hardDefault(<StaticATokenMock>erc20s[collateral.indexOf(basket[2])])
+
+    const simulated = await simulateAndRefresh()
+    expect(simulated.refAmts.slice(-2)).to.eql([fp('0.125').toString(), fp('0.125').toString()])
+  })
+
+  it('Should simulate the backup tokens up to max, and skip defaulted ones', async () => {
+    await basketHandler
+      .connect(owner)
+      .setBackupConfig(USD, bn(1), [backupToken1.address, backupToken2.address])
+    await softDefault(<FiatCollateral>collateral[2])
+    await softDefault(<FiatCollateral>basket[0])
+
+    const simulated = await simulateAndRefresh()
+    expect(simulated.targets[0].backupERC20s).to.eql([backupToken2.address])
+  })
+
+  it('Should simulate a disabled basket without a valid backup', async () => {
+    await basketHandler.connect(owner).setBackupConfig(USD, bn(1), [backupToken1.address])
+    await softDefault(<FiatCollateral>collateral[2])
+    await softDefault(<FiatCollateral>basket[0])
+
+    const simulated = await simulateAndRefresh()
+    expect(simulated.disabled).to.equal(true)
+    expect(await basketHandler.status()).to.equal(CollateralStatus.DISABLED)
+  })
+})
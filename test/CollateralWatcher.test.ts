@@ -0,0 +1,228 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import fs from 'fs'
+import http from 'http'
+import os from 'os'
+import path from 'path'
+import { Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { bn, fp } from '../common/numbers'
+import {
+  ERC20Mock,
+  IAssetRegistry,
+  IBasketHandler,
+  TestIBackingManager,
+  TestIMain,
+  TestIRToken,
+} from '../typechain'
+import { FileSink, IAlert, IAlertSink, WebhookSink } from '../tasks/monitor/sinks'
+import { CollateralWatcher } from '../tasks/monitor/watcher'
+import { setInvalidOracleTimestamp, setOraclePrice } from './utils/oracles'
+import { Collateral, defaultFixture } from './fixtures'
+
+const createFixtureLoader = waffle.createFixtureLoader
+
+// Keeps the alerts it is sent, to check them
+class MemorySink implements IAlertSink {
+  readonly name = 'memory'
+  readonly alerts: IAlert[] = []
+
+  async send(alert: IAlert) {
+    this.alerts.push(alert)
+  }
+}
+
+describe('Collateral watcher', () => {
+  let owner: SignerWithAddress
+  let addr1: SignerWithAddress
+
+  let basket: Collateral[]
+  let main: TestIMain
+  let rToken: TestIRToken
+  let assetRegistry: IAssetRegistry
+  let basketHandler: IBasketHandler
+  let backingManager: TestIBackingManager
+
+  let sink: MemorySink
+  let watcher: CollateralWatcher
+
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let wallet: Wallet
+
+  // Watches from the next block on, as the monitor task does
+  const newWatcher = async (sinks: IAlertSink[]) => {
+    const w = await CollateralWatcher.create({
+      provider: ethers.provider,
+      mains: [main.address],
+      sinks,
+      log: () => undefined,
+    })
+    await w.poll()
+    return w
+  }
+
+  before('create fixture loader', async () => {
+    ;[wallet] = (await ethers.getSigners()) as unknown as Wallet[]
+    loadFixture = createFixtureLoader([wallet])
+  })
+
+  beforeEach(async () => {
+    ;[owner, addr1] = await ethers.getSigners()
+    ;({ assetRegistry, backingManager, basket, basketHandler, main, rToken } = await loadFixture(
+      defaultFixture
+    ))
+
+    sink = new MemorySink()
+    watcher = await newWatcher([sink])
+  })
+
+  it('Should alert nothing while nothing happens', async () => {
+    expect(await watcher.poll()).to.eql([])
+    expect(sink.alerts).to.eql([])
+  })
+
+  it('Should alert on collateral status changes', async () => {
+    // 50% price drop
+    await setOraclePrice(basket[0].address, bn('0.5e8'))
+    await assetRegistry.refresh()
+
+    const alerts = await watcher.poll()
+    const alert = alerts.find((a) => a.kind == 'CollateralStatusChanged')
+    expect(alert?.severity).to.equal('warning')
+    expect(alert?.contract).to.equal(basket[0].address)
+    expect(alert?.main).to.equal(main.address)
+    expect(alert?.data.oldStatus).to.equal('SOUND')
+    expect(alert?.data.newStatus).to.equal('IFFY')
+    expect(sink.alerts).to.eql(alerts)
+
+    // Seen once
+    expect(await watcher.poll()).to.eql([])
+  })
+
+  it('Should alert when an oracle falls back, and when it recovers', async () => {
+    await setInvalidOracleTimestamp(basket[0].address)
+    const fallback = (await watcher.poll()).find((a) => a.contract == basket[0].address)
+    expect(fallback?.kind).to.equal('OracleFallback')
+    expect(fallback?.severity).to.equal('warning')
+
+    // Still falling back, not alerted again
+    expect((await watcher.poll()).filter((a) => a.contract == basket[0].address)).to.eql([])
+
+    await setOraclePrice(basket[0].address, bn('1e8'))
+    const recovered = (await watcher.poll()).find((a) => a.contract == basket[0].address)
+    expect(recovered?.kind).to.equal('OracleRecovered')
+    expect(recovered?.severity).to.equal('info')
+    expect(recovered?.data.price).to.equal('1.0')
+  })
+
+  it('Should alert on pausing and freezing', async () => {
+    await main.connect(owner).pause()
+    await main.connect(owner).freezeShort()
+
+    const alerts = await watcher.poll()
+    expect(alerts.map((a) => [a.kind, a.severity])).to.eql([
+      ['PausedSet', 'warning'],
+      ['UnfreezeAtSet', 'warning'],
+    ])
+    expect(alerts[0].message).to.equal('Main paused')
+    expect(alerts[1].data.frozen).to.equal(true)
+    expect(alerts[1].txHash).to.be.a('string')
+
+    await main.connect(owner).unpause()
+    await main.connect(owner).unfreeze()
+    expect((await watcher.poll()).map((a) => a.message)).to.eql(['Main unpaused', 'Main unfrozen'])
+  })
+
+  it('Should alert on basket changes and trades, in order', async () => {
+    // Issue some RTokens, so that there is collateral to trade
+    const initialBal = bn('10000000000e18')
+    await rToken.connect(owner).setIssuanceRate(fp('1'))
+    for (const collateral of basket) {
+      const erc20 = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await collateral.erc20())
+      await erc20.connect(owner).mint(addr1.address, initialBal)
+      await erc20.connect(addr1).approve(rToken.address, initialBal)
+    }
+    await rToken.connect(addr1).issue(bn('100e18'))
+
+    // Switch the basket to USDC, so that the backing manager sells the other collateral
+    const usdc = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await basket[1].erc20())
+    await basketHandler.connect(owner).setPrimeBasket([usdc.address], [fp('1')])
+    await basketHandler.connect(owner).refreshBasket()
+    await backingManager.manageTokens([])
+
+    const alerts = await watcher.poll()
+    expect(alerts[0].kind).to.equal('BasketSet')
+    expect(alerts[0].severity).to.equal('warning')
+    expect(alerts[0].data.disabled).to.equal(false)
+    expect(alerts[0].data.basket).to.equal(`${await usdc.symbol()}: 1.0`)
+
+    const started = alerts.filter((a) => a.kind == 'TradeStarted')
+    expect(started.length).to.be.gt(0)
+    expect(started[0].data.trader).to.equal('BackingManager')
+    expect(started[0].data.buy).to.equal(await usdc.symbol())
+    expect(started[0].data.trade).to.equal(await backingManager.trades(await basket[0].erc20()))
+  })
+
+  it('Should keep alerting the other sinks when one fails', async () => {
+    const failing: IAlertSink = {
+      name: 'failing',
+      send: async () => {
+        throw new Error('down')
+      },
+    }
+    const logged: string[] = []
+    watcher = await CollateralWatcher.create({
+      provider: ethers.provider,
+      mains: [main.address],
+      sinks: [failing, sink],
+      log: (msg) => logged.push(msg),
+    })
+    await watcher.poll()
+
+    await main.connect(owner).pause()
+    await watcher.poll()
+    expect(sink.alerts.map((a) => a.kind)).to.eql(['PausedSet'])
+    expect(logged).to.eql(['Alert sink failing failed: down'])
+  })
+
+  describe('Sinks', () => {
+    it('Should append alerts to a file as JSON lines', async () => {
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'monitor-')), 'alerts.jsonl')
+      watcher = await newWatcher([new FileSink(file)])
+
+      await main.connect(owner).pause()
+      await watcher.poll()
+      await main.connect(owner).unpause()
+      await watcher.poll()
+
+      const lines = fs.readFileSync(file, 'utf8').trim().split('\n')
+      expect(lines.map((l) => JSON.parse(l).message)).to.eql(['Main paused', 'Main unpaused'])
+      fs.unlinkSync(file)
+      fs.rmdirSync(path.dirname(file))
+    })
+
+    it('Should POST alerts to a webhook', async () => {
+      const received: IAlert[] = []
+      const server = http.createServer((req, res) => {
+        let body = ''
+        req.on('data', (chunk) => (body += chunk))
+        req.on('end', () => {
+          received.push(JSON.parse(body))
+          res.end()
+        })
+      })
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+      const { port } = <{ port: number }>server.address()
+
+      try {
+        watcher = await newWatcher([new WebhookSink(`http://127.0.0.1:${port}/alerts`)])
+        await main.connect(owner).pause()
+        const alerts = await watcher.poll()
+        expect(received).to.eql(alerts)
+        expect(received[0].kind).to.equal('PausedSet')
+      } finally {
+        server.close()
+      }
+    })
+  })
+})
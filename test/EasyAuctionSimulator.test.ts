@@ -0,0 +1,256 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { BigNumber, ContractFactory } from 'ethers'
+import { ethers } from 'hardhat'
+import { bn, fp } from '../common/numbers'
+import {
+  bidOrder,
+  clearAuction,
+  encodeOrder,
+  IOrder,
+  orderPrice,
+  prevOrder,
+  QUEUE_START,
+} from '../common/easy-auction'
+import { EasyAuction, ERC20Mock } from '../typechain'
+import { readAuction } from '../tasks/auction/orderbook'
+import { advanceTime, getLatestBlockTimestamp } from './utils/time'
+
+// Places orders in the vendored EasyAuction, and checks that the model clears the orderbook it
+// reads from events as settleAuction() does, and pays out each order as claimFromParticipantOrder()
+describe('EasyAuction simulator', () => {
+  let owner: SignerWithAddress
+  let bidders: SignerWithAddress[]
+  let feeReceiver: SignerWithAddress
+
+  let easyAuction: EasyAuction
+  let sellTok: ERC20Mock // the auctioning token
+  let buyTok: ERC20Mock // the bidding token
+  let auctionId: number
+
+  const auctionLength = 900
+  const sellAmount = bn('1000e18')
+  const minBuyAmount = bn('900e18')
+
+  // Starts an auction from the owner, as GnosisTrade does
+  const initiate = async (minFundingThreshold: BigNumber = bn(0)) => {
+    await sellTok.connect(owner).mint(owner.address, sellAmount.mul(2))
+    await sellTok.connect(owner).approve(easyAuction.address, sellAmount.mul(2))
+    const endTime = (await getLatestBlockTimestamp()) + auctionLength
+    await easyAuction
+      .connect(owner)
+      .initiateAuction(
+        sellTok.address,
+        buyTok.address,
+        endTime,
+        endTime,
+        sellAmount,
+        minBuyAmount,
+        fp('0.01'),
+        minFundingThreshold,
+        false,
+        ethers.constants.AddressZero,
+        []
+      )
+    auctionId = (await easyAuction.auctionCounter()).toNumber()
+  }
+
+  // Places orders of [buyAmount, sellAmount] from `bidder`
+  const place = async (bidder: SignerWithAddress, orders: [string, string][]) => {
+    const buys = orders.map(([buy]) => bn(buy))
+    const sells = orders.map(([, sell]) => bn(sell))
+    const total = sells.reduce((sum, sell) => sum.add(sell), bn(0))
+    await buyTok.connect(owner).mint(bidder.address, total)
+    await buyTok.connect(bidder).approve(easyAuction.address, total)
+    await easyAuction.connect(bidder).placeSellOrders(
+      auctionId,
+      buys,
+      sells,
+      orders.map(() => QUEUE_START),
+      '0x'
+    )
+  }
+
+  const balances = async (addr: string): Promise<[BigNumber, BigNumber]> => [
+    await sellTok.balanceOf(addr),
+    await buyTok.balanceOf(addr),
+  ]
+
+  // Settles the auction and claims each order, checking each step against the model
+  const expectClearing = async () => {
+    const { auction, orders, clearingPriceOrder } = await readAuction(
+      ethers.provider,
+      easyAuction.address,
+      auctionId
+    )
+    expect(clearingPriceOrder).to.equal(undefined)
+    const clearing = clearAuction(auction, orders)
+
+    await advanceTime(auctionLength + 100)
+    const [sellBefore, buyBefore] = await balances(owner.address)
+    await expect(easyAuction.settleAuction(auctionId))
+      .to.emit(easyAuction, 'AuctionCleared')
+      .withArgs(
+        auctionId,
+        clearing.soldAuctioningTokens,
+        clearing.soldBiddingTokens,
+        encodeOrder(clearing.clearingPriceOrder)
+      )
+    const data = await easyAuction.auctionData(auctionId)
+    expect(data.volumeClearingPriceOrder).to.equal(clearing.volumeClearingPriceOrder)
+    expect(data.minFundingThresholdNotReached).to.equal(clearing.minFundingThresholdNotReached)
+
+    const [sellAfter, buyAfter] = await balances(owner.address)
+    expect(sellAfter.sub(sellBefore)).to.equal(clearing.auctioneer.auctioningTokens)
+    expect(buyAfter.sub(buyBefore)).to.equal(clearing.auctioneer.biddingTokens)
+
+    for (const fill of clearing.fills) {
+      const user = <string>fill.order.user
+      const [userSellBefore, userBuyBefore] = await balances(user)
+      await easyAuction.claimFromParticipantOrder(auctionId, [encodeOrder(fill.order)])
+      const [userSellAfter, userBuyAfter] = await balances(user)
+      expect(userSellAfter.sub(userSellBefore)).to.equal(fill.auctioningTokens)
+      expect(userBuyAfter.sub(userBuyBefore)).to.equal(fill.biddingTokens)
+    }
+
+    // A settled auction reads back with its clearing price
+    const settled = await readAuction(ethers.provider, easyAuction.address, auctionId)
+    expect(encodeOrder(<IOrder>settled.clearingPriceOrder)).to.equal(
+      encodeOrder(clearing.clearingPriceOrder)
+    )
+    return clearing
+  }
+
+  beforeEach(async () => {
+    let signers: SignerWithAddress[]
+    ;[owner, feeReceiver, ...signers] = await ethers.getSigners()
+    bidders = signers.slice(0, 3)
+
+    const EasyAuctionFactory: ContractFactory = await ethers.getContractFactory('EasyAuction')
+    easyAuction = <EasyAuction>await EasyAuctionFactory.deploy()
+    const ERC20Factory: ContractFactory = await ethers.getContractFactory('ERC20Mock')
+    sellTok = <ERC20Mock>await ERC20Factory.deploy('Sell Token', 'SELL')
+    buyTok = <ERC20Mock>await ERC20Factory.deploy('Buy Token', 'BUY')
+  })
+
+  it('Should clear by a partial match of an order', async () => {
+    await initiate()
+    await place(bidders[0], [['400e18', '400e18']])
+    await place(bidders[1], [['800e18', '760e18']])
+    const clearing = await expectClearing()
+    expect(clearing.volumeClearingPriceOrder.gt(0)).to.equal(true)
+  })
+
+  it('Should clear at a price between two orders', async () => {
+    await initiate()
+    await place(bidders[0], [['500e18', '1100e18']])
+    await place(bidders[1], [['1000e18', '950e18']])
+    const clearing = await expectClearing()
+    expect(clearing.clearingPriceOrder.userId).to.equal(0)
+    expect(clearing.soldBiddingTokens).to.equal(bn('1100e18'))
+  })
+
+  it('Should clear above the last order when undersubscribed', async () => {
+    await initiate()
+    await place(bidders[0], [['300e18', '500e18']])
+    await place(bidders[1], [['200e18', '450e18']])
+    const clearing = await expectClearing()
+    expect(clearing.soldAuctioningTokens).to.equal(sellAmount)
+  })
+
+  it('Should partially fill at the minimum price, with fees', async () => {
+    await easyAuction.connect(owner).setFeeParameters(10, feeReceiver.address)
+    await initiate()
+    await place(bidders[0], [['100e18', '200e18']])
+    await place(bidders[1], [['100e18', '250e18']])
+    const clearing = await expectClearing()
+    expect(clearing.soldAuctioningTokens).to.equal(bn('500e18'))
+  })
+
+  it('Should refund every order below the minimum funding', async () => {
+    await initiate(bn('1000e18'))
+    await place(bidders[0], [['400e18', '450e18']])
+    const clearing = await expectClearing()
+    expect(clearing.minFundingThresholdNotReached).to.equal(true)
+  })
+
+  it('Should leave canceled orders out of the orderbook', async () => {
+    await initiate()
+    await place(bidders[0], [
+      ['600e18', '1000e18'],
+      ['400e18', '380e18'],
+    ])
+    await place(bidders[1], [['700e18', '660e18']])
+
+    // The best order is canceled, then placed again, and canceled once more
+    const best = encodeOrder({ userId: 2, buyAmount: bn('600e18'), sellAmount: bn('1000e18') })
+    await easyAuction.connect(bidders[0]).cancelSellOrders(auctionId, [best])
+    await place(bidders[0], [['600e18', '1000e18']])
+    await easyAuction.connect(bidders[0]).cancelSellOrders(auctionId, [best])
+
+    const { orders } = await readAuction(ethers.provider, easyAuction.address, auctionId)
+    expect(orders.map((o) => encodeOrder(o))).to.not.include(best)
+    expect(orders.length).to.equal(2)
+    await expectClearing()
+  })
+
+  it('Should agree with the contract over random orderbooks', async () => {
+    // A deterministic sequence in [0, 1), so that failures can be reproduced
+    let seed = 7
+    const random = () => {
+      seed = (seed * 16807) % 2147483647
+      return (seed - 1) / 2147483646
+    }
+
+    for (let round = 0; round < 3; round++) {
+      await initiate()
+      for (let i = 0; i < 12; i++) {
+        // Up to half the auction each, at up to 2x the minimum price
+        const buy = sellAmount.mul(Math.floor(random() * 500) + 1).div(1000)
+        const bps = Math.floor(random() * 10000) + 100
+        const sell = buy
+          .mul(minBuyAmount)
+          .div(sellAmount)
+          .mul(10000 + bps)
+          .div(10000)
+        await place(bidders[i % bidders.length], [[buy.toString(), sell.toString()]])
+      }
+      await expectClearing()
+    }
+  })
+
+  it('Should place bids by strategy after the orders they beat', async () => {
+    await initiate()
+    await place(bidders[0], [['500e18', '480e18']])
+    await place(bidders[1], [['500e18', '470e18']])
+
+    // Outbid the current clearing price by 1%, for the whole auction
+    const { auction, orders } = await readAuction(ethers.provider, easyAuction.address, auctionId)
+    const price = orderPrice(clearAuction(auction, orders).clearingPriceOrder)
+    const userId = (await easyAuction.callStatic.getUserId(bidders[2].address)).toNumber()
+    const order: IOrder = bidOrder(auction, userId, sellAmount, price.mul(101).div(100))
+
+    // It goes between the two orders
+    const first = { userId: 2, buyAmount: bn('500e18'), sellAmount: bn('480e18') }
+    expect(prevOrder(orders, order)).to.equal(encodeOrder(first))
+
+    await buyTok.connect(owner).mint(bidders[2].address, order.sellAmount)
+    await buyTok.connect(bidders[2]).approve(easyAuction.address, order.sellAmount)
+    await easyAuction
+      .connect(bidders[2])
+      .placeSellOrders(
+        auctionId,
+        [order.buyAmount],
+        [order.sellAmount],
+        [prevOrder(orders, order)],
+        '0x'
+      )
+    expect(await easyAuction.containsOrder(auctionId, encodeOrder(order))).to.equal(true)
+
+    // It sets the clearing price, and is partially filled
+    const clearing = await expectClearing()
+    expect(clearing.fills[1].order.userId).to.equal(userId)
+    expect(encodeOrder(clearing.clearingPriceOrder)).to.equal(encodeOrder(order))
+    expect(clearing.fills[1].biddingTokens.gt(0)).to.equal(true)
+  })
+})
@@ -0,0 +1,163 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { bn, fp } from '../common/numbers'
+import { EventStore } from '../common/event-store'
+import {
+  ERC20Mock,
+  IBasketHandler,
+  TestIBackingManager,
+  TestIMain,
+  TestIRToken,
+  TestIStRSR,
+} from '../typechain'
+import { EventIndexer, IIndexedComponent, indexedEvents } from '../tasks/indexer/indexer'
+import { advanceBlocks } from './utils/time'
+import { Collateral, defaultFixture } from './fixtures'
+
+const createFixtureLoader = waffle.createFixtureLoader
+
+describe('Event indexer', () => {
+  let owner: SignerWithAddress
+  let addr1: SignerWithAddress
+
+  let rsr: ERC20Mock
+  let basket: Collateral[]
+  let main: TestIMain
+  let rToken: TestIRToken
+  let stRSR: TestIStRSR
+  let basketHandler: IBasketHandler
+  let backingManager: TestIBackingManager
+
+  let dir: string
+  let startBlock: number
+  let components: IIndexedComponent[]
+
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let wallet: Wallet
+
+  const newIndexer = (confirmations: number, batchSize?: number) =>
+    new EventIndexer({
+      provider: ethers.provider,
+      store: EventStore.open(dir, startBlock),
+      components,
+      confirmations,
+      batchSize,
+      log: () => undefined,
+    })
+
+  before('create fixture loader', async () => {
+    ;[wallet] = (await ethers.getSigners()) as unknown as Wallet[]
+    loadFixture = createFixtureLoader([wallet])
+  })
+
+  beforeEach(async () => {
+    ;[owner, addr1] = await ethers.getSigners()
+    ;({ backingManager, basket, basketHandler, main, rsr, rToken, stRSR } = await loadFixture(
+      defaultFixture
+    ))
+    dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-')), 'rtoken')
+    startBlock = (await ethers.provider.getBlockNumber()) + 1
+
+    components = [
+      { name: 'RToken', contract: rToken, events: indexedEvents.RToken },
+      { name: 'StRSR', contract: stRSR, events: indexedEvents.StRSR },
+      { name: 'BasketHandler', contract: basketHandler, events: indexedEvents.BasketHandler },
+      { name: 'BackingManager', contract: backingManager, events: indexedEvents.Trading },
+      {
+        name: 'Distributor',
+        contract: await ethers.getContractAt('IDistributor', await main.distributor()),
+        events: indexedEvents.Distributor,
+      },
+    ]
+
+    // Issue some RTokens, and stake some RSR
+    const initialBal = bn('10000000000e18')
+    await rToken.connect(owner).setIssuanceRate(fp('1'))
+    for (const collateral of basket) {
+      const erc20 = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await collateral.erc20())
+      await erc20.connect(owner).mint(addr1.address, initialBal)
+      await erc20.connect(addr1).approve(rToken.address, initialBal)
+    }
+    await rToken.connect(addr1).issue(bn('100e18'))
+    await rsr.connect(owner).mint(addr1.address, bn('1000e18'))
+    await rsr.connect(addr1).approve(stRSR.address, bn('1000e18'))
+    await stRSR.connect(addr1).stake(bn('1000e18'))
+  })
+
+  afterEach(() => {
+    fs.rmdirSync(path.dirname(dir), { recursive: true })
+  })
+
+  it('Should index the events of every component, decoded', async () => {
+    const indexer = newIndexer(0)
+    expect(await indexer.sync()).to.be.gt(0)
+    expect(indexer.store.lastBlock).to.equal(await ethers.provider.getBlockNumber())
+
+    const [issuance] = indexer.store.query({ events: ['Issuance'] })
+    expect(issuance.component).to.equal('RToken')
+    expect(issuance.contract).to.equal(rToken.address)
+    expect(issuance.args.issuer).to.equal(addr1.address)
+    expect(issuance.args.amount).to.equal(bn('100e18').toString())
+
+    const [staked] = indexer.store.query({ events: ['Staked'] })
+    expect(staked.args.staker).to.equal(addr1.address)
+    expect(staked.args.rsrAmount).to.equal(bn('1000e18').toString())
+    expect(staked.timestamp).to.equal((await ethers.provider.getBlock(staked.block)).timestamp)
+
+    // Nothing new
+    expect(await indexer.sync()).to.equal(0)
+  })
+
+  it('Should index basket changes and trades, in chain order', async () => {
+    const usdc = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await basket[1].erc20())
+    await basketHandler.connect(owner).setPrimeBasket([usdc.address], [fp('1')])
+    await basketHandler.connect(owner).refreshBasket()
+    await backingManager.manageTokens([])
+
+    const indexer = newIndexer(0, 3)
+    await indexer.sync()
+    const events = indexer.store.query()
+    expect(events.map((e) => [e.block, e.logIndex])).to.eql(
+      [...events]
+        .sort((a, b) => a.block - b.block || a.logIndex - b.logIndex)
+        .map((e) => [e.block, e.logIndex])
+    )
+
+    const [basketSet] = indexer.store.query({ events: ['BasketSet'] })
+    expect(basketSet.args.erc20s).to.eql([usdc.address])
+    expect(basketSet.args.refAmts).to.eql([fp('1').toString()])
+    expect(basketSet.args.disabled).to.equal(false)
+
+    const trades = indexer.store.trades()
+    expect(trades.length).to.be.gt(0)
+    expect(trades[0].trader).to.equal('BackingManager')
+    expect(trades[0].buy).to.equal(usdc.address)
+    expect(trades[0].settleBlock).to.equal(undefined)
+  })
+
+  it('Should only index confirmed blocks, and resume where it stopped', async () => {
+    const latest = await ethers.provider.getBlockNumber()
+    let indexer = newIndexer(5)
+    await indexer.sync()
+    expect(indexer.store.lastBlock).to.equal(latest - 5)
+    const before = indexer.store.query().length
+
+    // A later run picks up the rest, once confirmed
+    await advanceBlocks(5)
+    indexer = newIndexer(5)
+    await indexer.sync()
+    expect(indexer.store.lastBlock).to.equal(latest)
+
+    const events = indexer.store.query()
+    expect(events.length).to.be.gt(before)
+    // Each event once
+    const keys = events.map((e) => `${e.block}-${e.logIndex}`)
+    expect(new Set(keys).size).to.equal(keys.length)
+    expect(indexer.store.query({ events: ['Staked'] }).length).to.equal(1)
+  })
+})
@@ -18,7 +18,13 @@ import {
   PAUSER,
   ZERO_ADDRESS,
 } from '../common/constants'
+import {
+  validateGovParams,
+  validateRTokenConfig,
+  validateRTokenSetup,
+} from '../common/config-validation'
 import { expectInIndirectReceipt, expectInReceipt } from '../common/events'
+import { diffDeployedConfig } from '../scripts/confirmation/config-drift'
 import { bn, fp } from '../common/numbers'
 import { setOraclePrice } from './utils/oracles'
 import { advanceTime } from './utils/time'
@@ -212,11 +218,19 @@ describe('FacadeWrite contract', () => {
   })
 
   it('Should perform validations', async () => {
+    // The off-chain validator accepts the valid setup
+    expect(validateRTokenConfig(rTokenConfig)).to.eql([])
+    expect(validateRTokenSetup(rTokenSetup)).to.eql([])
+    expect(validateGovParams(govParams)).to.eql([])
+
     // Should not accept zero addr beneficiary
     rTokenSetup.beneficiaries = [{ beneficiary: ZERO_ADDRESS, revShare: revShare1 }]
     await expect(
       facadeWrite.connect(deployerUser).deployRToken(rTokenConfig, rTokenSetup)
     ).to.be.revertedWith('beneficiary revShare mismatch')
+    expect(validateRTokenSetup(rTokenSetup)).to.eql([
+      'beneficiaries[0].beneficiary is the zero address',
+    ])
 
     // Should not accept empty revShare
     rTokenSetup.beneficiaries = [
@@ -225,24 +239,32 @@ describe('FacadeWrite contract', () => {
     await expect(
       facadeWrite.connect(deployerUser).deployRToken(rTokenConfig, rTokenSetup)
     ).to.be.revertedWith('beneficiary revShare mismatch')
+    expect(validateRTokenSetup(rTokenSetup)).to.eql([
+      'beneficiaries[0].revShare distributes nothing, rTokenDist or rsrDist must be nonzero',
+    ])
 
     // Cannot deploy backup info with no collateral tokens
     rTokenSetup.backups[0].backupCollateral = []
     await expect(
       facadeWrite.connect(deployerUser).deployRToken(rTokenConfig, rTokenSetup)
     ).to.be.revertedWith('no backup collateral')
+    expect(validateRTokenSetup(rTokenSetup)).to.include('backups[0].backupCollateral is empty')
 
     // Cannot deploy with invalid length in weights
     rTokenSetup.weights = [fp('1')]
     await expect(
       facadeWrite.connect(deployerUser).deployRToken(rTokenConfig, rTokenSetup)
     ).to.be.revertedWith('invalid length')
+    expect(validateRTokenSetup(rTokenSetup)).to.include(
+      'primaryBasket has 2 collateral but weights has 1 entries'
+    )
 
     // Cannot deploy with no basket
     rTokenSetup.primaryBasket = []
     await expect(
       facadeWrite.connect(deployerUser).deployRToken(rTokenConfig, rTokenSetup)
     ).to.be.revertedWith('no collateral')
+    expect(validateRTokenSetup(rTokenSetup)).to.include('primaryBasket is empty')
   })
 
   describe('Deployment Process', () => {
@@ -627,6 +649,36 @@ describe('FacadeWrite contract', () => {
           expect(await main.paused()).to.equal(false)
           expect(await main.pausedOrFrozen()).to.equal(false)
         })
+        it('Should report parameters that drift from the configuration', async () => {
+          const deployed = { main: main.address }
+          expect(await diffDeployedConfig(rTokenConfig, rTokenSetup, undefined, deployed)).to.eql(
+            []
+          )
+
+          await stRSR.connect(owner).setUnstakingDelay(config.unstakingDelay.mul(2))
+          await basketHandler.connect(owner).setPrimeBasket([token.address], [fp('1')])
+
+          expect(await diffDeployedConfig(rTokenConfig, rTokenSetup, undefined, deployed)).to.eql([
+            {
+              component: 'StRSR',
+              field: 'unstakingDelay',
+              expected: config.unstakingDelay.toString(),
+              actual: config.unstakingDelay.mul(2).toString(),
+            },
+            {
+              component: 'BasketHandler',
+              field: `primeBasket[${token.address}]`,
+              expected: fp('0.5').toString(),
+              actual: fp('1').toString(),
+            },
+            {
+              component: 'BasketHandler',
+              field: `primeBasket[${usdc.address}]`,
+              expected: fp('0.5').toString(),
+              actual: 'none',
+            },
+          ])
+        })
       })
 
       context('Deploying Governance - Paused', function () {
@@ -686,6 +738,15 @@ describe('FacadeWrite contract', () => {
           expect(await main.pausedOrFrozen()).to.equal(true)
         })
 
+        it('Should match the configuration', async () => {
+          expect(
+            await diffDeployedConfig(rTokenConfig, rTokenSetup, govParams, {
+              main: main.address,
+              governance: governor.address,
+            })
+          ).to.eql([])
+        })
+
         it('Should deploy Governor correctly', async () => {
           expect(await governor.votingDelay()).to.equal(govParams.votingDelay)
           expect(await governor.votingPeriod()).to.equal(govParams.votingPeriod)
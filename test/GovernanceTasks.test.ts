@@ -0,0 +1,120 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { BigNumber, Wallet } from 'ethers'
+import fs from 'fs'
+import hre, { ethers, waffle } from 'hardhat'
+import os from 'os'
+import path from 'path'
+import { OWNER, ProposalState, ZERO_ADDRESS } from '../common/constants'
+import { bn, fp } from '../common/numbers'
+import {
+  ERC20Mock,
+  Governance,
+  StRSRP1Votes,
+  TestIBackingManager,
+  TestIMain,
+  TestIStRSR,
+  TimelockController,
+} from '../typechain'
+import { defaultFixture, Implementation, IMPLEMENTATION } from './fixtures'
+import { advanceBlocks } from './utils/time'
+
+const createFixtureLoader = waffle.createFixtureLoader
+
+const describeP1 = IMPLEMENTATION == Implementation.P1 ? describe : describe.skip
+
+describeP1('Governance proposal tasks', () => {
+  let owner: SignerWithAddress
+
+  let rsr: ERC20Mock
+  let main: TestIMain
+  let backingManager: TestIBackingManager
+  let stRSR: TestIStRSR
+  let stRSRVotes: StRSRP1Votes
+  let timelock: TimelockController
+  let governor: Governance
+
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let wallet: Wallet
+
+  let specPath: string
+
+  const MIN_DELAY = 7 * 60 * 60 * 24 // 7 days
+  const VOTING_DELAY = 5 // 5 blocks
+  const VOTING_PERIOD = 100 // 100 blocks
+  const PROPOSAL_THRESHOLD = 1e6 // 1%
+  const QUORUM_PERCENTAGE = 4 // 4%
+
+  // The tasks propose, vote, queue and execute as the first signer
+  const run = (name: string, params: { [key: string]: unknown } = {}) =>
+    hre.run(name, { governor: governor.address, spec: specPath, ...params })
+
+  before('create fixture loader', async () => {
+    ;[wallet] = (await ethers.getSigners()) as unknown as Wallet[]
+    loadFixture = createFixtureLoader([wallet])
+  })
+
+  beforeEach(async () => {
+    ;[owner] = await ethers.getSigners()
+    ;({ rsr, main, backingManager, stRSR } = await loadFixture(defaultFixture))
+    stRSRVotes = <StRSRP1Votes>await ethers.getContractAt('StRSRP1Votes', stRSR.address)
+
+    const TimelockFactory = await ethers.getContractFactory('TimelockController')
+    timelock = <TimelockController>await TimelockFactory.deploy(MIN_DELAY, [], [])
+    const GovernorFactory = await ethers.getContractFactory('Governance')
+    governor = <Governance>(
+      await GovernorFactory.deploy(
+        stRSRVotes.address,
+        timelock.address,
+        VOTING_DELAY,
+        VOTING_PERIOD,
+        PROPOSAL_THRESHOLD,
+        QUORUM_PERCENTAGE
+      )
+    )
+    await timelock.grantRole(await timelock.PROPOSER_ROLE(), governor.address)
+    await timelock.grantRole(await timelock.EXECUTOR_ROLE(), ZERO_ADDRESS)
+    await main.grantRole(OWNER, timelock.address)
+
+    // Enough votes to propose and to reach quorum alone
+    const stkAmt = fp('1000')
+    await rsr.connect(owner).mint(owner.address, stkAmt)
+    await rsr.connect(owner).approve(stRSRVotes.address, stkAmt)
+    await stRSRVotes.connect(owner).stake(stkAmt)
+    await stRSRVotes.connect(owner).delegate(owner.address)
+    await advanceBlocks(1)
+
+    specPath = path.join(os.tmpdir(), `proposal-${Date.now()}.json`)
+    const spec = {
+      description: 'Set the trading delay to 6 minutes',
+      actions: [
+        { target: backingManager.address, signature: 'setTradingDelay(uint48)', args: [360] },
+      ],
+    }
+    fs.writeFileSync(specPath, JSON.stringify(spec))
+  })
+
+  afterEach(() => {
+    fs.unlinkSync(specPath)
+  })
+
+  it('Should propose, vote, queue and execute a proposal, fast-forwarding locally', async () => {
+    expect(await backingManager.tradingDelay()).to.not.equal(360)
+
+    const proposalId: BigNumber = await run('governance:propose', { fastForward: true })
+    expect(await governor.state(proposalId)).to.equal(ProposalState.Active)
+
+    await run('governance:vote', { support: 'for', fastForward: true })
+    expect(await governor.state(proposalId)).to.equal(ProposalState.Succeeded)
+    const [against, forVotes, abstain] = await governor.proposalVotes(proposalId)
+    expect(forVotes).to.equal(fp('1000'))
+    expect(against.add(abstain)).to.equal(bn(0))
+
+    await run('governance:queue', { fastForward: true })
+    expect(await governor.state(proposalId)).to.equal(ProposalState.Queued)
+
+    await run('governance:execute')
+    expect(await governor.state(proposalId)).to.equal(ProposalState.Executed)
+    expect(await backingManager.tradingDelay()).to.equal(360)
+  })
+})
@@ -0,0 +1,85 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { Wallet } from 'ethers'
+import hre, { ethers, waffle } from 'hardhat'
+import { bn, fp } from '../common/numbers'
+import { ERC20Mock, FacadeRead, TestIRToken } from '../typechain'
+import { IPendingIssuance } from '../tasks/rtoken/issuance'
+import { Collateral, defaultFixture, Implementation, IMPLEMENTATION } from './fixtures'
+import { advanceBlocks } from './utils/time'
+
+const createFixtureLoader = waffle.createFixtureLoader
+
+const describeP1 = IMPLEMENTATION == Implementation.P1 ? describe : describe.skip
+
+// FacadeRead only supports P1
+describeP1('RToken issuance tasks', () => {
+  let owner: SignerWithAddress
+
+  let basket: Collateral[]
+  let facade: FacadeRead
+  let rToken: TestIRToken
+
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let wallet: Wallet
+
+  const run = (name: string, params: { [key: string]: unknown }) =>
+    hre.run(name, { rtoken: rToken.address, facade: facade.address, ...params })
+
+  before('create fixture loader', async () => {
+    ;[wallet] = (await ethers.getSigners()) as unknown as Wallet[]
+    loadFixture = createFixtureLoader([wallet])
+  })
+
+  beforeEach(async () => {
+    ;[owner] = await ethers.getSigners()
+    ;({ basket, facade, rToken } = await loadFixture(defaultFixture))
+
+    // The tasks issue and redeem as the first signer
+    for (const coll of basket) {
+      const erc20 = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await coll.erc20())
+      await erc20.connect(owner).mint(owner.address, bn('1e30'))
+    }
+  })
+
+  it('Should report the blocks until an issuance can vest', async () => {
+    // At the minimum rate of 10k RToken per block, 50k RToken vests 4 blocks after issuance
+    const issued: { pending: IPendingIssuance[] } = await run('rtoken:issue', { amount: '50000' })
+    expect(issued.pending.length).to.equal(1)
+    expect(issued.pending[0].amount).to.equal(fp('50000'))
+    expect(issued.pending[0].blocks).to.equal(3)
+
+    // Vesting too early vests nothing, and the issuance can vest in the next block
+    await advanceBlocks(2)
+    const early: { pending: IPendingIssuance[] } = await run('rtoken:vest', {})
+    expect(early.pending.length).to.equal(1)
+    expect(early.pending[0].blocks).to.equal(0)
+    expect(await rToken.balanceOf(owner.address)).to.equal(0)
+
+    const vested: { pending: IPendingIssuance[] } = await run('rtoken:vest', { endId: '1' })
+    expect(vested.pending.length).to.equal(0)
+    expect(await rToken.balanceOf(owner.address)).to.equal(fp('50000'))
+  })
+
+  it('Should only hold redemptions to the limit when throttled', async () => {
+    await run('rtoken:issue', { amount: '100' })
+    expect(await rToken.balanceOf(owner.address)).to.equal(fp('100'))
+
+    // Throttled to 10 RToken an hour
+    await rToken.connect(owner).setScalingRedemptionRate(0)
+    await rToken.connect(owner).setRedemptionRateFloor(fp('10'))
+    let error: unknown
+    try {
+      await run('rtoken:redeem', { amount: '50' })
+    } catch (e) {
+      error = e
+    }
+    expect(`${error}`).to.include('exceeds the redemption limit')
+
+    // Without rates, the redemption limit is 0 but redemptions are not throttled
+    await rToken.connect(owner).setRedemptionRateFloor(0)
+    const { redemptionLimit } = await run('rtoken:redeem', { amount: '50' })
+    expect(redemptionLimit).to.equal(0)
+    expect(await rToken.balanceOf(owner.address)).to.equal(fp('50'))
+  })
+})
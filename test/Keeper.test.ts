@@ -0,0 +1,290 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { BigNumber, providers, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { CollateralStatus } from '../common/constants'
+import { bn, fp } from '../common/numbers'
+import {
+  ATokenFiatCollateral,
+  ERC20Mock,
+  FacadeAct,
+  FiatCollateral,
+  IAssetRegistry,
+  IBasketHandler,
+  StaticATokenMock,
+  TestIBackingManager,
+  TestIRToken,
+} from '../typechain'
+import {
+  actionName,
+  applyPolicy,
+  IKeeperPolicy,
+  IKeeperRecord,
+  Keeper,
+  parseKeeperPolicy,
+} from '../tasks/keeper/keeper'
+import { Collateral, Implementation, IMPLEMENTATION, defaultFixture } from './fixtures'
+
+const createFixtureLoader = waffle.createFixtureLoader
+
+const describeP1 = IMPLEMENTATION == Implementation.P1 ? describe : describe.skip
+
+const gwei = (amt: string) => ethers.utils.parseUnits(amt, 'gwei')
+
+describe('Keeper policy', () => {
+  const fees = { baseFeePerGas: gwei('10'), maxPriorityFeePerGas: gwei('1'), gasPrice: gwei('11') }
+
+  it('Should parse fees in gwei and costs in ETH', () => {
+    const policy = parseKeeperPolicy({
+      maxFeePerGas: 100,
+      maxGasCost: '0.05',
+      actions: { melt: { maxGasCost: '0.001', priority: 5 }, claimRewards: false },
+    })
+    expect(policy.maxFeePerGas).to.equal(gwei('100'))
+    expect(policy.maxGasCost).to.equal(fp('0.05'))
+    expect(policy.actions.melt.enabled).to.equal(true)
+    expect(policy.actions.melt.maxGasCost).to.equal(fp('0.001'))
+    expect(policy.actions.melt.priority).to.equal(5)
+    expect(policy.actions.claimRewards.enabled).to.equal(false)
+  })
+
+  it('Should name actions by their selector', () => {
+    const iface = new ethers.utils.Interface(['function manageTokens(address[])'])
+    expect(actionName(iface.encodeFunctionData('manageTokens', [[]]))).to.equal('manageTokens')
+    expect(actionName('0xdeadbeef')).to.equal('0xdeadbeef')
+  })
+
+  it('Should price actions at the base fee plus the tip', () => {
+    const decision = applyPolicy({ actions: {} }, 'melt', bn(100000), fees)
+    expect(decision.send).to.equal(true)
+    expect(decision.cost).to.equal(gwei('11').mul(100000))
+    expect(decision.overrides.gasLimit).to.equal(bn(120000))
+    expect(decision.overrides.maxFeePerGas).to.equal(gwei('21'))
+    expect(decision.overrides.maxPriorityFeePerGas).to.equal(gwei('1'))
+
+    // Without a base fee, at the gas price
+    const legacy = applyPolicy({ actions: {} }, 'melt', bn(100000), { gasPrice: gwei('20') })
+    expect(legacy.cost).to.equal(gwei('20').mul(100000))
+    expect(legacy.overrides.gasPrice).to.equal(gwei('20'))
+  })
+
+  it('Should skip actions the policy disables or will not pay for', () => {
+    const policy: IKeeperPolicy = {
+      maxFeePerGas: gwei('15'),
+      maxGasCost: fp('0.01'),
+      actions: {
+        claimRewards: { enabled: false },
+        melt: { enabled: true, maxGasCost: gwei('11').mul(100000).sub(1) },
+        payoutRewards: { enabled: true, maxPriorityFeePerGas: gwei('5') },
+      },
+    }
+    expect(applyPolicy(policy, 'claimRewards', bn(100000), fees).reason).to.equal(
+      'claimRewards is disabled by the policy'
+    )
+    expect(applyPolicy(policy, 'melt', bn(100000), fees).send).to.equal(false)
+    expect(applyPolicy(policy, 'payoutRewards', bn(100000), fees).send).to.equal(true)
+
+    // The max fee is capped by the policy, and skipped once the fee would be over it
+    expect(applyPolicy(policy, 'payoutRewards', bn(100000), fees).overrides.maxFeePerGas).to.equal(
+      gwei('15')
+    )
+    const pricey = { ...fees, baseFeePerGas: gwei('20') }
+    expect(applyPolicy(policy, 'payoutRewards', bn(100000), pricey).reason).to.equal(
+      'gas price 25.0 gwei is over maxFeePerGas'
+    )
+    expect(applyPolicy(policy, 'refreshBasket', bn(2000000), fees).reason).to.equal(
+      'cost 0.022 ETH is over maxGasCost'
+    )
+  })
+})
+
+// FacadeAct only supports P1
+describeP1('Keeper', () => {
+  let owner: SignerWithAddress
+  let addr1: SignerWithAddress
+  let keeperSigner: SignerWithAddress
+
+  let token: ERC20Mock
+  let usdc: ERC20Mock
+  let aToken: StaticATokenMock
+  let backupToken1: ERC20Mock
+  let backupToken2: ERC20Mock
+  let backupCollateral1: FiatCollateral
+  let backupCollateral2: ATokenFiatCollateral
+  let basket: Collateral[]
+  let collateral: Collateral[]
+
+  let facadeAct: FacadeAct
+  let rToken: TestIRToken
+  let assetRegistry: IAssetRegistry
+  let basketHandler: IBasketHandler
+  let backingManager: TestIBackingManager
+
+  let logs: string[]
+
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let wallet: Wallet
+
+  const newKeeper = (policy?: IKeeperPolicy) =>
+    new Keeper({
+      signer: keeperSigner,
+      facadeAct,
+      rTokens: [rToken.address],
+      policy,
+      retryDelay: 0,
+      log: (msg) => logs.push(msg),
+    })
+
+  // Defaults aToken, so that the basket must switch to the backup USDT and aUSDT
+  const defaultBasket = async () => {
+    await assetRegistry.connect(owner).register(backupCollateral1.address)
+    await assetRegistry.connect(owner).register(backupCollateral2.address)
+    await basketHandler
+      .connect(owner)
+      .setBackupConfig(ethers.utils.formatBytes32String('USD'), bn(2), [
+        backupToken1.address,
+        backupToken2.address,
+      ])
+    await aToken.setExchangeRate(fp('0.99'))
+    await assetRegistry.refresh()
+    expect(await basketHandler.status()).to.equal(CollateralStatus.DISABLED)
+  }
+
+  before('create fixture loader', async () => {
+    ;[wallet] = (await ethers.getSigners()) as unknown as Wallet[]
+    loadFixture = createFixtureLoader([wallet])
+  })
+
+  beforeEach(async () => {
+    ;[owner, addr1, , keeperSigner] = await ethers.getSigners()
+    let erc20s: ERC20Mock[]
+    ;({
+      assetRegistry,
+      backingManager,
+      basketHandler,
+      erc20s,
+      collateral,
+      basket,
+      facadeAct,
+      rToken,
+    } = await loadFixture(defaultFixture))
+    logs = []
+
+    token = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await basket[0].erc20())
+    usdc = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await basket[1].erc20())
+    aToken = <StaticATokenMock>(
+      await ethers.getContractAt('StaticATokenMock', await basket[2].erc20())
+    )
+    const cToken = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await basket[3].erc20())
+    backupToken1 = erc20s[2] // USDT
+    backupCollateral1 = <FiatCollateral>collateral[2]
+    backupToken2 = erc20s[9] // aUSDT
+    backupCollateral2 = <ATokenFiatCollateral>collateral[9]
+
+    // Issue some RTokens
+    const initialBal = bn('10000000000e18')
+    await rToken.connect(owner).setIssuanceRate(fp('1'))
+    for (const erc20 of [token, usdc, aToken, cToken]) {
+      await erc20.connect(owner).mint(addr1.address, initialBal)
+      await erc20.connect(addr1).approve(rToken.address, initialBal)
+    }
+    await rToken.connect(addr1).issue(bn('100e18'))
+  })
+
+  it('Should do nothing when no call is needed', async () => {
+    const nonce = await keeperSigner.getTransactionCount()
+    const records = await newKeeper().poll()
+
+    expect(records.length).to.equal(1)
+    expect(records[0].status).to.equal('idle')
+    expect(records[0].rToken).to.equal(rToken.address)
+    expect(await keeperSigner.getTransactionCount()).to.equal(nonce)
+  })
+
+  it('Should simulate and send the next call', async () => {
+    await defaultBasket()
+
+    const [record] = await newKeeper().poll()
+    expect(record.status).to.equal('sent')
+    expect(record.action).to.equal('refreshBasket')
+    expect(record.to).to.equal(basketHandler.address)
+    expect(record.gasUsed).to.be.gt(0)
+
+    const receipt = await ethers.provider.getTransactionReceipt(<string>record.txHash)
+    expect(receipt.from).to.equal(keeperSigner.address)
+    expect(await basketHandler.status()).to.equal(CollateralStatus.SOUND)
+    expect(
+      logs.some((l) => l.includes(`refreshBasket on ${basketHandler.address}: mined`))
+    ).to.equal(true)
+  })
+
+  it('Should skip calls the policy will not pay for', async () => {
+    await defaultBasket()
+
+    let [record] = await newKeeper({ actions: { refreshBasket: { enabled: false } } }).poll()
+    expect(record.status).to.equal('skipped')
+    expect(record.reason).to.equal('refreshBasket is disabled by the policy')
+    ;[record] = await newKeeper({ maxGasCost: BigNumber.from(1), actions: {} }).poll()
+    expect(record.status).to.equal('skipped')
+    expect(record.reason).to.match(/is over maxGasCost$/)
+
+    // Nothing was sent
+    expect(await basketHandler.status()).to.equal(CollateralStatus.DISABLED)
+  })
+
+  it('Should resync its nonce and retry when a send fails', async () => {
+    await defaultBasket()
+    const keeper = newKeeper()
+    let records: IKeeperRecord[] = await keeper.poll()
+    expect(records[0].action).to.equal('refreshBasket')
+
+    // The keeper account is used elsewhere, so the nonce the keeper expects is taken
+    await keeperSigner.sendTransaction({ to: keeperSigner.address, value: 0 })
+
+    // Next, the backing manager must trade to recollateralize
+    records = await keeper.poll()
+    expect(records[0].status).to.equal('sent')
+    expect(records[0].action).to.equal('manageTokens')
+    expect(records[0].to).to.equal(backingManager.address)
+    expect(logs.some((l) => l.includes('retry 1 of 3'))).to.equal(true)
+    expect(await backingManager.tradesOpen()).to.equal(1)
+  })
+
+  it('Should not resend a sent tx when waiting for it fails', async () => {
+    await defaultBasket()
+    const nonce = await keeperSigner.getTransactionCount()
+
+    // The tx is sent, but the first wait() fails as on a dropped connection
+    let waitFails = true
+    const sendTransaction = keeperSigner.sendTransaction.bind(keeperSigner)
+    const signer = Object.create(keeperSigner, {
+      sendTransaction: {
+        value: async (req: providers.TransactionRequest) => {
+          const tx = await sendTransaction(req)
+          const wait = tx.wait
+          tx.wait = (confirms?: number) => {
+            if (!waitFails) return wait(confirms)
+            waitFails = false
+            return Promise.reject(new Error('connection reset'))
+          }
+          return tx
+        },
+      },
+    })
+
+    const keeper = new Keeper({
+      signer,
+      facadeAct,
+      rTokens: [rToken.address],
+      retryDelay: 0,
+      log: (msg) => logs.push(msg),
+    })
+    const [record] = await keeper.poll()
+    expect(record.status).to.equal('sent')
+    expect(record.action).to.equal('refreshBasket')
+    expect(logs.some((l) => l.includes('wait failed: connection reset'))).to.equal(true)
+    expect(logs.filter((l) => l.includes('sent tx')).length).to.equal(1)
+    expect(await keeperSigner.getTransactionCount()).to.equal(nonce + 1)
+    expect(await basketHandler.status()).to.equal(CollateralStatus.SOUND)
+  })
+})
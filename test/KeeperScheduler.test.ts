@@ -0,0 +1,204 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { IConfig } from '../common/configuration'
+import { bn, fp } from '../common/numbers'
+import {
+  ERC20Mock,
+  FacadeAct,
+  GnosisTrade,
+  IBasketHandler,
+  TestIBackingManager,
+  TestIFurnace,
+  TestIRToken,
+  TestIStRSR,
+} from '../typechain'
+import { Keeper } from '../tasks/keeper/keeper'
+import { KeeperScheduler } from '../tasks/keeper/scheduler'
+import { advanceTime, advanceToTimestamp, getLatestBlockTimestamp } from './utils/time'
+import { Collateral, Implementation, IMPLEMENTATION, defaultFixture } from './fixtures'
+
+const createFixtureLoader = waffle.createFixtureLoader
+
+// FacadeAct and StRSR.payoutLastPaid are only in P1
+const describeP1 = IMPLEMENTATION == Implementation.P1 ? describe : describe.skip
+
+describeP1('Keeper scheduler', () => {
+  let owner: SignerWithAddress
+  let addr1: SignerWithAddress
+  let keeperSigner: SignerWithAddress
+
+  let usdc: ERC20Mock
+  let basket: Collateral[]
+  let config: IConfig
+
+  let facadeAct: FacadeAct
+  let rToken: TestIRToken
+  let basketHandler: IBasketHandler
+  let backingManager: TestIBackingManager
+  let furnace: TestIFurnace
+  let stRSR: TestIStRSR
+
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let wallet: Wallet
+
+  const newScheduler = (claimInterval?: number) =>
+    KeeperScheduler.create({
+      provider: ethers.provider,
+      rToken: rToken.address,
+      facadeAct: facadeAct.address,
+      claimInterval,
+    })
+
+  const newKeeper = (scheduler: KeeperScheduler) =>
+    new Keeper({
+      signer: keeperSigner,
+      facadeAct,
+      rTokens: [rToken.address],
+      schedulers: [scheduler],
+      retryDelay: 0,
+      log: () => undefined,
+    })
+
+  // Switches the basket to USDC, so that the backing manager sells the other collateral
+  const startTrade = async (): Promise<GnosisTrade> => {
+    await basketHandler.connect(owner).setPrimeBasket([usdc.address], [fp('1')])
+    await basketHandler.connect(owner).refreshBasket()
+    await backingManager.manageTokens([])
+    const sell = await basket[0].erc20()
+    return <GnosisTrade>await ethers.getContractAt('GnosisTrade', await backingManager.trades(sell))
+  }
+
+  before('create fixture loader', async () => {
+    ;[wallet] = (await ethers.getSigners()) as unknown as Wallet[]
+    loadFixture = createFixtureLoader([wallet])
+  })
+
+  beforeEach(async () => {
+    ;[owner, addr1, , keeperSigner] = await ethers.getSigners()
+    ;({ backingManager, basketHandler, basket, config, facadeAct, furnace, rToken, stRSR } =
+      await loadFixture(defaultFixture))
+    usdc = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await basket[1].erc20())
+
+    // Issue some RTokens
+    const initialBal = bn('10000000000e18')
+    await rToken.connect(owner).setIssuanceRate(fp('1'))
+    for (const collateral of basket) {
+      const erc20 = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await collateral.erc20())
+      await erc20.connect(owner).mint(addr1.address, initialBal)
+      await erc20.connect(addr1).approve(rToken.address, initialBal)
+    }
+    await rToken.connect(addr1).issue(bn('100e18'))
+  })
+
+  it('Should schedule melting and reward payouts when their periods elapse', async () => {
+    const scheduler = await newScheduler()
+    await scheduler.sync()
+
+    const meltAt = (await furnace.lastPayout()).add(await furnace.period()).toNumber()
+    const payoutAt = (await stRSR.rewardPeriod()) + (await getLatestBlockTimestamp())
+    expect(scheduler.due(meltAt - 1).map((c) => c.action)).to.not.include('melt')
+    expect(scheduler.due(meltAt).map((c) => c.action)).to.include('melt')
+    expect(scheduler.nextWakeup()).to.be.lte(payoutAt)
+  })
+
+  it('Should schedule settlement at the end of each auction', async () => {
+    const scheduler = await newScheduler()
+    await scheduler.sync()
+    expect(scheduler.due(await getLatestBlockTimestamp())).to.eql([])
+
+    // Found from the TradeStarted event
+    const trade = await startTrade()
+    const endTime = await trade.endTime()
+    await scheduler.sync()
+    expect(scheduler.nextWakeup()).to.equal(endTime)
+    expect(scheduler.due(endTime - 1)).to.eql([])
+    const [settle] = scheduler.due(endTime)
+    expect(settle.action).to.equal('settleTrade')
+    expect(settle.to).to.equal(backingManager.address)
+    expect(settle.data).to.equal(
+      backingManager.interface.encodeFunctionData('settleTrade', [await trade.sell()])
+    )
+
+    // Found from trades() by a scheduler that starts later
+    const late = await newScheduler()
+    await late.sync()
+    expect(late.nextWakeup()).to.equal(endTime)
+
+    // Dropped once settled
+    await advanceToTimestamp(endTime)
+    await backingManager.settleTrade(await trade.sell())
+    await scheduler.sync()
+    expect(scheduler.due(endTime).map((c) => c.action)).to.not.include('settleTrade')
+  })
+
+  it('Should make the calls getActCalldata does not get to', async () => {
+    const keeper = newKeeper(await newScheduler())
+    await advanceTime(config.rewardPeriod.add(1).toString())
+
+    // getActCalldata melts first, and the payout is due too
+    const records = await keeper.poll()
+    const sent = records.filter((r) => r.status == 'sent').map((r) => r.action)
+    expect(sent).to.eql(['melt', 'payoutRewards'])
+    expect((await keeper.poll()).filter((r) => r.status == 'sent')).to.eql([])
+  })
+
+  it('Should claim rewards on its cadence', async () => {
+    const keeper = newKeeper(await newScheduler(3600))
+
+    const claims = async () =>
+      (await keeper.poll()).filter(
+        (r) => r.action == 'claimAndSweepRewards' && r.status == 'sent' && r.to == facadeAct.address
+      ).length
+
+    expect(await claims()).to.equal(1)
+    expect(await claims()).to.equal(0)
+    await advanceTime(3600)
+    expect(await claims()).to.equal(1)
+  })
+
+  it('Should hold back failed calls for the retry interval', async () => {
+    const scheduler = await KeeperScheduler.create({
+      provider: ethers.provider,
+      rToken: rToken.address,
+      facadeAct: facadeAct.address,
+      retryInterval: 600,
+    })
+    await scheduler.sync()
+    const now = (await furnace.lastPayout()).add(await furnace.period()).toNumber()
+    const [melt] = scheduler.due(now).filter((c) => c.action == 'melt')
+
+    scheduler.done(melt, now, false)
+    await scheduler.sync()
+    expect(scheduler.due(now).map((c) => c.action)).to.not.include('melt')
+    expect(scheduler.due(now + 600).map((c) => c.action)).to.include('melt')
+  })
+
+  it('Should retry a failed settlement once the retry interval passes', async () => {
+    const scheduler = await KeeperScheduler.create({
+      provider: ethers.provider,
+      rToken: rToken.address,
+      facadeAct: facadeAct.address,
+      retryInterval: 600,
+    })
+    const trade = await startTrade()
+    const endTime = await trade.endTime()
+    await scheduler.sync()
+    const [settle] = scheduler.due(endTime).filter((c) => c.action == 'settleTrade')
+
+    // No trade events since, but the trade is still open
+    scheduler.done(settle, endTime, false)
+    await scheduler.sync()
+    expect(scheduler.due(endTime).map((c) => c.action)).to.not.include('settleTrade')
+    const [retry] = scheduler.due(endTime + 600).filter((c) => c.action == 'settleTrade')
+    expect(retry.key).to.equal(settle.key)
+    expect(retry.data).to.equal(settle.data)
+
+    // Dropped once settled
+    await advanceToTimestamp(endTime + 600)
+    await backingManager.settleTrade(await trade.sell())
+    await scheduler.sync()
+    expect(scheduler.due(endTime + 600).map((c) => c.action)).to.not.include('settleTrade')
+  })
+})
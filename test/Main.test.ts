@@ -22,7 +22,14 @@ import {
   PAUSER,
   MAX_UINT192,
 } from '../common/constants'
-import { expectInIndirectReceipt, expectInReceipt, expectEvents } from '../common/events'
+import {
+  emitted,
+  expectEventCount,
+  expectEventOrder,
+  expectEvents,
+  expectInIndirectReceipt,
+  expectInReceipt,
+} from '../common/events'
 import { setOraclePrice } from './utils/oracles'
 import { bn, fp } from '../common/numbers'
 import {
@@ -1246,21 +1253,29 @@ describe(`MainP${IMPLEMENTATION} contract`, () => {
       // Check asset remains the same
       expect(await assetRegistry.toAsset(token0.address)).to.equal(collateral0.address)
 
-      // Swap Asset
-      await expectEvents(assetRegistry.connect(owner).swapRegistered(newAsset.address), [
-        {
-          contract: assetRegistry,
-          name: 'AssetUnregistered',
-          args: [token0.address, collateral0.address],
-          emitted: true,
-        },
-        {
-          contract: assetRegistry,
-          name: 'AssetRegistered',
-          args: [token0.address, newAsset.address],
-          emitted: true,
-        },
+      // Swap Asset, unregistering the old one first
+      const receipt = await expectEvents(
+        assetRegistry.connect(owner).swapRegistered(newAsset.address),
+        [
+          {
+            contract: assetRegistry,
+            name: 'AssetUnregistered',
+            args: [token0.address, collateral0.address],
+            emitted: true,
+          },
+          {
+            contract: assetRegistry,
+            name: 'AssetRegistered',
+            args: [token0.address, newAsset.address],
+            emitted: true,
+          },
+        ]
+      )
+      expectEventOrder(receipt, [
+        emitted(assetRegistry, 'AssetUnregistered', { asset: collateral0.address }),
+        emitted(assetRegistry, 'AssetRegistered', { asset: newAsset.address }),
       ])
+      expectEventCount(receipt, assetRegistry, 'AssetRegistered', 1)
 
       // Check length is not modified and erc20 remains registered
       const allERC20s = await assetRegistry.erc20s()
@@ -0,0 +1,121 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import axios from 'axios'
+import { expect } from 'chai'
+import { AddressInfo } from 'net'
+import { Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { bn, fp } from '../common/numbers'
+import { ERC20Mock, FacadeRead, TestIFurnace, TestIRToken } from '../typechain'
+import { MetricsExporter } from '../tasks/monitor/exporter'
+import { setOraclePrice } from './utils/oracles'
+import { Collateral, defaultFixture } from './fixtures'
+
+const createFixtureLoader = waffle.createFixtureLoader
+
+// The value of the sample with exactly these labels
+const sample = (metrics: string, name: string, labels: { [name: string]: string }) => {
+  const formatted = Object.entries(labels)
+    .map(([k, v]) => `${k}="${v}"`)
+    .join(',')
+  const line = metrics.split('\n').find((l) => l.startsWith(`${name}{${formatted}} `))
+  return line?.split(' ')[1]
+}
+
+describe('Metrics exporter', () => {
+  let owner: SignerWithAddress
+  let addr1: SignerWithAddress
+
+  let basket: Collateral[]
+  let facade: FacadeRead
+  let furnace: TestIFurnace
+  let rToken: TestIRToken
+
+  let exporter: MetricsExporter
+  let labels: { [name: string]: string }
+
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let wallet: Wallet
+
+  before('create fixture loader', async () => {
+    ;[wallet] = (await ethers.getSigners()) as unknown as Wallet[]
+    loadFixture = createFixtureLoader([wallet])
+  })
+
+  beforeEach(async () => {
+    ;[owner, addr1] = await ethers.getSigners()
+    ;({ basket, facade, furnace, rToken } = await loadFixture(defaultFixture))
+
+    // Issue some RTokens
+    const initialBal = bn('10000000000e18')
+    await rToken.connect(owner).setIssuanceRate(fp('1'))
+    for (const collateral of basket) {
+      const erc20 = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await collateral.erc20())
+      await erc20.connect(owner).mint(addr1.address, initialBal)
+      await erc20.connect(addr1).approve(rToken.address, initialBal)
+    }
+    await rToken.connect(addr1).issue(bn('100e18'))
+
+    exporter = await MetricsExporter.create({
+      provider: ethers.provider,
+      rTokens: [rToken.address],
+      facade: facade.address,
+      log: () => undefined,
+    })
+    labels = { rtoken: rToken.address, symbol: await rToken.symbol() }
+  })
+
+  it('Should read the RToken, StRSR, Furnace and Distributor gauges', async () => {
+    const metrics = await exporter.collect()
+    expect(sample(metrics, 'reserve_rtoken_total_supply', labels)).to.equal('100.0')
+    expect(sample(metrics, 'reserve_rtoken_baskets_needed', labels)).to.equal('100.0')
+    expect(sample(metrics, 'reserve_rtoken_price', labels)).to.equal('1.0')
+    expect(sample(metrics, 'reserve_strsr_exchange_rate', labels)).to.equal('1.0')
+    expect(sample(metrics, 'reserve_strsr_total_supply', labels)).to.equal('0.0')
+    expect(sample(metrics, 'reserve_furnace_balance', labels)).to.equal('0.0')
+    // 40/60 in the fixture
+    expect(sample(metrics, 'reserve_distributor_rtoken_total', labels)).to.equal('40')
+    expect(sample(metrics, 'reserve_distributor_rsr_total', labels)).to.equal('60')
+
+    await rToken.connect(addr1).transfer(furnace.address, bn('10e18'))
+    expect(sample(await exporter.collect(), 'reserve_furnace_balance', labels)).to.equal('10.0')
+  })
+
+  it('Should read the price and refPerTok of each collateral', async () => {
+    const erc20 = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await basket[0].erc20())
+    const collLabels = { ...labels, erc20: erc20.address, token: await erc20.symbol() }
+
+    let metrics = await exporter.collect()
+    expect(sample(metrics, 'reserve_collateral_price', collLabels)).to.equal('1.0')
+    expect(sample(metrics, 'reserve_collateral_ref_per_tok', collLabels)).to.equal('1.0')
+    expect(sample(metrics, 'reserve_collateral_price_fallback', collLabels)).to.equal('0')
+    expect(sample(metrics, 'reserve_collateral_price_unavailable', collLabels)).to.equal('0')
+
+    await setOraclePrice(basket[0].address, bn('0.5e8'))
+    metrics = await exporter.collect()
+    expect(sample(metrics, 'reserve_collateral_price', collLabels)).to.equal('0.5')
+
+    // Only collateral, not plain assets
+    expect(metrics).to.not.include('token="RSR"')
+  })
+
+  it('Should serve the last collected metrics at /metrics', async () => {
+    const server = await exporter.serve(0, '127.0.0.1')
+    const url = `http://127.0.0.1:${(<AddressInfo>server.address()).port}`
+    const get = (path: string) => axios.get(url + path, { validateStatus: () => true })
+    try {
+      // Nothing until the first read
+      expect((await get('/metrics')).status).to.equal(503)
+
+      const metrics = await exporter.collect()
+      const res = await get('/metrics')
+      expect(res.status).to.equal(200)
+      expect(res.headers['content-type']).to.equal('text/plain; version=0.0.4')
+      expect(res.data).to.equal(metrics)
+      expect(res.data).to.include('# TYPE reserve_rtoken_total_supply gauge')
+
+      expect((await get('/other')).status).to.equal(404)
+    } finally {
+      server.close()
+    }
+  })
+})
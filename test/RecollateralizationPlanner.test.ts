@@ -0,0 +1,199 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { BigNumber, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { IConfig } from '../common/configuration'
+import { CollateralStatus } from '../common/constants'
+import { bn, fp } from '../common/numbers'
+import {
+  Fill,
+  IRecollateralizationPlan,
+  IRecollateralizationSnapshot,
+  planRecollateralization,
+} from '../common/recollateralization'
+import {
+  ERC20Mock,
+  FacadeTest,
+  FiatCollateral,
+  GnosisMock,
+  IAssetRegistry,
+  IBasketHandler,
+  TestIBackingManager,
+  TestIRToken,
+  TestIStRSR,
+} from '../typechain'
+import { readRecollateralizationSnapshot } from '../tasks/rtoken/snapshot'
+import { setOraclePrice } from './utils/oracles'
+import { advanceTime } from './utils/time'
+import { Collateral, defaultFixture } from './fixtures'
+
+const createFixtureLoader = waffle.createFixtureLoader
+
+// Runs the scenarios of Recollateralization.test.ts on chain, round by round, and checks that the
+// planner saw each round coming
+describe('Recollateralization planner', () => {
+  let owner: SignerWithAddress
+  let addr1: SignerWithAddress
+
+  let rsr: ERC20Mock
+  let erc20s: ERC20Mock[]
+  let collateral: Collateral[]
+  let basket: Collateral[]
+  let config: IConfig
+  let rToken: TestIRToken
+  let stRSR: TestIStRSR
+  let gnosis: GnosisMock
+  let facadeTest: FacadeTest
+  let assetRegistry: IAssetRegistry
+  let backingManager: TestIBackingManager
+  let basketHandler: IBasketHandler
+
+  let token0: ERC20Mock
+  let token1: ERC20Mock
+  let auctionId: number
+
+  const issueAmount = bn('100e18')
+  const stakeAmount = bn('10000e18')
+
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let wallet: Wallet
+
+  // Runs the auctions, and returns the trades started by the BackingManager
+  const runAuctions = async (): Promise<string[][]> => {
+    const receipt = await (await facadeTest.runAuctionsForAllTraders(rToken.address)).wait()
+    return receipt.logs
+      .filter((log) => log.address == backingManager.address)
+      .map((log) => backingManager.interface.parseLog(log))
+      .filter((parsed) => parsed.name == 'TradeStarted')
+      .map((parsed) => parsed.args.slice(1).map((arg) => arg.toString()))
+  }
+
+  // Plans from the chain's state, then checks the chain against the plan, filling each trade as
+  // the plan does. Returns the plan.
+  const followPlan = async (fill: Fill): Promise<IRecollateralizationPlan> => {
+    const snapshot: IRecollateralizationSnapshot = await readRecollateralizationSnapshot(
+      ethers.provider,
+      rToken.address
+    )
+    const plan = planRecollateralization(snapshot, { fill })
+
+    for (const planned of plan.trades) {
+      expect(await runAuctions()).to.eql([
+        [planned.sell, planned.buy, planned.sellAmount, planned.minBuyAmount],
+      ])
+
+      const buy = await ethers.getContractAt('ERC20Mock', planned.buy)
+      await buy.connect(owner).mint(addr1.address, planned.boughtAmount)
+      await buy.connect(addr1).approve(gnosis.address, planned.boughtAmount)
+      await gnosis.placeBid(auctionId++, {
+        bidder: addr1.address,
+        sellAmount: planned.sellAmount,
+        buyAmount: planned.boughtAmount,
+      })
+      await advanceTime(config.auctionLength.add(100).toString())
+    }
+
+    // Settles the last trade, compromising basketsNeeded if need be, then hands out any surplus
+    expect(await runAuctions()).to.eql([])
+    expect(await runAuctions()).to.eql([])
+    expect(await basketHandler.fullyCollateralized()).to.equal(true)
+    expect(await rToken.basketsNeeded()).to.equal(bn(plan.finalBasketsNeeded))
+    return plan
+  }
+
+  const balanceIn = (plan: IRecollateralizationPlan, erc20: string): BigNumber =>
+    bn(<string>plan.balances.find((b) => b.erc20 == erc20)?.balance)
+
+  before('create fixture loader', async () => {
+    ;[wallet] = (await ethers.getSigners()) as unknown as Wallet[]
+    loadFixture = createFixtureLoader([wallet])
+  })
+
+  beforeEach(async () => {
+    ;[owner, addr1] = await ethers.getSigners()
+    ;({
+      rsr,
+      erc20s,
+      collateral,
+      basket,
+      config,
+      rToken,
+      stRSR,
+      gnosis,
+      facadeTest,
+      assetRegistry,
+      backingManager,
+      basketHandler,
+    } = await loadFixture(defaultFixture))
+    token0 = <ERC20Mock>erc20s[collateral.indexOf(basket[0])]
+    token1 = <ERC20Mock>erc20s[collateral.indexOf(basket[1])]
+    auctionId = 0
+
+    // Issue some RTokens backed by a single stablecoin, and stake some RSR
+    await basketHandler.connect(owner).setPrimeBasket([token0.address], [fp('1')])
+    await basketHandler.connect(owner).refreshBasket()
+    await rToken.connect(owner).setIssuanceRate(fp('1'))
+    await token0.connect(owner).mint(addr1.address, issueAmount)
+    await token0.connect(addr1).approve(rToken.address, issueAmount)
+    await rToken.connect(addr1).issue(issueAmount)
+
+    await rsr.connect(owner).mint(addr1.address, stakeAmount)
+    await rsr.connect(addr1).approve(stRSR.address, stakeAmount)
+    await stRSR.connect(addr1).stake(stakeAmount)
+  })
+
+  it('Should plan the switch of basket, using RSR for the remainder', async () => {
+    await basketHandler.connect(owner).setPrimeBasket([token1.address], [fp('1')])
+    await basketHandler.connect(owner).refreshBasket()
+
+    const plan = await followPlan('worst')
+    expect(plan.outcome).to.equal('collateralized')
+    expect(plan.trades.map((t) => t.sell)).to.eql([token0.address, rsr.address])
+    expect(await rsr.balanceOf(stRSR.address)).to.equal(stakeAmount.sub(plan.rsrSeized))
+    expect(await token1.balanceOf(backingManager.address)).to.equal(balanceIn(plan, token1.address))
+  })
+
+  it('Should plan the haircut when there is no RSR', async () => {
+    await stRSR.connect(addr1).unstake(stakeAmount)
+    await advanceTime(config.unstakingDelay.toString())
+    await stRSR.connect(addr1).withdraw(addr1.address, 1)
+
+    await basketHandler.connect(owner).setPrimeBasket([token1.address], [fp('1')])
+    await basketHandler.connect(owner).refreshBasket()
+
+    const plan = await followPlan('worst')
+    expect(plan.outcome).to.equal('haircut')
+    expect(plan.trades.length).to.equal(1)
+    expect(bn(plan.finalBasketsNeeded)).to.be.lt(issueAmount)
+    expect(await token1.balanceOf(backingManager.address)).to.equal(balanceIn(plan, token1.address))
+  })
+
+  it('Should plan the sale of defaulted collateral for its backup', async () => {
+    const backupToken = erc20s[2] // USDT
+    const backupCollateral = <FiatCollateral>collateral[2]
+    await assetRegistry.connect(owner).register(backupCollateral.address)
+    await basketHandler
+      .connect(owner)
+      .setBackupConfig(ethers.utils.formatBytes32String('USD'), bn(1), [backupToken.address])
+
+    // Default token0, at half its price
+    const collateral0 = <FiatCollateral>basket[0]
+    await setOraclePrice(collateral0.address, bn('0.5e8'))
+    await assetRegistry.refresh()
+    await advanceTime((await collateral0.delayUntilDefault()).toString())
+    await assetRegistry.refresh()
+    expect(await collateral0.status()).to.equal(CollateralStatus.DISABLED)
+    await basketHandler.refreshBasket()
+
+    const plan = await followPlan('oracle')
+    expect(plan.outcome).to.equal('collateralized')
+    expect(plan.trades.map((t) => t.sell)).to.eql([token0.address, rsr.address])
+    expect(plan.trades[0].minBuyAmount).to.equal('0') // sold at any price
+    expect(BigNumber.from(plan.rsrSeized).gt(0)).to.equal(true)
+    expect(bn(plan.rTokenMinted)).to.be.gt(0)
+    expect(await rToken.totalSupply()).to.equal(issueAmount.add(plan.rTokenMinted))
+    expect(await backupToken.balanceOf(backingManager.address)).to.equal(
+      balanceIn(plan, backupToken.address)
+    )
+  })
+})
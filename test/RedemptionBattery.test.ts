@@ -0,0 +1,152 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { BigNumber, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { bn, fp } from '../common/numbers'
+import { BLOCKS_PER_HOUR, currentCharge, discharge, IBattery } from '../common/redemption-battery'
+import { ERC20Mock, TestIRToken } from '../typechain'
+import { readBattery } from '../tasks/rtoken/battery'
+import { advanceBlocks, getLatestBlockNumber } from './utils/time'
+import { Collateral, defaultFixture } from './fixtures'
+
+const createFixtureLoader = waffle.createFixtureLoader
+
+// Runs sequences of issuances, redemptions and blocks against the redemption battery of the
+// RToken, and checks that the model allows the same redemptions and tracks the same charge
+describe('Redemption battery', () => {
+  let owner: SignerWithAddress
+  let addr1: SignerWithAddress
+
+  let basket: Collateral[]
+  let rToken: TestIRToken
+
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let wallet: Wallet
+
+  const initialBal = bn('1e24')
+  const issueAmount = bn('1000e18')
+
+  // A deterministic sequence in [0, 1), so that failures can be reproduced
+  let seed: number
+  const random = () => {
+    seed = (seed * 16807) % 2147483647
+    return (seed - 1) / 2147483646
+  }
+
+  const supply = async (): Promise<BigNumber> => await rToken.totalSupply()
+
+  // Checks the model against the contract at the latest block, and for the blocks to come
+  const expectCharge = async (battery: IBattery) => {
+    const block = await getLatestBlockNumber()
+    expect(await rToken.redemptionLimit()).to.equal(currentCharge(battery, await supply(), block))
+
+    // As the battery reads from chain, for the forecasts of rtoken:redemption-capacity
+    const read = await readBattery(ethers.provider, rToken.address)
+    expect(read.block).to.equal(block)
+    expect(read.supply).to.equal(await supply())
+    for (const blocks of [0, 1, 7, 100, BLOCKS_PER_HOUR - 1, BLOCKS_PER_HOUR, 1000]) {
+      expect(currentCharge(read.battery, read.supply, block + blocks)).to.equal(
+        currentCharge(battery, read.supply, block + blocks)
+      )
+    }
+  }
+
+  // Redeems `amount` in the next block, or expects the redemption to revert as the model does
+  const redeem = async (battery: IBattery, amount: BigNumber) => {
+    const block = (await getLatestBlockNumber()) + 1
+    const before = await supply()
+    if (amount.gt(currentCharge(battery, before, block))) {
+      expect(() => discharge({ ...battery }, before, amount, block)).to.throw(
+        'redemption battery insufficient'
+      )
+      await expect(rToken.connect(addr1).redeem(amount)).to.be.revertedWith(
+        'redemption battery insufficient'
+      )
+      return
+    }
+
+    discharge(battery, before, amount, block)
+    const receipt = await (await rToken.connect(addr1).redeem(amount)).wait()
+    expect(receipt.blockNumber).to.equal(block)
+    expect(await supply()).to.equal(before.sub(amount))
+  }
+
+  // Runs `steps` random steps, starting from the battery as read from chain
+  const runSequence = async (steps: number, maxBlocks: number) => {
+    const { battery } = await readBattery(ethers.provider, rToken.address)
+    await expectCharge(battery)
+
+    for (let i = 0; i < steps; i++) {
+      await advanceBlocks(Math.floor(random() * maxBlocks) + 1)
+
+      const r = random()
+      if (r < 0.15 || (await supply()).isZero()) {
+        // Issuance only changes the supply, and so the charging rate. It is instant below 10k RTok
+        await rToken.connect(addr1).issue(issueAmount.mul(Math.floor(random() * 5) + 1))
+      } else {
+        // Redeem the whole charge at times, and more than it at others
+        const block = (await getLatestBlockNumber()) + 1
+        const charge = currentCharge(battery, await supply(), block)
+        let amount = r < 0.3 ? charge : charge.mul(Math.floor(random() * 1200) + 1).div(1000)
+        if (amount.isZero()) amount = bn(1)
+        if (amount.gt(await supply())) amount = await supply()
+        await redeem(battery, amount)
+      }
+      await expectCharge(battery)
+    }
+  }
+
+  before('create fixture loader', async () => {
+    ;[wallet] = (await ethers.getSigners()) as unknown as Wallet[]
+    loadFixture = createFixtureLoader([wallet])
+  })
+
+  beforeEach(async () => {
+    ;[owner, addr1] = await ethers.getSigners()
+    ;({ basket, rToken } = await loadFixture(defaultFixture))
+    seed = 1
+
+    for (const coll of basket) {
+      const erc20 = <ERC20Mock>await ethers.getContractAt('ERC20Mock', await coll.erc20())
+      await erc20.connect(owner).mint(addr1.address, initialBal)
+      await erc20.connect(addr1).approve(rToken.address, initialBal)
+    }
+    await rToken.connect(addr1).issue(issueAmount.mul(5))
+
+    // A floor of 1% of the supply, below the 5% scaling rate
+    await rToken.connect(owner).setRedemptionRateFloor(issueAmount.div(20))
+  })
+
+  it('Should agree with the contract while charging from deployment', async () => {
+    await expectCharge((await readBattery(ethers.provider, rToken.address)).battery)
+    await advanceBlocks(BLOCKS_PER_HOUR)
+    await expectCharge((await readBattery(ethers.provider, rToken.address)).battery)
+  })
+
+  it('Should agree with the contract over redemptions every few blocks', async () => {
+    await runSequence(40, 30)
+  })
+
+  it('Should agree with the contract over redemptions every few hours', async () => {
+    await runSequence(20, 3 * BLOCKS_PER_HOUR)
+  })
+
+  it('Should agree with the contract when the floor sets the rate', async () => {
+    // A floor of 10% of the supply
+    await rToken.connect(owner).setRedemptionRateFloor(issueAmount.div(2))
+    await runSequence(30, BLOCKS_PER_HOUR / 2)
+  })
+
+  it('Should agree with the contract when the charge is capped by the supply', async () => {
+    await rToken.connect(owner).setRedemptionRateFloor(fp('1e6'))
+    await runSequence(10, BLOCKS_PER_HOUR)
+  })
+
+  it('Should agree with the contract without throttling', async () => {
+    await rToken.connect(owner).setScalingRedemptionRate(bn(0))
+    await rToken.connect(owner).setRedemptionRateFloor(bn(0))
+    const { battery } = await readBattery(ethers.provider, rToken.address)
+    await redeem(battery, (await supply()).div(2))
+    await expectCharge(battery)
+  })
+})
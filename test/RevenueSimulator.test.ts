@@ -0,0 +1,148 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { BigNumber, ContractReceipt, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { IConfig } from '../common/configuration'
+import { bn, fp } from '../common/numbers'
+import { IRevenuePoint, IRevenueScenario, simulateRevenue } from '../common/revenue'
+import {
+  ERC20Mock,
+  FacadeTest,
+  GnosisMock,
+  IBasketHandler,
+  RTokenAsset,
+  StaticATokenMock,
+  TestIFurnace,
+  TestIMain,
+  TestIRevenueTrader,
+  TestIRToken,
+  TestIStRSR,
+} from '../typechain'
+import { advanceTime, advanceToTimestamp } from './utils/time'
+import { Collateral, defaultFixture } from './fixtures'
+
+const createFixtureLoader = waffle.createFixtureLoader
+
+// Runs the keeper of the revenue simulator on chain, step by step, and checks that the contracts
+// end each step where the simulator does
+describe('Revenue simulator', () => {
+  let owner: SignerWithAddress
+  let addr1: SignerWithAddress
+
+  let rsr: ERC20Mock
+  let erc20s: ERC20Mock[]
+  let collateral: Collateral[]
+  let basket: Collateral[]
+  let config: IConfig
+  let main: TestIMain
+  let rToken: TestIRToken
+  let rTokenAsset: RTokenAsset
+  let stRSR: TestIStRSR
+  let furnace: TestIFurnace
+  let gnosis: GnosisMock
+  let facadeTest: FacadeTest
+  let basketHandler: IBasketHandler
+  let rsrTrader: TestIRevenueTrader
+
+  let aDAI: StaticATokenMock
+  let auctionId: number
+
+  const issueAmount = bn('100e18')
+  const stakeAmount = bn('10000e18')
+
+  const scenario: IRevenueScenario = {
+    rTokenSupply: '100',
+    rsrStaked: '10000',
+    rsrPrice: '1',
+    collateral: [{ symbol: 'aDAI', refAmt: '1', yieldCurve: [{ day: 0, apy: 0.1 }] }],
+  }
+
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let wallet: Wallet
+
+  // Sells the RToken that the RSR trader auctions at its oracle price, as the simulator does
+  const fillRSRAuction = async (receipt: ContractReceipt) => {
+    const started = receipt.logs
+      .filter((log) => log.address == rsrTrader.address)
+      .map((log) => rsrTrader.interface.parseLog(log))
+      .filter((parsed) => parsed.name == 'TradeStarted')
+    expect(started.length).to.equal(1)
+
+    const sellAmount: BigNumber = started[0].args.sellAmount
+    const buyAmount = sellAmount.mul(await rTokenAsset.strictPrice()).div(fp('1'))
+    await rsr.connect(owner).mint(addr1.address, buyAmount)
+    await rsr.connect(addr1).approve(gnosis.address, buyAmount)
+    await gnosis.placeBid(auctionId++, { bidder: addr1.address, sellAmount, buyAmount })
+    await advanceTime(config.auctionLength.add(100).toString())
+  }
+
+  const expectPoint = async (point: IRevenuePoint) => {
+    expect(await rToken.totalSupply()).to.equal(fp(point.rTokenSupply))
+    expect(await rToken.basketsNeeded()).to.equal(fp(point.basketsNeeded))
+    expect(await rToken.balanceOf(furnace.address)).to.equal(fp(point.furnaceBalance))
+    expect(await stRSR.exchangeRate()).to.equal(fp(point.stRSRRate))
+  }
+
+  before('create fixture loader', async () => {
+    ;[wallet] = (await ethers.getSigners()) as unknown as Wallet[]
+    loadFixture = createFixtureLoader([wallet])
+  })
+
+  beforeEach(async () => {
+    ;[owner, addr1] = await ethers.getSigners()
+    ;({
+      rsr,
+      erc20s,
+      collateral,
+      basket,
+      config,
+      main,
+      rToken,
+      rTokenAsset,
+      stRSR,
+      furnace,
+      gnosis,
+      facadeTest,
+      basketHandler,
+      rsrTrader,
+    } = await loadFixture(defaultFixture))
+    aDAI = <StaticATokenMock>erc20s[collateral.indexOf(basket[2])]
+    auctionId = 0
+
+    // Issue some RTokens backed by a single aToken, and stake some RSR
+    await basketHandler.connect(owner).setPrimeBasket([aDAI.address], [fp('1')])
+    await basketHandler.connect(owner).refreshBasket()
+    await rToken.connect(owner).setIssuanceRate(fp('1'))
+    await aDAI.connect(owner).mint(addr1.address, issueAmount)
+    await aDAI.connect(addr1).approve(rToken.address, issueAmount)
+    await rToken.connect(addr1).issue(issueAmount)
+
+    await rsr.connect(owner).mint(addr1.address, stakeAmount)
+    await rsr.connect(addr1).approve(stRSR.address, stakeAmount)
+    await stRSR.connect(addr1).stake(stakeAmount)
+  })
+
+  it('Should agree with the contracts, step by step', async () => {
+    const points = simulateRevenue(scenario, config, { days: 28 })
+    expect(points.length).to.equal(4)
+
+    // The Furnace and StRSR were deployed together, and count their periods from then
+    const start = (await furnace.lastPayout()).toNumber()
+    for (const point of points) {
+      await advanceToTimestamp(start + point.day * 24 * 60 * 60)
+      await aDAI.setExchangeRate(fp(point.refPerTok.aDAI))
+      await main.poke()
+
+      // Hand out the revenue, then settle the sale of RToken for RSR
+      const receipt = await (await facadeTest.runAuctionsForAllTraders(rToken.address)).wait()
+      await fillRSRAuction(receipt)
+      await facadeTest.runAuctionsForAllTraders(rToken.address)
+
+      await expectPoint(point)
+    }
+
+    // By the end, both the Furnace and StRSR have paid out some revenue
+    expect(points[3].melted).to.not.equal('0')
+    expect(points[3].rsrPaid).to.not.equal('0')
+  })
+})
@@ -0,0 +1,77 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { BigNumber, Wallet } from 'ethers'
+import hre, { ethers, waffle } from 'hardhat'
+import { fp } from '../common/numbers'
+import { ERC20Mock, FacadeRead, TestIRToken, TestIStRSR } from '../typechain'
+import { defaultFixture, Implementation, IMPLEMENTATION } from './fixtures'
+import { advanceTime } from './utils/time'
+
+const createFixtureLoader = waffle.createFixtureLoader
+
+const describeP1 = IMPLEMENTATION == Implementation.P1 ? describe : describe.skip
+
+// FacadeRead only supports P1
+describeP1('StRSR staking tasks', () => {
+  let owner: SignerWithAddress
+  let addr1: SignerWithAddress
+
+  let rsr: ERC20Mock
+  let stRSR: TestIStRSR
+  let facade: FacadeRead
+  let rToken: TestIRToken
+
+  let loadFixture: ReturnType<typeof createFixtureLoader>
+  let wallet: Wallet
+
+  const run = (name: string, params: { [key: string]: unknown } = {}) =>
+    hre.run(name, { rtoken: rToken.address, facade: facade.address, ...params })
+
+  before('create fixture loader', async () => {
+    ;[wallet] = (await ethers.getSigners()) as unknown as Wallet[]
+    loadFixture = createFixtureLoader([wallet])
+  })
+
+  beforeEach(async () => {
+    ;[owner, addr1] = await ethers.getSigners()
+    ;({ rsr, stRSR, facade, rToken } = await loadFixture(defaultFixture))
+
+    // The tasks stake as the first signer
+    await rsr.connect(owner).mint(owner.address, fp('10000'))
+  })
+
+  it('Should stake, unstake and withdraw after the unstaking delay', async () => {
+    await run('strsr:stake', { amount: '1000' })
+    expect(await stRSR.balanceOf(owner.address)).to.equal(fp('1000'))
+    expect(await rsr.balanceOf(owner.address)).to.equal(fp('9000'))
+
+    const unstaked: { endIdForWithdraw: BigNumber } = await run('strsr:unstake', { amount: '400' })
+    expect(unstaked.endIdForWithdraw).to.equal(0)
+    expect(await stRSR.balanceOf(owner.address)).to.equal(fp('600'))
+
+    // Still locked, so nothing is withdrawn
+    await run('strsr:withdraw')
+    expect(await rsr.balanceOf(owner.address)).to.equal(fp('9000'))
+
+    await advanceTime((await stRSR.unstakingDelay()) + 1)
+    const withdrawn: { endIdForWithdraw: BigNumber } = await run('strsr:withdraw')
+    expect(withdrawn.endIdForWithdraw).to.equal(1)
+    expect(await rsr.balanceOf(owner.address)).to.equal(fp('9400'))
+  })
+
+  it('Should delegate votes and report them with the stake', async () => {
+    await run('strsr:stake', { amount: '1000' })
+    await run('strsr:delegate', { delegatee: addr1.address })
+
+    const status = await run('strsr:status', { account: addr1.address })
+    expect(status.balance).to.equal(0)
+    expect(status.votes).to.equal(fp('1000'))
+
+    const own = await run('strsr:status')
+    expect(own.exchangeRate).to.equal(fp('1'))
+    expect(own.balance).to.equal(fp('1000'))
+    expect(own.balanceInRSR).to.equal(fp('1000'))
+    expect(own.delegatee).to.equal(addr1.address)
+    expect(own.votes).to.equal(0)
+  })
+})
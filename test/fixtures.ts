@@ -6,6 +6,7 @@ import { getChainId } from '../common/blockchain-utils'
 import { IConfig, IImplementations, IRevenueShare, networkConfig } from '../common/configuration'
 import { expectInReceipt } from '../common/events'
 import { bn, fp } from '../common/numbers'
+import { fpq, mul, UoAPerTok } from '../common/units'
 import { CollateralStatus } from '../common/constants'
 import {
   Asset,
@@ -219,9 +220,11 @@ async function collateralFixture(
     const erc20: CTokenMock = <CTokenMock>(
       await CTokenMockFactory.deploy(symbol + ' Token', symbol, referenceERC20.address)
     )
+    // cTokens start at 0.02 {ref/tok}
+    const fallbackPrice: UoAPerTok = mul(fpq<'UoA/ref'>('1'), fpq<'ref/tok'>('0.02'))
     const coll = <CTokenFiatCollateral>(
       await CTokenCollateralFactory.deploy(
-        fp('1').div(50),
+        fallbackPrice,
         chainlinkAddr,
         erc20.address,
         config.rTokenMaxTradeVolume,
@@ -0,0 +1,170 @@
+import { expect } from 'chai'
+import { fp } from '../../common/numbers'
+import { IBasketCollateral, IBasketSnapshot, simulateBasket } from '../../common/basket'
+
+// The scenarios of "Default Handling - Basket Selection" in Recollateralization.test.ts
+describe('Basket selection model', () => {
+  const address = (n: number) => '0x' + n.toString(16).padStart(40, '0')
+  const [RSR, RTOKEN, STRSR, DAI, USDC, ADAI, CDAI, USDT, AUSDT, EURT, EURS] = [
+    1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11,
+  ].map(address)
+
+  const quarter = fp('0.25').toString()
+
+  const coll = (
+    erc20: string,
+    symbol: string,
+    fields: Partial<IBasketCollateral> = {}
+  ): IBasketCollateral => ({
+    erc20,
+    symbol,
+    targetName: 'USD',
+    status: 'SOUND',
+    refPerTok: fp('1').toString(),
+    targetPerRef: fp('1').toString(),
+    ...fields,
+  })
+
+  // The fixture's basket of 4 USD collateral, at nonce 2, with `backups` registered
+  const snapshot = (
+    backups: IBasketSnapshot['backups'],
+    collateral: IBasketCollateral[] = []
+  ): IBasketSnapshot => {
+    const basket = [DAI, USDC, ADAI, CDAI]
+    const registered = new Map(
+      [
+        coll(DAI, 'DAI'),
+        coll(USDC, 'USDC'),
+        coll(ADAI, 'aDAI'),
+        coll(CDAI, 'cDAI'),
+        coll(USDT, 'USDT'),
+        coll(AUSDT, 'aUSDT'),
+        ...collateral,
+      ].map((c) => [c.erc20, c])
+    )
+    return {
+      block: 1,
+      rsr: RSR,
+      rToken: RTOKEN,
+      stRSR: STRSR,
+      nonce: 2,
+      basket: { erc20s: basket, refAmts: basket.map(() => quarter) },
+      primeBasket: {
+        erc20s: basket,
+        targetAmts: basket.map(() => quarter),
+        targetNames: basket.map(() => 'USD'),
+      },
+      backups,
+      collateral: [...registered.values()],
+    }
+  }
+
+  it('selects a single backup token', () => {
+    const snap = snapshot({ USD: { max: 1, erc20s: [USDT] } }, [
+      coll(USDC, 'USDC', { status: 'DISABLED' }),
+    ])
+    const simulated = simulateBasket(snap)
+    expect(simulated.disabled).to.equal(false)
+    expect(simulated.nonce).to.equal(3)
+    expect(simulated.erc20s).to.eql([DAI, ADAI, CDAI, USDT])
+    expect(simulated.refAmts).to.eql([quarter, quarter, quarter, quarter])
+    expect(simulated.targets).to.eql([
+      {
+        targetName: 'USD',
+        configured: fp('1').toString(),
+        good: fp('0.75').toString(),
+        backup: quarter,
+        backupERC20s: [USDT],
+      },
+    ])
+  })
+
+  it('spreads the weight over multiple backup tokens, up to max', () => {
+    const backups = [USDT, AUSDT]
+    const defaulted = coll(ADAI, 'aDAI', { status: 'DISABLED', refPerTok: fp('0.99').toString() })
+
+    const simulated = simulateBasket(snapshot({ USD: { max: 2, erc20s: backups } }, [defaulted]))
+    expect(simulated.erc20s).to.eql([DAI, USDC, CDAI, USDT, AUSDT])
+    expect(simulated.refAmts.slice(3)).to.eql([fp('0.125').toString(), fp('0.125').toString()])
+
+    const limited = simulateBasket(snapshot({ USD: { max: 1, erc20s: backups } }, [defaulted]))
+    expect(limited.erc20s).to.eql([DAI, USDC, CDAI, USDT])
+    expect(limited.refAmts[3]).to.equal(quarter)
+  })
+
+  it('skips backup tokens that are not good collateral', () => {
+    const snap = snapshot({ USD: { max: 1, erc20s: [EURT, RSR, USDT, AUSDT] } }, [
+      coll(USDC, 'USDC', { status: 'DISABLED' }),
+      coll(EURT, 'EURT', { targetName: 'EUR' }),
+      coll(USDT, 'USDT', { refPerTok: '0' }),
+    ])
+    expect(simulateBasket(snap).erc20s).to.eql([DAI, ADAI, CDAI, AUSDT])
+  })
+
+  it('adds to the weight of backup tokens already in the basket', () => {
+    const snap = snapshot({ USD: { max: 2, erc20s: [DAI, USDT] } }, [
+      coll(USDC, 'USDC', { status: 'DISABLED' }),
+    ])
+    const simulated = simulateBasket(snap)
+    expect(simulated.erc20s).to.eql([DAI, ADAI, CDAI, USDT])
+    expect(simulated.refAmts).to.eql([
+      fp('0.375').toString(),
+      quarter,
+      quarter,
+      fp('0.125').toString(),
+    ])
+  })
+
+  it('rounds weights up into the reference unit of each backup', () => {
+    const snap = snapshot({ USD: { max: 2, erc20s: [USDT, AUSDT] } }, [
+      coll(USDC, 'USDC', { status: 'DISABLED' }),
+      coll(USDT, 'USDT', { targetPerRef: fp('3').toString() }),
+    ])
+    const simulated = simulateBasket(snap)
+    expect(simulated.refAmts.slice(3)).to.eql(['41666666666666667', fp('0.125').toString()])
+  })
+
+  it('keeps the basket when a target has no good backup', () => {
+    const snap = snapshot({ USD: { max: 1, erc20s: [USDT] } }, [
+      coll(USDC, 'USDC', { status: 'DISABLED' }),
+      coll(USDT, 'USDT', { status: 'DISABLED' }),
+    ])
+    const simulated = simulateBasket(snap)
+    expect(simulated.disabled).to.equal(true)
+    expect(simulated.nonce).to.equal(2)
+    expect(simulated.erc20s).to.eql(snap.basket.erc20s)
+    expect(simulated.refAmts).to.eql(snap.basket.refAmts)
+    expect(simulated.targets[0].backupERC20s).to.eql([])
+
+    // Neither is a backup config needed when all the prime collateral is good
+    expect(simulateBasket(snapshot({})).disabled).to.equal(false)
+  })
+
+  it('selects backups for each target name', () => {
+    const half = fp('0.5').toString()
+    const snap: IBasketSnapshot = {
+      ...snapshot({ EUR: { max: 1, erc20s: [EURS] } }, [
+        coll(EURT, 'EURT', { targetName: 'EUR', status: 'DISABLED' }),
+        coll(EURS, 'EURS', { targetName: 'EUR' }),
+      ]),
+      primeBasket: { erc20s: [DAI, EURT], targetAmts: [half, half], targetNames: ['USD', 'EUR'] },
+    }
+    const simulated = simulateBasket(snap)
+    expect(simulated.erc20s).to.eql([DAI, EURS])
+    expect(simulated.refAmts).to.eql([half, half])
+    expect(simulated.targets.map((t) => [t.targetName, t.backup])).to.eql([
+      ['USD', '0'],
+      ['EUR', half],
+    ])
+
+    // With the USD collateral defaulted instead, there is no USD backup
+    snap.collateral = snap.collateral.map((c) =>
+      c.erc20 == DAI
+        ? { ...c, status: 'DISABLED' }
+        : c.erc20 == EURT
+        ? { ...c, status: 'SOUND' }
+        : c
+    )
+    expect(simulateBasket(snap).disabled).to.equal(true)
+  })
+})
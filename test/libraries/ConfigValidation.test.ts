@@ -0,0 +1,163 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import {
+  assertValidRToken,
+  validateConfig,
+  validateGovParams,
+  validateRTokenConfig,
+  validateRTokenSetup,
+} from '../../common/config-validation'
+import { IConfig, IGovParams, IRTokenConfig, IRTokenSetup } from '../../common/configuration'
+import { bn, fp } from '../../common/numbers'
+
+const addr = (n: number) => ethers.utils.getAddress(`0x${n.toString(16).padStart(40, '0')}`)
+
+describe('config validation', () => {
+  let config: IConfig
+  let rTokenConfig: IRTokenConfig
+  let setup: IRTokenSetup
+  let gov: IGovParams
+
+  beforeEach(() => {
+    config = {
+      dist: { rTokenDist: bn(40), rsrDist: bn(60) },
+      minTradeVolume: fp('1e4'), // $10k
+      rTokenMaxTradeVolume: fp('1e6'), // $1M
+      shortFreeze: bn('259200'), // 3 days
+      longFreeze: bn('2592000'), // 30 days
+      rewardPeriod: bn('604800'), // 1 week
+      rewardRatio: fp('0.02284'),
+      unstakingDelay: bn('1209600'), // 2 weeks
+      tradingDelay: bn('0'),
+      auctionLength: bn('900'), // 15 minutes
+      backingBuffer: fp('0.0001'), // 0.01%
+      maxTradeSlippage: fp('0.01'), // 1%
+      issuanceRate: fp('0.00025'),
+      scalingRedemptionRate: fp('0.05'), // 5%
+      redemptionRateFloor: fp('1e6'), // 1M RToken
+    }
+    rTokenConfig = { name: 'RToken', symbol: 'RTKN', mandate: 'mandate', params: config }
+    setup = {
+      assets: [addr(1)],
+      primaryBasket: [addr(2), addr(3)],
+      weights: [fp('0.5'), fp('0.5')],
+      backups: [
+        {
+          backupUnit: ethers.utils.formatBytes32String('USD'),
+          diversityFactor: bn(1),
+          backupCollateral: [addr(4)],
+        },
+      ],
+      beneficiaries: [{ beneficiary: addr(5), revShare: { rTokenDist: bn(1), rsrDist: bn(0) } }],
+    }
+    gov = {
+      votingDelay: bn(5),
+      votingPeriod: bn(100),
+      proposalThresholdAsMicroPercent: bn(1e6), // 1%
+      quorumPercent: bn(4),
+      timelockDelay: bn(86400),
+    }
+  })
+
+  it('accepts a valid configuration', () => {
+    expect(validateRTokenConfig(rTokenConfig)).to.eql([])
+    expect(validateRTokenSetup(setup)).to.eql([])
+    expect(validateGovParams(gov)).to.eql([])
+    expect(() => assertValidRToken(rTokenConfig, setup, gov)).to.not.throw()
+  })
+
+  it('accepts values at the bounds', () => {
+    config.shortFreeze = bn('2592000') // 30 days
+    config.longFreeze = bn('31536000') // 1 year
+    config.unstakingDelay = bn('31536000') // 1 year
+    config.auctionLength = bn('604800') // 1 week
+    config.backingBuffer = fp('1')
+    config.rewardRatio = fp('1')
+    config.issuanceRate = fp('1')
+    config.minTradeVolume = fp('1e11')
+    gov.quorumPercent = bn(100)
+    expect(validateConfig(config)).to.eql([])
+    expect(validateGovParams(gov)).to.eql([])
+  })
+
+  it('reports every violation of IConfig at once, with units', () => {
+    config.maxTradeSlippage = fp('1')
+    config.auctionLength = bn('0')
+    config.shortFreeze = bn('2592001')
+    config.backingBuffer = fp('1.5')
+    config.rTokenMaxTradeVolume = bn(0)
+    config.dist = { rTokenDist: bn(0), rsrDist: bn(0) }
+
+    expect(validateConfig(config)).to.eql([
+      'params.dist distributes nothing, rTokenDist or rsrDist must be nonzero',
+      'params.rTokenMaxTradeVolume is $0.0, must be more than $0.0',
+      'params.shortFreeze is 2592001s (30 days), must be at most 2592000s (30 days)',
+      'params.auctionLength is 0s, must be more than 0s',
+      'params.backingBuffer is 150.0%, must be at most 100.0%',
+      'params.maxTradeSlippage is 100.0%, must be less than 100.0%',
+    ])
+  })
+
+  it('checks the reward period against the unstaking delay', () => {
+    config.rewardPeriod = bn('864000') // 10 days
+    expect(validateConfig(config)).to.eql([
+      'params.unstakingDelay is 1209600s (14 days), must be at least twice params.rewardPeriod ' +
+        '(864000s (10 days))',
+    ])
+  })
+
+  it('checks revenue shares', () => {
+    config.dist = { rTokenDist: bn(10001), rsrDist: bn(0) }
+    expect(validateConfig(config)).to.eql([
+      'params.dist.rTokenDist is 10001 shares, must be at most 10000 shares',
+    ])
+  })
+
+  it('checks names', () => {
+    rTokenConfig.symbol = ''
+    expect(validateRTokenConfig(rTokenConfig)).to.eql(['symbol is empty'])
+  })
+
+  it('checks the RToken setup', () => {
+    setup.primaryBasket = [addr(2), addr(2), ethers.constants.AddressZero]
+    setup.weights = [fp('0'), fp('1001')]
+    setup.backups[0].backupCollateral = []
+    setup.beneficiaries[0].revShare = { rTokenDist: bn(0), rsrDist: bn(0) }
+
+    expect(validateRTokenSetup(setup)).to.eql([
+      'primaryBasket has 3 collateral but weights has 2 entries',
+      'primaryBasket[2] is the zero address',
+      'primaryBasket contains duplicates',
+      'weights[0] is 0.0 target units, must be more than 0.0 target units',
+      'weights[1] is 1001.0 target units, must be at most 1000.0 target units',
+      'weights sum is 1001.0 target units, must be at most 1000.0 target units',
+      'backups[0].backupCollateral is empty',
+      'beneficiaries[0].revShare distributes nothing, rTokenDist or rsrDist must be nonzero',
+    ])
+
+    setup.primaryBasket = []
+    setup.weights = []
+    expect(validateRTokenSetup(setup)[0]).to.equal('primaryBasket is empty')
+  })
+
+  it('checks governance params', () => {
+    gov.votingPeriod = bn(0)
+    gov.quorumPercent = bn(101)
+    gov.proposalThresholdAsMicroPercent = bn(2e8)
+    expect(validateGovParams(gov)).to.eql([
+      'votingPeriod is 0 blocks, must be more than 0 blocks',
+      'proposalThresholdAsMicroPercent is 200%, must be at most 100%',
+      'quorumPercent is 101%, must be at most 100%',
+    ])
+  })
+
+  it('throws with all violations', () => {
+    config.auctionLength = bn(0)
+    gov.votingPeriod = bn(0)
+    expect(() => assertValidRToken(rTokenConfig, setup, gov)).to.throw(
+      'Invalid configuration for RToken RTKN:\n' +
+        '  params.auctionLength is 0s, must be more than 0s\n' +
+        '  votingPeriod is 0 blocks, must be more than 0 blocks'
+    )
+  })
+})
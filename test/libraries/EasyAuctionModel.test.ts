@@ -0,0 +1,124 @@
+import { expect } from 'chai'
+import { BigNumber } from 'ethers'
+import { bn, fp } from '../../common/numbers'
+import {
+  bidOrder,
+  clearAuction,
+  decodeOrder,
+  encodeOrder,
+  IAuction,
+  IOrder,
+  minimumPrice,
+  prevOrder,
+  QUEUE_START,
+  sortOrders,
+} from '../../common/easy-auction'
+
+// The cases of settleAuction() in EasyAuction.sol, with small amounts to follow them by hand
+describe('EasyAuction model', () => {
+  const order = (userId: number, buyAmount: number, sellAmount: number): IOrder => ({
+    userId,
+    buyAmount: bn(buyAmount),
+    sellAmount: bn(sellAmount),
+  })
+
+  // 100 auctioning tokens, for at least 40 bidding tokens
+  const auction = (fields: Partial<IAuction> = {}): IAuction => ({
+    auctionId: 1,
+    auctioningToken: '0x' + '1'.padStart(40, '0'),
+    biddingToken: '0x' + '2'.padStart(40, '0'),
+    orderCancellationEndDate: 1000,
+    auctionEndDate: 1000,
+    auctioneer: order(1, 40, 100),
+    minimumBiddingAmountPerOrder: bn(1),
+    minFundingThreshold: bn(0),
+    feeNumerator: bn(0),
+    ...fields,
+  })
+
+  const amounts = (values: BigNumber[]) => values.map((v) => v.toNumber())
+
+  it('encodes orders as EasyAuction does', () => {
+    expect(encodeOrder(order(0, 0, 1))).to.equal(QUEUE_START)
+    const encoded = encodeOrder(order(3, 1e9, 7))
+    expect(encoded.length).to.equal(66)
+    expect(decodeOrder(encoded)).to.eql(order(3, 1e9, 7))
+  })
+
+  it('sorts orders by price, then amount, then user', () => {
+    const [a, b, c, d] = [order(2, 50, 60), order(3, 100, 50), order(4, 25, 30), order(5, 25, 30)]
+    expect(sortOrders([b, d, a, c])).to.eql([c, d, a, b])
+    expect(() => sortOrders([c, order(4, 25, 30)])).to.throw(
+      'user is not allowed to place same order twice'
+    )
+    expect(prevOrder([a, b, c], d)).to.equal(encodeOrder(c))
+    expect(prevOrder([a, b], c)).to.equal(QUEUE_START)
+  })
+
+  it('clears by a partial match of an order', () => {
+    const [a, b] = [order(2, 40, 40), order(3, 80, 60)]
+    const clearing = clearAuction(auction(), [b, a])
+    expect(clearing.clearingPriceOrder).to.equal(b)
+    expect(clearing.volumeClearingPriceOrder).to.equal(35)
+    expect(clearing.soldAuctioningTokens).to.equal(100)
+    expect(clearing.soldBiddingTokens).to.equal(75)
+    expect(clearing.fills.map((f) => f.order)).to.eql([a, b])
+    expect(amounts(clearing.fills.map((f) => f.auctioningTokens))).to.eql([53, 46])
+    expect(amounts(clearing.fills.map((f) => f.biddingTokens))).to.eql([0, 25])
+    expect(clearing.auctioneer.biddingTokens).to.equal(75)
+    expect(clearing.auctioneer.auctioningTokens).to.equal(0)
+  })
+
+  it('clears at a price between two orders', () => {
+    const clearing = clearAuction(auction(), [order(2, 50, 60), order(3, 100, 50)])
+    expect(clearing.clearingPriceOrder).to.eql(order(0, 100, 60))
+    expect(amounts(clearing.fills.map((f) => f.auctioningTokens))).to.eql([100, 0])
+    expect(amounts(clearing.fills.map((f) => f.biddingTokens))).to.eql([0, 50])
+    expect(clearing.auctioneer.biddingTokens).to.equal(60)
+  })
+
+  it('clears above the last order when the auction is undersubscribed', () => {
+    const clearing = clearAuction(auction(), [order(2, 50, 60)])
+    expect(clearing.clearingPriceOrder).to.eql(order(0, 100, 60))
+    expect(clearing.soldAuctioningTokens).to.equal(100)
+    expect(clearing.fills[0].auctioningTokens).to.equal(100)
+  })
+
+  it('partially fills the auction at its minimum price, less any fees', () => {
+    const clearing = clearAuction(auction(), [order(2, 20, 30)])
+    expect(clearing.clearingPriceOrder).to.eql(order(0, 100, 40))
+    expect(clearing.soldAuctioningTokens).to.equal(75)
+    expect(clearing.fills[0].auctioningTokens).to.equal(75)
+    expect(clearing.auctioneer.auctioningTokens).to.equal(25)
+    expect(clearing.auctioneer.biddingTokens).to.equal(30)
+
+    // The fee on the unsold part returns to the auctioneer
+    const withFees = clearAuction(auction({ feeNumerator: bn(40) }), [order(2, 20, 30)])
+    expect(withFees.auctioneer.auctioningTokens).to.equal(26)
+
+    // Below the minimum funding, all orders are refunded
+    const unfunded = clearAuction(auction({ minFundingThreshold: bn(50) }), [order(2, 20, 30)])
+    expect(unfunded.minFundingThresholdNotReached).to.equal(true)
+    expect(unfunded.fills[0].biddingTokens).to.equal(30)
+    expect(unfunded.auctioneer.auctioningTokens).to.equal(100)
+
+    // Without any orders
+    const empty = clearAuction(auction(), [])
+    expect(empty.soldAuctioningTokens).to.equal(0)
+    expect(empty.auctioneer.auctioningTokens).to.equal(100)
+  })
+
+  it('prices bids, and rejects those EasyAuction would', () => {
+    const big = auction({ auctioneer: order(1, 40e6, 100e6) })
+    expect(minimumPrice(big)).to.equal(fp('0.4'))
+
+    // Rounds the bidding tokens up
+    expect(bidOrder(big, 2, bn(1e6 + 1), fp('0.5'))).to.eql(order(2, 1e6 + 1, 500001))
+    expect(() => bidOrder(big, 2, bn(1e6), fp('0.4'))).to.throw(
+      'The bid is not above the minimum price of the auction'
+    )
+    expect(() =>
+      bidOrder({ ...big, minimumBiddingAmountPerOrder: bn(1e6) }, 2, bn(1e6), fp('0.5'))
+    ).to.throw('The bid is too small for the auction')
+  })
+})
@@ -0,0 +1,94 @@
+import { expect } from 'chai'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { EventStore, IIndexedEvent } from '../../common/event-store'
+
+describe('Event store', () => {
+  let dir: string
+
+  const event = (
+    block: number,
+    name: string,
+    args: IIndexedEvent['args'] = {},
+    component = 'RToken'
+  ): IIndexedEvent => ({
+    block,
+    logIndex: 0,
+    txHash: '0x' + block.toString(16).padStart(64, '0'),
+    timestamp: 1660000000 + block * 12,
+    component,
+    contract: component == 'RToken' ? '0x' + '11'.repeat(20) : '0x' + '22'.repeat(20),
+    event: name,
+    args,
+  })
+
+  beforeEach(() => {
+    dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'event-store-')), 'rtoken')
+  })
+
+  afterEach(() => {
+    for (const file of fs.readdirSync(dir)) fs.unlinkSync(path.join(dir, file))
+    fs.rmdirSync(dir)
+    fs.rmdirSync(path.dirname(dir))
+  })
+
+  it('appends events and resumes from the last indexed block', () => {
+    expect(() => EventStore.open(dir)).to.throw('No events indexed')
+    const store = EventStore.open(dir, 100)
+    expect(store.lastBlock).to.equal(99)
+
+    store.append([event(100, 'Issuance'), event(105, 'Melted')], 110)
+    expect(() => store.append([event(110, 'Melted')], 120)).to.throw('outside of 111-120')
+
+    const reopened = EventStore.open(dir, 100)
+    expect(reopened.lastBlock).to.equal(110)
+    expect(reopened.query().map((e) => e.event)).to.eql(['Issuance', 'Melted'])
+    expect(reopened.query({ fromBlock: 101 }).map((e) => e.block)).to.eql([105])
+    expect(() => EventStore.open(dir, 50)).to.throw('indexed from block 100, after 50')
+  })
+
+  it('drops events past the last indexed block, and torn lines, when reopened', () => {
+    const store = EventStore.open(dir, 100)
+    store.append([event(100, 'Issuance')], 100)
+
+    // As left by a sync interrupted before advancing lastBlock
+    fs.appendFileSync(store.eventsPath, JSON.stringify(event(101, 'Redemption')) + '\n{"blo')
+
+    const reopened = EventStore.open(dir)
+    expect(reopened.query().map((e) => e.event)).to.eql(['Issuance'])
+    reopened.append([event(101, 'Redemption')], 101)
+    expect(reopened.query().map((e) => e.event)).to.eql(['Issuance', 'Redemption'])
+  })
+
+  it('joins trades with their settlements', () => {
+    const store = EventStore.open(dir, 1)
+    const trade = { trade: '0x' + 'aa'.repeat(20), sell: '0xsell', buy: '0xbuy' }
+    store.append(
+      [
+        event(1, 'TradeSettled', { ...trade, sellAmount: '5', buyAmount: '4' }, 'BackingManager'),
+        event(2, 'TradeStarted', { ...trade, sellAmount: '10', minBuyAmount: '9' }, 'RSRTrader'),
+        event(3, 'Issuance'),
+        event(4, 'TradeSettled', { ...trade, sellAmount: '10', buyAmount: '9.5' }, 'RSRTrader'),
+      ],
+      4
+    )
+
+    expect(store.trades()).to.eql([
+      {
+        trader: 'RSRTrader',
+        trade: trade.trade,
+        sell: '0xsell',
+        buy: '0xbuy',
+        sellAmount: '10',
+        minBuyAmount: '9',
+        startBlock: 2,
+        startTxHash: event(2, '').txHash,
+        settleBlock: 4,
+        buyAmount: '9.5',
+      },
+    ])
+    expect(store.trades({ toBlock: 3 })[0].settleBlock).to.equal(undefined)
+    expect(store.trades({ component: 'BackingManager' })).to.eql([])
+  })
+})
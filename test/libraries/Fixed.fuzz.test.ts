@@ -4,17 +4,14 @@ import { ethers } from 'hardhat'
 import fc from 'fast-check'
 
 // import { bn } from '../../common/numbers'
+import { RoundingMode } from '../../common/constants'
+import { abs as fixAbs, divRnd, fix, Fix, mulDiv256 } from '../../common/fixed'
 import { FixedCallerMock } from '../../typechain/FixedCallerMock'
+import { expectRevertAsFix } from '../utils/fixed'
 
 // These tests are doing basically everything in bigint arithmetic, instead of ethers.BigNumber
 // Much easier to work with fast-check this way -- but, frankly, just much easier to work this way!
 
-enum RoundingMode {
-  FLOOR,
-  ROUND,
-  CEIL,
-}
-
 // useful constants
 const FLOOR = RoundingMode.FLOOR
 const ROUND = RoundingMode.ROUND
@@ -177,6 +174,27 @@ async function ternaryRndOp(
   )
 }
 
+// Differential: the Fix mirror must return exactly what FixLib returns, and throw where it reverts
+async function sameAsFix<T extends unknown[]>(
+  args: fc.Arbitrary<T>,
+  solFn: (...args: T) => Promise<BigNumber>,
+  fixFn: (...args: T) => BigNumber | Fix
+) {
+  await fc.assert(
+    fc.asyncProperty(args, async (args) => {
+      let expected: BigNumber
+      try {
+        const result = fixFn(...args)
+        expected = result instanceof Fix ? result.toBigNumber() : result
+      } catch (e) {
+        await expectRevertAsFix(solFn(...args), e, `${args}`)
+        return
+      }
+      expect(await solFn(...args)).to.equal(expected)
+    })
+  )
+}
+
 describe('FixLib Fuzzing', () => {
   let caller: FixedCallerMock
 
@@ -432,3 +450,133 @@ describe('FixLib Fuzzing', () => {
     expect(actual).to.equal(1n)
   })
 })
+
+describe('Fix mirror vs FixLib Fuzzing', () => {
+  let caller: FixedCallerMock
+
+  before(async () => {
+    const FixedCaller = await ethers.getContractFactory('FixedCallerMock')
+    caller = await (<Promise<FixedCallerMock>>FixedCaller.deploy())
+  })
+
+  // int8 decimals, as numbers
+  const arbDecimals = fc.integer({ min: -128, max: 127 })
+  const arbRounding = arbRnd.map((r) => <RoundingMode>r)
+
+  it('toFix(uint256)', async () => {
+    await sameAsFix(fc.tuple(arbInt(256)), caller.toFix_, (x) => Fix.toFix(x))
+  })
+  it('shiftl_toFix(uint256, int8, rnd)', async () => {
+    await sameAsFix(
+      fc.tuple(arbInt(256), arbDecimals, arbRounding),
+      caller.shiftl_toFix_Rnd,
+      (x, d, r) => Fix.shiftl_toFix(x, d, r)
+    )
+  })
+  it('divFix(uint256, uint192)', async () => {
+    await sameAsFix(fc.tuple(arbInt(256), arbInt(192)), caller.divFix_, (x, y) =>
+      Fix.divFix(x, fix(y))
+    )
+  })
+  it('divuu(uint256, uint256)', async () => {
+    await sameAsFix(fc.tuple(arbInt(256), arbInt(256)), caller.divuu_, Fix.divuu)
+  })
+  it('abs(int256)', async () => {
+    await sameAsFix(fc.tuple(arbInt(-256)), caller.abs_, fixAbs)
+  })
+  it('_divrnd(uint256, uint256, rnd)', async () => {
+    await sameAsFix(fc.tuple(arbInt(256), arbInt(256), arbRounding), caller.divrnd_, divRnd)
+  })
+  it('toUint(uint192, rnd)', async () => {
+    await sameAsFix(fc.tuple(arbInt(192), arbRounding), caller.toUintRnd, (x, r) =>
+      fix(x).toUint(r)
+    )
+  })
+  it('shiftl(uint192, int8, rnd)', async () => {
+    await sameAsFix(fc.tuple(arbInt(192), arbDecimals, arbRounding), caller.shiftlRnd, (x, d, r) =>
+      fix(x).shiftl(d, r)
+    )
+  })
+  it('plus(uint192, uint192)', async () => {
+    await sameAsFix(fc.tuple(arbInt(192), arbInt(192)), caller.plus, (x, y) => fix(x).plus(fix(y)))
+  })
+  it('plusu(uint192, uint256)', async () => {
+    await sameAsFix(fc.tuple(arbInt(192), arbInt(256)), caller.plusu, (x, y) => fix(x).plusu(y))
+  })
+  it('minus(uint192, uint192)', async () => {
+    await sameAsFix(fc.tuple(arbInt(192), arbInt(192)), caller.minus, (x, y) =>
+      fix(x).minus(fix(y))
+    )
+  })
+  it('minusu(uint192, uint256)', async () => {
+    await sameAsFix(fc.tuple(arbInt(192), arbInt(256)), caller.minusu, (x, y) => fix(x).minusu(y))
+  })
+  it('mul(uint192, uint192, rnd)', async () => {
+    await sameAsFix(fc.tuple(arbInt(192), arbInt(192), arbRounding), caller.mulRnd, (x, y, r) =>
+      fix(x).mul(fix(y), r)
+    )
+  })
+  it('mulu(uint192, uint256)', async () => {
+    await sameAsFix(fc.tuple(arbInt(192), arbInt(256)), caller.mulu, (x, y) => fix(x).mulu(y))
+  })
+  it('div(uint192, uint192, rnd)', async () => {
+    await sameAsFix(fc.tuple(arbInt(192), arbInt(192), arbRounding), caller.divRnd, (x, y, r) =>
+      fix(x).div(fix(y), r)
+    )
+  })
+  it('divu(uint192, uint256, rnd)', async () => {
+    await sameAsFix(fc.tuple(arbInt(192), arbInt(256), arbRounding), caller.divuRnd, (x, y, r) =>
+      fix(x).divu(y, r)
+    )
+  })
+  it('powu(uint192, uint48)', async () => {
+    // Unlike the FixLib fuzz test above, this compares exactly, so x > 1 must throw too
+    await sameAsFix(
+      fc.tuple(fc.bigUint(10n ** 18n + 1n), fc.integer({ min: 0, max: 2 ** 12 })),
+      caller.powu,
+      (x, y) => fix(x).powu(y)
+    )
+  })
+  it('shiftl_toUint(uint192, int8, rnd)', async () => {
+    await sameAsFix(
+      fc.tuple(arbInt(192), arbDecimals, arbRounding),
+      caller.shiftl_toUintRnd,
+      (x, d, r) => fix(x).shiftl_toUint(d, r)
+    )
+  })
+  it('mulu_toUint(uint192, uint256, rnd)', async () => {
+    await sameAsFix(
+      fc.tuple(arbInt(192), arbInt(256), arbRounding),
+      caller.mulu_toUintRnd,
+      (x, y, r) => fix(x).mulu_toUint(y, r)
+    )
+  })
+  it('mul_toUint(uint192, uint192, rnd)', async () => {
+    await sameAsFix(
+      fc.tuple(arbInt(192), arbInt(192), arbRounding),
+      caller.mul_toUintRnd,
+      (x, y, r) => fix(x).mul_toUint(fix(y), r)
+    )
+  })
+  it('muluDivu(uint192, uint256, uint256, rnd)', async () => {
+    await sameAsFix(
+      fc.tuple(arbInt(192), arbInt(256), arbInt(256), arbRounding),
+      caller.muluDivuRnd,
+      (x, y, z, r) => fix(x).muluDivu(y, z, r)
+    )
+  })
+  it('mulDiv(uint192, uint192, uint192, rnd)', async () => {
+    await sameAsFix(
+      fc.tuple(arbInt(192), arbInt(192), arbInt(192), arbRounding),
+      caller.mulDivRnd,
+      (x, y, z, r) => fix(x).mulDiv(fix(y), fix(z), r)
+    )
+  })
+  it('mulDiv256(uint256, uint256, uint256, rnd)', async () => {
+    await sameAsFix(
+      fc.tuple(arbInt(256), arbInt(256), arbInt(256), arbRounding),
+      caller.mulDiv256Rnd_,
+      mulDiv256
+    )
+  })
+})
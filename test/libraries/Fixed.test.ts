@@ -2,15 +2,11 @@ import { expect } from 'chai'
 import { ContractFactory, BigNumber } from 'ethers'
 import { ethers } from 'hardhat'
 
-import { BN_SCALE_FACTOR } from '../../common/constants'
+import { BN_SCALE_FACTOR, MAX_UINT256, RoundingMode } from '../../common/constants'
+import { abs, divRnd, fix, Fix, fullMul, mulDiv256 } from '../../common/fixed'
 import { bn, fp, pow10, fpCeil, fpFloor, fpRound, div, shortString } from '../../common/numbers'
 import { FixedCallerMock } from '../../typechain/FixedCallerMock'
-
-enum RoundingMode {
-  FLOOR,
-  ROUND,
-  CEIL,
-}
+import { expectRevertAsFix } from '../utils/fixed'
 
 const FLOOR = RoundingMode.FLOOR
 const ROUND = RoundingMode.ROUND
@@ -1004,4 +1000,300 @@ describe('In FixLib,', () => {
       expect(hi).to.equal(bn(0))
     })
   })
+
+  // Differential tests against common/fixed.ts: over every combination of edge values, Fix must
+  // return exactly what FixLib returns, and throw exactly where FixLib reverts
+  describe('the Fix mirror', () => {
+    const RNDS = [FLOOR, ROUND, CEIL]
+    const fixes = [...uint192s, fp(0.5), fp(2)]
+    const uints = [...fixes, MAX_FIX_UINT, MAX_FIX_UINT.add(1), MAX_UINT256.div(SCALE), MAX_UINT256]
+    const ints = [bn(0), bn(-1), MAX_UINT256.div(2), MAX_UINT256.div(2).add(1).mul(-1)]
+    const decimals = [-128, -96, -95, -59, -58, -42, -41, -18, -1, 0, 1, 18, 39, 40, 57, 58, 95, 96]
+    // ternary ops take |values|^3 calls, so they use fewer values
+    const fewFixes = [bn(0), bn(1), fp(0.5), fp(1), MAX_UINT192]
+    const fewUints = [bn(0), bn(1), fp(1), MAX_UINT192, MAX_UINT256]
+
+    const expectSame = async (
+      label: string,
+      sol: () => Promise<BigNumber | boolean>,
+      ts: () => BigNumber | Fix | boolean
+    ) => {
+      let expected: BigNumber | boolean
+      try {
+        const result = ts()
+        expected = result instanceof Fix ? result.toBigNumber() : result
+      } catch (e) {
+        await expectRevertAsFix(sol(), e, label)
+        return
+      }
+      expect(await sol(), label).to.equal(expected)
+    }
+
+    it('matches the conversions', async () => {
+      for (const x of uints) {
+        await expectSame(
+          `toFix(${x})`,
+          () => caller.toFix_(x),
+          () => Fix.toFix(x)
+        )
+        for (const d of decimals) {
+          await expectSame(
+            `shiftl_toFix(${x}, ${d})`,
+            () => caller.shiftl_toFix_(x, d),
+            () => Fix.shiftl_toFix(x, d)
+          )
+          for (const r of RNDS) {
+            await expectSame(
+              `shiftl_toFix(${x}, ${d}, ${r})`,
+              () => caller.shiftl_toFix_Rnd(x, d, r),
+              () => Fix.shiftl_toFix(x, d, r)
+            )
+          }
+        }
+        for (const y of fixes) {
+          await expectSame(
+            `divFix(${x}, ${y})`,
+            () => caller.divFix_(x, y),
+            () => Fix.divFix(x, fix(y))
+          )
+        }
+        for (const y of uints) {
+          await expectSame(
+            `divuu(${x}, ${y})`,
+            () => caller.divuu_(x, y),
+            () => Fix.divuu(x, y)
+          )
+          for (const r of RNDS) {
+            await expectSame(
+              `_divrnd(${x}, ${y}, ${r})`,
+              () => caller.divrnd_(x, y, r),
+              () => divRnd(x, y, r)
+            )
+          }
+        }
+      }
+      for (const x of ints) {
+        await expectSame(
+          `abs(${x})`,
+          () => caller.abs_(x),
+          () => abs(x)
+        )
+      }
+    })
+
+    it('matches the unary ops', async () => {
+      for (const x of fixes) {
+        await expectSame(
+          `toUint(${x})`,
+          () => caller.toUint(x),
+          () => fix(x).toUint()
+        )
+        for (const r of RNDS) {
+          await expectSame(
+            `toUint(${x}, ${r})`,
+            () => caller.toUintRnd(x, r),
+            () => fix(x).toUint(r)
+          )
+        }
+        for (const d of decimals) {
+          await expectSame(
+            `shiftl(${x}, ${d})`,
+            () => caller.shiftl(x, d),
+            () => fix(x).shiftl(d)
+          )
+          await expectSame(
+            `shiftl_toUint(${x}, ${d})`,
+            () => caller.shiftl_toUint(x, d),
+            () => fix(x).shiftl_toUint(d)
+          )
+          for (const r of RNDS) {
+            await expectSame(
+              `shiftl(${x}, ${d}, ${r})`,
+              () => caller.shiftlRnd(x, d, r),
+              () => fix(x).shiftl(d, r)
+            )
+            await expectSame(
+              `shiftl_toUint(${x}, ${d}, ${r})`,
+              () => caller.shiftl_toUintRnd(x, d, r),
+              () => fix(x).shiftl_toUint(d, r)
+            )
+          }
+        }
+        for (const y of [0, 1, 2, 3, 10, 255, 256, 2 ** 48 - 1]) {
+          await expectSame(
+            `powu(${x}, ${y})`,
+            () => caller.powu(x, y),
+            () => fix(x).powu(y)
+          )
+        }
+      }
+    })
+
+    it('matches the binary ops on Fixes', async () => {
+      for (const x of fixes) {
+        for (const y of fixes) {
+          const [a, b] = [fix(x), fix(y)]
+          await expectSame(
+            `plus(${x}, ${y})`,
+            () => caller.plus(x, y),
+            () => a.plus(b)
+          )
+          await expectSame(
+            `minus(${x}, ${y})`,
+            () => caller.minus(x, y),
+            () => a.minus(b)
+          )
+          await expectSame(
+            `mul(${x}, ${y})`,
+            () => caller.mul(x, y),
+            () => a.mul(b)
+          )
+          await expectSame(
+            `div(${x}, ${y})`,
+            () => caller.div(x, y),
+            () => a.div(b)
+          )
+          await expectSame(
+            `mul_toUint(${x}, ${y})`,
+            () => caller.mul_toUint(x, y),
+            () => a.mul_toUint(b)
+          )
+          for (const r of RNDS) {
+            await expectSame(
+              `mul(${x}, ${y}, ${r})`,
+              () => caller.mulRnd(x, y, r),
+              () => a.mul(b, r)
+            )
+            await expectSame(
+              `div(${x}, ${y}, ${r})`,
+              () => caller.divRnd(x, y, r),
+              () => a.div(b, r)
+            )
+            await expectSame(
+              `mul_toUint(${x}, ${y}, ${r})`,
+              () => caller.mul_toUintRnd(x, y, r),
+              () => a.mul_toUint(b, r)
+            )
+          }
+
+          expect(await caller.lt(x, y)).to.equal(a.lt(b))
+          expect(await caller.lte(x, y)).to.equal(a.lte(b))
+          expect(await caller.gt(x, y)).to.equal(a.gt(b))
+          expect(await caller.gte(x, y)).to.equal(a.gte(b))
+          expect(await caller.eq(x, y)).to.equal(a.eq(b))
+          expect(await caller.neq(x, y)).to.equal(a.neq(b))
+          for (const epsilon of fewFixes) {
+            expect(await caller.near(x, y, epsilon), `near(${x}, ${y}, ${epsilon})`).to.equal(
+              a.near(b, fix(epsilon))
+            )
+          }
+          expect(await caller.fixMin_(x, y)).to.equal(Fix.min(a, b).toBigNumber())
+          expect(await caller.fixMax_(x, y)).to.equal(Fix.max(a, b).toBigNumber())
+        }
+      }
+    })
+
+    it('matches the binary ops on a Fix and a uint', async () => {
+      for (const x of fixes) {
+        for (const y of uints) {
+          const a = fix(x)
+          await expectSame(
+            `plusu(${x}, ${y})`,
+            () => caller.plusu(x, y),
+            () => a.plusu(y)
+          )
+          await expectSame(
+            `minusu(${x}, ${y})`,
+            () => caller.minusu(x, y),
+            () => a.minusu(y)
+          )
+          await expectSame(
+            `mulu(${x}, ${y})`,
+            () => caller.mulu(x, y),
+            () => a.mulu(y)
+          )
+          await expectSame(
+            `divu(${x}, ${y})`,
+            () => caller.divu(x, y),
+            () => a.divu(y)
+          )
+          await expectSame(
+            `mulu_toUint(${x}, ${y})`,
+            () => caller.mulu_toUint(x, y),
+            () => a.mulu_toUint(y)
+          )
+          for (const r of RNDS) {
+            await expectSame(
+              `divu(${x}, ${y}, ${r})`,
+              () => caller.divuRnd(x, y, r),
+              () => a.divu(y, r)
+            )
+            await expectSame(
+              `mulu_toUint(${x}, ${y}, ${r})`,
+              () => caller.mulu_toUintRnd(x, y, r),
+              () => a.mulu_toUint(y, r)
+            )
+          }
+        }
+      }
+    })
+
+    it('matches the ternary ops', async () => {
+      for (const x of fewFixes) {
+        for (const y of fewUints) {
+          for (const z of fewUints) {
+            await expectSame(
+              `muluDivu(${x}, ${y}, ${z})`,
+              () => caller.muluDivu(x, y, z),
+              () => fix(x).muluDivu(y, z)
+            )
+            await expectSame(
+              `mulDiv256(${x}, ${y}, ${z})`,
+              () => caller.mulDiv256_(x, y, z),
+              () => mulDiv256(x, y, z)
+            )
+            for (const r of RNDS) {
+              await expectSame(
+                `muluDivu(${x}, ${y}, ${z}, ${r})`,
+                () => caller.muluDivuRnd(x, y, z, r),
+                () => fix(x).muluDivu(y, z, r)
+              )
+              await expectSame(
+                `mulDiv256(${x}, ${y}, ${z}, ${r})`,
+                () => caller.mulDiv256Rnd_(x, y, z, r),
+                () => mulDiv256(x, y, z, r)
+              )
+            }
+          }
+        }
+        for (const y of fewFixes) {
+          for (const z of fewFixes) {
+            await expectSame(
+              `mulDiv(${x}, ${y}, ${z})`,
+              () => caller.mulDiv(x, y, z),
+              () => fix(x).mulDiv(fix(y), fix(z))
+            )
+            for (const r of RNDS) {
+              await expectSame(
+                `mulDiv(${x}, ${y}, ${z}, ${r})`,
+                () => caller.mulDivRnd(x, y, z, r),
+                () => fix(x).mulDiv(fix(y), fix(z), r)
+              )
+            }
+          }
+        }
+      }
+    })
+
+    it('matches fullMul', async () => {
+      for (const x of uints) {
+        for (const y of uints) {
+          const [hi, lo]: BigNumber[] = await caller.fullMul_(x, y)
+          const [expectedHi, expectedLo] = fullMul(x, y)
+          expect(hi, `fullMul(${x}, ${y}).hi`).to.equal(expectedHi)
+          expect(lo, `fullMul(${x}, ${y}).lo`).to.equal(expectedLo)
+        }
+      }
+    })
+  })
 })
@@ -0,0 +1,31 @@
+import { expect } from 'chai'
+import { Gauges } from '../../common/prometheus'
+
+describe('Prometheus gauges', () => {
+  it('groups samples under their metric, in the order first set', () => {
+    const gauges = new Gauges()
+    gauges.set('reserve_rtoken_total_supply', 'RToken supply {rTok}', { symbol: 'RTKN' }, '100.0')
+    gauges.set('reserve_strsr_exchange_rate', 'StRSR exchange rate {RSR/stRSR}', {}, '1.0')
+    gauges.set('reserve_rtoken_total_supply', 'RToken supply {rTok}', { symbol: 'RTKN2' }, 5)
+
+    expect(gauges.format()).to.equal(
+      [
+        '# HELP reserve_rtoken_total_supply RToken supply {rTok}',
+        '# TYPE reserve_rtoken_total_supply gauge',
+        'reserve_rtoken_total_supply{symbol="RTKN"} 100.0',
+        'reserve_rtoken_total_supply{symbol="RTKN2"} 5',
+        '# HELP reserve_strsr_exchange_rate StRSR exchange rate {RSR/stRSR}',
+        '# TYPE reserve_strsr_exchange_rate gauge',
+        'reserve_strsr_exchange_rate 1.0',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('escapes label values, and rejects invalid names', () => {
+    const gauges = new Gauges()
+    gauges.set('reserve_x', 'x', { symbol: 'a"b\\c\nd' }, 1)
+    expect(gauges.format()).to.include('reserve_x{symbol="a\\"b\\\\c\\nd"} 1')
+    expect(() => gauges.set('reserve-x', 'x', {}, 1)).to.throw('Invalid metric name reserve-x')
+  })
+})
@@ -0,0 +1,82 @@
+import { expect } from 'chai'
+import { BigNumber } from 'ethers'
+import { ethers } from 'hardhat'
+import {
+  buildProposal,
+  getProposalId,
+  IProposalSpec,
+  parseVoteType,
+  VoteType,
+} from '../../common/proposal'
+
+describe('proposal specs', () => {
+  const target = '0x' + '11'.repeat(20)
+  const spec: IProposalSpec = {
+    description: 'Set the unstaking delay to 2 weeks',
+    actions: [
+      { target, signature: 'setUnstakingDelay(uint48)', args: [1209600] },
+      {
+        target,
+        signature: 'setPrimeBasket(address[],uint192[])',
+        args: [[target], ['1']],
+        value: 5,
+      },
+    ],
+  }
+
+  it('builds the arguments of propose(), queue() and execute()', () => {
+    const proposal = buildProposal(spec)
+    const iface = new ethers.utils.Interface([
+      'function setUnstakingDelay(uint48)',
+      'function setPrimeBasket(address[],uint192[])',
+    ])
+
+    expect(proposal.targets).to.eql([
+      ethers.utils.getAddress(target),
+      ethers.utils.getAddress(target),
+    ])
+    expect(proposal.values).to.eql([BigNumber.from(0), BigNumber.from(5)])
+    expect(proposal.calldatas).to.eql([
+      iface.encodeFunctionData('setUnstakingDelay', [1209600]),
+      iface.encodeFunctionData('setPrimeBasket', [[target], ['1']]),
+    ])
+    expect(proposal.descriptionHash).to.equal(ethers.utils.id(spec.description))
+  })
+
+  it('computes the proposal id as Governor.hashProposal() does', async () => {
+    // hashProposal() is pure, so the Governance only needs to deploy
+    const stRSR = await (await ethers.getContractFactory('StRSRP1Votes')).deploy()
+    const timelock = await (await ethers.getContractFactory('TimelockController')).deploy(1, [], [])
+    const governor = await (
+      await ethers.getContractFactory('Governance')
+    ).deploy(stRSR.address, timelock.address, 1, 1, 0, 4)
+
+    const proposal = buildProposal(spec)
+    expect(getProposalId(proposal)).to.equal(
+      await governor.hashProposal(
+        proposal.targets,
+        proposal.values,
+        proposal.calldatas,
+        proposal.descriptionHash
+      )
+    )
+  })
+
+  it('rejects invalid specs', () => {
+    expect(() => buildProposal({ ...spec, description: '' })).to.throw('no description')
+    expect(() => buildProposal({ ...spec, actions: [] })).to.throw('no actions')
+    expect(() =>
+      buildProposal({ ...spec, actions: [{ ...spec.actions[0], target: '0x1234' }] })
+    ).to.throw('actions[0].target is not an address')
+    expect(() =>
+      buildProposal({ ...spec, actions: [{ ...spec.actions[0], args: ['x'] }] })
+    ).to.throw('actions[0] does not encode as setUnstakingDelay(uint48)')
+  })
+
+  it('parses votes', () => {
+    expect(parseVoteType('For')).to.equal(VoteType.For)
+    expect(parseVoteType('against')).to.equal(VoteType.Against)
+    expect(parseVoteType('abstain')).to.equal(VoteType.Abstain)
+    expect(() => parseVoteType('yes')).to.throw("Invalid vote 'yes'")
+  })
+})
@@ -0,0 +1,95 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import {
+  decodeCall,
+  describeChange,
+  diffSnapshots,
+  formatCall,
+  formatStateChange,
+  IComponentAbis,
+  INames,
+} from '../../common/proposal-decoder'
+
+describe('proposal decoder', () => {
+  const basketHandler = '0x' + '11'.repeat(20)
+  const stRSR = '0x' + '22'.repeat(20)
+  const cDAI = '0x' + 'aa'.repeat(20)
+  const aUSDC = '0x' + 'bb'.repeat(20)
+  const owner = ethers.utils.id('OWNER')
+
+  const abis: IComponentAbis = {
+    BasketHandler: new ethers.utils.Interface([
+      'function setPrimeBasket(address[] erc20s, uint192[] targetAmts)',
+    ]),
+    StRSR: new ethers.utils.Interface([
+      'function setUnstakingDelay(uint48 val)',
+      'function setRewardRatio(uint192 val)',
+    ]),
+    Main: new ethers.utils.Interface(['function grantRole(bytes32 role, address account)']),
+  }
+  const names: INames = {
+    [basketHandler]: 'BasketHandler',
+    [stRSR]: 'StRSR',
+    [cDAI]: 'cDAI',
+    [aUSDC]: 'aUSDC',
+    [owner]: 'OWNER',
+  }
+  const snapshot = {
+    BasketHandler: { primeBasket: '[cDAI: 1.0]' },
+    StRSR: { unstakingDelay: '1209600', rewardRatio: '0.000001' },
+  }
+  const fp = ethers.utils.parseEther
+
+  it('decodes calls to named components, formatting uint192 as fixed-point', () => {
+    const calldata = abis.BasketHandler.encodeFunctionData('setPrimeBasket', [
+      [cDAI, aUSDC],
+      [fp('0.5'), fp('0.5')],
+    ])
+    const call = decodeCall(basketHandler, calldata, 0, abis, names)
+
+    expect(call.component).to.equal('BasketHandler')
+    expect(call.method).to.equal('setPrimeBasket')
+    expect(formatCall(call)).to.equal('BasketHandler.setPrimeBasket([cDAI, aUSDC], [0.5, 0.5])')
+    expect(describeChange(call, snapshot, names)).to.equal(
+      'changes primeBasket from [cDAI: 1.0] to [cDAI: 0.5, aUSDC: 0.5]'
+    )
+  })
+
+  it('describes setters against the current state', () => {
+    const decode = (method: string, arg: unknown) =>
+      decodeCall(stRSR, abis.StRSR.encodeFunctionData(method, [arg]), 0, abis, names)
+
+    expect(describeChange(decode('setUnstakingDelay', 1209600), snapshot, names)).to.equal(
+      'leaves unstakingDelay at 1209600'
+    )
+    expect(describeChange(decode('setRewardRatio', fp('0.00001')), snapshot, names)).to.equal(
+      'changes rewardRatio from 0.000001 to 0.00001'
+    )
+  })
+
+  it('decodes unknown targets by selector, and leaves unknown calldata raw', () => {
+    const target = '0x' + '33'.repeat(20)
+    const calldata = abis.Main.encodeFunctionData('grantRole', [owner, stRSR])
+    const call = decodeCall(target, calldata, fp('1'), abis, names)
+    expect(formatCall(call)).to.equal(
+      `${ethers.utils.getAddress(target)}.grantRole(OWNER, StRSR) {value: 1.0 ETH}`
+    )
+    expect(describeChange(call, snapshot, names)).to.equal(undefined)
+
+    const unknown = decodeCall(stRSR, '0xdeadbeef', 0, abis, names)
+    expect(unknown.method).to.equal(undefined)
+    expect(formatCall(unknown)).to.equal('StRSR: unknown calldata 0xdeadbeef')
+  })
+
+  it('diffs state snapshots', () => {
+    const after = {
+      BasketHandler: { primeBasket: '[cDAI: 0.5, aUSDC: 0.5]', nonce: '2' },
+      StRSR: { unstakingDelay: '1209600' },
+    }
+    expect(diffSnapshots(snapshot, after).map(formatStateChange)).to.eql([
+      'BasketHandler.primeBasket: [cDAI: 1.0] -> [cDAI: 0.5, aUSDC: 0.5]',
+      'BasketHandler.nonce: none -> 2',
+      'StRSR.rewardRatio: 0.000001 -> none',
+    ])
+  })
+})
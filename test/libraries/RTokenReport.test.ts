@@ -0,0 +1,69 @@
+import { expect } from 'chai'
+import { formatDuration, formatReport, IRTokenReport } from '../../common/rtoken-report'
+
+describe('RToken reports', () => {
+  const report: IRTokenReport = {
+    rToken: '0x' + '11'.repeat(20),
+    symbol: 'RTKN',
+    block: 100,
+    timestamp: 1660000000,
+    price: '1.0',
+    totalSupply: '1000.0',
+    basketsNeeded: '1000.0',
+    basketsPerRTok: '1.0',
+    paused: false,
+    frozen: false,
+    basket: {
+      status: 'IFFY',
+      fullyCollateralized: true,
+      backing: '1.0',
+      overcollateralization: '0.125',
+      entries: [
+        {
+          erc20: '0x' + 'aa'.repeat(20),
+          symbol: 'cDAI',
+          targetName: 'USD',
+          uoaShare: '1.0',
+          balance: '50000.0',
+          uoaValue: '1000.0',
+        },
+      ],
+    },
+    collateral: [
+      {
+        erc20: '0x' + 'aa'.repeat(20),
+        symbol: 'cDAI',
+        collateral: '0x' + 'bb'.repeat(20),
+        status: 'IFFY',
+        whenDefault: 1660090000,
+        defaultsIn: 90000,
+      },
+    ],
+    trades: [
+      {
+        trader: 'RSRTrader',
+        trade: '0x' + 'cc'.repeat(20),
+        sell: 'cDAI',
+        buy: 'RSR',
+        endTime: 1660000900,
+      },
+    ],
+    redemption: { limit: '25.0', maxCharge: '50.0', charged: '0.5' },
+  }
+
+  it('formats durations', () => {
+    expect(formatDuration(0)).to.equal('now')
+    expect(formatDuration(59)).to.equal('59s')
+    expect(formatDuration(90000)).to.equal('1d 1h')
+    expect(formatDuration(3661)).to.equal('1h 1m 1s')
+  })
+
+  it('prints the IFFY countdown, the open trades and the battery charge', () => {
+    const lines = formatReport(report).split('\n')
+    expect(lines).to.include('  backing: 100.00%, overcollateralization: 12.50%')
+    expect(lines).to.include('  cDAI (USD): 100.00% of the basket, 50000.0 held, worth 1000.0 UoA')
+    expect(lines).to.include('  cDAI: IFFY, defaults in 1d 1h')
+    expect(lines).to.include('  RSRTrader: cDAI -> RSR, ends in 15m')
+    expect(lines).to.include('Redemption battery: 25.0 of 50.0 RTKN (50.00%)')
+  })
+})
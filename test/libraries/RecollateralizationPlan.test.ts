@@ -0,0 +1,148 @@
+import { expect } from 'chai'
+import { BigNumber } from 'ethers'
+import { bn, fp } from '../../common/numbers'
+import {
+  IAssetSnapshot,
+  IRecollateralizationSnapshot,
+  nextRecollateralizationTrade,
+  planRecollateralization,
+} from '../../common/recollateralization'
+
+// The scenarios of Recollateralization.test.ts, on the fixture's configuration
+describe('Recollateralization planner', () => {
+  const address = (n: number) => '0x' + n.toString(16).padStart(40, '0')
+  const [RSR, RTOKEN, DAI, USDC, USDT] = [1, 2, 3, 4, 5].map(address)
+
+  const issueAmount = bn('100e18')
+
+  const asset = (
+    erc20: string,
+    symbol: string,
+    fields: Partial<IAssetSnapshot> = {}
+  ): IAssetSnapshot => ({
+    erc20,
+    symbol,
+    decimals: 18,
+    isCollateral: true,
+    status: 'SOUND',
+    price: fp('1').toString(),
+    isFallback: false,
+    maxTradeVolume: fp('1e6').toString(),
+    quantity: '0',
+    balance: '0',
+    ...fields,
+  })
+
+  // A single-token basket of DAI, switched to `assets`
+  const snapshot = (
+    assets: IAssetSnapshot[],
+    rsrStaked: BigNumber
+  ): IRecollateralizationSnapshot => ({
+    block: 1,
+    rToken: RTOKEN,
+    rsr: RSR,
+    basketStatus: 'SOUND',
+    basketsNeeded: issueAmount.toString(),
+    totalSupply: issueAmount.toString(),
+    rsrStaked: rsrStaked.toString(),
+    maxTradeSlippage: fp('0.01').toString(),
+    minTradeVolume: fp('0.01').toString(),
+    backingBuffer: fp('0.0001').toString(),
+    assets: [
+      asset(RSR, 'RSR', { isCollateral: false }),
+      asset(RTOKEN, 'RTKN', { isCollateral: false }),
+      ...assets,
+    ],
+  })
+
+  const switchToUSDC = (rsrStaked: BigNumber) =>
+    snapshot(
+      [
+        asset(DAI, 'DAI', { balance: issueAmount.toString() }),
+        asset(USDC, 'USDC', { decimals: 6, quantity: fp('1').toString() }),
+      ],
+      rsrStaked
+    )
+
+  it('uses RSR for the remainder when switching basket', () => {
+    const plan = planRecollateralization(switchToUSDC(bn('10000e18')))
+
+    // Only 1e18 left to buy, after the 1% slippage of the first trade
+    const minBuyAmt = issueAmount.sub(issueAmount.div(100))
+    const sellAmtRSR = bn('1e18').mul(100).div(99).add(1)
+    expect(plan.trades.map((t) => [t.sell, t.buy, t.sellAmount, t.minBuyAmount])).to.eql([
+      [DAI, USDC, issueAmount.toString(), minBuyAmt.div(bn('1e12')).toString()],
+      [RSR, USDC, sellAmtRSR.toString(), bn('1e6').add(1).toString()],
+    ])
+    expect(plan.trades[1].rsrSeized).to.equal(sellAmtRSR.toString())
+    expect(plan.rsrSeized).to.equal(sellAmtRSR.toString())
+    expect(plan.outcome).to.equal('collateralized')
+    expect(plan.haircut).to.equal('0')
+  })
+
+  it('takes a haircut when switching basket without RSR', () => {
+    const snap = switchToUSDC(bn(0))
+    // 1% of slippage, and the dust of 2 assets at minTradeVolume
+    const minBuyAmt = issueAmount.sub(fp('0.02')).sub(issueAmount.div(100))
+    const sellAmt = minBuyAmt.mul(100).div(99).add(1)
+    expect(nextRecollateralizationTrade(snap)).to.eql({
+      sell: DAI,
+      buy: USDC,
+      sellAmount: sellAmt.toString(),
+      minBuyAmount: minBuyAmt.div(bn('1e12')).toString(),
+    })
+
+    const plan = planRecollateralization(snap)
+    expect(plan.trades.length).to.equal(1)
+    expect(plan.rsrSeized).to.equal('0')
+    expect(plan.outcome).to.equal('haircut')
+    expect(plan.finalBasketsNeeded).to.equal(minBuyAmt.toString())
+    expect(plan.haircut).to.equal(fp('0.0102').toString())
+    // The DAI left over once collateralized again
+    expect(plan.surplus).to.eql([{ erc20: DAI, amount: issueAmount.sub(sellAmt).toString() }])
+  })
+
+  it('sells defaulted collateral in auctions of maxTradeVolume, then RSR', () => {
+    const snap = snapshot(
+      [
+        asset(DAI, 'DAI', {
+          status: 'DISABLED',
+          price: fp('0.5').toString(),
+          maxTradeVolume: fp('25').toString(),
+          balance: issueAmount.toString(),
+        }),
+        asset(USDT, 'USDT', { quantity: fp('1').toString() }),
+      ],
+      bn('10000e18')
+    )
+
+    const plan = planRecollateralization(snap, { fill: 'oracle' })
+    const sellAmt = issueAmount.div(2)
+    const sellAmtRSR = sellAmt.mul(100).div(99).add(1)
+    expect(plan.trades.map((t) => [t.sell, t.sellAmount, t.minBuyAmount, t.boughtAmount])).to.eql([
+      // Defaulted collateral sells at any price
+      [DAI, sellAmt.toString(), '0', sellAmt.div(2).toString()],
+      [DAI, sellAmt.toString(), '0', sellAmt.div(2).toString()],
+      [RSR, sellAmtRSR.toString(), sellAmt.toString(), sellAmtRSR.toString()],
+    ])
+    expect(plan.rsrSeized).to.equal(sellAmtRSR.toString())
+    expect(plan.outcome).to.equal('collateralized')
+
+    // In the worst case, the defaulted collateral sells at its price less maxTradeSlippage
+    const worst = planRecollateralization(snap)
+    expect(worst.trades[0].boughtAmount).to.equal(fp('24.75').toString())
+    expect(BigNumber.from(worst.rsrSeized).gt(plan.rsrSeized)).to.equal(true)
+  })
+
+  it('does not trade while the basket is not sound, or past maxRounds', () => {
+    const snap = switchToUSDC(bn('10000e18'))
+    const plan = planRecollateralization({ ...snap, basketStatus: 'IFFY' })
+    expect(plan.outcome).to.equal('basket not sound')
+    expect(plan.trades).to.eql([])
+    expect(plan.finalBasketsNeeded).to.equal(snap.basketsNeeded)
+
+    const unfinished = planRecollateralization(snap, { maxRounds: 1 })
+    expect(unfinished.outcome).to.equal('unfinished')
+    expect(unfinished.trades.length).to.equal(1)
+  })
+})
@@ -0,0 +1,115 @@
+import { expect } from 'chai'
+import { BigNumber } from 'ethers'
+import { bn, fp } from '../../common/numbers'
+import {
+  blocksToCharge,
+  currentCharge,
+  discharge,
+  forecastCapacity,
+  IBattery,
+  maxCharge,
+} from '../../common/redemption-battery'
+
+// The scenarios of "And redemption throttling" in RToken.test.ts
+describe('Redemption battery model', () => {
+  const supply = bn('100e18')
+
+  // The fixture's scaling rate, with a floor of 1% of the supply, last discharged at block 1000
+  const battery = (fields: Partial<IBattery> = {}): IBattery => ({
+    redemptionRateFloor: supply.div(100),
+    scalingRedemptionRate: fp('0.05'),
+    lastBlock: 1000,
+    lastCharge: bn(0),
+    ...fields,
+  })
+
+  it('charges block by block, up to an hour of charging', () => {
+    const b = battery()
+    expect(maxCharge(b, supply)).to.equal(fp('5'))
+    expect(currentCharge(b, supply, 1000)).to.equal(0)
+    expect(currentCharge(b, supply, 1001)).to.equal(fp('5').div(300))
+    expect(currentCharge(b, supply, 1150)).to.equal(fp('2.5'))
+    expect(currentCharge(b, supply, 1300)).to.equal(fp('5'))
+    expect(currentCharge(b, supply, 5000)).to.equal(fp('5'))
+
+    // The floor applies below 20x the floor, and the supply caps it
+    const floored = battery({ redemptionRateFloor: fp('10') })
+    expect(currentCharge(floored, supply, 1300)).to.equal(fp('10'))
+    const capped = battery({ redemptionRateFloor: fp('1e6') })
+    expect(currentCharge(capped, supply, 1300)).to.equal(supply)
+  })
+
+  it('discharges by the amounts redeemed, and throws on overly-large redemptions', () => {
+    const b = battery()
+    expect(() => discharge(b, supply, fp('5').add(1), 1300)).to.throw(
+      'redemption battery insufficient'
+    )
+    expect(b.lastBlock).to.equal(1000)
+
+    discharge(b, supply, fp('2.5'), 1300)
+    discharge(b, supply.sub(fp('2.5')), fp('2.5'), 1300)
+    expect(b.lastBlock).to.equal(1300)
+    expect(b.lastCharge).to.equal(0)
+    expect(() => discharge(b, supply.sub(fp('5')), fp('0.05'), 1300)).to.throw(
+      'redemption battery insufficient'
+    )
+
+    // Without throttling nothing changes, and there is no charge
+    const unthrottled = battery({ redemptionRateFloor: bn(0), scalingRedemptionRate: bn(0) })
+    discharge(unthrottled, supply, supply, 1300)
+    expect(unthrottled.lastBlock).to.equal(1000)
+    expect(currentCharge(unthrottled, supply, 1300)).to.equal(0)
+  })
+
+  it('scales down the supply with geometric redemptions', () => {
+    const b = battery({ redemptionRateFloor: fp('1') })
+    let remaining: BigNumber = supply
+    let block = 1000
+    let iterations = 0
+    while (!remaining.isZero()) {
+      block += 300
+      const amount = currentCharge(b, remaining, block)
+      discharge(b, remaining, amount, block)
+      remaining = remaining.sub(amount)
+      iterations++
+    }
+    expect(iterations).to.be.lessThan(53)
+  })
+
+  it('finds the first block an amount can be redeemed at', () => {
+    const b = battery({ lastCharge: fp('1') })
+    for (const amount of [fp('1'), fp('1').add(1), fp('3'), fp('4.99'), fp('5')]) {
+      const blocks = <number>blocksToCharge(b, supply, 1000, amount)
+      expect(currentCharge(b, supply, 1000 + blocks).gte(amount)).to.equal(true)
+      if (blocks > 0) expect(currentCharge(b, supply, 999 + blocks).lt(amount)).to.equal(true)
+    }
+    expect(blocksToCharge(b, supply, 1000, fp('3'))).to.equal(120)
+    expect(blocksToCharge(b, supply, 1100, fp('3'))).to.equal(20)
+    expect(blocksToCharge(b, supply, 1000, fp('5').add(1))).to.equal(undefined)
+
+    const unthrottled = battery({ redemptionRateFloor: bn(0), scalingRedemptionRate: bn(0) })
+    expect(blocksToCharge(unthrottled, supply, 1000, supply)).to.equal(0)
+    expect(blocksToCharge(unthrottled, supply, 1000, supply.add(1))).to.equal(undefined)
+  })
+
+  it('forecasts the capacity over time', () => {
+    const forecast = forecastCapacity(battery(), supply, 1000, [0, 30, 60, 90], fp('4'))
+    expect(forecast.maxCharge).to.equal('5.0')
+    expect(forecast.points).to.eql([
+      { minutes: 0, block: 1000, capacity: '0.0' },
+      { minutes: 30, block: 1150, capacity: '2.5' },
+      { minutes: 60, block: 1300, capacity: '5.0' },
+      { minutes: 90, block: 1450, capacity: '5.0' },
+    ])
+    expect(forecast.amount).to.eql({ amount: '4.0', minutes: 48, block: 1240 })
+
+    const unthrottled = forecastCapacity(
+      battery({ redemptionRateFloor: bn(0), scalingRedemptionRate: bn(0) }),
+      supply,
+      1000,
+      [0]
+    )
+    expect(unthrottled.throttled).to.equal(false)
+    expect(unthrottled.points[0].capacity).to.equal('100.0')
+  })
+})
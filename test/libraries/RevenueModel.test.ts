@@ -0,0 +1,153 @@
+import { expect } from 'chai'
+import { BigNumber } from 'ethers'
+import { bn, fp } from '../../common/numbers'
+import {
+  formatRevenueCSV,
+  IRevenueConfig,
+  IRevenueScenario,
+  simulateRevenue,
+} from '../../common/revenue'
+import { makeDecayFn } from '../utils/rewards'
+
+describe('Revenue model', () => {
+  const WEEK = 7 * 24 * 60 * 60
+
+  // The fixture's configuration
+  const config: IRevenueConfig = {
+    dist: { rTokenDist: bn(40), rsrDist: bn(60) },
+    rewardPeriod: bn(WEEK),
+    rewardRatio: fp('0.02284'),
+    minTradeVolume: fp('1e-2'),
+    rTokenMaxTradeVolume: fp('1e6'),
+    maxTradeSlippage: fp('0.01'),
+    backingBuffer: fp('0.0001'),
+  }
+
+  const scenario = (apy: number, fields: Partial<IRevenueScenario> = {}): IRevenueScenario => ({
+    rTokenSupply: '1e6',
+    rsrStaked: '1e8',
+    rsrPrice: '0.01',
+    collateral: [{ symbol: 'aDAI', refAmt: '1', yieldCurve: [{ day: 0, apy }] }],
+    ...fields,
+  })
+
+  // {qTok} of an amount in whole units
+  const q = (x: string): BigNumber => fp(x)
+
+  it('hands out the revenue by the distribution', () => {
+    const [first] = simulateRevenue(scenario(0.05), config, { days: 7 })
+    const minted = q(first.minted)
+    expect(minted.gt(0)).to.equal(true)
+    expect(q(first.rTokenSupply)).to.equal(fp('1e6').add(minted))
+
+    // The Furnace's share is sent on at once, and the RSR trader's sold for RSR
+    expect(q(first.furnaceBalance)).to.equal(minted.div(100).mul(40))
+    const rsrBought = Number(first.rsrRewards)
+    const expected = (Number(first.minted) * 0.6 * Number(first.rTokenPrice)) / 0.01
+    expect(Math.abs(rsrBought / expected - 1)).to.be.lessThan(1e-9)
+
+    // Neither pays out in the period the revenue arrives
+    expect(first.melted).to.equal('0')
+    expect(first.rsrPaid).to.equal('0')
+  })
+
+  // Small enough amounts for makeDecayFn
+  const small = scenario(0.05, { rTokenSupply: '1000', rsrStaked: '1e5', rsrPrice: '1' })
+
+  it('melts and pays out a period of revenue as makeDecayFn', () => {
+    const points = simulateRevenue(small, config, { days: 21 })
+    expect(points.map((p) => p.day)).to.eql([7, 14, 21])
+
+    // The revenue of the first week is paid out from the end of the second one
+    expect(points[1].melted).to.equal('0')
+    expect(points[1].rsrPaid).to.equal('0')
+
+    const decayFn = makeDecayFn(config.rewardRatio)
+    const furnaceBal = q(points[0].furnaceBalance)
+    const melted = furnaceBal.sub(decayFn(furnaceBal, 1))
+    expect(q(points[2].melted).sub(melted).abs().lte(1)).to.equal(true)
+
+    const rsrRewards = q(points[0].rsrRewards)
+    const paid = rsrRewards.sub(decayFn(rsrRewards, 1))
+    expect(q(points[2].rsrPaid).sub(paid).abs().lte(1)).to.equal(true)
+
+    // The exchange rate of stRSR, as in ZZStRSR.test.ts
+    const stake = fp('1e5')
+    const newRate = fp(stake.add(q(points[2].rsrPaid))).div(stake)
+    expect(q(points[2].stRSRRate).sub(newRate).abs().lte(1)).to.equal(true)
+  })
+
+  it('pays out several periods at once when stepping over them', () => {
+    const everyTwoWeeks = simulateRevenue(small, config, { days: 42, step: 2 * WEEK })
+    expect(everyTwoWeeks.length).to.equal(3)
+
+    // The revenue of the first step is melted 2 periods at once, in the third
+    const decayFn = makeDecayFn(config.rewardRatio)
+    const furnaceBal = q(everyTwoWeeks[0].furnaceBalance)
+    const melted = furnaceBal.sub(decayFn(furnaceBal, 2))
+    expect(everyTwoWeeks[1].melted).to.equal('0')
+    expect(q(everyTwoWeeks[2].melted).sub(melted).abs().lte(2)).to.equal(true)
+  })
+
+  it('grows the RToken price and the stRSR rate with the collateral', () => {
+    const points = simulateRevenue(scenario(0.05), config, { days: 365 })
+    const last = points[points.length - 1]
+    expect(last.day).to.equal(364)
+    expect(Number(last.refPerTok.aDAI)).to.be.closeTo(1.05, 0.001)
+
+    // 2/5 of the yield goes to RToken holders, but the Furnace melts it over months
+    expect(last.rTokenAPY).to.be.greaterThan(0)
+    expect(last.rTokenAPY).to.be.lessThan(0.02)
+    expect(last.stRSRAPY).to.be.greaterThan(0)
+    points.slice(1).forEach((p, i) => {
+      expect(Number(p.rTokenPrice)).to.be.gte(Number(points[i].rTokenPrice))
+      expect(Number(p.stRSRRate)).to.be.gte(Number(points[i].stRSRRate))
+    })
+
+    // All of the yield, with no RSR distribution
+    const allRToken = simulateRevenue(
+      scenario(0.05),
+      { ...config, dist: { rTokenDist: bn(1), rsrDist: bn(0) } },
+      { days: 365 }
+    )
+    expect(allRToken[allRToken.length - 1].rTokenAPY).to.be.greaterThan(last.rTokenAPY * 2)
+    expect(allRToken[allRToken.length - 1].stRSRAPY).to.equal(0)
+  })
+
+  it('follows the yield curve, and loses the slippage in auctions', () => {
+    const flat = simulateRevenue(
+      scenario(0.05, {
+        collateral: [
+          {
+            symbol: 'aDAI',
+            refAmt: '1',
+            yieldCurve: [
+              { day: 0, apy: 0.05 },
+              { day: 14, apy: 0 },
+            ],
+          },
+        ],
+      }),
+      config,
+      { days: 28 }
+    )
+    expect(flat[2].refPerTok.aDAI).to.equal(flat[3].refPerTok.aDAI)
+    expect(flat[3].minted).to.equal('0')
+
+    const base = simulateRevenue(scenario(0.05), config, { days: 7 })[0]
+    const slipped = simulateRevenue(scenario(0.05, { slippage: '0.01' }), config, { days: 7 })[0]
+    expect(Number(slipped.rsrRewards)).to.be.closeTo(Number(base.rsrRewards) * 0.99, 1e-6)
+    expect(() =>
+      simulateRevenue(scenario(0.05, { slippage: '0.02' }), config, { days: 7 })
+    ).to.throw('The slippage is beyond maxTradeSlippage, so auctions would not clear')
+  })
+
+  it('formats the time series as CSV', () => {
+    const points = simulateRevenue(scenario(0.05), config, { days: 14 })
+    const lines = formatRevenueCSV(points).split('\n')
+    expect(lines.length).to.equal(3)
+    expect(lines[0].split(',')[0]).to.equal('day')
+    expect(lines[0].endsWith('aDAI refPerTok')).to.equal(true)
+    expect(lines[1].split(',').length).to.equal(lines[0].split(',').length)
+  })
+})
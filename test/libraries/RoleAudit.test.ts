@@ -0,0 +1,81 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import { LONG_FREEZER, OWNER, PAUSER, SHORT_FREEZER } from '../../common/constants'
+import {
+  findRoleWarnings,
+  IRoleAudit,
+  PROPOSER_ROLE,
+  replayRoleEvents,
+  TIMELOCK_ADMIN_ROLE,
+} from '../../common/roles'
+
+const addr = (n: number) => ethers.utils.getAddress(`0x${n.toString(16).padStart(40, '0')}`)
+
+describe('role audit', () => {
+  const deployer = addr(0xd)
+  const timelock = addr(0x71)
+  const guardian = addr(0x6)
+
+  let audit: IRoleAudit
+
+  beforeEach(() => {
+    audit = {
+      main: {
+        [OWNER]: [timelock],
+        [SHORT_FREEZER]: [timelock, guardian],
+        [LONG_FREEZER]: [timelock],
+        [PAUSER]: [timelock, guardian],
+      },
+      timelock: {
+        [TIMELOCK_ADMIN_ROLE]: [timelock],
+        [PROPOSER_ROLE]: [addr(0x60)],
+      },
+      timelockAddr: timelock,
+      deployer,
+      eoas: [deployer, guardian],
+      longFreezes: { [timelock]: 6 },
+    }
+  })
+
+  it('replays grants and revocations in order', () => {
+    const holders = replayRoleEvents([
+      { event: 'RoleGranted', role: OWNER, account: deployer.toLowerCase() },
+      { event: 'RoleGranted', role: PAUSER, account: deployer },
+      { event: 'RoleGranted', role: OWNER, account: timelock },
+      { event: 'RoleGranted', role: OWNER, account: deployer },
+      { event: 'RoleRevoked', role: OWNER, account: deployer },
+      { event: 'RoleRevoked', role: PAUSER, account: deployer },
+      { event: 'RoleGranted', role: PAUSER, account: guardian },
+    ])
+    expect(holders).to.eql({ [OWNER]: [timelock], [PAUSER]: [guardian] })
+  })
+
+  it('finds no warnings once governance holds every role', () => {
+    expect(findRoleWarnings(audit)).to.eql([])
+  })
+
+  it('flags dangerous states', () => {
+    audit.main[OWNER] = [deployer, guardian]
+    audit.main[PAUSER] = []
+    audit.timelock = { [TIMELOCK_ADMIN_ROLE]: [timelock, deployer] }
+    audit.longFreezes = { [timelock]: 6, [guardian]: 6 }
+
+    expect(findRoleWarnings(audit)).to.eql([
+      `The deployer ${deployer} is still OWNER`,
+      `The EOA ${guardian} is OWNER`,
+      'Nobody is PAUSER',
+      `Governance does not hold OWNER: ${timelock} is not OWNER`,
+      `${deployer} can bypass governance: it holds TIMELOCK_ADMIN_ROLE`,
+      `${guardian} has 6 long-freeze charges remaining`,
+    ])
+  })
+
+  it('flags a missing governance', () => {
+    audit.timelock = undefined
+    audit.timelockAddr = undefined
+    expect(findRoleWarnings(audit)).to.eql([
+      'No governance: the RToken has no TimelockController',
+      `${timelock} has 6 long-freeze charges remaining`,
+    ])
+  })
+})
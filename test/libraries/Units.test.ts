@@ -0,0 +1,73 @@
+import { expect } from 'chai'
+import { RoundingMode } from '../../common/constants'
+import { bn, fp } from '../../common/numbers'
+import {
+  divide,
+  fpq,
+  mul,
+  plus,
+  quantity,
+  RefPerTok,
+  TargetPerRef,
+  TargetPerTok,
+  Tok,
+  toQTok,
+  toTok,
+  UoA,
+  UoAPerTok,
+} from '../../common/units'
+
+describe('units', () => {
+  const refPerTok: RefPerTok = fpq('0.02')
+  const targetPerRef: TargetPerRef = fpq('1')
+
+  it('multiplies in either order', () => {
+    const targetPerTok: TargetPerTok = mul(refPerTok, targetPerRef)
+    expect(targetPerTok).to.equal(fp('0.02'))
+    expect(mul(targetPerRef, refPerTok)).to.equal(targetPerTok)
+  })
+
+  it('divides, rounding as asked', () => {
+    const value: UoA = fpq('1')
+    const amt: Tok = fpq('3')
+    const price: UoAPerTok = divide(value, amt)
+    expect(price).to.equal(bn('333333333333333333'))
+    expect(divide(value, amt, RoundingMode.CEIL)).to.equal(bn('333333333333333334'))
+
+    const back: Tok = divide(value, quantity<'UoA/tok'>(fp('0.5')))
+    expect(back).to.equal(fp('2'))
+  })
+
+  it('adds quantities of the same unit', () => {
+    expect(plus(refPerTok, refPerTok)).to.equal(fp('0.04'))
+  })
+
+  it('converts between {tok} and {qTok} by decimals', () => {
+    const amt: Tok = fpq('1.2345678')
+    expect(toQTok(amt, 6)).to.equal(bn('1234567'))
+    expect(toTok(toQTok(amt, 6), 6)).to.equal(fp('1.234567'))
+    expect(toQTok(amt, 18)).to.equal(amt)
+  })
+
+  // Each of these fails to type-check, which is the point of the units. `hardhat test` only
+  // transpiles, so `yarn test:types` is what checks that the errors are still there
+  it('rejects mismatched units', () => {
+    const value: UoA = fpq('1')
+
+    // @ts-expect-error {ref/tok} + {target/ref}
+    plus(refPerTok, targetPerRef)
+
+    // @ts-expect-error {UoA} where {tok} is expected
+    toQTok(value, 6)
+
+    // @ts-expect-error {ref/tok} * {target/ref} is {target/tok}, not {UoA/tok}
+    const price: UoAPerTok = mul(refPerTok, targetPerRef)
+    expect(price).to.equal(fp('0.02'))
+
+    // @ts-expect-error {ref/tok} * {ref/tok} has no unit
+    mul(refPerTok, refPerTok)
+
+    // @ts-expect-error a plain BigNumber has no unit
+    plus(refPerTok, fp('1'))
+  })
+})
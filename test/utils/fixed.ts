@@ -0,0 +1,28 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+
+const panic = (code: number) =>
+  new ethers.utils.Interface(['function Panic(uint256)']).encodeFunctionData('Panic', [code])
+
+// The revert data of FixLib for each kind of error that common/fixed.ts throws
+const REVERT_DATA: { [kind: string]: string } = {
+  UIntOutOfBounds: ethers.utils.id('UIntOutOfBounds()').slice(0, 10),
+  overflow: panic(0x11),
+  'division by zero': panic(0x12),
+  'x > FIX_ONE': '0x', // a require() without a reason
+}
+
+// Expects `call` to revert as FixLib does where common/fixed.ts threw `error`
+export const expectRevertAsFix = async (call: Promise<unknown>, error: unknown, label: string) => {
+  const kind = error instanceof Error ? error.message : `${error}`
+  expect(kind, `${label}: unexpected error from Fix`).to.be.oneOf(Object.keys(REVERT_DATA))
+
+  let data: string | undefined
+  try {
+    await call
+  } catch (e) {
+    // ethers attaches the revert data to the CALL_EXCEPTION it throws
+    data = (<{ data?: string }>e).data ?? ''
+  }
+  expect(data, `${label} should revert with ${kind}`).to.equal(REVERT_DATA[kind])
+}
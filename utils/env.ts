@@ -17,6 +17,8 @@ type IEnvVars =
   | 'MAINNET_BLOCK'
   | 'ONLY_FAST'
   | 'JOBS'
+  | 'DEPLOYMENT_GAS'
+  | 'RTOKEN'
 
 export function useEnv(key: IEnvVars | IEnvVars[], _default = ''): string {
   if (typeof key === 'string') {